@@ -0,0 +1,258 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { formatCoupon, normalizeCouponCode } from '@/lib/coupons'
+import { z } from 'zod'
+
+const updateCouponSchema = z.object({
+  code: z.string().min(3).max(32).regex(/^[A-Za-z0-9_-]+$/, 'Code may only contain letters, numbers, dashes and underscores').optional(),
+  description: z.string().optional().nullable(),
+  type: z.enum(['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING']).optional(),
+  value: z.number().min(0).optional(),
+  minOrderValue: z.number().min(0).optional().nullable(),
+  usageLimit: z.number().int().positive().optional().nullable(),
+  perUserLimit: z.number().int().positive().optional().nullable(),
+  categoryIds: z.array(z.string()).optional(),
+  productIds: z.array(z.string()).optional(),
+  startsAt: z.coerce.date().optional().nullable(),
+  expiresAt: z.coerce.date().optional().nullable(),
+  isActive: z.boolean().optional(),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/admin/coupons/[id] - Get coupon with recent redemptions (Admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const coupon = await prisma.coupon.findUnique({
+      where: { id: resolvedParams.id },
+      include: {
+        redemptions: {
+          take: 50,
+          orderBy: { createdAt: 'desc' },
+          include: {
+            user: {
+              select: { id: true, firstName: true, lastName: true, email: true },
+            },
+            order: {
+              select: { id: true, orderNumber: true, status: true },
+            },
+          },
+        },
+      },
+    })
+
+    if (!coupon) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Coupon not found' },
+        { status: 404 }
+      ))
+    }
+
+    const response = NextResponse.json(
+      {
+        coupon: {
+          ...formatCoupon(coupon),
+          redemptions: coupon.redemptions.map((redemption) => ({
+            ...redemption,
+            amount: redemption.amount.toString(),
+          })),
+        },
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get coupon error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// PUT /api/admin/coupons/[id] - Update coupon (Admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = updateCouponSchema.parse(body)
+
+    const existingCoupon = await prisma.coupon.findUnique({
+      where: { id: resolvedParams.id },
+    })
+
+    if (!existingCoupon) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Coupon not found' },
+        { status: 404 }
+      ))
+    }
+
+    const type = data.type ?? existingCoupon.type
+    const value = data.value ?? Number(existingCoupon.value)
+    if (type === 'PERCENTAGE' && (value <= 0 || value > 100)) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Percentage coupons need a value between 0 and 100' },
+        { status: 400 }
+      ))
+    }
+    if (type === 'FIXED_AMOUNT' && value <= 0) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Fixed amount coupons need a value greater than 0' },
+        { status: 400 }
+      ))
+    }
+
+    const startsAt = data.startsAt !== undefined ? data.startsAt : existingCoupon.startsAt
+    const expiresAt = data.expiresAt !== undefined ? data.expiresAt : existingCoupon.expiresAt
+    if (startsAt && expiresAt && expiresAt <= startsAt) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Expiry date must be after the start date' },
+        { status: 400 }
+      ))
+    }
+
+    const coupon = await prisma.coupon.update({
+      where: { id: existingCoupon.id },
+      data: {
+        ...(data.code !== undefined && { code: normalizeCouponCode(data.code) }),
+        ...(data.description !== undefined && { description: data.description?.trim() || null }),
+        type,
+        value: type === 'FREE_SHIPPING' ? 0 : value,
+        ...(data.minOrderValue !== undefined && { minOrderValue: data.minOrderValue }),
+        ...(data.usageLimit !== undefined && { usageLimit: data.usageLimit }),
+        ...(data.perUserLimit !== undefined && { perUserLimit: data.perUserLimit }),
+        ...(data.categoryIds !== undefined && { categoryIds: data.categoryIds }),
+        ...(data.productIds !== undefined && { productIds: data.productIds }),
+        startsAt,
+        expiresAt,
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+      },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Coupon updated successfully',
+        coupon: formatCoupon(coupon),
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    if (error.code === 'P2002') {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'A coupon with this code already exists' },
+        { status: 409 }
+      ))
+    }
+
+    console.error('Update coupon error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// DELETE /api/admin/coupons/[id] - Delete an unused coupon (Admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const coupon = await prisma.coupon.findUnique({
+      where: { id: resolvedParams.id },
+    })
+
+    if (!coupon) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Coupon not found' },
+        { status: 404 }
+      ))
+    }
+
+    // Keep redemption history intact for coupons that have been used
+    if (coupon.usedCount > 0) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'This coupon has been redeemed and cannot be deleted. Deactivate it instead.' },
+        { status: 400 }
+      ))
+    }
+
+    await prisma.coupon.delete({
+      where: { id: coupon.id },
+    })
+
+    const response = NextResponse.json(
+      { message: 'Coupon deleted successfully' },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Delete coupon error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { formatCoupon, normalizeCouponCode } from '@/lib/coupons'
+import { z } from 'zod'
+
+const couponSchema = z.object({
+  code: z.string().min(3, 'Code must be at least 3 characters').max(32).regex(/^[A-Za-z0-9_-]+$/, 'Code may only contain letters, numbers, dashes and underscores'),
+  description: z.string().optional().nullable(),
+  type: z.enum(['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING']),
+  value: z.number().min(0, 'Value cannot be negative').default(0),
+  minOrderValue: z.number().min(0).optional().nullable(),
+  usageLimit: z.number().int().positive().optional().nullable(),
+  perUserLimit: z.number().int().positive().optional().nullable(),
+  categoryIds: z.array(z.string()).default([]),
+  productIds: z.array(z.string()).default([]),
+  startsAt: z.coerce.date().optional().nullable(),
+  expiresAt: z.coerce.date().optional().nullable(),
+  isActive: z.boolean().default(true),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/admin/coupons - List coupons (Admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const { searchParams } = new URL(request.url)
+    const search = searchParams.get('search')
+
+    const coupons = await prisma.coupon.findMany({
+      where: search ? { code: { contains: search, mode: 'insensitive' } } : {},
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const response = NextResponse.json(
+      { coupons: coupons.map(formatCoupon) },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get coupons error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// POST /api/admin/coupons - Create coupon (Admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = couponSchema.parse(body)
+
+    if (data.type === 'PERCENTAGE' && (data.value <= 0 || data.value > 100)) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Percentage coupons need a value between 0 and 100' },
+        { status: 400 }
+      ))
+    }
+    if (data.type === 'FIXED_AMOUNT' && data.value <= 0) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Fixed amount coupons need a value greater than 0' },
+        { status: 400 }
+      ))
+    }
+    if (data.startsAt && data.expiresAt && data.expiresAt <= data.startsAt) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Expiry date must be after the start date' },
+        { status: 400 }
+      ))
+    }
+
+    const coupon = await prisma.coupon.create({
+      data: {
+        code: normalizeCouponCode(data.code),
+        description: data.description?.trim() || null,
+        type: data.type,
+        value: data.type === 'FREE_SHIPPING' ? 0 : data.value,
+        minOrderValue: data.minOrderValue ?? null,
+        usageLimit: data.usageLimit ?? null,
+        perUserLimit: data.perUserLimit ?? null,
+        categoryIds: data.categoryIds,
+        productIds: data.productIds,
+        startsAt: data.startsAt ?? null,
+        expiresAt: data.expiresAt ?? null,
+        isActive: data.isActive,
+      },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Coupon created successfully',
+        coupon: formatCoupon(coupon),
+      },
+      { status: 201 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    if (error.code === 'P2002') {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'A coupon with this code already exists' },
+        { status: 409 }
+      ))
+    }
+
+    console.error('Create coupon error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
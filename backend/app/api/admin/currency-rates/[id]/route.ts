@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { z } from 'zod'
+
+const updateCurrencyRateSchema = z.object({
+  rate: z.number().positive('Rate must be greater than 0'),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// PUT /api/admin/currency-rates/[id] - Update an exchange rate (Admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = updateCurrencyRateSchema.parse(body)
+
+    const existingRate = await prisma.currencyRate.findUnique({
+      where: { id: resolvedParams.id },
+    })
+
+    if (!existingRate) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Exchange rate not found' },
+        { status: 404 }
+      ))
+    }
+
+    const rate = await prisma.currencyRate.update({
+      where: { id: existingRate.id },
+      data: { rate: data.rate, lastFetched: new Date() },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Exchange rate updated successfully',
+        rate,
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Update currency rate error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// DELETE /api/admin/currency-rates/[id] - Stop offering a currency (Admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const rate = await prisma.currencyRate.findUnique({
+      where: { id: resolvedParams.id },
+    })
+
+    if (!rate) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Exchange rate not found' },
+        { status: 404 }
+      ))
+    }
+
+    // Existing orders keep their locked rate, so removing the row is safe
+    await prisma.currencyRate.delete({
+      where: { id: rate.id },
+    })
+
+    const response = NextResponse.json(
+      { message: 'Exchange rate deleted successfully' },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Delete currency rate error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { BASE_CURRENCY, parseRateImport } from '@/lib/currency'
+import { z } from 'zod'
+
+const importSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  content: z.string().min(1, 'File is empty').max(1_000_000, 'File is too large'),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// POST /api/admin/currency-rates/import - Bulk upsert rates from a CSV or JSON file (Admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = importSchema.parse(body)
+    const { rates, errors } = parseRateImport(data.content, data.format)
+
+    // All or nothing: a half-applied rate file is harder to reason about than a rejected one
+    if (errors.length > 0) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Import failed', errors },
+        { status: 400 }
+      ))
+    }
+
+    const now = new Date()
+    await prisma.$transaction(
+      rates.map((rate) =>
+        prisma.currencyRate.upsert({
+          where: { base_target: { base: BASE_CURRENCY, target: rate.target } },
+          create: { base: BASE_CURRENCY, target: rate.target, rate: rate.rate, lastFetched: now },
+          update: { rate: rate.rate, lastFetched: now },
+        })
+      )
+    )
+
+    const response = NextResponse.json(
+      {
+        message: `Imported ${rates.length} exchange rate(s)`,
+        imported: rates.length,
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Import currency rates error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
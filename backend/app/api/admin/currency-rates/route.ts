@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { BASE_CURRENCY, normalizeCurrency } from '@/lib/currency'
+import { z } from 'zod'
+
+const currencyRateSchema = z.object({
+  target: z.string().regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter code'),
+  rate: z.number().positive('Rate must be greater than 0'),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/admin/currency-rates - List exchange rates (Admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const rates = await prisma.currencyRate.findMany({
+      where: { base: BASE_CURRENCY },
+      orderBy: { target: 'asc' },
+    })
+
+    const response = NextResponse.json(
+      { base: BASE_CURRENCY, rates },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get currency rates error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// POST /api/admin/currency-rates - Create or replace the rate for a currency (Admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = currencyRateSchema.parse(body)
+    const target = normalizeCurrency(data.target)
+
+    if (target === BASE_CURRENCY) {
+      return addCorsHeaders(NextResponse.json(
+        { error: `${BASE_CURRENCY} is the base currency and always has a rate of 1` },
+        { status: 400 }
+      ))
+    }
+
+    const rate = await prisma.currencyRate.upsert({
+      where: { base_target: { base: BASE_CURRENCY, target } },
+      create: { base: BASE_CURRENCY, target, rate: data.rate },
+      update: { rate: data.rate, lastFetched: new Date() },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Exchange rate saved successfully',
+        rate,
+      },
+      { status: 201 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Save currency rate error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
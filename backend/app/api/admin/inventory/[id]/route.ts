@@ -0,0 +1,303 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { recordStockMovement, lowStockProductIds, notifyLowStock } from '@/lib/inventory'
+import { formatVariantLabel } from '@/lib/variants'
+import { z } from 'zod'
+
+const stockMovementSchema = z.object({
+  variantId: z.string().optional(), // Required for products with variants
+  type: z.enum(['RECEIPT', 'ADJUSTMENT']),
+  quantity: z.number().int().refine((value) => value !== 0, 'Quantity cannot be zero'),
+  reason: z.string().min(1, 'A reason is required'),
+}).refine((data) => data.type !== 'RECEIPT' || data.quantity > 0, {
+  message: 'Received quantity must be positive',
+  path: ['quantity'],
+})
+
+const updateInventorySchema = z.object({
+  reorderPoint: z.number().int().min(0),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/admin/inventory/[id] - Product stock with its movement history (Admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '50') || 50))
+
+    const product = await prisma.product.findUnique({
+      where: { id: resolvedParams.id },
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        stock: true,
+        reorderPoint: true,
+        lowStockAlertedAt: true,
+      },
+    })
+
+    if (!product) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      ))
+    }
+
+    const [movements, total] = await Promise.all([
+      prisma.stockMovement.findMany({
+        where: { productId: product.id },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          order: {
+            select: { id: true, orderNumber: true },
+          },
+          variant: {
+            select: { id: true, sku: true, options: true },
+          },
+        },
+      }),
+      prisma.stockMovement.count({ where: { productId: product.id } }),
+    ])
+
+    // Movements keep only the user id, so look up the names in one query
+    const userIds = [...new Set(movements.flatMap((movement) => (movement.createdById ? [movement.createdById] : [])))]
+    const users = userIds.length > 0
+      ? await prisma.user.findMany({
+          where: { id: { in: userIds } },
+          select: { id: true, firstName: true, lastName: true, email: true },
+        })
+      : []
+    const usersById = new Map(users.map((user) => [user.id, user]))
+
+    const response = NextResponse.json(
+      {
+        product: {
+          ...product,
+          lowStock: product.stock <= product.reorderPoint,
+        },
+        movements: movements.map((movement) => ({
+          ...movement,
+          variant: movement.variant && { ...movement.variant, label: formatVariantLabel(movement.variant.options) },
+          createdBy: movement.createdById ? usersById.get(movement.createdById) ?? null : null,
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get stock history error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// POST /api/admin/inventory/[id] - Receive stock or record a manual adjustment (Admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = stockMovementSchema.parse(body)
+
+    const product = await prisma.product.findUnique({
+      where: { id: resolvedParams.id },
+      select: { id: true, variants: { select: { id: true } } },
+    })
+
+    if (!product) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      ))
+    }
+
+    // Products with variants keep their stock on the variants
+    if (product.variants.length > 0 && !data.variantId) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Choose the variant whose stock changed' },
+        { status: 400 }
+      ))
+    }
+    if (data.variantId && !product.variants.some((variant) => variant.id === data.variantId)) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Variant not found' },
+        { status: 404 }
+      ))
+    }
+
+    const result = await prisma.$transaction((tx) =>
+      recordStockMovement(tx, {
+        productId: product.id,
+        variantId: data.variantId ?? null,
+        type: data.type,
+        quantity: data.quantity,
+        reason: data.reason.trim(),
+        createdById: adminCheck.user!.id,
+      })
+    )
+
+    if (!result) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Adjustment would take stock below zero' },
+        { status: 400 }
+      ))
+    }
+
+    await notifyLowStock(lowStockProductIds([result]))
+
+    const response = NextResponse.json(
+      {
+        message: data.type === 'RECEIPT' ? 'Stock received successfully' : 'Stock adjusted successfully',
+        movement: result.movement,
+        stock: result.movement.stockAfter,
+      },
+      { status: 201 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Record stock movement error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// PUT /api/admin/inventory/[id] - Update the reorder point (Admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = updateInventorySchema.parse(body)
+
+    const product = await prisma.product.findUnique({
+      where: { id: resolvedParams.id },
+      select: { id: true, stock: true },
+    })
+
+    if (!product) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      ))
+    }
+
+    const updated = await prisma.product.update({
+      where: { id: product.id },
+      data: {
+        reorderPoint: data.reorderPoint,
+        // Re-arm the alert once stock is above the new threshold
+        ...(product.stock > data.reorderPoint && { lowStockAlertedAt: null }),
+      },
+      select: { id: true, stock: true, reorderPoint: true, lowStockAlertedAt: true },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Reorder point updated successfully',
+        product: {
+          ...updated,
+          lowStock: updated.stock <= updated.reorderPoint,
+        },
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Update reorder point error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
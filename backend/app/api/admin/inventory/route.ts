@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { formatVariantLabel } from '@/lib/variants'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/admin/inventory - Stock levels and reorder points (Admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '25') || 25))
+    const search = searchParams.get('search')?.trim()
+    const lowStockOnly = searchParams.get('lowStock') === 'true'
+    const skip = (page - 1) * limit
+
+    // Archived products aren't restocked, so they don't count as low
+    const lowStockWhere: Prisma.ProductWhereInput = {
+      stock: { lte: prisma.product.fields.reorderPoint },
+      status: { not: 'ARCHIVED' },
+    }
+    const where: Prisma.ProductWhereInput = {
+      ...(search && { title: { contains: search, mode: 'insensitive' } }),
+      ...(lowStockOnly && lowStockWhere),
+    }
+
+    const [products, total, lowStockCount] = await Promise.all([
+      prisma.product.findMany({
+        where,
+        skip,
+        take: limit,
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          images: true,
+          stock: true,
+          reorderPoint: true,
+          lowStockAlertedAt: true,
+          updatedAt: true,
+          variants: {
+            // Archived variants only while returns have left stock on them to write off
+            where: { OR: [{ archivedAt: null }, { stock: { gt: 0 } }] },
+            select: { id: true, sku: true, options: true, stock: true, archivedAt: true },
+            orderBy: { position: 'asc' },
+          },
+        },
+        orderBy: lowStockOnly ? { stock: 'asc' } : { title: 'asc' },
+      }),
+      prisma.product.count({ where }),
+      prisma.product.count({ where: lowStockWhere }),
+    ])
+
+    const response = NextResponse.json(
+      {
+        products: products.map((product) => ({
+          ...product,
+          images: product.images || [],
+          variants: product.variants.map((variant) => ({ ...variant, label: formatVariantLabel(variant.options) })),
+          lowStock: product.stock <= product.reorderPoint,
+        })),
+        lowStockCount,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get inventory error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
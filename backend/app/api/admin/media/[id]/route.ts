@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { deleteMediaAsset, findMediaUsages, formatMediaAsset, getAssetUrls, normalizeTags } from '@/lib/media'
+import { z } from 'zod'
+
+const updateMediaSchema = z.object({
+  filename: z.string().min(1).max(255).optional(),
+  altText: z.string().max(500).nullable().optional(),
+  tags: z.array(z.string().max(50)).max(30).optional(),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/admin/media/[id] - Asset with the places it is used (Admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const asset = await prisma.mediaAsset.findUnique({
+      where: { id: resolvedParams.id },
+    })
+
+    if (!asset) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Media asset not found' },
+        { status: 404 }
+      ))
+    }
+
+    const usages = await findMediaUsages(getAssetUrls(asset))
+
+    const response = NextResponse.json(
+      {
+        asset: formatMediaAsset(asset, usages.length),
+        usages,
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get media asset error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// PUT /api/admin/media/[id] - Update name, alt text and tags (Admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = updateMediaSchema.parse(body)
+
+    const existing = await prisma.mediaAsset.findUnique({
+      where: { id: resolvedParams.id },
+      select: { id: true },
+    })
+
+    if (!existing) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Media asset not found' },
+        { status: 404 }
+      ))
+    }
+
+    const asset = await prisma.mediaAsset.update({
+      where: { id: existing.id },
+      data: {
+        ...(data.filename !== undefined && { filename: data.filename.trim() }),
+        ...(data.altText !== undefined && { altText: data.altText?.trim() || null }),
+        ...(data.tags !== undefined && { tags: normalizeTags(data.tags) }),
+      },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Media asset updated successfully',
+        asset: formatMediaAsset(asset),
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Update media asset error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// DELETE /api/admin/media/[id] - Delete an unused asset and its files (Admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const asset = await prisma.mediaAsset.findUnique({
+      where: { id: resolvedParams.id },
+    })
+
+    if (!asset) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Media asset not found' },
+        { status: 404 }
+      ))
+    }
+
+    const usages = await findMediaUsages(getAssetUrls(asset))
+    if (usages.length > 0) {
+      return addCorsHeaders(NextResponse.json(
+        {
+          error: `This image is used in ${usages.length} place${usages.length === 1 ? '' : 's'}. Remove it there before deleting it.`,
+          usages,
+        },
+        { status: 409 }
+      ))
+    }
+
+    await deleteMediaAsset(asset)
+
+    const response = NextResponse.json(
+      { message: 'Media asset deleted successfully' },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Delete media asset error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
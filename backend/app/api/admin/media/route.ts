@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { countMediaUsages, formatMediaAsset, getAssetUrls, listMediaTags } from '@/lib/media'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/admin/media - Search the media library (Admin only)
+// Uploads go through POST /api/uploads, which registers admin images here.
+export async function GET(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '24') || 24))
+    const search = searchParams.get('search')?.trim()
+    const tag = searchParams.get('tag')?.trim().toLowerCase()
+    const folder = searchParams.get('folder')?.trim()
+    const skip = (page - 1) * limit
+
+    const where: Prisma.MediaAssetWhereInput = {
+      ...(search && {
+        OR: [
+          { filename: { contains: search, mode: 'insensitive' } },
+          { altText: { contains: search, mode: 'insensitive' } },
+          { tags: { has: search.toLowerCase() } },
+        ],
+      }),
+      ...(tag && { tags: { has: tag } }),
+      ...(folder && { folder }),
+    }
+
+    const [assets, total, tags] = await Promise.all([
+      prisma.mediaAsset.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.mediaAsset.count({ where }),
+      listMediaTags(),
+    ])
+
+    const usageCounts = await countMediaUsages(assets.map(getAssetUrls))
+
+    const response = NextResponse.json(
+      {
+        assets: assets.map((asset, index) => formatMediaAsset(asset, usageCounts[index])),
+        tags,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get media error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
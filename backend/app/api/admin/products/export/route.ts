@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { parseCatalogQuery, searchCatalog } from '@/lib/catalog'
+import { writeSheet, SHEET_CONTENT_TYPES, SheetFormat } from '@/lib/spreadsheets'
+import { buildProductSheet, MAX_IMPORT_ROWS } from '@/lib/productSheets'
+import { parseProductStatuses } from '@/lib/products'
+
+export const dynamic = 'force-dynamic'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/admin/products/export - Download products as CSV or XLSX in the import layout (Admin only)
+// format=csv (default) or xlsx; takes the same filters, search and sort as GET /api/products.
+// status narrows to draft, active or archived products; every status is exported by default.
+export async function GET(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const { searchParams } = new URL(request.url)
+    const format: SheetFormat = searchParams.get('format') === 'xlsx' ? 'xlsx' : 'csv'
+
+    const query = parseCatalogQuery(searchParams)
+    query.statuses = parseProductStatuses(searchParams.get('status') || 'all')
+
+    const catalog = await searchCatalog(query, { skip: 0, take: MAX_IMPORT_ROWS })
+    const sheet = await buildProductSheet(catalog.ids)
+    const body = await writeSheet(sheet, format, 'Products')
+
+    const filename = `products-${new Date().toISOString().slice(0, 10)}.${format}`
+    const response = new NextResponse(new Uint8Array(body), {
+      status: 200,
+      headers: {
+        'Content-Type': SHEET_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+        'Access-Control-Expose-Headers': 'Content-Disposition',
+      },
+    })
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Export products error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
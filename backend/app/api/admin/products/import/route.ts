@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { readSheet, getSheetFormat, SpreadsheetError } from '@/lib/spreadsheets'
+import { planProductImport, describeImport, applyProductImport } from '@/lib/productSheets'
+
+export const dynamic = 'force-dynamic'
+
+// Sheets above this are rejected before parsing
+const MAX_IMPORT_BYTES = 10 * 1024 * 1024
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// POST /api/admin/products/import - Create or update products from a CSV or XLSX sheet (Admin only)
+// multipart/form-data: file, dryRun ("true" validates and reports without saving).
+// Nothing is saved while any row has errors; the report lists them by sheet row.
+export async function POST(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    let formData: FormData
+    try {
+      formData = await request.formData()
+    } catch {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Expected a multipart/form-data body' },
+        { status: 400 }
+      ))
+    }
+
+    const file = formData.get('file')
+    if (!file || typeof file === 'string') {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'No file uploaded. Send the sheet in the "file" field' },
+        { status: 400 }
+      ))
+    }
+
+    const format = getSheetFormat(file.name)
+    if (!format) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Unsupported file type. Upload a .csv or .xlsx file' },
+        { status: 415 }
+      ))
+    }
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      return addCorsHeaders(NextResponse.json(
+        { error: `File is too large. Maximum size is ${MAX_IMPORT_BYTES / 1024 / 1024}MB` },
+        { status: 413 }
+      ))
+    }
+
+    const sheet = await readSheet(Buffer.from(await file.arrayBuffer()), format)
+    const plan = await planProductImport(sheet)
+    const report = describeImport(plan)
+
+    if (formData.get('dryRun') === 'true') {
+      return addCorsHeaders(NextResponse.json({ report }, { status: 200 }))
+    }
+
+    if (plan.errors.length > 0) {
+      return addCorsHeaders(NextResponse.json(
+        { error: `Import failed: ${plan.errors.length} row error(s)`, report },
+        { status: 400 }
+      ))
+    }
+
+    const result = await applyProductImport(plan.products, adminCheck.user!.id)
+
+    const response = NextResponse.json(
+      {
+        message: `Imported ${result.created + result.updated} product(s): ${result.created} created, ${result.updated} updated${result.failed ? `, ${result.failed} failed` : ''}`,
+        report: result,
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof SpreadsheetError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      ))
+    }
+
+    console.error('Import products error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
@@ -0,0 +1,222 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { formatPromotion, getPromotionRejection } from '@/lib/promotions'
+import { z } from 'zod'
+
+const updatePromotionSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().optional().nullable(),
+  type: z.enum(['PERCENTAGE', 'FIXED_AMOUNT']).optional(),
+  value: z.number().positive('Value must be greater than 0').optional(),
+  productIds: z.array(z.string()).optional(),
+  categoryIds: z.array(z.string()).optional(),
+  bannerImage: z.string().optional().nullable(),
+  startsAt: z.coerce.date().optional(),
+  endsAt: z.coerce.date().optional(),
+  isActive: z.boolean().optional(),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/admin/promotions/[id] - Get promotion (Admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const promotion = await prisma.promotion.findUnique({
+      where: { id: resolvedParams.id },
+      include: { _count: { select: { orderItems: true } } },
+    })
+
+    if (!promotion) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Promotion not found' },
+        { status: 404 }
+      ))
+    }
+
+    const { _count, ...rest } = promotion
+    const response = NextResponse.json(
+      {
+        promotion: {
+          ...formatPromotion(rest),
+          orderItemCount: _count.orderItems,
+        },
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get promotion error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// PUT /api/admin/promotions/[id] - Update promotion (Admin only)
+// Orders already placed keep the prices they were charged.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = updatePromotionSchema.parse(body)
+
+    const existingPromotion = await prisma.promotion.findUnique({
+      where: { id: resolvedParams.id },
+    })
+
+    if (!existingPromotion) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Promotion not found' },
+        { status: 404 }
+      ))
+    }
+
+    const type = data.type ?? existingPromotion.type
+    const value = data.value ?? Number(existingPromotion.value)
+    const startsAt = data.startsAt ?? existingPromotion.startsAt
+    const endsAt = data.endsAt ?? existingPromotion.endsAt
+    const rejection = getPromotionRejection({ type, value, startsAt, endsAt })
+    if (rejection) {
+      return addCorsHeaders(NextResponse.json(
+        { error: rejection },
+        { status: 400 }
+      ))
+    }
+
+    const promotion = await prisma.promotion.update({
+      where: { id: existingPromotion.id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.description !== undefined && { description: data.description?.trim() || null }),
+        type,
+        value,
+        ...(data.productIds !== undefined && { productIds: data.productIds }),
+        ...(data.categoryIds !== undefined && { categoryIds: data.categoryIds }),
+        ...(data.bannerImage !== undefined && { bannerImage: data.bannerImage || null }),
+        startsAt,
+        endsAt,
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+      },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Promotion updated successfully',
+        promotion: formatPromotion(promotion),
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Update promotion error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// DELETE /api/admin/promotions/[id] - Delete a promotion that hasn't priced any orders (Admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const promotion = await prisma.promotion.findUnique({
+      where: { id: resolvedParams.id },
+      include: { _count: { select: { orderItems: true } } },
+    })
+
+    if (!promotion) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Promotion not found' },
+        { status: 404 }
+      ))
+    }
+
+    // Orders keep pointing at the promotion that priced them
+    if (promotion._count.orderItems > 0) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'This promotion has been used on orders and cannot be deleted. Deactivate it instead.' },
+        { status: 400 }
+      ))
+    }
+
+    await prisma.promotion.delete({
+      where: { id: promotion.id },
+    })
+
+    const response = NextResponse.json(
+      { message: 'Promotion deleted successfully' },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Delete promotion error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
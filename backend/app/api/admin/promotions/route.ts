@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { formatPromotion, getPromotionRejection } from '@/lib/promotions'
+import { z } from 'zod'
+
+const promotionSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().optional().nullable(),
+  type: z.enum(['PERCENTAGE', 'FIXED_AMOUNT']),
+  value: z.number().positive('Value must be greater than 0'),
+  productIds: z.array(z.string()).default([]),
+  categoryIds: z.array(z.string()).default([]),
+  bannerImage: z.string().optional().nullable(),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  isActive: z.boolean().default(true),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/admin/promotions - List promotions, latest start first (Admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const promotions = await prisma.promotion.findMany({
+      orderBy: { startsAt: 'desc' },
+      include: { _count: { select: { orderItems: true } } },
+    })
+
+    const response = NextResponse.json(
+      {
+        promotions: promotions.map(({ _count, ...promotion }) => ({
+          ...formatPromotion(promotion),
+          orderItemCount: _count.orderItems,
+        })),
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get promotions error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// POST /api/admin/promotions - Schedule a promotion (Admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = promotionSchema.parse(body)
+
+    const rejection = getPromotionRejection(data)
+    if (rejection) {
+      return addCorsHeaders(NextResponse.json(
+        { error: rejection },
+        { status: 400 }
+      ))
+    }
+
+    const promotion = await prisma.promotion.create({
+      data: {
+        name: data.name,
+        description: data.description?.trim() || null,
+        type: data.type,
+        value: data.value,
+        productIds: data.productIds,
+        categoryIds: data.categoryIds,
+        bannerImage: data.bannerImage || null,
+        startsAt: data.startsAt,
+        endsAt: data.endsAt,
+        isActive: data.isActive,
+      },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Promotion created successfully',
+        promotion: formatPromotion(promotion),
+      },
+      { status: 201 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Create promotion error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
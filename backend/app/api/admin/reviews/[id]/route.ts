@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { formatReview } from '@/lib/reviews'
+import { z } from 'zod'
+
+const moderateReviewSchema = z.object({
+  hidden: z.boolean(),
+  hiddenReason: z.string().max(500, 'Reason must be less than 500 characters').optional().nullable(),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'PUT, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// PUT /api/admin/reviews/[id] - Hide or restore a review (Admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = moderateReviewSchema.parse(body)
+
+    const review = await prisma.review.findUnique({
+      where: { id: resolvedParams.id },
+    })
+
+    if (!review) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Review not found' },
+        { status: 404 }
+      ))
+    }
+
+    const updatedReview = await prisma.review.update({
+      where: { id: review.id },
+      data: {
+        hidden: data.hidden,
+        hiddenReason: data.hidden ? data.hiddenReason?.trim() || null : null,
+        moderatedAt: new Date(),
+      },
+      include: {
+        user: {
+          select: {
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: data.hidden ? 'Review hidden successfully' : 'Review restored successfully',
+        review: {
+          ...formatReview(updatedReview),
+          hiddenReason: updatedReview.hiddenReason,
+          moderatedAt: updatedReview.moderatedAt,
+        },
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Moderate review error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { formatShippingZone } from '@/lib/shipping'
+import { z } from 'zod'
+
+const shippingRateSchema = z.object({
+  method: z.string().min(1, 'Method is required').regex(/^[a-z0-9_-]+$/, 'Method must be lowercase letters, numbers, dashes or underscores'),
+  name: z.string().min(1, 'Rate name is required'),
+  basis: z.enum(['WEIGHT', 'ORDER_VALUE']).default('ORDER_VALUE'),
+  minValue: z.number().nonnegative().default(0),
+  maxValue: z.number().positive().optional().nullable(),
+  price: z.number().nonnegative('Price cannot be negative'),
+  estimatedDays: z.string().optional().nullable(),
+})
+
+const updateShippingZoneSchema = z.object({
+  name: z.string().min(1).optional(),
+  countries: z.array(z.string().min(1)).optional(),
+  isDefault: z.boolean().optional(),
+  freeShippingThreshold: z.number().nonnegative().optional().nullable(),
+  isActive: z.boolean().optional(),
+  rates: z.array(shippingRateSchema).optional(), // Replaces all existing rates when provided
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// PUT /api/admin/shipping/zones/[id] - Update shipping zone and its rates (Admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = updateShippingZoneSchema.parse(body)
+
+    const existingZone = await prisma.shippingZone.findUnique({
+      where: { id: resolvedParams.id },
+    })
+
+    if (!existingZone) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Shipping zone not found' },
+        { status: 404 }
+      ))
+    }
+
+    const isDefault = data.isDefault ?? existingZone.isDefault
+    const countries = data.countries ?? existingZone.countries
+    if (!isDefault && countries.length === 0) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'A zone needs at least one country unless it is the default zone' },
+        { status: 400 }
+      ))
+    }
+
+    const zone = await prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.shippingZone.updateMany({
+          where: { isDefault: true, id: { not: existingZone.id } },
+          data: { isDefault: false },
+        })
+      }
+
+      if (data.rates) {
+        await tx.shippingRate.deleteMany({ where: { zoneId: existingZone.id } })
+        await tx.shippingRate.createMany({
+          data: data.rates.map((rate) => ({
+            zoneId: existingZone.id,
+            method: rate.method,
+            name: rate.name.trim(),
+            basis: rate.basis,
+            minValue: rate.minValue,
+            maxValue: rate.maxValue ?? null,
+            price: rate.price,
+            estimatedDays: rate.estimatedDays || null,
+          })),
+        })
+      }
+
+      return tx.shippingZone.update({
+        where: { id: existingZone.id },
+        data: {
+          ...(data.name !== undefined && { name: data.name.trim() }),
+          ...(data.countries !== undefined && { countries: data.countries.map((c) => c.trim()) }),
+          ...(data.isDefault !== undefined && { isDefault: data.isDefault }),
+          ...(data.freeShippingThreshold !== undefined && { freeShippingThreshold: data.freeShippingThreshold }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+        },
+        include: {
+          rates: {
+            orderBy: [{ method: 'asc' }, { minValue: 'asc' }],
+          },
+        },
+      })
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Shipping zone updated successfully',
+        zone: formatShippingZone(zone),
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Update shipping zone error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// DELETE /api/admin/shipping/zones/[id] - Delete shipping zone (Admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const zone = await prisma.shippingZone.findUnique({
+      where: { id: resolvedParams.id },
+    })
+
+    if (!zone) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Shipping zone not found' },
+        { status: 404 }
+      ))
+    }
+
+    await prisma.shippingZone.delete({
+      where: { id: zone.id },
+    })
+
+    const response = NextResponse.json(
+      { message: 'Shipping zone deleted successfully' },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Delete shipping zone error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
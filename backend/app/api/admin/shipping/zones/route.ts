@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { formatShippingZone } from '@/lib/shipping'
+import { z } from 'zod'
+
+const shippingRateSchema = z.object({
+  method: z.string().min(1, 'Method is required').regex(/^[a-z0-9_-]+$/, 'Method must be lowercase letters, numbers, dashes or underscores'),
+  name: z.string().min(1, 'Rate name is required'),
+  basis: z.enum(['WEIGHT', 'ORDER_VALUE']).default('ORDER_VALUE'),
+  minValue: z.number().nonnegative().default(0),
+  maxValue: z.number().positive().optional().nullable(),
+  price: z.number().nonnegative('Price cannot be negative'),
+  estimatedDays: z.string().optional().nullable(),
+})
+
+const shippingZoneSchema = z.object({
+  name: z.string().min(1, 'Zone name is required'),
+  countries: z.array(z.string().min(1)).default([]),
+  isDefault: z.boolean().default(false),
+  freeShippingThreshold: z.number().nonnegative().optional().nullable(),
+  isActive: z.boolean().default(true),
+  rates: z.array(shippingRateSchema).default([]),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/admin/shipping/zones - List shipping zones with rates (Admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const zones = await prisma.shippingZone.findMany({
+      include: {
+        rates: {
+          orderBy: [{ method: 'asc' }, { minValue: 'asc' }],
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    const response = NextResponse.json(
+      { zones: zones.map(formatShippingZone) },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get shipping zones error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// POST /api/admin/shipping/zones - Create shipping zone (Admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = shippingZoneSchema.parse(body)
+
+    if (!data.isDefault && data.countries.length === 0) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'A zone needs at least one country unless it is the default zone' },
+        { status: 400 }
+      ))
+    }
+
+    const zone = await prisma.$transaction(async (tx) => {
+      // Only one zone can act as the fallback for unmatched destinations
+      if (data.isDefault) {
+        await tx.shippingZone.updateMany({
+          where: { isDefault: true },
+          data: { isDefault: false },
+        })
+      }
+
+      return tx.shippingZone.create({
+        data: {
+          name: data.name.trim(),
+          countries: data.countries.map((c) => c.trim()),
+          isDefault: data.isDefault,
+          freeShippingThreshold: data.freeShippingThreshold ?? null,
+          isActive: data.isActive,
+          rates: {
+            create: data.rates.map((rate) => ({
+              method: rate.method,
+              name: rate.name.trim(),
+              basis: rate.basis,
+              minValue: rate.minValue,
+              maxValue: rate.maxValue ?? null,
+              price: rate.price,
+              estimatedDays: rate.estimatedDays || null,
+            })),
+          },
+        },
+        include: { rates: true },
+      })
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Shipping zone created successfully',
+        zone: formatShippingZone(zone),
+      },
+      { status: 201 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Create shipping zone error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
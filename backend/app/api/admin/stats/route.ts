@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { requireAdmin, addCorsHeaders } from '@/lib/utils'
 
@@ -14,6 +15,12 @@ export async function OPTIONS(request: NextRequest) {
   })
 }
 
+// Orders are stored in the customer's currency; revenue is reported in the base currency
+function toBaseAmount(order: { totalAmount: Prisma.Decimal; exchangeRate: Prisma.Decimal }) {
+  const rate = Number(order.exchangeRate)
+  return rate > 0 ? Number(order.totalAmount) / rate : Number(order.totalAmount)
+}
+
 // GET /api/admin/stats - Get admin dashboard statistics
 export async function GET(request: NextRequest) {
   try {
@@ -37,7 +44,7 @@ export async function GET(request: NextRequest) {
       totalUsers,
       totalOrders,
       totalProducts,
-      totalRevenue,
+      revenueOrders,
       recentOrders,
       lowStockProducts,
       pendingReturns,
@@ -52,19 +59,22 @@ export async function GET(request: NextRequest) {
         where: dateFilter,
       }),
 
-      // Total products
-      prisma.product.count(),
+      // Total products (archived ones are retired)
+      prisma.product.count({
+        where: { status: { not: 'ARCHIVED' } },
+      }),
 
-      // Total revenue (sum of all processed/delivered orders)
-      prisma.order.aggregate({
+      // Revenue orders (processed/delivered); totals are converted back to the base currency below
+      prisma.order.findMany({
         where: {
           ...dateFilter,
           status: {
             in: ['PROCESSED', 'SHIPPED', 'DELIVERED'],
           },
         },
-        _sum: {
+        select: {
           totalAmount: true,
+          exchangeRate: true,
         },
       }),
 
@@ -86,12 +96,13 @@ export async function GET(request: NextRequest) {
         },
       }),
 
-      // Low stock products (stock < 10)
+      // Low stock products (at or below their reorder point)
       prisma.product.findMany({
         where: {
           stock: {
-            lt: 10,
+            lte: prisma.product.fields.reorderPoint,
           },
+          status: { not: 'ARCHIVED' },
         },
         take: 10,
         orderBy: {
@@ -101,6 +112,7 @@ export async function GET(request: NextRequest) {
           id: true,
           title: true,
           stock: true,
+          reorderPoint: true,
         },
       }),
 
@@ -112,6 +124,8 @@ export async function GET(request: NextRequest) {
       }),
     ])
 
+    const totalRevenue = revenueOrders.reduce((sum, order) => sum + toBaseAmount(order), 0)
+
     // Get order status breakdown
     const orderStatusBreakdown = await prisma.order.groupBy({
       by: ['status'],
@@ -142,6 +156,7 @@ export async function GET(request: NextRequest) {
       },
       select: {
         totalAmount: true,
+        exchangeRate: true,
         createdAt: true,
       },
     })
@@ -152,7 +167,7 @@ export async function GET(request: NextRequest) {
       if (!acc[month]) {
         acc[month] = 0
       }
-      acc[month] += Number(order.totalAmount)
+      acc[month] += toBaseAmount(order)
       return acc
     }, {} as Record<string, number>)
 
@@ -162,7 +177,7 @@ export async function GET(request: NextRequest) {
           totalUsers,
           totalOrders,
           totalProducts,
-          totalRevenue: totalRevenue._sum.totalAmount?.toString() || '0',
+          totalRevenue: totalRevenue.toFixed(2),
           pendingReturns,
           processedOrders: statusCounts['PROCESSED'] || 0,
           shippedOrders: statusCounts['SHIPPED'] || 0,
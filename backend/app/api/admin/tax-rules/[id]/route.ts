@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { formatTaxRule } from '@/lib/tax'
+import { z } from 'zod'
+
+const updateTaxRuleSchema = z.object({
+  name: z.string().min(1).optional(),
+  country: z.string().min(1).optional(),
+  region: z.string().optional().nullable(),
+  category: z.string().optional().nullable(),
+  hsCodePrefix: z.string().regex(/^[\d.]+$/, 'HS code prefix must contain digits only').optional().nullable(),
+  rate: z.number().min(0).max(100).optional(),
+  appliesToShipping: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// PUT /api/admin/tax-rules/[id] - Update tax rule (Admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = updateTaxRuleSchema.parse(body)
+
+    const existingRule = await prisma.taxRule.findUnique({
+      where: { id: resolvedParams.id },
+    })
+
+    if (!existingRule) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Tax rule not found' },
+        { status: 404 }
+      ))
+    }
+
+    const category = data.category !== undefined ? data.category?.trim() || null : existingRule.category
+    const hsCodePrefix = data.hsCodePrefix !== undefined ? data.hsCodePrefix?.trim() || null : existingRule.hsCodePrefix
+    if (category && hsCodePrefix) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'A tax rule can override either a category or an HS code prefix, not both' },
+        { status: 400 }
+      ))
+    }
+
+    const rule = await prisma.taxRule.update({
+      where: { id: existingRule.id },
+      data: {
+        ...(data.name !== undefined && { name: data.name.trim() }),
+        ...(data.country !== undefined && { country: data.country.trim() }),
+        ...(data.region !== undefined && { region: data.region?.trim() || null }),
+        category,
+        hsCodePrefix,
+        ...(data.rate !== undefined && { rate: data.rate }),
+        ...(data.appliesToShipping !== undefined && { appliesToShipping: data.appliesToShipping }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+      },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Tax rule updated successfully',
+        rule: formatTaxRule(rule),
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Update tax rule error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// DELETE /api/admin/tax-rules/[id] - Delete tax rule (Admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const rule = await prisma.taxRule.findUnique({
+      where: { id: resolvedParams.id },
+    })
+
+    if (!rule) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Tax rule not found' },
+        { status: 404 }
+      ))
+    }
+
+    await prisma.taxRule.delete({
+      where: { id: rule.id },
+    })
+
+    const response = NextResponse.json(
+      { message: 'Tax rule deleted successfully' },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Delete tax rule error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { formatTaxRule } from '@/lib/tax'
+import { z } from 'zod'
+
+const taxRuleSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  country: z.string().min(1, 'Country is required'),
+  region: z.string().optional().nullable(),
+  category: z.string().optional().nullable(),
+  hsCodePrefix: z.string().regex(/^[\d.]+$/, 'HS code prefix must contain digits only').optional().nullable(),
+  rate: z.number().min(0, 'Rate cannot be negative').max(100, 'Rate cannot exceed 100%'),
+  appliesToShipping: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/admin/tax-rules - List tax rules (Admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const { searchParams } = new URL(request.url)
+    const country = searchParams.get('country')
+
+    const rules = await prisma.taxRule.findMany({
+      where: country ? { country: { equals: country, mode: 'insensitive' } } : {},
+      orderBy: [{ country: 'asc' }, { createdAt: 'asc' }],
+    })
+
+    const response = NextResponse.json(
+      { rules: rules.map(formatTaxRule) },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get tax rules error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// POST /api/admin/tax-rules - Create tax rule (Admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = taxRuleSchema.parse(body)
+
+    if (data.category && data.hsCodePrefix) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'A tax rule can override either a category or an HS code prefix, not both' },
+        { status: 400 }
+      ))
+    }
+
+    const rule = await prisma.taxRule.create({
+      data: {
+        name: data.name.trim(),
+        country: data.country.trim(),
+        region: data.region?.trim() || null,
+        category: data.category?.trim() || null,
+        hsCodePrefix: data.hsCodePrefix?.trim() || null,
+        rate: data.rate,
+        appliesToShipping: data.appliesToShipping,
+        isActive: data.isActive,
+      },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Tax rule created successfully',
+        rule: formatTaxRule(rule),
+      },
+      { status: 201 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Create tax rule error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { creditWallet, debitWallet, formatWalletTransaction } from '@/lib/wallet'
+import { z } from 'zod'
+
+const walletAdjustmentSchema = z.object({
+  type: z.enum(['CREDIT', 'DEBIT']).default('CREDIT'),
+  amount: z.number().positive('Amount must be greater than 0'),
+  note: z.string().min(1, 'A reason is required'),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/admin/users/[id]/wallet - Get a customer's wallet balance and ledger (Admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const user = await prisma.user.findUnique({
+      where: { id: resolvedParams.id },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        walletBalance: true,
+        walletTransactions: {
+          take: 100,
+          orderBy: { createdAt: 'desc' },
+          include: {
+            order: {
+              select: { id: true, orderNumber: true },
+            },
+          },
+        },
+      },
+    })
+
+    if (!user) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      ))
+    }
+
+    const { walletTransactions, ...customer } = user
+    const response = NextResponse.json(
+      {
+        user: {
+          ...customer,
+          walletBalance: customer.walletBalance.toString(),
+        },
+        transactions: walletTransactions.map(formatWalletTransaction),
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get wallet error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// POST /api/admin/users/[id]/wallet - Issue store credit or correct a balance (Admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = walletAdjustmentSchema.parse(body)
+
+    const user = await prisma.user.findUnique({
+      where: { id: resolvedParams.id },
+      select: { id: true },
+    })
+
+    if (!user) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      ))
+    }
+
+    const entry = {
+      userId: user.id,
+      amount: data.amount,
+      reason: 'ADMIN_ADJUSTMENT' as const,
+      note: data.note.trim(),
+      createdById: adminCheck.user!.id,
+    }
+    const transaction = await prisma.$transaction((tx) =>
+      data.type === 'CREDIT' ? creditWallet(tx, entry) : debitWallet(tx, entry)
+    )
+
+    if (!transaction) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Insufficient wallet balance' },
+        { status: 400 }
+      ))
+    }
+
+    const response = NextResponse.json(
+      {
+        message: data.type === 'CREDIT' ? 'Store credit issued successfully' : 'Wallet debited successfully',
+        transaction: formatWalletTransaction(transaction),
+        walletBalance: transaction.balanceAfter.toString(),
+      },
+      { status: 201 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Wallet adjustment error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
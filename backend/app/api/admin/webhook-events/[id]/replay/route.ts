@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import Stripe from 'stripe'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { handleStripeEvent } from '@/lib/webhooks'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// POST /api/admin/webhook-events/[id]/replay - Re-run a failed webhook event from its stored payload (Admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const event = await prisma.webhookEvent.findUnique({
+      where: { id: resolvedParams.id },
+    })
+
+    if (!event) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Webhook event not found' },
+        { status: 404 }
+      ))
+    }
+
+    if (event.status === 'PROCESSED' || event.status === 'IGNORED') {
+      return addCorsHeaders(NextResponse.json(
+        { error: `Event has already been ${event.status.toLowerCase()}` },
+        { status: 409 }
+      ))
+    }
+
+    try {
+      await handleStripeEvent(event.payload as unknown as Stripe.Event)
+    } catch (processError: any) {
+      // The failure is stored on the event; report it alongside the updated record
+      console.error(`Replay of webhook event ${event.stripeEventId} failed:`, processError)
+    }
+
+    const updated = await prisma.webhookEvent.findUnique({
+      where: { id: event.id },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: updated?.status === 'FAILED' ? 'Replay failed' : 'Event replayed successfully',
+        event: updated,
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Replay webhook event error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
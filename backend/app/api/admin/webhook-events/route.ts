@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma, WebhookEventStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/admin/webhook-events - List received Stripe webhook events (Admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20') || 20))
+    const status = searchParams.get('status')
+    const type = searchParams.get('type')
+    const skip = (page - 1) * limit
+
+    const where: Prisma.WebhookEventWhereInput = {}
+    if (status && Object.values(WebhookEventStatus).includes(status as WebhookEventStatus)) {
+      where.status = status as WebhookEventStatus
+    }
+    if (type) where.type = type
+
+    const [events, total, failed] = await Promise.all([
+      prisma.webhookEvent.findMany({
+        where,
+        skip,
+        take: limit,
+        // The payload can be large; it is only returned by the detail endpoint
+        select: {
+          id: true,
+          stripeEventId: true,
+          type: true,
+          status: true,
+          error: true,
+          attempts: true,
+          processedAt: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+      }),
+      prisma.webhookEvent.count({ where }),
+      prisma.webhookEvent.count({ where: { status: 'FAILED' } }),
+    ])
+
+    const response = NextResponse.json(
+      {
+        events,
+        failed,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get webhook events error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
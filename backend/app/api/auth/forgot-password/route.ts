@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { generateResetToken } from '@/lib/auth'
+import { sendTemplatedEmail, getFrontendUrl } from '@/lib/mailer'
+
+const RESET_TOKEN_TTL_MINUTES = 60
 
 // Handle CORS preflight requests
 export async function OPTIONS(request: NextRequest) {
@@ -89,7 +92,7 @@ export async function POST(request: NextRequest) {
     console.log('🔵 FORGOT PASSWORD: Generating reset token')
     const resetToken = generateResetToken()
     const resetTokenExpiry = new Date()
-    resetTokenExpiry.setHours(resetTokenExpiry.getHours() + 1) // Token expires in 1 hour
+    resetTokenExpiry.setMinutes(resetTokenExpiry.getMinutes() + RESET_TOKEN_TTL_MINUTES)
 
     // Save reset token to database
     console.log('🔵 FORGOT PASSWORD: Saving reset token to database')
@@ -102,15 +105,24 @@ export async function POST(request: NextRequest) {
     })
     console.log('🔵 FORGOT PASSWORD: Reset token saved successfully')
 
-    // In production, send email with reset token
-    // For now, we'll return it (remove this in production!)
-    console.log('🔵 FORGOT PASSWORD: Reset token for', trimmedEmail, ':', resetToken)
+    // Send reset email. Failures are logged but not reported to the client,
+    // otherwise the response would reveal whether the account exists.
+    try {
+      await sendTemplatedEmail(trimmedEmail, 'passwordReset', {
+        firstName: user.firstName,
+        resetUrl: `${getFrontendUrl()}/reset-password?token=${resetToken}`,
+        expiresInMinutes: RESET_TOKEN_TTL_MINUTES,
+      })
+      console.log('🔵 FORGOT PASSWORD: Reset email sent')
+    } catch (mailError) {
+      console.error('❌ FORGOT PASSWORD: Failed to send reset email:', mailError)
+    }
     console.log('🔵 FORGOT PASSWORD: Request completed successfully')
 
     const response = NextResponse.json(
       {
         message: 'If a user exists with this email, a password reset link has been sent.',
-        // Remove this in production - only for development
+        // Only exposed in development so the flow can be tested without a mail server
         resetToken: process.env.NODE_ENV === 'development' ? resetToken : undefined,
       },
       { status: 200 }
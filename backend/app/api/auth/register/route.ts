@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { hashPassword, generateToken, generateRefreshToken } from '@/lib/auth'
+import { sendTemplatedEmail, getFrontendUrl } from '@/lib/mailer'
 
 // Handle CORS preflight requests
 export async function OPTIONS(request: NextRequest) {
@@ -342,6 +343,18 @@ export async function POST(request: NextRequest) {
       console.warn('Warning: User created but refresh token could not be saved to database')
     }
 
+    // Send welcome email - registration succeeds even if this fails
+    if (newUser.email) {
+      try {
+        await sendTemplatedEmail(newUser.email, 'welcome', {
+          firstName: newUser.firstName,
+          shopUrl: `${getFrontendUrl()}/products`,
+        })
+      } catch (mailError) {
+        console.error('Failed to send welcome email:', mailError)
+      }
+    }
+
     // Get user data for response (without password and sensitive fields) - ensure DateTime is serialized
     const user = {
       id: newUser.id,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { hashPassword } from '@/lib/auth'
+import { sendTemplatedEmail } from '@/lib/mailer'
 
 // Handle CORS preflight requests
 export async function OPTIONS(request: NextRequest) {
@@ -81,6 +82,15 @@ export async function POST(request: NextRequest) {
       },
     })
 
+    // Let the account owner know their password changed
+    if (user.email) {
+      try {
+        await sendTemplatedEmail(user.email, 'passwordChanged', { firstName: user.firstName })
+      } catch (mailError) {
+        console.error('Failed to send password changed email:', mailError)
+      }
+    }
+
     const response = NextResponse.json(
       {
         message: 'Password reset successfully',
@@ -1,6 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import {
+  listCategories,
+  findCategory,
+  getCategoryPath,
+  uniqueCategorySlug,
+  assertValidParent,
+  syncProductCategoryNames,
+  CategoryError,
+} from '@/lib/categories'
+import { refreshSearchWords } from '@/lib/search'
+import { assertSpecKeysAvailableUnder, pruneSubtreeProductSpecs, SpecError } from '@/lib/specs'
+import { z } from 'zod'
+
+const updateCategorySchema = z.object({
+  name: z.string().trim().min(1, 'Category name is required').max(100, 'Category name must be less than 100 characters').optional(),
+  slug: z.string().trim().min(1).max(120).optional(),
+  description: z.string().max(2000).optional().nullable(),
+  image: z.string().optional().nullable(),
+  parentId: z.string().optional().nullable(),
+  sortOrder: z.number().int().min(0).optional(),
+})
 
 // Handle CORS preflight
 export async function OPTIONS(request: NextRequest) {
@@ -8,12 +29,151 @@ export async function OPTIONS(request: NextRequest) {
     status: 200,
     headers: {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'DELETE, OPTIONS',
+      'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
       'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   })
 }
 
+// GET /api/categories/[id] - Category by id or slug, with its breadcrumb path and subcategories
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const categories = await listCategories()
+    const category = findCategory(categories, resolvedParams.id)
+
+    if (!category) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Category not found' },
+        { status: 404 }
+      ))
+    }
+
+    const response = NextResponse.json(
+      {
+        category,
+        path: getCategoryPath(categories, category.id),
+        children: categories.filter((c) => c.parentId === category.id),
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get category error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred',
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// PUT /api/categories/[id] - Update category (Admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const resolvedParams = params instanceof Promise ? await params : params
+    const categoryId = resolvedParams.id
+
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const category = await prisma.category.findUnique({
+      where: { id: categoryId },
+    })
+
+    if (!category) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Category not found' },
+        { status: 404 }
+      ))
+    }
+
+    const data = updateCategorySchema.parse(await request.json())
+
+    const moved = data.parentId !== undefined && (data.parentId || null) !== category.parentId
+    if (moved) {
+      await assertValidParent(categoryId, data.parentId || null)
+      // A key is only defined once along any branch
+      await assertSpecKeysAvailableUnder(categoryId, data.parentId || null)
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const updated = await tx.category.update({
+        where: { id: categoryId },
+        data: {
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.slug !== undefined && { slug: await uniqueCategorySlug(data.slug, categoryId, tx) }),
+          ...(data.description !== undefined && { description: data.description?.trim() || null }),
+          ...(data.image !== undefined && { image: data.image || null }),
+          ...(data.parentId !== undefined && { parentId: data.parentId || null }),
+          ...(data.sortOrder !== undefined && { sortOrder: data.sortOrder }),
+        },
+      })
+      if (updated.name !== category.name) {
+        await syncProductCategoryNames(categoryId, updated.name, tx)
+      }
+      // Products below no longer inherit the old ancestors' specs
+      if (moved) {
+        await pruneSubtreeProductSpecs(tx, categoryId)
+      }
+      return updated
+    })
+    if (updated.name !== category.name) await refreshSearchWords()
+
+    const response = NextResponse.json(
+      {
+        message: 'Category updated successfully',
+        category: updated,
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Update category error:', error)
+
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    if (error instanceof CategoryError || error instanceof SpecError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      ))
+    }
+
+    // Prisma unique constraint error
+    if (error.code === 'P2002') {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Category with this name already exists' },
+        { status: 409 }
+      ))
+    }
+
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred while updating the category',
+      },
+      { status: 500 }
+    ))
+  }
+}
+
 // DELETE /api/categories/[id] - Delete category (Admin only)
 export async function DELETE(
   request: NextRequest,
@@ -34,6 +194,10 @@ export async function DELETE(
           select: { id: true },
           take: 1,
         },
+        children: {
+          select: { id: true },
+          take: 1,
+        },
       },
     })
 
@@ -44,6 +208,13 @@ export async function DELETE(
       ))
     }
 
+    if (category.children.length > 0) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Cannot delete category. It has subcategories. Please move or delete them first.' },
+        { status: 400 }
+      ))
+    }
+
     // Check if category is used by any products
     if (category.products.length > 0) {
       return addCorsHeaders(NextResponse.json(
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import {
+  specDefinitionSchema,
+  toSpecKey,
+  getSpecDefinitionRejection,
+  assertSpecKeyAvailable,
+  SpecError,
+} from '@/lib/specs'
+import { z } from 'zod'
+
+const updateSpecSchema = specDefinitionSchema.partial()
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// PUT /api/categories/[id]/specs/[specId] - Update a spec (Admin only)
+// The type can't change once products have values, and select options in use can't be removed.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; specId: string }> | { id: string; specId: string } }
+) {
+  try {
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const spec = await prisma.specDefinition.findFirst({
+      where: { id: resolvedParams.specId, categoryId: resolvedParams.id },
+    })
+
+    if (!spec) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Spec not found' },
+        { status: 404 }
+      ))
+    }
+
+    const data = updateSpecSchema.parse(await request.json())
+    const key = data.key ? toSpecKey(data.key) : spec.key
+    const type = data.type ?? spec.type
+    const options = type === 'SELECT' ? data.options ?? spec.options : []
+
+    const rejection = getSpecDefinitionRejection({ key, type, options })
+    if (rejection) {
+      return addCorsHeaders(NextResponse.json(
+        { error: rejection },
+        { status: 400 }
+      ))
+    }
+
+    if (key !== spec.key) {
+      await assertSpecKeyAvailable(spec.categoryId, key, spec.id)
+    }
+
+    if (type !== spec.type && await prisma.productSpec.count({ where: { definitionId: spec.id } }) > 0) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Products already have values for this spec, so its type cannot change' },
+        { status: 400 }
+      ))
+    }
+
+    if (type === 'SELECT') {
+      const used = await prisma.productSpec.findMany({
+        where: { definitionId: spec.id },
+        distinct: ['textValue'],
+        select: { textValue: true },
+      })
+      const removed = used
+        .map((value) => value.textValue)
+        .filter((value): value is string => !!value && !options.includes(value))
+      if (removed.length > 0) {
+        return addCorsHeaders(NextResponse.json(
+          { error: `Options still used by products cannot be removed: ${removed.join(', ')}` },
+          { status: 400 }
+        ))
+      }
+    }
+
+    const updated = await prisma.specDefinition.update({
+      where: { id: spec.id },
+      data: {
+        key,
+        type,
+        options,
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.unit !== undefined && { unit: data.unit || null }),
+        ...(data.filterable !== undefined && { filterable: data.filterable }),
+        ...(data.sortOrder !== undefined && { sortOrder: data.sortOrder }),
+      },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Spec updated successfully',
+        spec: updated,
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Update spec error:', error)
+
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    if (error instanceof SpecError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      ))
+    }
+
+    if (error.code === 'P2002') {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'This category already has a spec with that key' },
+        { status: 409 }
+      ))
+    }
+
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred while updating the spec',
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// DELETE /api/categories/[id]/specs/[specId] - Delete a spec and its product values (Admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; specId: string }> | { id: string; specId: string } }
+) {
+  try {
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const spec = await prisma.specDefinition.findFirst({
+      where: { id: resolvedParams.specId, categoryId: resolvedParams.id },
+      include: { _count: { select: { values: true } } },
+    })
+
+    if (!spec) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Spec not found' },
+        { status: 404 }
+      ))
+    }
+
+    await prisma.specDefinition.delete({
+      where: { id: spec.id },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Spec deleted successfully',
+        removedValues: spec._count.values,
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Delete spec error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred while deleting the spec',
+      },
+      { status: 500 }
+    ))
+  }
+}
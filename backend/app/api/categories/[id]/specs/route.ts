@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { listCategories, findCategory } from '@/lib/categories'
+import {
+  specDefinitionSchema,
+  toSpecKey,
+  getSpecDefinitionRejection,
+  assertSpecKeyAvailable,
+  getCategorySpecDefinitions,
+  SpecError,
+} from '@/lib/specs'
+import { z } from 'zod'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/categories/[id]/specs - Specs of products in the category (id or slug),
+// including those inherited from parent categories (their categoryId differs)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const category = findCategory(await listCategories(), resolvedParams.id)
+    if (!category) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Category not found' },
+        { status: 404 }
+      ))
+    }
+
+    const specs = await getCategorySpecDefinitions(category.id)
+
+    return addCorsHeaders(NextResponse.json({ specs }, { status: 200 }))
+  } catch (error: any) {
+    console.error('Get category specs error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred',
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// POST /api/categories/[id]/specs - Add a spec to the category (Admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const resolvedParams = params instanceof Promise ? await params : params
+    const categoryId = resolvedParams.id
+
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const category = await prisma.category.findUnique({
+      where: { id: categoryId },
+      select: { id: true },
+    })
+
+    if (!category) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Category not found' },
+        { status: 404 }
+      ))
+    }
+
+    const data = specDefinitionSchema.parse(await request.json())
+    const key = toSpecKey(data.key || data.name)
+    const options = data.type === 'SELECT' ? data.options : []
+
+    const rejection = getSpecDefinitionRejection({ key, type: data.type, options })
+    if (rejection) {
+      return addCorsHeaders(NextResponse.json(
+        { error: rejection },
+        { status: 400 }
+      ))
+    }
+
+    await assertSpecKeyAvailable(categoryId, key)
+
+    const sortOrder = data.sortOrder ?? await prisma.specDefinition.count({ where: { categoryId } })
+    const spec = await prisma.specDefinition.create({
+      data: {
+        categoryId,
+        key,
+        name: data.name,
+        type: data.type,
+        unit: data.unit || null,
+        options,
+        filterable: data.filterable,
+        sortOrder,
+      },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Spec created successfully',
+        spec,
+      },
+      { status: 201 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Create spec error:', error)
+
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    if (error instanceof SpecError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      ))
+    }
+
+    if (error.code === 'P2002') {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'This category already has a spec with that key' },
+        { status: 409 }
+      ))
+    }
+
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred while creating the spec',
+      },
+      { status: 500 }
+    ))
+  }
+}
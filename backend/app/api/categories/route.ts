@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { listCategories, uniqueCategorySlug, assertValidParent, CategoryError } from '@/lib/categories'
 import { z } from 'zod'
 
 const categorySchema = z.object({
   name: z.string().min(1, 'Category name is required').max(100, 'Category name must be less than 100 characters'),
+  slug: z.string().trim().max(120).optional().nullable(),
+  description: z.string().max(2000).optional().nullable(),
+  image: z.string().optional().nullable(),
+  parentId: z.string().optional().nullable(),
+  sortOrder: z.number().int().min(0).optional(),
 })
 
 // Handle CORS preflight
@@ -19,14 +25,11 @@ export async function OPTIONS(request: NextRequest) {
   })
 }
 
-// GET /api/categories - List all categories
+// GET /api/categories - List all categories, parents before their children
+// (GET /api/categories/tree for the nested tree)
 export async function GET(request: NextRequest) {
   try {
-    const categories = await prisma.category.findMany({
-      orderBy: {
-        createdAt: 'desc',
-      },
-    })
+    const categories = await listCategories()
 
     const response = NextResponse.json(
       {
@@ -90,10 +93,28 @@ export async function POST(request: NextRequest) {
       ))
     }
 
+    const parentId = data.parentId || null
+    await assertValidParent(null, parentId)
+
+    // New categories go last among their siblings unless placed explicitly
+    let sortOrder = data.sortOrder
+    if (sortOrder === undefined) {
+      const last = await prisma.category.aggregate({
+        where: { parentId },
+        _max: { sortOrder: true },
+      })
+      sortOrder = last._max.sortOrder === null ? 0 : last._max.sortOrder + 1
+    }
+
     // Create category
     const category = await prisma.category.create({
       data: {
         name: data.name.trim(),
+        slug: await uniqueCategorySlug(data.slug || data.name),
+        description: data.description?.trim() || null,
+        image: data.image || null,
+        parentId,
+        sortOrder,
       },
     })
 
@@ -109,6 +130,13 @@ export async function POST(request: NextRequest) {
   } catch (error: any) {
     console.error('Create category error:', error)
     
+    if (error instanceof CategoryError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      ))
+    }
+
     if (error instanceof z.ZodError) {
       return addCorsHeaders(NextResponse.json(
         { 
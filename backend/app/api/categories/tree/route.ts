@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { addCorsHeaders } from '@/lib/utils'
+import { getCategoryTree } from '@/lib/categories'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/categories/tree - Nested category tree in display order, with product
+// counts that include subcategories
+export async function GET(request: NextRequest) {
+  try {
+    const tree = await getCategoryTree()
+
+    return addCorsHeaders(NextResponse.json({ tree }, { status: 200 }))
+  } catch (error: any) {
+    console.error('Get category tree error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred',
+      },
+      { status: 500 }
+    ))
+  }
+}
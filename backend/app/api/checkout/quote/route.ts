@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { addCorsHeaders } from '@/lib/utils'
+import { getCurrentUser } from '@/lib/auth'
+import { buildCheckoutQuote, CheckoutError } from '@/lib/checkout'
+import { z } from 'zod'
+
+const quoteSchema = z.object({
+  items: z.array(
+    z.object({
+      productId: z.string(),
+      variantId: z.string().optional(),
+      quantity: z.number().int().positive(),
+    })
+  ).min(1, 'At least one item is required'),
+  shippingAddress: z.object({
+    country: z.string().optional(),
+    region: z.string().optional(),
+  }).passthrough().optional(),
+  shippingMethod: z.string().optional(),
+  couponCode: z.string().optional(),
+  currency: z.string().length(3, 'Currency must be a 3-letter code').optional(),
+  useWallet: z.boolean().optional(),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// POST /api/checkout/quote - Price a cart (subtotal, discount, shipping, tax, total)
+export async function POST(request: NextRequest) {
+  try {
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = quoteSchema.parse(body)
+
+    // Optional auth: signed-in customers get per-user coupon limits checked up front
+    const authHeader = request.headers.get('authorization')
+    const currentUser = await getCurrentUser(authHeader?.replace('Bearer ', '') || null)
+
+    const quote = await buildCheckoutQuote({ ...data, userId: currentUser?.id })
+
+    const response = NextResponse.json({ quote }, { status: 200 })
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    if (error instanceof CheckoutError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      ))
+    }
+
+    console.error('Checkout quote error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireCronOrAdmin, addCorsHeaders } from '@/lib/utils'
+import { expirePendingOrders } from '@/lib/reservations'
+
+export const dynamic = 'force-dynamic'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/cron/expire-orders - Cancel unpaid orders whose stock reservation ran out (Cron or Admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const authCheck = await requireCronOrAdmin(request)
+    if (authCheck.error) return authCheck.error
+
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '')
+
+    const report = await expirePendingOrders({
+      limit: Number.isNaN(limit) ? undefined : Math.min(1000, Math.max(1, limit)),
+    })
+
+    return addCorsHeaders(NextResponse.json({ report }, { status: 200 }))
+  } catch (error: any) {
+    console.error('Expire orders error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
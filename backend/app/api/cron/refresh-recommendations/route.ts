@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireCronOrAdmin, addCorsHeaders } from '@/lib/utils'
+import { refreshProductAffinities } from '@/lib/recommendations'
+
+export const dynamic = 'force-dynamic'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/cron/refresh-recommendations - Rebuild "frequently bought together" from paid orders (Cron or Admin only)
+// Query: ?lookbackDays=365, ?minOrders=2
+export async function GET(request: NextRequest) {
+  try {
+    const authCheck = await requireCronOrAdmin(request)
+    if (authCheck.error) return authCheck.error
+
+    const { searchParams } = new URL(request.url)
+    const lookbackDays = parseInt(searchParams.get('lookbackDays') || '')
+    const minOrders = parseInt(searchParams.get('minOrders') || '')
+
+    const report = await refreshProductAffinities({
+      lookbackDays: Number.isNaN(lookbackDays) ? undefined : Math.min(3650, Math.max(1, lookbackDays)),
+      minOrders: Number.isNaN(minOrders) ? undefined : Math.max(1, minOrders),
+    })
+
+    return addCorsHeaders(NextResponse.json({ report }, { status: 200 }))
+  } catch (error: any) {
+    console.error('Refresh recommendations error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { addCorsHeaders } from '@/lib/utils'
+import { BASE_CURRENCY, listCurrencies } from '@/lib/currency'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/currencies - Currencies customers can shop in, with rates from the base currency
+export async function GET() {
+  try {
+    const currencies = await listCurrencies()
+
+    const response = NextResponse.json(
+      { base: BASE_CURRENCY, currencies },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get currencies error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { addCorsHeaders } from '@/lib/utils'
+import { getRatingSummaries } from '@/lib/reviews'
+import { formatVariant } from '@/lib/variants'
+import { parseCatalogQuery, searchCatalog } from '@/lib/catalog'
+import { formatPromotion, getActivePromotions, withSalePrices } from '@/lib/promotions'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/offers - Products on sale, biggest discount first, with the promotions
+// running now and those scheduled to start. Takes the product listing filters
+// (e.g. promotion=<id>, minDiscount=25). serverTime lets clients run countdowns
+// against the server clock.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '24', 10) || 24, 1), 100)
+
+    const query = parseCatalogQuery(searchParams)
+    query.onSale = true
+    if (!searchParams.get('sort')) query.sort = 'discount'
+
+    const now = new Date()
+    const [catalog, scheduled, activePromotions] = await Promise.all([
+      searchCatalog(query, { skip: (page - 1) * limit, take: limit }),
+      prisma.promotion.findMany({
+        where: { isActive: true, endsAt: { gt: now } },
+        orderBy: { startsAt: 'asc' },
+      }),
+      getActivePromotions(now),
+    ])
+
+    const position = new Map(catalog.ids.map((id, index) => [id, index]))
+    const [products, ratingSummaries] = await Promise.all([
+      prisma.product.findMany({
+        where: { id: { in: catalog.ids } },
+        include: { variants: { where: { archivedAt: null }, orderBy: { position: 'asc' } } },
+      }),
+      getRatingSummaries(catalog.ids),
+    ])
+    products.sort((a, b) => position.get(a.id)! - position.get(b.id)!)
+
+    const response = NextResponse.json(
+      {
+        promotions: scheduled.filter((promotion) => promotion.startsAt <= now).map(formatPromotion),
+        upcoming: scheduled.filter((promotion) => promotion.startsAt > now).map(formatPromotion),
+        products: products.map((p) => ({
+          ...p,
+          price: p.price.toString(),
+          ...withSalePrices(p, p.variants.map(formatVariant), activePromotions),
+          ...ratingSummaries.get(p.id),
+        })),
+        pagination: {
+          page,
+          limit,
+          total: catalog.total,
+          totalPages: Math.ceil(catalog.total / limit),
+        },
+        serverTime: now,
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get offers error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred',
+      },
+      { status: 500 }
+    ))
+  }
+}
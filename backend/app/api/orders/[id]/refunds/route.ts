@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { formatRefund, getRefundableAmount, issueRefund, RefundError } from '@/lib/refunds'
+import { z } from 'zod'
+
+const createRefundSchema = z.object({
+  amount: z.number().positive().optional(), // Order currency; full remaining amount when omitted
+  reason: z.string().optional(),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, Idempotency-Key',
+    },
+  })
+}
+
+// GET /api/orders/[id]/refunds - List refunds and the amount still refundable (Admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const order = await prisma.order.findUnique({
+      where: { id: resolvedParams.id },
+      select: {
+        id: true,
+        currency: true,
+        refunds: {
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    })
+
+    if (!order) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      ))
+    }
+
+    const response = NextResponse.json(
+      {
+        refunds: order.refunds.map(formatRefund),
+        refundable: (await getRefundableAmount(order.id)).toString(),
+        currency: order.currency,
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get refunds error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// POST /api/orders/[id]/refunds - Refund all or part of the card payment (Admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const adminCheck = await requireAdmin(request)
+    if (adminCheck.error) return adminCheck.error
+
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = createRefundSchema.parse(body)
+
+    const refund = await issueRefund({
+      orderId: resolvedParams.id,
+      amount: data.amount,
+      reason: data.reason?.trim() || null,
+      createdById: adminCheck.user!.id,
+      requestId: request.headers.get('Idempotency-Key'),
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Refund issued successfully',
+        refund: formatRefund(refund),
+      },
+      { status: 201 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    if (error instanceof RefundError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      ))
+    }
+
+    console.error('Create refund error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
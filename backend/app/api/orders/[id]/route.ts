@@ -2,11 +2,19 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth, requireAdmin, addCorsHeaders } from '@/lib/utils'
 import { z } from 'zod'
+import { restoreOrderWalletPayment } from '@/lib/wallet'
+import { cancelPendingOrder } from '@/lib/orders'
+import { voidPaymentIntent } from '@/lib/reservations'
+import { stripe } from '@/lib/stripe'
+import { restockOrderItems } from '@/lib/inventory'
+import { formatRefund, getRefundableAmount, issueRefund, RefundError } from '@/lib/refunds'
 
 const updateOrderSchema = z.object({
   status: z.enum(['PENDING', 'PROCESSED', 'SHIPPED', 'DELIVERED', 'CANCELLED']).optional(),
   trackingNumber: z.string().optional(),
   subOrderId: z.string().optional(), // For updating sub-order tracking
+  refund: z.boolean().optional(), // Refund the card payment when cancelling a paid order (default true)
+  refundAmount: z.number().positive().optional(), // Partial refund in the order currency
 })
 
 // Handle CORS preflight
@@ -16,7 +24,7 @@ export async function OPTIONS(request: NextRequest) {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, Idempotency-Key',
     },
   })
 }
@@ -87,6 +95,9 @@ export async function GET(
             },
           },
           returnRequests: true,
+          refunds: {
+            orderBy: { createdAt: 'desc' },
+          },
         },
       })
       console.log('[Order API] Order found:', order ? 'yes' : 'no')
@@ -129,7 +140,13 @@ export async function GET(
     try {
       const formattedOrder = {
         ...order,
+        subtotalAmount: order.subtotalAmount?.toString() || '0.00',
+        discountAmount: order.discountAmount?.toString() || '0.00',
+        shippingAmount: order.shippingAmount?.toString() || '0.00',
+        taxAmount: order.taxAmount?.toString() || '0.00',
         totalAmount: order.totalAmount?.toString() || '0.00',
+        walletAmount: order.walletAmount?.toString() || '0.00',
+        exchangeRate: order.exchangeRate?.toString() || '1',
         subOrders: (order.subOrders || []).map((so) => ({
           ...so,
           items: (so.items || []).map((item) => {
@@ -145,6 +162,8 @@ export async function GET(
             return {
               ...item,
               unitPrice: item.unitPrice?.toString() || '0.00',
+              taxRate: item.taxRate?.toString() || '0.00',
+              taxAmount: item.taxAmount?.toString() || '0.00',
               product: {
                 ...product,
                 price: product.price?.toString() || '0.00',
@@ -154,6 +173,7 @@ export async function GET(
           }),
         })),
         returnRequests: order.returnRequests || [],
+        refunds: (order.refunds || []).map(formatRefund),
       }
 
       console.log('[Order API] ✅ Order formatted successfully')
@@ -268,65 +288,31 @@ export async function PUT(
     } else if (data.status) {
       // Use transaction for atomicity when cancelling order
       if (data.status === 'CANCELLED' && order.status === 'PENDING') {
+        // Void the payment first so it can't succeed after the stock is released
+        if (order.stripePaymentIntentId) {
+          if (!stripe) {
+            throw new Error('Stripe is not configured. Please set STRIPE_SECRET_KEY in environment variables.')
+          }
+          const settled = await voidPaymentIntent(stripe, order.id, order.stripePaymentIntentId)
+          if (settled) {
+            return addCorsHeaders(NextResponse.json(
+              {
+                error: settled.outcome === 'PAID'
+                  ? `Order ${order.orderNumber} has already been paid`
+                  : 'The payment for this order is still processing. Please try again shortly.',
+              },
+              { status: 409 }
+            ))
+          }
+        }
+
         await prisma.$transaction(
           async (tx) => {
             console.log('[Order API] Starting transaction to cancel order:', resolvedParams.id)
-            
-            // Get order items to restore stock
-            const orderWithItems = await tx.order.findUnique({
-              where: { id: resolvedParams.id },
-              include: {
-                subOrders: {
-                  include: {
-                    items: true,
-                  },
-                },
-              },
-            })
-
-            if (orderWithItems && orderWithItems.subOrders) {
-              // Collect all stock updates to do in parallel
-              const stockUpdates: Array<{ productId: string; quantity: number }> = []
-              
-              for (const subOrder of orderWithItems.subOrders) {
-                if (subOrder.items && subOrder.items.length > 0) {
-                  for (const item of subOrder.items) {
-                    stockUpdates.push({
-                      productId: item.productId,
-                      quantity: item.quantity,
-                    })
-                  }
-                }
-              }
 
-              // Restore stock in PARALLEL (much faster than sequential)
-              if (stockUpdates.length > 0) {
-                console.log(`[Order API] Restoring stock for ${stockUpdates.length} items in parallel`)
-                await Promise.all(
-                  stockUpdates.map((update) =>
-                    tx.product.update({
-                      where: { id: update.productId },
-                      data: {
-                        stock: {
-                          increment: update.quantity,
-                        },
-                      },
-                    }).catch((productError: any) => {
-                      console.error(`[Order API] Error restoring stock for product ${update.productId}:`, productError)
-                      // Continue with other products even if one fails
-                      return null
-                    })
-                  )
-                )
-              }
-            }
+            // Restores stock, releases the coupon and returns store credit
+            await cancelPendingOrder(tx, resolvedParams.id)
 
-            // Update order status
-            await tx.order.update({
-              where: { id: resolvedParams.id },
-              data: { status: data.status },
-            })
-            
             console.log('[Order API] Order cancellation transaction completed')
           },
           {
@@ -334,6 +320,38 @@ export async function PUT(
             timeout: 30000, // Maximum time the transaction can run (30 seconds)
           }
         )
+      } else if (data.status === 'CANCELLED' && order.status !== 'CANCELLED') {
+        // Cancelling a paid order: money goes back before the status changes, so a
+        // failed refund leaves the order as it was. This check only skips orders with
+        // nothing left; issueRefund claims the amount again under the order lock
+        if (data.refund !== false && order.stripePaymentIntentId && (await getRefundableAmount(order.id)) > 0) {
+          await issueRefund({
+            orderId: order.id,
+            amount: data.refundAmount,
+            reason: 'Order cancelled',
+            createdById: user.id,
+            requestId: request.headers.get('Idempotency-Key'),
+          })
+        }
+
+        await prisma.$transaction(async (tx) => {
+          // Only the request that actually changes the status returns store credit and restocks
+          const updated = await tx.order.updateMany({
+            where: { id: order.id, status: order.status },
+            data: { status: data.status },
+          })
+          if (updated.count === 0) return
+
+          await restoreOrderWalletPayment(tx, order.id)
+          // Goods that never left the warehouse go back on the shelf; shipped ones come back as returns
+          if (order.status === 'PROCESSED') {
+            await restockOrderItems(tx, order.id, {
+              type: 'CANCELLATION',
+              reason: 'Paid order cancelled',
+              createdById: user.id,
+            })
+          }
+        })
       } else {
         // Update order status (non-cancellation)
         await prisma.order.update({
@@ -370,6 +388,13 @@ export async function PUT(
       ))
     }
 
+    if (error instanceof RefundError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      ))
+    }
+
     console.error('Update order error:', error)
     console.error('Error stack:', error?.stack)
     console.error('Error code:', error?.code)
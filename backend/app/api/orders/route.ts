@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth, requireAdmin, addCorsHeaders, generateOrderNumber } from '@/lib/utils'
+import { buildCheckoutQuote, CheckoutError } from '@/lib/checkout'
+import { redeemCoupon } from '@/lib/coupons'
+import { debitWallet } from '@/lib/wallet'
+import { formatRefund } from '@/lib/refunds'
+import { getReservationExpiry } from '@/lib/reservations'
+import { recordStockMovement, lowStockProductIds, notifyLowStock } from '@/lib/inventory'
 import { z } from 'zod'
 
 const createOrderSchema = z.object({
@@ -8,6 +14,7 @@ const createOrderSchema = z.object({
   items: z.array(
     z.object({
       productId: z.string(),
+      variantId: z.string().optional(),
       quantity: z.number().int().positive(),
     })
   ),
@@ -17,6 +24,7 @@ const createOrderSchema = z.object({
     city: z.string(),
     zipCode: z.string(),
     country: z.string(),
+    region: z.string().optional(),
     phone: z.string().optional(),
   }),
   billingAddress: z.object({
@@ -25,8 +33,13 @@ const createOrderSchema = z.object({
     city: z.string(),
     zipCode: z.string(),
     country: z.string(),
+    region: z.string().optional(),
     phone: z.string().optional(),
   }),
+  shippingMethod: z.string().optional(),
+  couponCode: z.string().optional(),
+  currency: z.string().length(3, 'Currency must be a 3-letter code').optional(),
+  useWallet: z.boolean().optional(),
 })
 
 // Handle CORS preflight
@@ -85,6 +98,9 @@ export async function GET(request: NextRequest) {
               },
             },
           },
+          refunds: {
+            orderBy: { createdAt: 'desc' },
+          },
         },
         orderBy: {
           createdAt: 'desc',
@@ -98,6 +114,8 @@ export async function GET(request: NextRequest) {
         orders: orders.map((order) => ({
           ...order,
           totalAmount: order.totalAmount.toString(),
+          walletAmount: order.walletAmount.toString(),
+          refunds: order.refunds.map(formatRefund),
         })),
         pagination: {
           page,
@@ -182,59 +200,23 @@ export async function POST(request: NextRequest) {
       ))
     }
 
-    // Validate products and check stock
-    const productIds = data.items.map((item) => item.productId)
-    const products = await prisma.product.findMany({
-      where: { id: { in: productIds } },
-    })
-
-    if (products.length !== productIds.length) {
-      return addCorsHeaders(NextResponse.json(
-        { error: 'One or more products not found' },
-        { status: 404 }
-      ))
-    }
-
-    // Check stock availability
-    for (const item of data.items) {
-      const product = products.find((p) => p.id === item.productId)
-      if (!product) {
-        return addCorsHeaders(NextResponse.json(
-          { error: `Product ${item.productId} not found` },
-          { status: 404 }
-        ))
-      }
-      if (product.stock < item.quantity) {
+    // Price the order server-side (also validates products and stock)
+    let quote
+    try {
+      quote = await buildCheckoutQuote({ ...data, userId: targetUserId })
+    } catch (quoteError) {
+      if (quoteError instanceof CheckoutError) {
         return addCorsHeaders(NextResponse.json(
-          { error: `Insufficient stock for product: ${product.title}` },
-          { status: 400 }
+          { error: quoteError.message },
+          { status: quoteError.status }
         ))
       }
-    }
-
-    // Calculate totals
-    const orderItems: any[] = []
-    let totalAmount = 0
-
-    for (const item of data.items) {
-      const product = products.find((p) => p.id === item.productId)!
-      const price = Number(product.price)
-      const discount = product.discount || 0
-      const unitPrice = price * (1 - discount / 100)
-
-      orderItems.push({
-        productId: product.id,
-        quantity: item.quantity,
-        unitPrice,
-        hsCode: product.hsCode,
-      })
-
-      totalAmount += unitPrice * item.quantity
+      throw quoteError
     }
 
     // Create order with sub-orders in a transaction
     // Increased timeout and optimized stock updates to run in parallel
-    const order = await prisma.$transaction(
+    const { order, lowStockIds } = await prisma.$transaction(
       async (tx) => {
         console.log('[Order API] Starting transaction for order creation')
         const startTime = Date.now()
@@ -247,20 +229,36 @@ export async function POST(request: NextRequest) {
           data: {
             orderNumber,
             userId: targetUserId,
-            totalAmount,
-            currency: 'USD',
+            subtotalAmount: quote.subtotal,
+            discountAmount: quote.discount,
+            shippingAmount: quote.shipping,
+            taxAmount: quote.tax,
+            totalAmount: quote.total,
+            currency: quote.currency,
+            exchangeRate: quote.exchangeRate,
+            shippingMethod: quote.shippingMethod,
+            couponCode: quote.coupon?.code ?? null,
+            walletAmount: quote.wallet?.applied ?? 0,
             shippingAddress: data.shippingAddress,
             billingAddress: data.billingAddress,
-            status: 'PENDING',
+            // Nothing left to charge when store credit covers the whole order
+            status: quote.amountDue > 0 ? 'PENDING' : 'PROCESSED',
+            // Unpaid orders hold their stock only for the reservation window
+            reservationExpiresAt: quote.amountDue > 0 ? getReservationExpiry() : null,
             subOrders: {
               create: [{
                 status: 'PENDING',
                 items: {
-                  create: orderItems.map((item) => ({
+                  create: quote.items.map((item) => ({
                     productId: item.productId,
+                    variantId: item.variantId,
+                    variantLabel: item.variantLabel,
                     quantity: item.quantity,
                     unitPrice: item.unitPrice,
+                    taxRate: item.taxRate,
+                    taxAmount: item.tax,
                     hsCode: item.hsCode,
+                    promotionId: item.promotionId,
                   })),
                 },
               }],
@@ -279,23 +277,50 @@ export async function POST(request: NextRequest) {
         const orderTime = Date.now() - startTime
         console.log(`[Order API] Order created in ${orderTime}ms`)
 
-        // Update stock in PARALLEL instead of sequentially (much faster)
-        console.log('[Order API] Updating stock for', data.items.length, 'products in parallel')
+        // Record the coupon redemption; limits are re-checked here so concurrent orders can't exceed them
+        if (quote.coupon) {
+          const rejection = await redeemCoupon(tx, {
+            couponId: quote.coupon.id,
+            userId: targetUserId,
+            orderId: order.id,
+            amount: quote.coupon.discount + quote.coupon.shippingDiscount,
+          })
+          if (rejection) {
+            throw new CheckoutError(rejection, 409)
+          }
+        }
+
+        // Take the store credit in the same transaction; fails if the balance dropped since the quote
+        if (quote.wallet) {
+          const debit = await debitWallet(tx, {
+            userId: targetUserId,
+            amount: quote.wallet.baseAmount,
+            reason: 'ORDER_PAYMENT',
+            orderId: order.id,
+          })
+          if (!debit) {
+            throw new CheckoutError('Your wallet balance has changed. Please review your order and try again.', 409)
+          }
+        }
+
+        // Take the items off the shelf; stock is re-checked here so concurrent orders can't oversell
+        console.log('[Order API] Updating stock for', quote.items.length, 'products in parallel')
         const stockUpdateStart = Date.now()
-        
-        // Use Promise.all to update all products in parallel
-        await Promise.all(
-          data.items.map((item) =>
-            tx.product.update({
-              where: { id: item.productId },
-              data: {
-                stock: {
-                  decrement: item.quantity,
-                },
-              },
+
+        const movements = await Promise.all(
+          quote.items.map((item) =>
+            recordStockMovement(tx, {
+              productId: item.productId,
+              variantId: item.variantId,
+              type: 'SALE',
+              quantity: -item.quantity,
+              orderId: order.id,
             })
           )
         )
+        if (movements.some((movement) => movement === null)) {
+          throw new CheckoutError('Some items just went out of stock. Please review your cart and try again.', 409)
+        }
 
         const stockUpdateTime = Date.now() - stockUpdateStart
         console.log(`[Order API] Stock updated in ${stockUpdateTime}ms`)
@@ -304,7 +329,7 @@ export async function POST(request: NextRequest) {
         console.log(`[Order API] Transaction completed in ${totalTime}ms`)
 
         // Fetch full order data after transaction completes (outside transaction)
-        return order
+        return { order, lowStockIds: lowStockProductIds(movements) }
       },
       {
         maxWait: 20000, // Maximum time to wait for a transaction slot (20 seconds)
@@ -312,6 +337,8 @@ export async function POST(request: NextRequest) {
       }
     )
 
+    await notifyLowStock(lowStockIds)
+
     // Fetch full order with all relations AFTER transaction completes (faster)
     const fullOrder = await prisma.order.findUnique({
       where: { id: order.id },
@@ -345,6 +372,8 @@ export async function POST(request: NextRequest) {
         order: {
           ...orderToReturn,
           totalAmount: orderToReturn.totalAmount.toString(),
+          walletAmount: orderToReturn.walletAmount.toString(),
+          amountDue: quote.amountDue.toString(),
           subOrders: orderToReturn.subOrders?.map((so) => ({
             ...so,
             items: so.items?.map((item: any) => {
@@ -369,6 +398,13 @@ export async function POST(request: NextRequest) {
 
     return addCorsHeaders(response)
   } catch (error: any) {
+    if (error instanceof CheckoutError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      ))
+    }
+
     if (error instanceof z.ZodError) {
       console.error('Order validation error:', error.errors)
       if (typeof body !== 'undefined') {
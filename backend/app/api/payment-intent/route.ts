@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth, addCorsHeaders } from '@/lib/utils'
 import { stripe } from '@/lib/stripe'
+import { toMinorUnits } from '@/lib/currency'
+import { MIN_CARD_CHARGE } from '@/lib/wallet'
+import { isReservationExpired } from '@/lib/reservations'
 import { z } from 'zod'
 
 const paymentIntentSchema = z.object({
@@ -68,8 +71,16 @@ export async function POST(request: NextRequest) {
       ))
     }
 
-    // Validate order amount
-    const orderAmount = Number(order.totalAmount)
+    // The stock reservation ran out; the order is about to be cancelled
+    if (isReservationExpired(order)) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'This order has expired. Please place a new order.' },
+        { status: 410 }
+      ))
+    }
+
+    // Validate order amount; store credit already covers part of the total
+    const orderAmount = Number(order.totalAmount) - Number(order.walletAmount)
     if (!orderAmount || orderAmount <= 0 || isNaN(orderAmount)) {
       console.error('Invalid order amount:', order.totalAmount)
       return addCorsHeaders(NextResponse.json(
@@ -101,9 +112,11 @@ export async function POST(request: NextRequest) {
       return addCorsHeaders(response)
     }
 
-    // Convert to cents
-    const amountInCents = Math.round(orderAmount * 100)
-    if (amountInCents < 50) {
+    // Convert to the currency's smallest unit (cents, or whole units for e.g. JPY)
+    const amountInMinorUnits = toMinorUnits(orderAmount, currency)
+    // Stripe's minimum charge is roughly $0.50; compare in the base currency
+    const exchangeRate = Number(order.exchangeRate) || 1
+    if (orderAmount / exchangeRate < MIN_CARD_CHARGE) {
       return addCorsHeaders(NextResponse.json(
         { error: 'Amount too small. Minimum amount is $0.50.' },
         { status: 400 }
@@ -118,7 +131,8 @@ export async function POST(request: NextRequest) {
         // Cancel existing PaymentIntent if it's not already succeeded or canceled
         if (existingPaymentIntent.status !== 'succeeded' && existingPaymentIntent.status !== 'canceled') {
           try {
-            await stripe.paymentIntents.cancel(existingPaymentIntent.id)
+            // 'duplicate' tells the payment_intent.canceled webhook the order is not abandoned
+            await stripe.paymentIntents.cancel(existingPaymentIntent.id, { cancellation_reason: 'duplicate' })
             console.log(`[PaymentIntent] Canceled existing payment intent ${existingPaymentIntent.id} before creating new one`)
           } catch (cancelError: any) {
             // Ignore cancel errors - PaymentIntent might already be in a final state
@@ -126,23 +140,18 @@ export async function POST(request: NextRequest) {
           }
         }
       } catch (error: any) {
-        // If payment intent doesn't exist or is invalid, just clear reference
-        console.log(`[PaymentIntent] Existing payment intent ${order.stripePaymentIntentId} not found or invalid, clearing reference`)
+        // If payment intent doesn't exist or is invalid, it is simply replaced below
+        console.log(`[PaymentIntent] Existing payment intent ${order.stripePaymentIntentId} not found or invalid, replacing it`)
       }
-      
-      // Clear the old PaymentIntent reference
-      await prisma.order.update({
-        where: { id: order.id },
-        data: { stripePaymentIntentId: null },
-      })
     }
 
     // Create Payment Intent with idempotency key
-    // Use orderId as idempotency key to prevent duplicates
-    const idempotencyKey = `order-${order.id}`
+    // Keyed by the PaymentIntent being replaced: a double submit gets the same new one,
+    // while a retry after a cancelled payment gets a fresh one
+    const idempotencyKey = `order-${order.id}-${order.stripePaymentIntentId ?? 'initial'}`
     
     const paymentIntent = await stripe.paymentIntents.create({
-      amount: amountInCents,
+      amount: amountInMinorUnits,
       currency: currency,
       // Only allow card payments (no link, apple_pay, google_pay, etc.)
       payment_method_types: ['card'],
@@ -150,6 +159,8 @@ export async function POST(request: NextRequest) {
         orderId: order.id,
         orderNumber: order.orderNumber,
         userId: user.id,
+        exchangeRate: order.exchangeRate.toString(),
+        walletAmount: order.walletAmount.toString(),
       },
     }, {
       idempotencyKey: idempotencyKey,
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { addCorsHeaders } from '@/lib/utils'
+import { getRatingSummaries } from '@/lib/reviews'
+import { formatVariant } from '@/lib/variants'
+import { getRecommendations } from '@/lib/recommendations'
+import { getActivePromotions, withSalePrices } from '@/lib/promotions'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/products/[id]/recommendations - Frequently bought together and related products
+// Query: ?limit=8 per list, ?cart=id1,id2 for the rest of the cart (combined, never recommended)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const resolvedParams = params instanceof Promise ? await params : params
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(20, Math.max(1, parseInt(searchParams.get('limit') || '8') || 8))
+    const cartProductIds = (searchParams.get('cart') || '').split(',').map((id) => id.trim()).filter(Boolean).slice(0, 50)
+
+    const product = await prisma.product.findFirst({
+      where: {
+        OR: [
+          { id: resolvedParams.id },
+          { slug: resolvedParams.id },
+        ],
+      },
+      select: { id: true },
+    })
+
+    if (!product) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      ))
+    }
+
+    const recommendations = await getRecommendations(product.id, { limit, cartProductIds })
+    const ids = [...recommendations.frequentlyBoughtTogether, ...recommendations.related]
+
+    const [products, ratingSummaries, promotions] = await Promise.all([
+      prisma.product.findMany({
+        where: { id: { in: ids } },
+        include: { variants: { where: { archivedAt: null }, orderBy: { position: 'asc' } } },
+      }),
+      getRatingSummaries(ids),
+      getActivePromotions(),
+    ])
+
+    const formatted = new Map(products.map((p) => [p.id, {
+      ...p,
+      price: p.price.toString(),
+      images: p.images || [],
+      ...withSalePrices(p, p.variants.map(formatVariant), promotions),
+      ...ratingSummaries.get(p.id),
+    }]))
+    const inOrder = (list: string[]) => list.map((id) => formatted.get(id)).filter(Boolean)
+
+    const response = NextResponse.json(
+      {
+        frequentlyBoughtTogether: inOrder(recommendations.frequentlyBoughtTogether),
+        related: inOrder(recommendations.related),
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get recommendations error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
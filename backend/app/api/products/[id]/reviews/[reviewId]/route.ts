@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth, addCorsHeaders } from '@/lib/utils'
+import { formatReview } from '@/lib/reviews'
+import { z } from 'zod'
+
+const updateReviewSchema = z.object({
+  rating: z.number().int().min(1, 'Rating must be between 1 and 5').max(5, 'Rating must be between 1 and 5').optional(),
+  comment: z.string().max(2000, 'Comment must be less than 2000 characters').optional().nullable(),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// PUT /api/products/[id]/reviews/[reviewId] - Edit own review
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; reviewId: string }> | { id: string; reviewId: string } }
+) {
+  try {
+    const authCheck = await requireAuth(request)
+    if (authCheck.error) return authCheck.error
+
+    const user = authCheck.user!
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = updateReviewSchema.parse(body)
+
+    const review = await prisma.review.findUnique({
+      where: { id: resolvedParams.reviewId },
+    })
+
+    if (!review) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Review not found' },
+        { status: 404 }
+      ))
+    }
+
+    if (review.userId !== user.id) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      ))
+    }
+
+    const updateData: { rating?: number; comment?: string | null } = {}
+    if (data.rating !== undefined) updateData.rating = data.rating
+    if (data.comment !== undefined) updateData.comment = data.comment?.trim() || null
+
+    const updatedReview = await prisma.review.update({
+      where: { id: review.id },
+      data: updateData,
+      include: {
+        user: {
+          select: {
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Review updated successfully',
+        review: formatReview(updatedReview),
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Update review error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// DELETE /api/products/[id]/reviews/[reviewId] - Delete review (owner or admin)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; reviewId: string }> | { id: string; reviewId: string } }
+) {
+  try {
+    const authCheck = await requireAuth(request)
+    if (authCheck.error) return authCheck.error
+
+    const user = authCheck.user!
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const review = await prisma.review.findUnique({
+      where: { id: resolvedParams.reviewId },
+    })
+
+    if (!review) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Review not found' },
+        { status: 404 }
+      ))
+    }
+
+    if (!user.isAdmin && review.userId !== user.id) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      ))
+    }
+
+    await prisma.review.delete({
+      where: { id: review.id },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Review deleted successfully',
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Delete review error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
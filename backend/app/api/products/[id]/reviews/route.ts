@@ -0,0 +1,238 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth, addCorsHeaders } from '@/lib/utils'
+import { getCurrentUser } from '@/lib/auth'
+import { hasDeliveredPurchase, formatReview } from '@/lib/reviews'
+import { z } from 'zod'
+
+const createReviewSchema = z.object({
+  rating: z.number().int().min(1, 'Rating must be between 1 and 5').max(5, 'Rating must be between 1 and 5'),
+  comment: z.string().max(2000, 'Comment must be less than 2000 characters').optional().nullable(),
+})
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/products/[id]/reviews - List visible reviews with rating summary
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const resolvedParams = params instanceof Promise ? await params : params
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '10') || 10))
+    const skip = (page - 1) * limit
+
+    const product = await prisma.product.findFirst({
+      where: {
+        OR: [
+          { id: resolvedParams.id },
+          { slug: resolvedParams.id },
+        ],
+      },
+      select: { id: true },
+    })
+
+    if (!product) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      ))
+    }
+
+    const where = { productId: product.id, hidden: false }
+
+    const [reviews, total, aggregate, distribution] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        skip,
+        take: limit,
+        include: {
+          user: {
+            select: {
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+      }),
+      prisma.review.count({ where }),
+      prisma.review.aggregate({
+        where,
+        _avg: { rating: true },
+      }),
+      prisma.review.groupBy({
+        by: ['rating'],
+        where,
+        _count: { id: true },
+      }),
+    ])
+
+    // Logged-in users also get their own review and whether they may post one
+    const authHeader = request.headers.get('authorization')
+    const currentUser = await getCurrentUser(authHeader?.replace('Bearer ', '') || null)
+    let myReview = null
+    let canReview = false
+    if (currentUser) {
+      const ownReview = await prisma.review.findUnique({
+        where: { productId_userId: { productId: product.id, userId: currentUser.id } },
+        include: { user: { select: { firstName: true, lastName: true } } },
+      })
+      myReview = ownReview ? formatReview(ownReview) : null
+      canReview = !ownReview && await hasDeliveredPurchase(currentUser.id, product.id)
+    }
+
+    const ratingDistribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 }
+    distribution.forEach((row) => {
+      ratingDistribution[row.rating] = row._count.id
+    })
+
+    const response = NextResponse.json(
+      {
+        reviews: reviews.map(formatReview),
+        summary: {
+          averageRating: Math.round((aggregate._avg.rating || 0) * 10) / 10,
+          reviewCount: total,
+          ratingDistribution,
+        },
+        myReview,
+        canReview,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get reviews error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// POST /api/products/[id]/reviews - Create review (verified purchasers only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    const authCheck = await requireAuth(request)
+    if (authCheck.error) return authCheck.error
+
+    const user = authCheck.user!
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = createReviewSchema.parse(body)
+
+    const product = await prisma.product.findFirst({
+      where: {
+        OR: [
+          { id: resolvedParams.id },
+          { slug: resolvedParams.id },
+        ],
+      },
+      select: { id: true },
+    })
+
+    if (!product) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      ))
+    }
+
+    const isVerifiedPurchaser = await hasDeliveredPurchase(user.id, product.id)
+    if (!isVerifiedPurchaser) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Only customers with a delivered order for this product can leave a review' },
+        { status: 403 }
+      ))
+    }
+
+    const review = await prisma.review.create({
+      data: {
+        productId: product.id,
+        userId: user.id,
+        rating: data.rating,
+        comment: data.comment?.trim() || null,
+      },
+      include: {
+        user: {
+          select: {
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Review created successfully',
+        review: formatReview(review),
+      },
+      { status: 201 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    // One review per user and product
+    if (error.code === 'P2002') {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'You have already reviewed this product. Edit your existing review instead.' },
+        { status: 409 }
+      ))
+    }
+
+    console.error('Create review error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
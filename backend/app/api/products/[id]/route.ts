@@ -1,20 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth, requireAdmin, addCorsHeaders, generateSlug } from '@/lib/utils'
+import { getCurrentUser } from '@/lib/auth'
+import { getRatingSummaries } from '@/lib/reviews'
+import { setProductStock, lowStockProductIds, notifyLowStock, StockMovementResult } from '@/lib/inventory'
+import { formatVariant, getVariantRejection, syncProductVariants } from '@/lib/variants'
+import { resolveProductCategory, CategoryError } from '@/lib/categories'
+import { PRODUCT_STATUSES, productStatusData } from '@/lib/products'
+import { getActivePromotions, withSalePrices } from '@/lib/promotions'
+import { specInputSchema, syncProductSpecs, getProductSpecs, SpecError } from '@/lib/specs'
+import { refreshSearchWords } from '@/lib/search'
 import { z } from 'zod'
 
+const variantSchema = z.object({
+  id: z.string().optional(),
+  sku: z.string().trim().min(1, 'SKU is required'),
+  options: z.record(z.string().trim().min(1)).refine((options) => Object.keys(options).length > 0, 'At least one option is required'),
+  price: z.number().positive('Variant price must be a positive number').optional().nullable(),
+  stock: z.number().int().min(0).default(0),
+  images: z.array(z.string()).optional().nullable(),
+})
+
 const updateProductSchema = z.object({
   title: z.string().min(1).optional(),
   description: z.string().optional(),
   price: z.number().positive().optional(),
   discount: z.number().int().min(0).max(100).optional(),
   hsCode: z.string().min(1).optional(),
-  category: z.string().optional(),
-  categoryId: z.string().optional(),
+  category: z.string().optional().nullable(),
+  categoryId: z.string().optional().nullable(),
   stock: z.number().int().min(0).optional(),
+  stockReason: z.string().optional(), // Recorded on the stock adjustment
+  reorderPoint: z.number().int().min(0).optional(),
+  weight: z.number().nonnegative().optional().nullable(),
   images: z.array(z.string()).optional(),
   featured: z.boolean().optional(),
+  status: z.enum(PRODUCT_STATUSES).optional(), // ARCHIVED retires the product, ACTIVE restores it
   slug: z.string().optional(),
+  variants: z.array(variantSchema).optional(), // Replaces the product's variants; [] removes them
+  specs: specInputSchema.optional(), // Merged into the product's spec values; null removes one
 })
 
 // Handle CORS preflight
@@ -30,6 +54,8 @@ export async function OPTIONS(request: NextRequest) {
 }
 
 // GET /api/products/[id] - Get product by ID or slug
+// Drafts are only shown to admins. Archived products still resolve so links from
+// past orders work; clients check status before offering them for sale.
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> | { id: string } }
@@ -45,21 +71,45 @@ export async function GET(
           { slug: productId },
         ],
       },
+      include: {
+        variants: { where: { archivedAt: null }, orderBy: { position: 'asc' } },
+      },
     })
 
-    if (!product) {
+    // Auth is optional here - logged-in users also get their wishlist state
+    const authHeader = request.headers.get('authorization')
+    const currentUser = await getCurrentUser(authHeader?.replace('Bearer ', '') || null)
+
+    if (!product || (product.status === 'DRAFT' && !currentUser?.isAdmin)) {
       return NextResponse.json(
         { error: 'Product not found' },
         { status: 404 }
       )
     }
 
+    const isInWishlist = currentUser
+      ? !!(await prisma.wishlist.findUnique({
+          where: { productId_userId: { productId: product.id, userId: currentUser.id } },
+          select: { id: true },
+        }))
+      : false
+
+    const [ratingSummaries, promotions, specs] = await Promise.all([
+      getRatingSummaries([product.id]),
+      getActivePromotions(),
+      getProductSpecs([product.id]),
+    ])
+
     const response = NextResponse.json(
       {
         product: {
           ...product,
           price: product.price.toString(),
           images: product.images || [],
+          ...withSalePrices(product, product.variants.map(formatVariant), promotions),
+          specs: specs.get(product.id) || [],
+          isInWishlist,
+          ...ratingSummaries.get(product.id),
         },
       },
       { status: 200 }
@@ -92,6 +142,7 @@ export async function PUT(
 
     const product = await prisma.product.findUnique({
       where: { id: productId },
+      include: { variants: { where: { archivedAt: null }, select: { id: true } } },
     })
 
     if (!product) {
@@ -114,8 +165,35 @@ export async function PUT(
     
     const data = updateProductSchema.parse(body)
 
+    // Products with variants keep their stock on the variants
+    const hasVariants = data.variants ? data.variants.length > 0 : product.variants.length > 0
+    if (hasVariants && data.stock !== undefined) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'This product has variants; update the stock of each variant instead' },
+        { status: 400 }
+      ))
+    }
+
+    const variantRejection = data.variants && getVariantRejection(
+      data.variants,
+      product.variants.map((variant) => variant.id)
+    )
+    if (variantRejection) {
+      return addCorsHeaders(NextResponse.json(
+        { error: variantRejection },
+        { status: 400 }
+      ))
+    }
+
     // Handle slug generation if title is updated
-    let updateData: any = { ...data }
+    const { stock, stockReason, variants, specs, category, categoryId, status, ...fields } = data
+    let updateData: any = { ...fields }
+    if (status && status !== product.status) {
+      Object.assign(updateData, productStatusData(status))
+    }
+    if (category !== undefined || categoryId !== undefined) {
+      Object.assign(updateData, await resolveProductCategory({ category, categoryId }))
+    }
     if (data.title && !data.slug) {
       let slug = generateSlug(data.title)
       let slugExists = await prisma.product.findFirst({
@@ -136,11 +214,37 @@ export async function PUT(
       updateData.images = updateData.images || null
     }
 
-    const updatedProduct = await prisma.product.update({
-      where: { id: productId },
-      data: updateData,
+    // Stock changes go through the inventory ledger
+    const { updatedProduct, movements } = await prisma.$transaction(async (tx) => {
+      const movements: (StockMovementResult | null)[] = []
+      if (variants) {
+        movements.push(...await syncProductVariants(tx, productId, variants, adminCheck.user!.id))
+      }
+      if (stock !== undefined) {
+        movements.push(await setProductStock(tx, productId, stock, {
+          reason: stockReason?.trim() || 'Product edited',
+          createdById: adminCheck.user!.id,
+        }))
+      }
+      const updatedProduct = await tx.product.update({
+        where: { id: productId },
+        data: updateData,
+        include: { variants: { where: { archivedAt: null }, orderBy: { position: 'asc' } } },
+      })
+      // A category change drops values of specs the new category doesn't have
+      if (specs || updatedProduct.categoryId !== product.categoryId) {
+        await syncProductSpecs(tx, productId, updatedProduct.categoryId, specs)
+      }
+      return { updatedProduct, movements }
     })
 
+    await notifyLowStock(lowStockProductIds(movements))
+    // Suggestions use the titles and categories of active products
+    if (updateData.title !== undefined || updateData.category !== undefined || updateData.status !== undefined) {
+      await refreshSearchWords()
+    }
+    const productSpecs = await getProductSpecs([productId])
+
     const response = NextResponse.json(
       {
         message: 'Product updated successfully',
@@ -148,6 +252,8 @@ export async function PUT(
           ...updatedProduct,
           price: updatedProduct.price.toString(),
           images: updatedProduct.images || [],
+          variants: updatedProduct.variants.map(formatVariant),
+          specs: productSpecs.get(productId) || [],
         },
       },
       { status: 200 }
@@ -162,7 +268,22 @@ export async function PUT(
       ))
     }
 
+    if (error instanceof CategoryError || error instanceof SpecError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      ))
+    }
+
     console.error('Update product error:', error)
+
+    if (error.code === 'P2002') {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Another product already uses this slug or SKU', details: error.meta?.target },
+        { status: 409 }
+      ))
+    }
+
     return addCorsHeaders(NextResponse.json(
       { 
         error: 'Internal server error', 
@@ -174,6 +295,8 @@ export async function PUT(
 }
 
 // DELETE /api/products/[id] - Delete product (Admin only)
+// Products on past orders can't be deleted without breaking those orders, so
+// they are archived instead; the response says which happened.
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> | { id: string } }
@@ -208,13 +331,40 @@ export async function DELETE(
       ))
     }
 
+    const orderItemCount = await prisma.orderItem.count({
+      where: { productId },
+    })
+
+    if (orderItemCount > 0) {
+      const archived = await prisma.product.update({
+        where: { id: productId },
+        data: productStatusData('ARCHIVED'),
+      })
+      await refreshSearchWords()
+
+      return addCorsHeaders(NextResponse.json(
+        {
+          message: 'Product has existing orders, so it was archived instead of deleted',
+          archived: true,
+          product: {
+            ...archived,
+            price: archived.price.toString(),
+            images: archived.images || [],
+          },
+        },
+        { status: 200 }
+      ))
+    }
+
     await prisma.product.delete({
       where: { id: productId },
     })
+    await refreshSearchWords()
 
     const response = NextResponse.json(
       {
         message: 'Product deleted successfully',
+        archived: false,
       },
       { status: 200 }
     )
@@ -229,7 +379,7 @@ export async function DELETE(
     // Handle foreign key constraint error
     if (error.code === 'P2003') {
       return addCorsHeaders(NextResponse.json(
-        { error: 'Cannot delete product. It is associated with existing orders. Please remove all order items first.' },
+        { error: 'Cannot delete product. It is associated with existing orders; archive it instead.' },
         { status: 400 }
       ))
     }
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { addCorsHeaders } from '@/lib/utils'
+import { getRatingSummaries } from '@/lib/reviews'
+import { formatVariant } from '@/lib/variants'
+import { getActivePromotions, withSalePrices } from '@/lib/promotions'
+import { getProductSpecs } from '@/lib/specs'
+
+const MAX_COMPARE = 4
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/products/compare?ids=a,b,c - Up to four products side by side (ids or slugs)
+// specs has one row per spec any of them has: values line up with products (null
+// when a product has no value) and differs is set when they don't all match.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const ids = Array.from(new Set(
+      (searchParams.get('ids') || '').split(',').map((id) => id.trim()).filter(Boolean)
+    ))
+
+    if (ids.length === 0) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Pass the products to compare as ?ids=' },
+        { status: 400 }
+      ))
+    }
+
+    if (ids.length > MAX_COMPARE) {
+      return addCorsHeaders(NextResponse.json(
+        { error: `Up to ${MAX_COMPARE} products can be compared at once` },
+        { status: 400 }
+      ))
+    }
+
+    const found = await prisma.product.findMany({
+      where: {
+        status: 'ACTIVE',
+        OR: [
+          { id: { in: ids } },
+          { slug: { in: ids } },
+        ],
+      },
+      include: { variants: { where: { archivedAt: null }, orderBy: { position: 'asc' } } },
+    })
+    // Keep the order they were added in
+    const products = ids
+      .map((id) => found.find((p) => p.id === id || p.slug === id))
+      .filter((p, index, list): p is (typeof found)[number] => !!p && list.indexOf(p) === index)
+    const productIds = products.map((p) => p.id)
+
+    const [ratingSummaries, promotions, specs] = await Promise.all([
+      getRatingSummaries(productIds),
+      getActivePromotions(),
+      getProductSpecs(productIds),
+    ])
+
+    const rows = new Map<string, { key: string; name: string; unit: string | null; type: string; values: (string | null)[]; differs: boolean }>()
+    for (const productId of productIds) {
+      for (const spec of specs.get(productId) || []) {
+        if (!rows.has(spec.key)) {
+          rows.set(spec.key, { key: spec.key, name: spec.name, unit: spec.unit, type: spec.type, values: [], differs: false })
+        }
+      }
+    }
+    for (const row of Array.from(rows.values())) {
+      row.values = productIds.map((productId) =>
+        specs.get(productId)?.find((spec) => spec.key === row.key)?.display ?? null
+      )
+      row.differs = new Set(row.values).size > 1
+    }
+
+    const response = NextResponse.json(
+      {
+        products: products.map((p) => ({
+          ...p,
+          price: p.price.toString(),
+          images: p.images || [],
+          ...withSalePrices(p, p.variants.map(formatVariant), promotions),
+          ...ratingSummaries.get(p.id),
+        })),
+        specs: Array.from(rows.values()),
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Compare products error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
@@ -1,22 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, requireAdmin, addCorsHeaders, generateSlug } from '@/lib/utils'
+import { requireAuth, requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { getCurrentUser } from '@/lib/auth'
+import { getRatingSummaries } from '@/lib/reviews'
+import { recordStockMovement, lowStockProductIds, notifyLowStock, StockMovementResult } from '@/lib/inventory'
+import { formatVariant, getVariantRejection, syncProductVariants } from '@/lib/variants'
+import { getSearchHighlights, getSearchSuggestion, refreshSearchWords, SearchHighlight } from '@/lib/search'
+import { parseCatalogQuery, searchCatalog, CatalogFacets } from '@/lib/catalog'
+import { resolveProductCategory, CategoryError } from '@/lib/categories'
+import { productSchema, uniqueProductSlug, productStatusData, parseProductStatuses } from '@/lib/products'
+import { getActivePromotions, withSalePrices } from '@/lib/promotions'
+import { syncProductSpecs, getProductSpecs, SpecError } from '@/lib/specs'
 import { z } from 'zod'
 
-const productSchema = z.object({
-  title: z.string().min(1, 'Title is required'),
-  description: z.string().optional().nullable(),
-  price: z.number().positive('Price must be a positive number'),
-  discount: z.number().int().min(0).max(100).optional().nullable(),
-  hsCode: z.string().min(1, 'HS Code is required'),
-  category: z.string().optional().nullable(),
-  categoryId: z.string().optional().nullable(),
-  stock: z.number().int().min(0).default(0),
-  images: z.array(z.string()).optional().nullable(),
-  featured: z.boolean().default(false),
-  slug: z.string().optional().nullable(),
-})
-
 // Handle CORS preflight
 export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
@@ -68,6 +64,15 @@ function safeParseBoolean(value: string | null, defaultValue: boolean = false):
 }
 
 // GET /api/products - List products with filters
+// Filters: category (slug, name or id; includes subcategories), featured, search, minPrice, maxPrice, inStock, minDiscount,
+// minRating, onSale, promotion (id), attr=Name:Value (repeat for more; values of one name are OR'ed)
+// and spec=key:value or spec=key:min..max for product specs (either end of a range may be left out).
+// sort: relevance (default with search), newest (default), price_asc, price_desc,
+// best_selling, discount, rating. facets=true adds counts for a filter sidebar.
+// Only active products are listed; admins can pass status=draft,archived or status=all.
+// Each product carries salePrice (what checkout charges) and the promotion behind it.
+// With ?search= results carry highlights; didYouMean is set when nothing matched
+// the words as typed.
 export async function GET(request: NextRequest) {
   try {
     console.log('[Products API] GET request received')
@@ -84,13 +89,19 @@ export async function GET(request: NextRequest) {
     // Calculate skip safely
     const skip = Math.max(0, (page - 1) * limit)
     
-    // Parse optional filters
-    const category = searchParams.get('category')?.trim() || null
-    const search = searchParams.get('search')?.trim() || null
-    const featuredParam = searchParams.get('featured')
-    
-    // Safely parse featured boolean (default: false)
-    const featured = safeParseBoolean(featuredParam, false)
+    // Parse filters, search and sort
+    const query = parseCatalogQuery(searchParams)
+    const { category, search, featured, minPrice, maxPrice, inStock, minDiscount, minRating, attributes, sort } = query
+    const withFacets = safeParseBoolean(searchParams.get('facets'), false)
+
+    const statusParam = searchParams.get('status')
+    if (statusParam) {
+      const authHeader = request.headers.get('authorization')
+      const currentUser = await getCurrentUser(authHeader?.replace('Bearer ', '') || null)
+      if (currentUser?.isAdmin) {
+        query.statuses = parseProductStatuses(statusParam)
+      }
+    }
     
     console.log('[Products API] Query params:', {
       page,
@@ -99,47 +110,44 @@ export async function GET(request: NextRequest) {
       category: category || 'none',
       search: search || 'none',
       featured,
+      minPrice,
+      maxPrice,
+      inStock,
+      minDiscount,
+      minRating,
+      attributes,
+      sort,
+      statuses: query.statuses || 'ACTIVE',
     })
     
-    // Build where clause safely
-    const where: any = {}
-    
-    // Add category filter if provided
-    if (category && category.length > 0) {
-      where.category = category
-    }
-    
-    // Add featured filter if requested
-    if (featured) {
-      where.featured = true
-    }
-    
-    // Add search filter if provided
-    if (search && search.length > 0) {
-      where.OR = [
-        { title: { contains: search, mode: 'insensitive' } },
-        { description: { contains: search, mode: 'insensitive' } },
-      ]
-    }
-    
-    console.log('[Products API] Prisma where clause:', JSON.stringify(where, null, 2))
-    
     // Execute database queries with error handling
     let products: any[] = []
     let total: number = 0
+    let facets: CatalogFacets | null = null
+    let highlights = new Map<string, SearchHighlight>()
+    let didYouMean: string | null = null
     
     try {
-      [products, total] = await Promise.all([
+      const catalog = await searchCatalog(query, { skip, take: limit, facets: withFacets })
+      const matches = catalog.matches
+      total = catalog.total
+      facets = catalog.facets
+      
+      const position = new Map(catalog.ids.map((id, index) => [id, index]))
+      ;[products, highlights] = await Promise.all([
         prisma.product.findMany({
-          where,
-          skip,
-          take: limit,
-          orderBy: {
-            createdAt: 'desc',
+          where: { id: { in: catalog.ids } },
+          include: {
+            variants: { where: { archivedAt: null }, orderBy: { position: 'asc' } },
           },
         }),
-        prisma.product.count({ where }),
+        search ? getSearchHighlights(search, catalog.ids) : highlights,
       ])
+      products.sort((a, b) => position.get(a.id)! - position.get(b.id)!)
+      
+      if (search && matches && !matches.some((match) => match.exact)) {
+        didYouMean = await getSearchSuggestion(search)
+      }
       
       console.log(`[Products API] Found ${products.length} products (total: ${total})`)
     } catch (dbError: any) {
@@ -162,10 +170,17 @@ export async function GET(request: NextRequest) {
     }
     
     // Format products for response
+    const [ratingSummaries, promotions] = await Promise.all([
+      getRatingSummaries(products.map((p) => p.id)),
+      getActivePromotions(),
+    ])
     const formattedProducts = products.map((p) => ({
       ...p,
       price: p.price.toString(),
       images: p.images || [],
+      ...withSalePrices(p, (p.variants || []).map(formatVariant), promotions),
+      ...ratingSummaries.get(p.id),
+      ...(highlights.has(p.id) && { highlight: highlights.get(p.id) }),
     }))
     
     // Calculate pagination safely (prevent division by zero)
@@ -180,6 +195,8 @@ export async function GET(request: NextRequest) {
         total,
         totalPages,
       },
+      ...(search && { didYouMean }),
+      ...(withFacets && { facets }),
     }
     
     console.log(`[Products API] ✅ Returning ${formattedProducts.length} products`)
@@ -250,26 +267,8 @@ export async function POST(request: NextRequest) {
       throw validationError
     }
 
-    // Generate slug if not provided
-    let slug: string = data.slug || generateSlug(data.title)
-    
-    // Fallback if slug is empty or invalid
-    if (!slug || slug.trim() === '') {
-      slug = generateSlug(data.title) || `product-${Date.now()}`
-    }
-
-    // Check if slug already exists - if so, append number
-    // (findUnique only works with @unique fields that Prisma client recognizes)
-    let slugExists = await prisma.product.findFirst({ where: { slug } })
-    let finalSlug = slug
-    if (slugExists) {
-      let counter = 1
-      while (slugExists) {
-        finalSlug = `${slug}-${counter}`
-        slugExists = await prisma.product.findFirst({ where: { slug: finalSlug } })
-        counter++
-      }
-    }
+    // Generate slug if not provided; taken slugs get a number appended
+    const finalSlug = await uniqueProductSlug(data.slug?.trim() || data.title)
 
     // Validate all required fields before Prisma call
     if (!data.title || !data.hsCode || !data.price) {
@@ -279,6 +278,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const variantRejection = data.variants && getVariantRejection(data.variants)
+    if (variantRejection) {
+      return addCorsHeaders(NextResponse.json(
+        { error: variantRejection },
+        { status: 400 }
+      ))
+    }
+
     // Prepare final data object for Prisma - ensure all fields are properly typed
     const productData = {
       title: data.title,
@@ -286,18 +293,49 @@ export async function POST(request: NextRequest) {
       price: data.price,
       discount: data.discount || null,
       hsCode: data.hsCode,
-      category: data.category || null,
-      categoryId: data.categoryId || null,
-      stock: data.stock || 0,
+      ...await resolveProductCategory(data),
+      ...(data.reorderPoint !== undefined && { reorderPoint: data.reorderPoint }),
+      weight: data.weight ?? null,
       images: data.images || [],
       featured: data.featured || false,
+      ...productStatusData(data.status),
       slug: finalSlug,
     }
 
-    const product = await prisma.product.create({
-      data: productData,
+    // Opening stock is booked as a receipt so the ledger explains every unit
+    const { product, movements } = await prisma.$transaction(async (tx) => {
+      const created = await tx.product.create({
+        data: productData,
+      })
+
+      if (data.specs) {
+        await syncProductSpecs(tx, created.id, created.categoryId, data.specs)
+      }
+
+      let movements: (StockMovementResult | null)[] = []
+      if (data.variants?.length) {
+        movements = await syncProductVariants(tx, created.id, data.variants, adminCheck.user!.id)
+      } else if (data.stock) {
+        movements.push(await recordStockMovement(tx, {
+          productId: created.id,
+          type: 'RECEIPT',
+          quantity: data.stock,
+          reason: 'Opening stock',
+          createdById: adminCheck.user!.id,
+        }))
+      }
+
+      const product = await tx.product.findUniqueOrThrow({
+        where: { id: created.id },
+        include: { variants: { where: { archivedAt: null }, orderBy: { position: 'asc' } } },
+      })
+      return { product, movements }
     })
 
+    await notifyLowStock(lowStockProductIds(movements))
+    if (product.status === 'ACTIVE') await refreshSearchWords()
+    const specs = await getProductSpecs([product.id])
+
     const response = NextResponse.json(
       {
         message: 'Product created successfully',
@@ -305,6 +343,8 @@ export async function POST(request: NextRequest) {
           ...product,
           price: product.price.toString(),
           images: product.images || [],
+          variants: product.variants.map(formatVariant),
+          specs: specs.get(product.id) || [],
         },
       },
       { status: 201 }
@@ -319,6 +359,13 @@ export async function POST(request: NextRequest) {
       ))
     }
 
+    if (error instanceof CategoryError || error instanceof SpecError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      ))
+    }
+
     console.error('Create product error:', error)
     console.error('Error code:', error.code)
     console.error('Error message:', error.message)
@@ -327,7 +374,7 @@ export async function POST(request: NextRequest) {
     if (error.code === 'P2002') {
       return addCorsHeaders(NextResponse.json(
         { 
-          error: 'Product with this slug or identifier already exists',
+          error: 'Product with this slug, SKU or identifier already exists',
           details: error.meta?.target 
         },
         { status: 409 }
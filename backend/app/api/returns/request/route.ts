@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth, requireAdmin, addCorsHeaders } from '@/lib/utils'
+import { creditWallet, formatWalletTransaction } from '@/lib/wallet'
+import { formatRefund, issueRefund, lockOrderForRefund, getReturnRefundableAmount, RefundError } from '@/lib/refunds'
+import { restockOrderItems, countOrderRestocks, InventoryError } from '@/lib/inventory'
+import { roundCurrency } from '@/lib/currency'
 import { z } from 'zod'
 
 const createReturnSchema = z.object({
@@ -12,6 +16,10 @@ const createReturnSchema = z.object({
 const updateReturnSchema = z.object({
   returnId: z.string(),
   status: z.enum(['PENDING', 'APPROVED', 'REJECTED']),
+  refundToWallet: z.boolean().optional(),
+  refundToCard: z.boolean().optional(),
+  refundAmount: z.number().positive().optional(), // Order currency; defaults to the order total (card: what is still refundable)
+  restock: z.boolean().optional(), // Put the returned items back in stock
 })
 
 // Handle CORS preflight
@@ -21,7 +29,7 @@ export async function OPTIONS(request: NextRequest) {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, Idempotency-Key',
     },
   })
 }
@@ -199,10 +207,14 @@ export async function PUT(request: NextRequest) {
     if (adminCheck.error) return adminCheck.error
 
     const body = await request.json()
-    const { returnId, ...data } = updateReturnSchema.parse(body)
+    const { returnId, refundToWallet, refundToCard, refundAmount, restock, ...data } = updateReturnSchema.parse(body)
 
     const returnRequest = await prisma.returnRequest.findUnique({
       where: { id: returnId },
+      include: {
+        order: true,
+        walletTransaction: true,
+      },
     })
 
     if (!returnRequest) {
@@ -212,18 +224,123 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    const updatedReturn = await prisma.returnRequest.update({
-      where: { id: returnId },
-      data: { status: data.status },
-      include: {
-        order: {
-          select: {
-            id: true,
-            orderNumber: true,
-            totalAmount: true,
+    if (refundToWallet && refundToCard) {
+      return NextResponse.json(
+        { error: 'Choose either a wallet or a card refund' },
+        { status: 400 }
+      )
+    }
+
+    if (refundToCard && data.status !== 'APPROVED') {
+      return NextResponse.json(
+        { error: 'Only approved returns can be refunded' },
+        { status: 400 }
+      )
+    }
+
+    if (restock) {
+      if (data.status !== 'APPROVED') {
+        return NextResponse.json(
+          { error: 'Only approved returns can be restocked' },
+          { status: 400 }
+        )
+      }
+      // Checked again under the order lock; this one fails before any card refund
+      if (await countOrderRestocks(prisma, returnRequest.orderId) > 0) {
+        return NextResponse.json(
+          { error: `The items of order ${returnRequest.order.orderNumber} have already been restocked` },
+          { status: 409 }
+        )
+      }
+    }
+
+    if (refundToWallet) {
+      if (data.status !== 'APPROVED') {
+        return NextResponse.json(
+          { error: 'Only approved returns can be refunded to the wallet' },
+          { status: 400 }
+        )
+      }
+      if (returnRequest.walletTransaction) {
+        return NextResponse.json(
+          { error: 'This return has already been refunded to the wallet' },
+          { status: 409 }
+        )
+      }
+    }
+
+    const order = returnRequest.order
+
+    // Card refunds go through Stripe first so a failed refund leaves the return untouched
+    const refund = refundToCard
+      ? await issueRefund({
+          orderId: order.id,
+          amount: refundAmount,
+          reason: `Return approved: ${returnRequest.reason}`,
+          returnRequestId: returnId,
+          createdById: adminCheck.user!.id,
+          requestId: request.headers.get('Idempotency-Key'),
+        })
+      : null
+
+    const { updatedReturn, walletTransaction } = await prisma.$transaction(async (tx) => {
+      const updatedReturn = await tx.returnRequest.update({
+        where: { id: returnId },
+        data: { status: data.status },
+        include: {
+          order: {
+            select: {
+              id: true,
+              orderNumber: true,
+              totalAmount: true,
+            },
           },
         },
-      },
+      })
+
+      let walletTransaction = null
+      if (refundToWallet) {
+        // Card refunds and other returns of the order count against it too; the lock
+        // keeps concurrent refunds from both passing the check
+        await lockOrderForRefund(tx, order.id)
+        const refundable = await getReturnRefundableAmount(order.id, tx)
+        if (refundable <= 0) {
+          throw new RefundError(`Order ${order.orderNumber} has already been fully refunded`, 409)
+        }
+        const amount = roundCurrency(refundAmount ?? refundable, order.currency)
+        if (amount > refundable) {
+          throw new RefundError(`Refund amount cannot exceed the ${refundable} ${order.currency} still refundable on this order`)
+        }
+
+        // The wallet is kept in the base currency, so convert back at the order's locked rate
+        walletTransaction = await creditWallet(tx, {
+          userId: order.userId,
+          amount: amount / (Number(order.exchangeRate) || 1),
+          reason: 'RETURN_REFUND',
+          note: `Refund for order ${order.orderNumber}`,
+          orderId: order.id,
+          returnRequestId: returnId,
+          createdById: adminCheck.user!.id,
+        })
+      }
+
+      if (restock) {
+        // Returns carry no items, so a restock puts back the whole order; that happens
+        // once per order, whichever return (or cancellation) did it. The lock keeps
+        // concurrent approvals from both passing the check
+        await lockOrderForRefund(tx, order.id)
+        if (await countOrderRestocks(tx, order.id) > 0) {
+          throw new InventoryError(`The items of order ${order.orderNumber} have already been restocked`, 409)
+        }
+        await restockOrderItems(tx, order.id, {
+          type: 'RETURN',
+          reason: `Return approved: ${returnRequest.reason}`,
+          returnRequestId: returnId,
+          createdById: adminCheck.user!.id,
+        })
+      }
+
+      return { updatedReturn, walletTransaction }
     })
 
     const response = NextResponse.json(
@@ -233,6 +350,8 @@ export async function PUT(request: NextRequest) {
           ...updatedReturn,
           images: updatedReturn.images || [],
         },
+        walletTransaction: walletTransaction && formatWalletTransaction(walletTransaction),
+        refund: refund && formatRefund(refund),
       },
       { status: 200 }
     )
@@ -246,6 +365,21 @@ export async function PUT(request: NextRequest) {
       )
     }
 
+    if (error instanceof RefundError || error instanceof InventoryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    // Unique returnRequestId on the ledger: a concurrent request already refunded this return
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'This return has already been refunded to the wallet' },
+        { status: 409 }
+      )
+    }
+
     console.error('Update return error:', error)
     return NextResponse.json(
       { error: 'Internal server error', details: error.message },
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { addCorsHeaders } from '@/lib/utils'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/shipping - Public summary of active shipping zones
+export async function GET() {
+  try {
+    const zones = await prisma.shippingZone.findMany({
+      where: { isActive: true },
+      select: {
+        id: true,
+        name: true,
+        countries: true,
+        isDefault: true,
+        freeShippingThreshold: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    const response = NextResponse.json(
+      {
+        zones: zones.map((zone) => ({
+          ...zone,
+          freeShippingThreshold: zone.freeShippingThreshold?.toString() ?? null,
+        })),
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get shipping zones error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { resolveLocalPath } from '@/lib/storage'
+
+export const dynamic = 'force-dynamic'
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.avif': 'image/avif',
+}
+
+// GET /api/uploads/[...key] - Serve a file stored by the local upload driver
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> | { key: string[] } }
+) {
+  const resolvedParams = params instanceof Promise ? await params : params
+  const key = resolvedParams.key.join('/')
+  const contentType = CONTENT_TYPES[path.extname(key).toLowerCase()]
+  const filePath = resolveLocalPath(key)
+
+  if (!contentType || !filePath) {
+    return NextResponse.json({ error: 'File not found' }, { status: 404 })
+  }
+
+  try {
+    const file = await fs.readFile(filePath)
+    return new NextResponse(new Uint8Array(file), {
+      status: 200,
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': String(file.length),
+        // Keys are unique per upload, so the content never changes
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'Access-Control-Allow-Origin': '*',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error.code === 'EISDIR') {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+    console.error('Serve upload error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
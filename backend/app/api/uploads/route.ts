@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, addCorsHeaders } from '@/lib/utils'
+import { storeImage, UploadError, UPLOAD_FOLDERS, UploadFolder } from '@/lib/uploads'
+import { createMediaAsset, formatMediaAsset, MEDIA_FOLDERS } from '@/lib/media'
+
+export const dynamic = 'force-dynamic'
+
+// Folders customers may upload to; everything else is admin only
+const CUSTOMER_FOLDERS: UploadFolder[] = ['profile', 'returns']
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// POST /api/uploads - Upload an image (multipart/form-data: file, folder, optional altText and comma separated tags)
+// Admin uploads to library folders are also added to the media library.
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await requireAuth(request)
+    if (authCheck.error) return authCheck.error
+
+    const user = authCheck.user!
+
+    let formData: FormData
+    try {
+      formData = await request.formData()
+    } catch {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Expected a multipart/form-data body' },
+        { status: 400 }
+      ))
+    }
+
+    const file = formData.get('file')
+    if (!file || typeof file === 'string') {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'No file uploaded. Send the image in the "file" field' },
+        { status: 400 }
+      ))
+    }
+
+    const folderValue = formData.get('folder')
+    const folder = (typeof folderValue === 'string' && folderValue ? folderValue : 'misc') as UploadFolder
+    if (!UPLOAD_FOLDERS.includes(folder)) {
+      return addCorsHeaders(NextResponse.json(
+        { error: `Unknown folder. Use one of: ${UPLOAD_FOLDERS.join(', ')}` },
+        { status: 400 }
+      ))
+    }
+
+    if (!user.isAdmin && !CUSTOMER_FOLDERS.includes(folder)) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      ))
+    }
+
+    const upload = await storeImage(Buffer.from(await file.arrayBuffer()), file.type, folder)
+
+    const altText = formData.get('altText')
+    const tags = formData.get('tags')
+    const asset = user.isAdmin && MEDIA_FOLDERS.includes(folder)
+      ? await createMediaAsset(upload, {
+          folder,
+          filename: file.name,
+          uploadedById: user.id,
+          altText: typeof altText === 'string' ? altText.trim() : undefined,
+          tags: typeof tags === 'string' ? tags.split(',') : undefined,
+        })
+      : null
+
+    return addCorsHeaders(NextResponse.json(
+      { upload, asset: asset ? formatMediaAsset(asset, 0) : null },
+      { status: 201 }
+    ))
+  } catch (error: any) {
+    if (error instanceof UploadError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      ))
+    }
+
+    console.error('Upload error:', error)
+    return addCorsHeaders(NextResponse.json(
+      { error: 'Internal server error', details: process.env.NODE_ENV === 'development' ? error.message : undefined },
+      { status: 500 }
+    ))
+  }
+}
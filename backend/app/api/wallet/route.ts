@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth, addCorsHeaders } from '@/lib/utils'
+import { BASE_CURRENCY } from '@/lib/currency'
+import { formatWalletTransaction, getWalletBalance } from '@/lib/wallet'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/wallet - Get current user's store credit balance and recent activity
+export async function GET(request: NextRequest) {
+  try {
+    const authCheck = await requireAuth(request)
+    if (authCheck.error) return authCheck.error
+
+    const user = authCheck.user!
+
+    const [balance, transactions] = await Promise.all([
+      getWalletBalance(user.id),
+      prisma.walletTransaction.findMany({
+        where: { userId: user.id },
+        take: 50,
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          type: true,
+          reason: true,
+          amount: true,
+          balanceAfter: true,
+          note: true,
+          createdAt: true,
+          order: {
+            select: { id: true, orderNumber: true },
+          },
+        },
+      }),
+    ])
+
+    const response = NextResponse.json(
+      {
+        balance: balance.toFixed(2),
+        currency: BASE_CURRENCY,
+        transactions: transactions.map(formatWalletTransaction),
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get wallet error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth, addCorsHeaders } from '@/lib/utils'
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// DELETE /api/wishlist/[productId] - Remove product from current user's wishlist
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> | { productId: string } }
+) {
+  try {
+    const authCheck = await requireAuth(request)
+    if (authCheck.error) return authCheck.error
+
+    const user = authCheck.user!
+    const resolvedParams = params instanceof Promise ? await params : params
+
+    const result = await prisma.wishlist.deleteMany({
+      where: {
+        productId: resolvedParams.productId,
+        userId: user.id,
+      },
+    })
+
+    if (result.count === 0) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Product not in wishlist' },
+        { status: 404 }
+      ))
+    }
+
+    const response = NextResponse.json(
+      {
+        message: 'Product removed from wishlist',
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Remove from wishlist error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
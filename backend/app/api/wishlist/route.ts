@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth, addCorsHeaders } from '@/lib/utils'
+import { formatVariant } from '@/lib/variants'
+import { getActivePromotions, withSalePrices } from '@/lib/promotions'
+import { z } from 'zod'
+
+const addWishlistSchema = z.object({
+  productId: z.string().min(1, 'Product ID is required'),
+})
+
+const wishlistProductSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  price: true,
+  discount: true,
+  category: true,
+  categoryId: true,
+  stock: true,
+  images: true,
+  variants: { where: { archivedAt: null }, orderBy: { position: 'asc' as const } },
+}
+
+// Handle CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
+
+// GET /api/wishlist - Get current user's wishlist with product data
+export async function GET(request: NextRequest) {
+  try {
+    const authCheck = await requireAuth(request)
+    if (authCheck.error) return authCheck.error
+
+    const user = authCheck.user!
+
+    // Drafts and archived products stay hidden until they're back on sale
+    const [items, promotions] = await Promise.all([
+      prisma.wishlist.findMany({
+        where: { userId: user.id, product: { status: 'ACTIVE' } },
+        include: {
+          product: {
+            select: wishlistProductSelect,
+          },
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+      }),
+      getActivePromotions(),
+    ])
+
+    const response = NextResponse.json(
+      {
+        wishlist: items.map((item) => ({
+          id: item.id,
+          productId: item.productId,
+          createdAt: item.createdAt,
+          product: {
+            ...item.product,
+            price: item.product.price.toString(),
+            images: item.product.images || [],
+            ...withSalePrices(item.product, item.product.variants.map(formatVariant), promotions),
+          },
+        })),
+        total: items.length,
+      },
+      { status: 200 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    console.error('Get wishlist error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
+
+// POST /api/wishlist - Add product to current user's wishlist
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await requireAuth(request)
+    if (authCheck.error) return authCheck.error
+
+    const user = authCheck.user!
+    let body
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      console.error('JSON parsing error:', parseError)
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      ))
+    }
+
+    const data = addWishlistSchema.parse(body)
+
+    // Drafts and archived products can't be saved
+    const product = await prisma.product.findFirst({
+      where: { id: data.productId, status: 'ACTIVE' },
+      select: { id: true },
+    })
+
+    if (!product) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      ))
+    }
+
+    // Upsert keeps the endpoint idempotent when the product is already saved
+    const promotions = await getActivePromotions()
+    const item = await prisma.wishlist.upsert({
+      where: {
+        productId_userId: {
+          productId: data.productId,
+          userId: user.id,
+        },
+      },
+      update: {},
+      create: {
+        productId: data.productId,
+        userId: user.id,
+      },
+      include: {
+        product: {
+          select: wishlistProductSelect,
+        },
+      },
+    })
+
+    const response = NextResponse.json(
+      {
+        message: 'Product added to wishlist',
+        item: {
+          id: item.id,
+          productId: item.productId,
+          createdAt: item.createdAt,
+          product: {
+            ...item.product,
+            price: item.product.price.toString(),
+            images: item.product.images || [],
+            ...withSalePrices(item.product, item.product.variants.map(formatVariant), promotions),
+          },
+        },
+      },
+      { status: 201 }
+    )
+
+    return addCorsHeaders(response)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return addCorsHeaders(NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      ))
+    }
+
+    console.error('Add to wishlist error:', error)
+    return addCorsHeaders(NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'An error occurred'
+      },
+      { status: 500 }
+    ))
+  }
+}
@@ -0,0 +1,527 @@
+import { Prisma, ProductStatus, SpecType } from '@prisma/client'
+import { prisma } from './prisma'
+import { ActivePromotion, getActivePromotions } from './promotions'
+import { listCategories, getCategoryPath, resolveCategoryFilter, CategoryRecord } from './categories'
+import { searchProducts, SearchMatch } from './search'
+
+/**
+ * Product listing filters, sorting and facet counts.
+ * Filtering, sorting and paging run in SQL over the whole catalogue. Prices are
+ * compared as checkout charges them: the variant price when set, less the
+ * product discount or a running promotion, so the running promotions are
+ * written into the query. Facets are aggregate queries, each leaving out its
+ * own filter, and only run when asked for.
+ */
+
+export const CATALOG_SORTS = ['relevance', 'newest', 'price_asc', 'price_desc', 'best_selling', 'discount', 'rating'] as const
+export type CatalogSort = typeof CATALOG_SORTS[number]
+
+// Facet thresholds: "10% off or more", "4 stars & up"
+export const DISCOUNT_BUCKETS = [10, 25, 50]
+export const RATING_BUCKETS = [4, 3, 2, 1]
+
+// A spec filter matches listed values (OR'ed) or a numeric range
+export interface SpecFilter {
+  values?: string[]
+  min?: number
+  max?: number
+}
+
+export interface CatalogFilters {
+  categoryIds?: string[] | null // A category and its descendants
+  featured?: boolean
+  rankedIds?: string[] // Limits the listing to these products, best first (search matches)
+  minPrice?: number
+  maxPrice?: number
+  inStock?: boolean
+  minDiscount?: number
+  minRating?: number
+  attributes?: Record<string, string[]> // Variant option name -> accepted values
+  specs?: Record<string, SpecFilter> // Spec key -> filter
+  onSale?: boolean // Discounted by the product or a promotion
+  promotionId?: string | null // Priced by this promotion
+  statuses?: ProductStatus[] // Defaults to active products; admin listings widen it
+}
+
+// Listing query string: the filters plus search and sort
+export interface CatalogQuery {
+  category: string | null // Slug, name or id
+  search: string | null
+  featured: boolean
+  minPrice?: number
+  maxPrice?: number
+  inStock: boolean
+  minDiscount?: number
+  minRating?: number
+  attributes: Record<string, string[]>
+  specs: Record<string, SpecFilter>
+  onSale: boolean
+  promotionId: string | null
+  sort: CatalogSort
+  statuses?: ProductStatus[]
+}
+
+export interface CatalogFacets {
+  categories: { id: string; slug: string; name: string; parentId: string | null; count: number }[] // Counts include subcategories
+  price: { min: number; max: number } | null
+  inStock: number
+  discounts: { min: number; count: number }[]
+  ratings: { min: number; count: number }[]
+  attributes: { name: string; values: { value: string; count: number }[] }[]
+  // NUMBER specs get a range, the others value counts (booleans as "true"/"false")
+  specs: {
+    key: string
+    name: string
+    type: SpecType
+    unit: string | null
+    values: { value: string; count: number }[]
+    range: { min: number; max: number } | null
+  }[]
+}
+
+export interface CatalogPage {
+  ids: string[] // The requested page, in order
+  total: number
+  facets: CatalogFacets | null
+}
+
+type FacetKey = 'category' | 'price' | 'inStock' | 'discount' | 'rating' | 'attributes' | 'specs'
+
+// Which filter a facet count leaves out, so its other options still show how many would match
+interface FacetSkip {
+  facet?: FacetKey
+  attribute?: string
+  spec?: string
+}
+
+// Orders counted as sales for best-selling, as in the admin revenue stats
+const SOLD_ORDER_STATUSES = ['PROCESSED', 'SHIPPED', 'DELIVERED']
+
+const TRUE = Prisma.sql`TRUE`
+
+function and(conditions: Prisma.Sql[]): Prisma.Sql {
+  return conditions.length > 0 ? Prisma.join(conditions, ' AND ') : TRUE
+}
+
+// The unit price of option row o under one promotion, or NULL when it isn't targeted
+function promotionPriceSql(promotion: ActivePromotion): Prisma.Sql {
+  const price = promotion.type === 'PERCENTAGE'
+    ? Prisma.sql`round(o."listPrice" * (1 - ${Math.min(promotion.value, 100)}::numeric / 100), 2)`
+    : Prisma.sql`round(greatest(o."listPrice" - ${promotion.value}::numeric, 0), 2)`
+  if (promotion.sitewide) return price
+  return Prisma.sql`CASE WHEN o."productId" = ANY(${Array.from(promotion.productIds)})
+    OR o."categoryId" = ANY(${Array.from(promotion.categoryIds)}) THEN ${price} END`
+}
+
+/**
+ * The catalogue as CTEs: options (one row per purchasable variant, or the product
+ * itself), priced (each option at the price checkout charges, as getSalePrice
+ * works it out) and entries (one row per product with the fields filters and
+ * sorts use). Later promotions only win on a strictly lower price, as in getSalePrice.
+ */
+function catalogSql(
+  filters: CatalogFilters,
+  promotions: ActivePromotion[],
+  include: { ratings: boolean; sales: boolean }
+): Prisma.Sql {
+  const prices = promotions.map((promotion, index) => Prisma.sql`${promotionPriceSql(promotion)} AS ${Prisma.raw(`p${index}`)}`)
+  const priceColumns = promotions.map((_, index) => Prisma.raw(`d.p${index}`))
+  const promotionId = promotions.length > 0
+    ? Prisma.sql`CASE ${Prisma.join(promotions.map((promotion, index) =>
+        Prisma.sql`WHEN ${Prisma.raw(`d.p${index}`)} = s."salePrice" AND ${Prisma.raw(`d.p${index}`)} < d.own THEN ${promotion.id}`
+      ), ' ')} END`
+    : Prisma.sql`NULL::text`
+
+  return Prisma.sql`
+    WITH options AS (
+      SELECT p.id AS "productId", p."categoryId", p.discount, coalesce(v.price, p.price) AS "listPrice"
+      FROM "Product" p
+      LEFT JOIN "ProductVariant" v ON v."productId" = p.id AND v."archivedAt" IS NULL
+      WHERE p.status::text = ANY(${filters.statuses || ['ACTIVE']})
+        ${filters.featured ? Prisma.sql`AND p.featured` : Prisma.empty}
+        ${filters.rankedIds ? Prisma.sql`AND p.id = ANY(${filters.rankedIds})` : Prisma.empty}
+    ),
+    priced AS (
+      SELECT o."productId", s."salePrice", ${promotionId} AS "promotionId",
+        CASE WHEN o."listPrice" > 0 THEN round((1 - s."salePrice" / o."listPrice") * 100, 2) ELSE 0 END AS "discountPercent"
+      FROM options o
+      CROSS JOIN LATERAL (
+        SELECT round(o."listPrice" * (1 - coalesce(o.discount, 0)::numeric / 100), 2) AS own
+          ${prices.length > 0 ? Prisma.sql`, ${Prisma.join(prices)}` : Prisma.empty}
+      ) d
+      CROSS JOIN LATERAL (SELECT least(${Prisma.join([Prisma.raw('d.own'), ...priceColumns])}) AS "salePrice") s
+    ),
+    entries AS (
+      SELECT p.id, p."categoryId", p.stock, p."createdAt",
+        x."fromPrice", x."toPrice", x.discount, x."promotionIds",
+        ${include.ratings ? Prisma.sql`coalesce(r."averageRating", 0)` : Prisma.sql`0`} AS "averageRating",
+        ${include.ratings ? Prisma.sql`coalesce(r."reviewCount", 0)` : Prisma.sql`0`} AS "reviewCount",
+        ${include.sales ? Prisma.sql`coalesce(sold.quantity, 0)` : Prisma.sql`0`} AS sold
+      FROM "Product" p
+      JOIN (
+        SELECT "productId", min("salePrice") AS "fromPrice", max("salePrice") AS "toPrice",
+          max("discountPercent") AS discount,
+          array_remove(array_agg(DISTINCT "promotionId"), NULL) AS "promotionIds"
+        FROM priced
+        GROUP BY "productId"
+      ) x ON x."productId" = p.id
+      ${include.ratings ? Prisma.sql`
+      LEFT JOIN (
+        SELECT "productId", round(avg(rating)::numeric, 1) AS "averageRating", count(*) AS "reviewCount"
+        FROM "Review"
+        WHERE NOT hidden
+        GROUP BY "productId"
+      ) r ON r."productId" = p.id` : Prisma.empty}
+      ${include.sales ? Prisma.sql`
+      LEFT JOIN (
+        SELECT oi."productId", sum(oi.quantity) AS quantity
+        FROM "OrderItem" oi
+        JOIN "SubOrder" so ON so.id = oi."subOrderId"
+        JOIN "Order" ord ON ord.id = so."orderId"
+        WHERE ord.status::text = ANY(${SOLD_ORDER_STATUSES})
+        GROUP BY oi."productId"
+      ) sold ON sold."productId" = p.id` : Prisma.empty}
+    )
+  `
+}
+
+// One active variant of product e has to satisfy every attribute, and be in stock when asked for
+function attributeCondition(filters: CatalogFilters, skipAttribute?: string): Prisma.Sql | null {
+  const wanted = Object.entries(filters.attributes || {})
+    .filter(([name, values]) => name !== skipAttribute && values.length > 0)
+  if (wanted.length === 0) return null
+
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM "ProductVariant" v
+    WHERE v."productId" = e.id AND v."archivedAt" IS NULL
+      ${filters.inStock ? Prisma.sql`AND v.stock > 0` : Prisma.empty}
+      AND ${and(wanted.map(([name, values]) => Prisma.sql`v.options ->> ${name} = ANY(${values})`))}
+  )`
+}
+
+// A spec's value as the text filters compare against ("true"/"false" for booleans)
+const SPEC_VALUE_TEXT = Prisma.sql`lower(CASE d.type WHEN 'NUMBER' THEN ps."numberValue"::text
+  WHEN 'BOOLEAN' THEN ps."booleanValue"::text ELSE ps."textValue" END)`
+
+function specConditions(filters: CatalogFilters, skipSpec?: string): Prisma.Sql[] {
+  return Object.entries(filters.specs || {})
+    .filter(([key]) => key !== skipSpec)
+    .map(([key, filter]) => Prisma.sql`EXISTS (
+      SELECT 1 FROM "ProductSpec" ps
+      JOIN "SpecDefinition" d ON d.id = ps."definitionId"
+      WHERE ps."productId" = e.id AND d.key = ${key} AND ${SPEC_VALUE_TEXT} IS NOT NULL
+        ${filter.values?.length ? Prisma.sql`AND ${SPEC_VALUE_TEXT} = ANY(${filter.values})` : Prisma.empty}
+        ${filter.min !== undefined || filter.max !== undefined ? Prisma.sql`AND d.type = 'NUMBER'` : Prisma.empty}
+        ${filter.min !== undefined ? Prisma.sql`AND ps."numberValue" >= ${filter.min}` : Prisma.empty}
+        ${filter.max !== undefined ? Prisma.sql`AND ps."numberValue" <= ${filter.max}` : Prisma.empty}
+    )`)
+}
+
+/**
+ * Conditions on entries row e for the filters. A facet's own filter is skipped
+ * when counting that facet.
+ */
+function filterConditions(filters: CatalogFilters, skip: FacetSkip = {}): Prisma.Sql[] {
+  const conditions: Prisma.Sql[] = []
+  if (skip.facet !== 'category' && filters.categoryIds) {
+    conditions.push(Prisma.sql`e."categoryId" = ANY(${filters.categoryIds})`)
+  }
+  if (skip.facet !== 'price' && (filters.minPrice !== undefined || filters.maxPrice !== undefined)) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM priced x
+      WHERE x."productId" = e.id AND x."salePrice" >= ${filters.minPrice ?? 0}::numeric
+        ${filters.maxPrice !== undefined ? Prisma.sql`AND x."salePrice" <= ${filters.maxPrice}::numeric` : Prisma.empty}
+    )`)
+  }
+  if (skip.facet !== 'inStock' && filters.inStock) conditions.push(Prisma.sql`e.stock > 0`)
+  if (skip.facet !== 'discount' && filters.minDiscount) conditions.push(Prisma.sql`e.discount >= ${filters.minDiscount}::numeric`)
+  if (filters.onSale) conditions.push(Prisma.sql`e.discount > 0`)
+  if (filters.promotionId) conditions.push(Prisma.sql`${filters.promotionId} = ANY(e."promotionIds")`)
+  if (skip.facet !== 'rating' && filters.minRating) conditions.push(Prisma.sql`e."averageRating" >= ${filters.minRating}::numeric`)
+  if (skip.facet !== 'attributes') {
+    const attributes = attributeCondition(filters, skip.attribute)
+    if (attributes) conditions.push(attributes)
+  }
+  if (skip.facet !== 'specs') conditions.push(...specConditions(filters, skip.spec))
+  return conditions
+}
+
+function orderBySql(sort: CatalogSort, rankedIds: string[] | undefined): Prisma.Sql {
+  switch (sort) {
+    case 'relevance':
+      return rankedIds ? Prisma.sql`array_position(${rankedIds}::text[], e.id)` : Prisma.sql`e."createdAt" DESC`
+    case 'price_asc':
+      return Prisma.sql`e."fromPrice" ASC, e."createdAt" DESC`
+    case 'price_desc':
+      return Prisma.sql`e."fromPrice" DESC, e."createdAt" DESC`
+    case 'best_selling':
+      return Prisma.sql`e.sold DESC, e."createdAt" DESC`
+    case 'discount':
+      return Prisma.sql`e.discount DESC, e."createdAt" DESC`
+    case 'rating':
+      return Prisma.sql`e."averageRating" DESC, e."reviewCount" DESC, e."createdAt" DESC`
+    case 'newest':
+    default:
+      return Prisma.sql`e."createdAt" DESC`
+  }
+}
+
+function sortValues(rows: { value: string; count: number }[]): { value: string; count: number }[] {
+  return rows.sort((a, b) => a.value.localeCompare(b.value))
+}
+
+// Each product counts towards its category and every ancestor, in tree order
+function countCategories(rows: { categoryId: string; count: number }[], categories: CategoryRecord[]): CatalogFacets['categories'] {
+  const counts = new Map<string, number>()
+  for (const row of rows) {
+    for (const category of getCategoryPath(categories, row.categoryId)) {
+      counts.set(category.id, (counts.get(category.id) || 0) + row.count)
+    }
+  }
+  return categories
+    .filter((category) => counts.has(category.id))
+    .map(({ id, slug, name, parentId }) => ({ id, slug, name, parentId, count: counts.get(id)! }))
+}
+
+// CASE on a facet row's attribute name or spec key: each is counted without its own filter
+function perNameCondition(column: Prisma.Sql, names: string[], condition: (name?: string) => Prisma.Sql): Prisma.Sql {
+  if (names.length === 0) return condition()
+  return Prisma.sql`CASE ${column} ${Prisma.join(names.map((name) => Prisma.sql`WHEN ${name} THEN ${condition(name)}`), ' ')}
+    ELSE ${condition()} END`
+}
+
+async function buildFacets(base: Prisma.Sql, filters: CatalogFilters): Promise<CatalogFacets> {
+  const without = (skip: FacetKey) => and(filterConditions(filters, { facet: skip }))
+  const attributeNames = Object.keys(filters.attributes || {})
+  const specKeys = Object.keys(filters.specs || {})
+
+  const [categoryRows, [summary], attributeRows, specRows, categories] = await Promise.all([
+    prisma.$queryRaw<{ categoryId: string; count: number }[]>`
+      ${base}
+      SELECT e."categoryId", count(*)::int AS count
+      FROM entries e
+      WHERE e."categoryId" IS NOT NULL AND ${without('category')}
+      GROUP BY e."categoryId"
+    `,
+    prisma.$queryRaw<Record<string, number | null>[]>`
+      ${base}
+      SELECT
+        min(e."fromPrice") FILTER (WHERE ${without('price')})::float8 AS "minPrice",
+        max(e."toPrice") FILTER (WHERE ${without('price')})::float8 AS "maxPrice",
+        count(*) FILTER (WHERE e.stock > 0 AND ${without('inStock')})::int AS "inStock",
+        ${Prisma.join(DISCOUNT_BUCKETS.map((min) =>
+          Prisma.sql`count(*) FILTER (WHERE e.discount >= ${min} AND ${without('discount')})::int AS ${Prisma.raw(`"discount${min}"`)}`
+        ))},
+        ${Prisma.join(RATING_BUCKETS.map((min) =>
+          Prisma.sql`count(*) FILTER (WHERE e."averageRating" >= ${min} AND ${without('rating')})::int AS ${Prisma.raw(`"rating${min}"`)}`
+        ))}
+      FROM entries e
+    `,
+    // Each product counts once per value, however many variants share it
+    prisma.$queryRaw<{ name: string; value: string; count: number }[]>`
+      ${base}
+      SELECT a.name, a.value, count(DISTINCT e.id)::int AS count
+      FROM entries e
+      JOIN "ProductVariant" v ON v."productId" = e.id AND v."archivedAt" IS NULL
+      CROSS JOIN LATERAL jsonb_each_text(v.options) a(name, value)
+      WHERE a.value <> ''
+        AND ${without('attributes')}
+        AND ${perNameCondition(Prisma.sql`a.name`, attributeNames, (name) => attributeCondition(filters, name) ?? TRUE)}
+      GROUP BY a.name, a.value
+    `,
+    // NUMBER specs get a range, the others value counts
+    prisma.$queryRaw<{
+      key: string
+      name: string
+      type: SpecType
+      unit: string | null
+      value: string | null
+      count: number
+      min: number | null
+      max: number | null
+    }[]>`
+      ${base}
+      SELECT d.key, d.name, d.type, d.unit, d."sortOrder",
+        CASE WHEN d.type = 'NUMBER' THEN NULL ELSE ${SPEC_VALUE_TEXT} END AS value,
+        count(DISTINCT e.id)::int AS count, min(ps."numberValue") AS min, max(ps."numberValue") AS max
+      FROM entries e
+      JOIN "ProductSpec" ps ON ps."productId" = e.id
+      JOIN "SpecDefinition" d ON d.id = ps."definitionId"
+      WHERE d.filterable AND ${SPEC_VALUE_TEXT} IS NOT NULL
+        AND ${without('specs')}
+        AND ${perNameCondition(Prisma.sql`d.key`, specKeys, (key) => and(specConditions(filters, key)))}
+      GROUP BY d.key, d.name, d.type, d.unit, d."sortOrder", 6
+      ORDER BY d."sortOrder", d.name
+    `,
+    listCategories(),
+  ])
+
+  const attributes = new Map<string, { value: string; count: number }[]>()
+  attributeRows.forEach(({ name, value, count }) => attributes.set(name, [...(attributes.get(name) || []), { value, count }]))
+
+  const specs = new Map<string, CatalogFacets['specs'][number]>()
+  for (const row of specRows) {
+    const facet = specs.get(row.key)
+      || { key: row.key, name: row.name, type: row.type, unit: row.unit, values: [], range: null }
+    if (row.value !== null) facet.values.push({ value: row.value, count: row.count })
+    if (row.min !== null && row.max !== null) {
+      facet.range = { min: Math.min(row.min, facet.range?.min ?? row.min), max: Math.max(row.max, facet.range?.max ?? row.max) }
+    }
+    specs.set(row.key, facet)
+  }
+
+  return {
+    categories: countCategories(categoryRows, categories),
+    price: summary.minPrice !== null && summary.maxPrice !== null ? { min: summary.minPrice, max: summary.maxPrice } : null,
+    inStock: summary.inStock ?? 0,
+    discounts: DISCOUNT_BUCKETS.map((min) => ({ min, count: summary[`discount${min}`] ?? 0 })),
+    ratings: RATING_BUCKETS.map((min) => ({ min, count: summary[`rating${min}`] ?? 0 })),
+    attributes: Array.from(attributes.keys()).sort().map((name) => ({ name, values: sortValues(attributes.get(name)!) })),
+    specs: Array.from(specs.values()).map((facet) => ({ ...facet, values: sortValues(facet.values) })),
+  }
+}
+
+/**
+ * Filters, sorts and pages the catalogue. Relevance sorting needs rankedIds;
+ * without them it falls back to newest first. Facets are only counted when asked for.
+ */
+export async function queryCatalog(
+  filters: CatalogFilters,
+  sort: CatalogSort,
+  options: { skip: number; take: number; facets?: boolean }
+): Promise<CatalogPage> {
+  const promotions = await getActivePromotions()
+  const base = catalogSql(filters, promotions, {
+    ratings: !!options.facets || !!filters.minRating || sort === 'rating',
+    sales: sort === 'best_selling',
+  })
+  const where = and(filterConditions(filters))
+
+  const [rows, [{ total }], facets] = await Promise.all([
+    prisma.$queryRaw<{ id: string }[]>`
+      ${base}
+      SELECT e.id
+      FROM entries e
+      WHERE ${where}
+      ORDER BY ${orderBySql(sort, filters.rankedIds)}, e.id
+      LIMIT ${options.take} OFFSET ${options.skip}
+    `,
+    prisma.$queryRaw<{ total: number }[]>`
+      ${base}
+      SELECT count(*)::int AS total FROM entries e WHERE ${where}
+    `,
+    options.facets ? buildFacets(base, filters) : null,
+  ])
+
+  return { ids: rows.map((row) => row.id), total, facets }
+}
+
+// Non-negative number, or undefined when missing or invalid
+function parseAmount(value: string | null): number | undefined {
+  if (!value) return undefined
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+function parseFlag(value: string | null): boolean {
+  const lower = value?.toLowerCase().trim()
+  return lower === 'true' || lower === '1'
+}
+
+// attr=Name:Value params into option name -> accepted values
+function parseAttributeFilters(values: string[]): Record<string, string[]> {
+  const attributes: Record<string, string[]> = {}
+  for (const value of values) {
+    const separator = value.indexOf(':')
+    if (separator <= 0) continue
+    const name = value.slice(0, separator).trim()
+    const option = value.slice(separator + 1).trim()
+    if (!name || !option) continue
+    attributes[name] = [...(attributes[name] || []), option]
+  }
+  return attributes
+}
+
+// spec=key:value (repeat for more values) or spec=key:min..max (either end optional)
+function parseSpecFilters(values: string[]): Record<string, SpecFilter> {
+  const specs: Record<string, SpecFilter> = {}
+  for (const value of values) {
+    const separator = value.indexOf(':')
+    if (separator <= 0) continue
+    const key = value.slice(0, separator).trim().toLowerCase()
+    const option = value.slice(separator + 1).trim()
+    if (!key || !option) continue
+
+    const filter = specs[key] || {}
+    const range = option.match(/^(-?[\d.]*)\.\.(-?[\d.]*)$/)
+    if (range) {
+      const min = parseFloat(range[1])
+      const max = parseFloat(range[2])
+      if (Number.isFinite(min)) filter.min = min
+      if (Number.isFinite(max)) filter.max = max
+    } else {
+      filter.values = [...(filter.values || []), option.toLowerCase()]
+    }
+    specs[key] = filter
+  }
+  return specs
+}
+
+/**
+ * Reads the listing filters, search and sort from a query string. Invalid
+ * values are ignored rather than rejected.
+ */
+export function parseCatalogQuery(searchParams: URLSearchParams): CatalogQuery {
+  const search = searchParams.get('search')?.trim() || null
+  const sortParam = searchParams.get('sort')?.trim() as CatalogSort | undefined
+
+  return {
+    category: searchParams.get('category')?.trim() || null,
+    search,
+    featured: parseFlag(searchParams.get('featured')),
+    // Prices are what checkout charges (after discount)
+    minPrice: parseAmount(searchParams.get('minPrice')),
+    maxPrice: parseAmount(searchParams.get('maxPrice')),
+    inStock: parseFlag(searchParams.get('inStock')),
+    minDiscount: parseAmount(searchParams.get('minDiscount')),
+    minRating: parseAmount(searchParams.get('minRating')),
+    attributes: parseAttributeFilters(searchParams.getAll('attr')),
+    specs: parseSpecFilters(searchParams.getAll('spec')),
+    onSale: parseFlag(searchParams.get('onSale')),
+    promotionId: searchParams.get('promotion')?.trim() || null,
+    sort: sortParam && CATALOG_SORTS.includes(sortParam) ? sortParam : (search ? 'relevance' : 'newest'),
+  }
+}
+
+/**
+ * Runs a listing query: search narrows the catalogue to its matches, ranked best
+ * first, and an unknown category matches nothing rather than everything.
+ */
+export async function searchCatalog(
+  query: CatalogQuery,
+  options: { skip: number; take: number; facets?: boolean }
+): Promise<CatalogPage & { matches: SearchMatch[] | null }> {
+  const matches = query.search ? await searchProducts(query.search) : null
+  const categoryFilter = query.category ? await resolveCategoryFilter(query.category) : null
+
+  const page = await queryCatalog(
+    {
+      categoryIds: query.category ? categoryFilter?.categoryIds || [] : null,
+      featured: query.featured,
+      rankedIds: matches?.map((match) => match.id),
+      minPrice: query.minPrice,
+      maxPrice: query.maxPrice,
+      inStock: query.inStock,
+      minDiscount: query.minDiscount,
+      minRating: query.minRating,
+      attributes: query.attributes,
+      specs: query.specs,
+      onSale: query.onSale,
+      promotionId: query.promotionId,
+      statuses: query.statuses,
+    },
+    query.sort,
+    options
+  )
+  return { ...page, matches }
+}
@@ -0,0 +1,232 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { generateSlug } from './utils'
+
+/**
+ * Category tree.
+ * Categories nest through parentId and are ordered among their siblings by
+ * sortOrder. The whole table is small enough to load at once, so tree walks
+ * happen in memory. Product.categoryId is the source of truth; Product.category
+ * keeps a copy of the name for search and tax rules, which match on it.
+ */
+
+// Deeper trees are rejected; nobody browses past this
+export const MAX_CATEGORY_DEPTH = 4
+
+export class CategoryError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'CategoryError'
+    this.status = status
+  }
+}
+
+export interface CategoryRecord {
+  id: string
+  name: string
+  slug: string
+  description: string | null
+  image: string | null
+  sortOrder: number
+  parentId: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CategoryNode extends CategoryRecord {
+  productCount: number // Including products in descendant categories
+  children: CategoryNode[]
+}
+
+type Db = Prisma.TransactionClient | typeof prisma
+
+function bySortOrder(a: CategoryRecord, b: CategoryRecord): number {
+  return a.sortOrder - b.sortOrder || a.name.localeCompare(b.name)
+}
+
+/**
+ * Every category, parents before children and siblings in sort order.
+ */
+export async function listCategories(db: Db = prisma): Promise<CategoryRecord[]> {
+  const categories = await db.category.findMany()
+  const childrenOf = groupByParent(categories)
+  const ordered: CategoryRecord[] = []
+  const visit = (parentId: string | null) => {
+    for (const category of childrenOf.get(parentId) || []) {
+      ordered.push(category)
+      visit(category.id)
+    }
+  }
+  visit(null)
+  return ordered
+}
+
+function groupByParent<T extends CategoryRecord>(categories: T[]): Map<string | null, T[]> {
+  const ids = new Set(categories.map((category) => category.id))
+  const childrenOf = new Map<string | null, T[]>()
+  for (const category of categories) {
+    // A dangling parent would hide the branch; show it at the top level instead
+    const parentId = category.parentId && ids.has(category.parentId) ? category.parentId : null
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), category])
+  }
+  childrenOf.forEach((children) => children.sort(bySortOrder))
+  return childrenOf
+}
+
+/**
+ * Nested category tree with counts of listed (active) products rolled up from
+ * descendants.
+ */
+export async function getCategoryTree(): Promise<CategoryNode[]> {
+  const [categories, counts] = await Promise.all([
+    listCategories(),
+    prisma.product.groupBy({
+      by: ['categoryId'],
+      where: { categoryId: { not: null }, status: 'ACTIVE' },
+      _count: { _all: true },
+    }),
+  ])
+  const countOf = new Map(counts.map((row) => [row.categoryId, row._count._all]))
+  const childrenOf = groupByParent(categories)
+
+  const build = (parentId: string | null): CategoryNode[] =>
+    (childrenOf.get(parentId) || []).map((category) => {
+      const children = build(category.id)
+      return {
+        ...category,
+        productCount: (countOf.get(category.id) || 0) + children.reduce((sum, child) => sum + child.productCount, 0),
+        children,
+      }
+    })
+
+  return build(null)
+}
+
+/**
+ * The category and all of its descendants' ids.
+ */
+export function getDescendantIds(categories: CategoryRecord[], categoryId: string): string[] {
+  const childrenOf = groupByParent(categories)
+  const ids: string[] = []
+  const visit = (id: string) => {
+    ids.push(id)
+    for (const child of childrenOf.get(id) || []) visit(child.id)
+  }
+  visit(categoryId)
+  return ids
+}
+
+/**
+ * Ancestors from the root down to the category itself, for breadcrumbs.
+ */
+export function getCategoryPath(categories: CategoryRecord[], categoryId: string): CategoryRecord[] {
+  const byId = new Map(categories.map((category) => [category.id, category]))
+  const path: CategoryRecord[] = []
+  let current = byId.get(categoryId)
+  while (current && !path.includes(current)) {
+    path.unshift(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path
+}
+
+/**
+ * Finds a category by id, slug or (case-insensitive) name, so older links that
+ * pass the name keep working.
+ */
+export function findCategory(categories: CategoryRecord[], ref: string): CategoryRecord | null {
+  const value = ref.trim()
+  const lower = value.toLowerCase()
+  return categories.find((category) => category.id === value)
+    || categories.find((category) => category.slug === lower)
+    || categories.find((category) => category.name.toLowerCase() === lower)
+    || null
+}
+
+/**
+ * Ids of the products a category filter should match: the category's own and
+ * its descendants'. Null when the category doesn't exist.
+ */
+export async function resolveCategoryFilter(ref: string): Promise<{ category: CategoryRecord; categoryIds: string[] } | null> {
+  const categories = await listCategories()
+  const category = findCategory(categories, ref)
+  if (!category) return null
+  return { category, categoryIds: getDescendantIds(categories, category.id) }
+}
+
+/**
+ * A slug not yet taken by another category; numbered when it is.
+ */
+export async function uniqueCategorySlug(source: string, excludeId?: string, db: Db = prisma): Promise<string> {
+  const base = generateSlug(source)
+  let slug = base
+  let counter = 1
+  while (await db.category.findFirst({ where: { slug, ...(excludeId && { id: { not: excludeId } }) } })) {
+    slug = `${base}-${counter}`
+    counter++
+  }
+  return slug
+}
+
+/**
+ * Throws unless parentId can be the parent of the category: it has to exist,
+ * not be the category or one of its descendants, and keep the tree shallow.
+ */
+export async function assertValidParent(categoryId: string | null, parentId: string | null, db: Db = prisma) {
+  if (!parentId) return
+
+  const categories = await listCategories(db)
+  const parent = categories.find((category) => category.id === parentId)
+  if (!parent) {
+    throw new CategoryError('Parent category not found', 404)
+  }
+
+  let subtreeDepth = 1
+  if (categoryId) {
+    const descendants = getDescendantIds(categories, categoryId)
+    if (descendants.includes(parentId)) {
+      throw new CategoryError('A category cannot be moved under itself or one of its subcategories')
+    }
+    const depthBelow = (id: string): number =>
+      1 + Math.max(0, ...categories.filter((category) => category.parentId === id).map((category) => depthBelow(category.id)))
+    subtreeDepth = depthBelow(categoryId)
+  }
+
+  if (getCategoryPath(categories, parentId).length + subtreeDepth > MAX_CATEGORY_DEPTH) {
+    throw new CategoryError(`Categories can be nested at most ${MAX_CATEGORY_DEPTH} levels deep`)
+  }
+}
+
+/**
+ * The category and category name to store on a product. categoryId wins; the
+ * legacy category name is looked up when that's all the client sent.
+ */
+export async function resolveProductCategory(
+  input: { categoryId?: string | null; category?: string | null },
+  db: Db = prisma
+): Promise<{ categoryId: string | null; category: string | null }> {
+  if (input.categoryId) {
+    const category = await db.category.findUnique({ where: { id: input.categoryId } })
+    if (!category) throw new CategoryError('Category not found', 404)
+    return { categoryId: category.id, category: category.name }
+  }
+
+  const name = input.category?.trim()
+  if (!name) return { categoryId: null, category: null }
+
+  const category = findCategory(await listCategories(db), name)
+  if (!category) throw new CategoryError(`Category "${name}" does not exist`, 404)
+  return { categoryId: category.id, category: category.name }
+}
+
+/**
+ * Copies a renamed category's name onto its products.
+ */
+export async function syncProductCategoryNames(categoryId: string, name: string, db: Db = prisma) {
+  await db.product.updateMany({
+    where: { categoryId },
+    data: { category: name },
+  })
+}
@@ -0,0 +1,387 @@
+import { prisma } from './prisma'
+import { getShippingOptions, ShippingOption } from './shipping'
+import { calculateTax } from './tax'
+import { BASE_CURRENCY, getExchangeRate, normalizeCurrency, roundCurrency } from './currency'
+import { getWalletBalance, MIN_CARD_CHARGE } from './wallet'
+import { formatVariantLabel } from './variants'
+import { getActivePromotions, getSalePrice } from './promotions'
+import {
+  applyCoupon,
+  countUserRedemptions,
+  findCouponByCode,
+  getCouponRejection,
+  normalizeCouponCode,
+} from './coupons'
+
+/**
+ * Server-side checkout pricing.
+ * The quote endpoint and order creation both use buildCheckoutQuote so the
+ * amount shown to the customer is exactly the amount stored on the order
+ * and charged through Stripe.
+ */
+
+export interface CheckoutItemInput {
+  productId: string
+  variantId?: string // Required for products that have variants
+  quantity: number
+}
+
+export interface CheckoutAddressInput {
+  country?: string
+  region?: string
+}
+
+export interface CheckoutQuoteInput {
+  items: CheckoutItemInput[]
+  shippingAddress?: CheckoutAddressInput
+  shippingMethod?: string
+  couponCode?: string
+  currency?: string
+  useWallet?: boolean // Pay as much as possible from the customer's store credit
+  userId?: string // Needed to enforce per-user coupon limits and to use the wallet
+}
+
+export interface CheckoutQuoteLine {
+  productId: string
+  variantId: string | null
+  variantLabel: string | null
+  sku: string | null
+  title: string
+  hsCode: string
+  quantity: number
+  listPrice: number
+  discountPercent: number // From the product discount or a promotion, whichever was lower
+  promotionId: string | null
+  unitPrice: number
+  subtotal: number
+  discount: number
+  total: number
+  taxRate: number
+  tax: number
+}
+
+export interface CheckoutCoupon {
+  id: string
+  code: string
+  type: string
+  discount: number
+  freeShipping: boolean
+  shippingDiscount: number
+}
+
+export interface CheckoutWallet {
+  balance: number // Available credit in the quote currency
+  applied: number // Quote currency
+  baseAmount: number // What is debited from the wallet, in the base currency
+}
+
+export interface CheckoutQuote {
+  currency: string
+  exchangeRate: number // Base currency -> quote currency
+  items: CheckoutQuoteLine[]
+  subtotal: number
+  discount: number
+  shipping: number
+  shippingMethod: string | null
+  shippingOptions: ShippingOption[]
+  coupon: CheckoutCoupon | null
+  shippingTax: number
+  tax: number
+  total: number
+  wallet: CheckoutWallet | null
+  amountDue: number // Left to pay by card after store credit
+}
+
+/**
+ * Raised when a quote cannot be built, e.g. a missing product or insufficient stock.
+ * Carries the HTTP status the route should respond with.
+ */
+export class CheckoutError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'CheckoutError'
+    this.status = status
+  }
+}
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+// A product appears once per variant, so lines are keyed by both
+function lineKey(line: { productId: string; variantId?: string | null }): string {
+  return line.variantId ? `${line.productId}:${line.variantId}` : line.productId
+}
+
+/**
+ * Prices a cart against current product data.
+ * Quantities for the same product (and variant) are merged before stock is checked.
+ */
+export async function buildCheckoutQuote(input: CheckoutQuoteInput): Promise<CheckoutQuote> {
+  if (input.items.length === 0) {
+    throw new CheckoutError('Cart is empty')
+  }
+
+  const currency = normalizeCurrency(input.currency || BASE_CURRENCY)
+  const exchangeRate = await getExchangeRate(currency)
+  if (exchangeRate === null) {
+    throw new CheckoutError(`Currency ${currency} is not supported`)
+  }
+
+  const requested = new Map<string, CheckoutItemInput>()
+  for (const item of input.items) {
+    const key = lineKey(item)
+    const quantity = (requested.get(key)?.quantity || 0) + item.quantity
+    requested.set(key, { ...item, quantity })
+  }
+
+  const [products, promotions] = await Promise.all([
+    prisma.product.findMany({
+      where: { id: { in: input.items.map((item) => item.productId) } },
+      // Archived variants can't be bought any more
+      include: { variants: { where: { archivedAt: null } } },
+    }),
+    getActivePromotions(),
+  ])
+
+  const lines: CheckoutQuoteLine[] = []
+  const categories = new Map<string, { id: string | null; name: string | null }>()
+  let totalWeight = 0
+  for (const { productId, variantId, quantity } of requested.values()) {
+    const product = products.find((p) => p.id === productId)
+    if (!product) {
+      throw new CheckoutError(`Product ${productId} not found`, 404)
+    }
+    if (product.status !== 'ACTIVE') {
+      throw new CheckoutError(`${product.title} is no longer available`)
+    }
+
+    const variant = variantId ? product.variants.find((v) => v.id === variantId) : null
+    if (variantId && !variant) {
+      throw new CheckoutError(`The selected option for ${product.title} is no longer available`, 404)
+    }
+    if (!variant && product.variants.length > 0) {
+      throw new CheckoutError(`Please choose options for ${product.title}`)
+    }
+    if ((variant?.stock ?? product.stock) < quantity) {
+      throw new CheckoutError(`Insufficient stock for product: ${product.title}`)
+    }
+
+    const variantLabel = variant ? formatVariantLabel(variant.options) : null
+    const listPrice = Number(variant?.price ?? product.price)
+    const { unitPrice, discountPercent, promotion } = getSalePrice(product, listPrice, promotions)
+    const subtotal = roundMoney(listPrice * quantity)
+    const total = roundMoney(unitPrice * quantity)
+    totalWeight += Number(product.weight || 0) * quantity
+    categories.set(productId, { id: product.categoryId, name: product.category })
+
+    lines.push({
+      productId,
+      variantId: variant?.id ?? null,
+      variantLabel,
+      sku: variant?.sku ?? null,
+      title: variantLabel ? `${product.title} (${variantLabel})` : product.title,
+      hsCode: product.hsCode,
+      quantity,
+      listPrice,
+      discountPercent,
+      promotionId: promotion?.id ?? null,
+      unitPrice,
+      subtotal,
+      discount: roundMoney(subtotal - total),
+      total,
+      taxRate: 0,
+      tax: 0,
+    })
+  }
+
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.subtotal, 0))
+  const itemsTotal = roundMoney(lines.reduce((sum, line) => sum + line.total, 0))
+
+  // A destination is only known once the customer has entered an address
+  const country = input.shippingAddress?.country?.trim()
+  const { options: shippingOptions } = await getShippingOptions({
+    country,
+    itemsTotal,
+    totalWeight,
+  })
+  if (country && shippingOptions.length === 0) {
+    throw new CheckoutError(`Shipping is not available to ${country}`)
+  }
+
+  let selectedShipping: ShippingOption | null = shippingOptions[0] || null
+  if (input.shippingMethod) {
+    selectedShipping = shippingOptions.find((option) => option.method === input.shippingMethod) || null
+    if (!selectedShipping) {
+      throw new CheckoutError(`Shipping method "${input.shippingMethod}" is not available for this destination`)
+    }
+  }
+  let shipping = roundMoney(selectedShipping?.price || 0)
+
+  let coupon: CheckoutCoupon | null = null
+  if (input.couponCode?.trim()) {
+    const record = await findCouponByCode(input.couponCode)
+    if (!record) {
+      throw new CheckoutError(`Coupon ${normalizeCouponCode(input.couponCode)} is not valid`)
+    }
+
+    const couponLines = lines.map((line) => ({
+      key: lineKey(line),
+      productId: line.productId,
+      categoryId: categories.get(line.productId)?.id || null,
+      amount: line.total,
+    }))
+    const rejection = getCouponRejection(record, couponLines, { currency, exchangeRate })
+    if (rejection) throw new CheckoutError(rejection)
+    if (record.perUserLimit !== null && input.userId) {
+      const used = await countUserRedemptions(record.id, input.userId)
+      if (used >= record.perUserLimit) {
+        throw new CheckoutError(`You have already used coupon ${record.code}`)
+      }
+    }
+
+    const application = applyCoupon(record, couponLines)
+    for (const line of lines) {
+      const lineDiscount = application.lineDiscounts.get(lineKey(line)) || 0
+      line.discount = roundMoney(line.discount + lineDiscount)
+      line.total = roundMoney(line.total - lineDiscount)
+    }
+
+    const shippingDiscount = application.freeShipping ? shipping : 0
+    shipping = roundMoney(shipping - shippingDiscount)
+    coupon = {
+      id: record.id,
+      code: record.code,
+      type: record.type,
+      discount: application.discount,
+      freeShipping: application.freeShipping,
+      shippingDiscount,
+    }
+  }
+
+  const discount = roundMoney(lines.reduce((sum, line) => sum + line.discount, 0))
+
+  const taxResult = await calculateTax({
+    country,
+    region: input.shippingAddress?.region,
+    lines: lines.map((line) => ({
+      productId: line.productId,
+      category: categories.get(line.productId)?.name || null,
+      hsCode: line.hsCode,
+      amount: line.total,
+    })),
+    shipping,
+  })
+  // Tax lines come back in the order they were passed in
+  lines.forEach((line, index) => {
+    const lineTax = taxResult.lines[index]
+    line.taxRate = lineTax?.rate || 0
+    line.tax = lineTax?.amount || 0
+  })
+  const tax = roundMoney(taxResult.total)
+  const total = roundMoney(subtotal - discount + shipping + tax)
+
+  const quote: CheckoutQuote = {
+    currency: BASE_CURRENCY,
+    exchangeRate: 1,
+    items: lines,
+    subtotal,
+    discount,
+    shipping,
+    shippingMethod: selectedShipping?.method || null,
+    shippingOptions,
+    coupon,
+    shippingTax: taxResult.shippingTax,
+    tax,
+    total,
+    wallet: null,
+    amountDue: total,
+  }
+
+  const priced = currency === BASE_CURRENCY ? quote : convertQuote(quote, currency, exchangeRate)
+  if (input.useWallet && input.userId) {
+    priced.wallet = await applyWallet(priced, input.userId)
+    priced.amountDue = roundCurrency(priced.total - (priced.wallet?.applied || 0), currency)
+  }
+
+  return priced
+}
+
+/**
+ * Works out how much of the customer's store credit goes towards a priced quote.
+ * A card remainder below Stripe's minimum charge is avoided by holding back credit.
+ */
+async function applyWallet(quote: CheckoutQuote, userId: string): Promise<CheckoutWallet | null> {
+  const baseBalance = await getWalletBalance(userId)
+  if (baseBalance <= 0) return null
+
+  const { currency, exchangeRate: rate, total } = quote
+  const balance = roundCurrency(baseBalance * rate, currency)
+  let applied = roundCurrency(Math.min(balance, total), currency)
+
+  const minCharge = roundCurrency(MIN_CARD_CHARGE * rate, currency)
+  const remainder = total - applied
+  if (remainder > 0 && remainder < minCharge) {
+    applied = Math.max(roundCurrency(total - minCharge, currency), 0)
+  }
+  if (applied <= 0) return null
+
+  // Spending the whole balance debits it exactly instead of a rounded conversion
+  const baseAmount = applied === balance
+    ? baseBalance
+    : Math.min(roundMoney(applied / rate), baseBalance)
+
+  return { balance, applied, baseAmount }
+}
+
+/**
+ * Re-expresses a base-currency quote in another currency. Each line is converted
+ * on its own and the totals are summed afterwards, so the breakdown still adds up
+ * exactly in the target currency.
+ */
+function convertQuote(quote: CheckoutQuote, currency: string, rate: number): CheckoutQuote {
+  const convert = (amount: number) => roundCurrency(amount * rate, currency)
+
+  const items = quote.items.map((line) => {
+    const subtotal = convert(line.subtotal)
+    const total = convert(line.total)
+    return {
+      ...line,
+      listPrice: convert(line.listPrice),
+      unitPrice: convert(line.unitPrice),
+      subtotal,
+      discount: roundCurrency(subtotal - total, currency),
+      total,
+      tax: convert(line.tax),
+    }
+  })
+
+  const subtotal = roundCurrency(items.reduce((sum, line) => sum + line.subtotal, 0), currency)
+  const discount = roundCurrency(items.reduce((sum, line) => sum + line.discount, 0), currency)
+  const shipping = convert(quote.shipping)
+  const shippingTax = convert(quote.shippingTax)
+  const tax = roundCurrency(items.reduce((sum, line) => sum + line.tax, 0) + shippingTax, currency)
+  const total = roundCurrency(subtotal - discount + shipping + tax, currency)
+
+  return {
+    ...quote,
+    currency,
+    exchangeRate: rate,
+    items,
+    subtotal,
+    discount,
+    shipping,
+    shippingOptions: quote.shippingOptions.map((option) => ({ ...option, price: convert(option.price) })),
+    coupon: quote.coupon && {
+      ...quote.coupon,
+      discount: convert(quote.coupon.discount),
+      shippingDiscount: convert(quote.coupon.shippingDiscount),
+    },
+    shippingTax,
+    tax,
+    total,
+    amountDue: total,
+  }
+}
@@ -0,0 +1,190 @@
+import { Coupon, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { listCategories, getDescendantIds } from './categories'
+import { BASE_CURRENCY, formatMoney, roundCurrency } from './currency'
+
+/**
+ * Coupon / promo code engine.
+ * A coupon takes a percentage or a fixed amount off the eligible items, or waives
+ * shipping. Eligibility can be narrowed to categories or products; when neither is
+ * set every item in the cart qualifies. Categories include their subcategories.
+ * Amounts are in the base currency.
+ */
+
+export interface CouponLineInput {
+  key: string // Identifies the cart line; a product can have one line per variant
+  productId: string
+  categoryId: string | null
+  amount: number // Base currency
+}
+
+// A coupon with its categories expanded to their subcategories
+export type ResolvedCoupon = Coupon & { eligibleCategoryIds: Set<string> }
+
+export interface CouponApplication {
+  lineDiscounts: Map<string, number> // Keyed by CouponLineInput.key
+  discount: number
+  freeShipping: boolean
+}
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+function roundDiscount(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export async function findCouponByCode(code: string): Promise<ResolvedCoupon | null> {
+  const coupon = await prisma.coupon.findUnique({
+    where: { code: normalizeCouponCode(code) },
+  })
+  if (!coupon) return null
+
+  const categories = coupon.categoryIds.length > 0 ? await listCategories() : []
+  return {
+    ...coupon,
+    eligibleCategoryIds: new Set(coupon.categoryIds.flatMap((categoryId) => getDescendantIds(categories, categoryId))),
+  }
+}
+
+function isEligibleLine(coupon: ResolvedCoupon, line: CouponLineInput): boolean {
+  if (coupon.categoryIds.length === 0 && coupon.productIds.length === 0) return true
+  if (coupon.productIds.includes(line.productId)) return true
+  return !!line.categoryId && coupon.eligibleCategoryIds.has(line.categoryId)
+}
+
+/**
+ * Checks everything except the per-user limit, which needs the user's redemption count.
+ * Returns a customer-facing reason when the coupon cannot be used, otherwise null.
+ * Amounts in the reason are shown in the order's currency.
+ */
+export function getCouponRejection(
+  coupon: ResolvedCoupon,
+  lines: CouponLineInput[],
+  order: { currency: string; exchangeRate: number } = { currency: BASE_CURRENCY, exchangeRate: 1 },
+  now: Date = new Date()
+): string | null {
+  if (!coupon.isActive) return `Coupon ${coupon.code} is not valid`
+  if (coupon.startsAt && coupon.startsAt > now) return `Coupon ${coupon.code} is not active yet`
+  if (coupon.expiresAt && coupon.expiresAt <= now) return `Coupon ${coupon.code} has expired`
+  if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) {
+    return `Coupon ${coupon.code} has reached its usage limit`
+  }
+
+  const orderValue = lines.reduce((sum, line) => sum + line.amount, 0)
+  if (coupon.minOrderValue !== null && orderValue < Number(coupon.minOrderValue)) {
+    const minimum = roundCurrency(Number(coupon.minOrderValue) * order.exchangeRate, order.currency)
+    return `Coupon ${coupon.code} requires a minimum order of ${formatMoney(minimum, order.currency)}`
+  }
+  if (!lines.some((line) => isEligibleLine(coupon, line))) {
+    return `Coupon ${coupon.code} does not apply to any items in your cart`
+  }
+
+  return null
+}
+
+export async function countUserRedemptions(
+  couponId: string,
+  userId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  return client.couponRedemption.count({ where: { couponId, userId } })
+}
+
+/**
+ * Works out the discount for each eligible line. The coupon amount is spread across
+ * eligible lines in proportion to their value so line-level tax stays correct.
+ */
+export function applyCoupon(coupon: ResolvedCoupon, lines: CouponLineInput[]): CouponApplication {
+  const eligible = lines.filter((line) => isEligibleLine(coupon, line) && line.amount > 0)
+  const eligibleTotal = eligible.reduce((sum, line) => sum + line.amount, 0)
+
+  let discount = 0
+  if (coupon.type === 'PERCENTAGE') {
+    discount = roundDiscount(eligibleTotal * Math.min(Number(coupon.value), 100) / 100)
+  } else if (coupon.type === 'FIXED_AMOUNT') {
+    discount = roundDiscount(Math.min(Number(coupon.value), eligibleTotal))
+  }
+
+  const lineDiscounts = new Map<string, number>()
+  let remaining = discount
+  eligible.forEach((line, index) => {
+    const share = index === eligible.length - 1
+      ? remaining
+      : roundDiscount(discount * line.amount / eligibleTotal)
+    lineDiscounts.set(line.key, share)
+    remaining = roundDiscount(remaining - share)
+  })
+
+  return {
+    lineDiscounts,
+    discount,
+    freeShipping: coupon.type === 'FREE_SHIPPING',
+  }
+}
+
+/**
+ * Records a redemption inside the order transaction. The usage counter is only
+ * incremented while it is below the limit, so concurrent checkouts cannot
+ * oversubscribe a coupon. Returns a reason when the coupon can no longer be used.
+ */
+export async function redeemCoupon(
+  tx: Prisma.TransactionClient,
+  redemption: { couponId: string; userId: string; orderId: string; amount: number }
+): Promise<string | null> {
+  const coupon = await tx.coupon.findUnique({ where: { id: redemption.couponId } })
+  if (!coupon || !coupon.isActive) return 'Coupon is no longer valid'
+
+  if (coupon.perUserLimit !== null) {
+    const used = await countUserRedemptions(coupon.id, redemption.userId, tx)
+    if (used >= coupon.perUserLimit) {
+      return `You have already used coupon ${coupon.code}`
+    }
+  }
+
+  const updated = await tx.coupon.updateMany({
+    where: {
+      id: coupon.id,
+      ...(coupon.usageLimit !== null && { usedCount: { lt: coupon.usageLimit } }),
+    },
+    data: { usedCount: { increment: 1 } },
+  })
+  if (updated.count === 0) {
+    return `Coupon ${coupon.code} has reached its usage limit`
+  }
+
+  await tx.couponRedemption.create({
+    data: redemption,
+  })
+
+  return null
+}
+
+/**
+ * Gives a cancelled order's coupon use back so the customer can apply it again.
+ */
+export async function releaseCoupon(tx: Prisma.TransactionClient, orderId: string): Promise<void> {
+  const redemption = await tx.couponRedemption.findUnique({ where: { orderId } })
+  if (!redemption) return
+
+  await tx.couponRedemption.delete({ where: { id: redemption.id } })
+  await tx.coupon.updateMany({
+    where: { id: redemption.couponId, usedCount: { gt: 0 } },
+    data: { usedCount: { decrement: 1 } },
+  })
+}
+
+/**
+ * Shape a coupon for API responses.
+ */
+export function formatCoupon<T extends {
+  value: { toString(): string }
+  minOrderValue: { toString(): string } | null
+}>(coupon: T) {
+  return {
+    ...coupon,
+    value: coupon.value.toString(),
+    minOrderValue: coupon.minOrderValue?.toString() ?? null,
+  }
+}
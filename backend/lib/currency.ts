@@ -0,0 +1,177 @@
+import { prisma } from './prisma'
+
+/**
+ * Multi-currency support.
+ * Catalog prices, shipping rates and coupon amounts are kept in the store's base
+ * currency. CurrencyRate rows hold how many units of a target currency one unit
+ * of the base currency buys; checkout converts with the rate current at order time
+ * and locks it on the order.
+ */
+
+export const BASE_CURRENCY = 'USD'
+
+// Currencies Stripe charges in whole units (no minor unit)
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA',
+  'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF',
+])
+
+export interface ParsedRate {
+  target: string
+  rate: number
+}
+
+export interface RateImportResult {
+  rates: ParsedRate[]
+  errors: string[]
+}
+
+export function normalizeCurrency(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+export function isValidCurrencyCode(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code)
+}
+
+export function currencyDecimals(currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.has(normalizeCurrency(currency)) ? 0 : 2
+}
+
+export function roundCurrency(amount: number, currency: string): number {
+  const factor = 10 ** currencyDecimals(currency)
+  return Math.round(amount * factor) / factor
+}
+
+/**
+ * Amount for customer-facing messages, e.g. "$45.00" or "€12.50".
+ */
+export function formatMoney(amount: number, currency: string): string {
+  const decimals = currencyDecimals(currency)
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: normalizeCurrency(currency),
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(amount)
+}
+
+/**
+ * Amount in the smallest unit Stripe expects (cents, or whole yen for JPY).
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** currencyDecimals(currency))
+}
+
+/**
+ * Rate from the base currency to `currency`, or null when no rate is configured.
+ */
+export async function getExchangeRate(currency: string): Promise<number | null> {
+  const target = normalizeCurrency(currency)
+  if (target === BASE_CURRENCY) return 1
+
+  const rate = await prisma.currencyRate.findUnique({
+    where: { base_target: { base: BASE_CURRENCY, target } },
+  })
+  return rate && rate.rate > 0 ? rate.rate : null
+}
+
+/**
+ * Currencies customers can choose from: the base currency plus every configured rate.
+ */
+export async function listCurrencies() {
+  const rates = await prisma.currencyRate.findMany({
+    where: { base: BASE_CURRENCY, rate: { gt: 0 } },
+    orderBy: { target: 'asc' },
+  })
+
+  return [
+    { code: BASE_CURRENCY, rate: 1, lastFetched: null as Date | null },
+    ...rates
+      .filter((rate) => rate.target !== BASE_CURRENCY)
+      .map((rate) => ({ code: rate.target, rate: rate.rate, lastFetched: rate.lastFetched })),
+  ]
+}
+
+function parseRateRow(
+  row: { base?: unknown; target?: unknown; rate?: unknown },
+  label: string,
+  result: RateImportResult
+) {
+  const base = typeof row.base === 'string' && row.base.trim() ? normalizeCurrency(row.base) : BASE_CURRENCY
+  const target = typeof row.target === 'string' ? normalizeCurrency(row.target) : ''
+  const rate = typeof row.rate === 'number' ? row.rate : parseFloat(String(row.rate ?? ''))
+
+  if (base !== BASE_CURRENCY) {
+    result.errors.push(`${label}: base currency must be ${BASE_CURRENCY}, got ${base}`)
+  } else if (!isValidCurrencyCode(target)) {
+    result.errors.push(`${label}: "${String(row.target ?? '')}" is not a 3-letter currency code`)
+  } else if (target === BASE_CURRENCY) {
+    result.errors.push(`${label}: ${BASE_CURRENCY} is the base currency`)
+  } else if (!Number.isFinite(rate) || rate <= 0) {
+    result.errors.push(`${label}: rate for ${target} must be a positive number`)
+  } else {
+    result.rates.push({ target, rate })
+  }
+}
+
+/**
+ * Parses an uploaded rate file.
+ * CSV: `target,rate` or `base,target,rate` columns, with an optional header row.
+ * JSON: an array of `{ target, rate }` objects, a `{ "EUR": 0.92 }` map, or
+ * `{ base, rates: { ... } }` as returned by most exchange-rate APIs.
+ */
+export function parseRateImport(content: string, format: 'csv' | 'json'): RateImportResult {
+  const result: RateImportResult = { rates: [], errors: [] }
+
+  if (format === 'csv') {
+    const rows = content.split(/\r?\n/).map((line) => line.trim()).filter(Boolean)
+    let columns = ['target', 'rate']
+    rows.forEach((line, index) => {
+      const cells = line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"|"$/g, ''))
+      if (index === 0 && cells.some((cell) => /^(base|target|currency|code|rate)$/i.test(cell))) {
+        columns = cells.map((cell) => (/^(currency|code)$/i.test(cell) ? 'target' : cell.toLowerCase()))
+        return
+      }
+      if (index === 0 && cells.length === 3) columns = ['base', 'target', 'rate']
+
+      const row: Record<string, string> = {}
+      columns.forEach((column, i) => { row[column] = cells[i] })
+      parseRateRow(row, `Line ${index + 1}`, result)
+    })
+  } else {
+    let data: unknown
+    try {
+      data = JSON.parse(content)
+    } catch {
+      return { rates: [], errors: ['File is not valid JSON'] }
+    }
+
+    if (Array.isArray(data)) {
+      data.forEach((item, index) => {
+        const row = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>
+        parseRateRow(
+          { base: row.base, target: row.target ?? row.currency ?? row.code, rate: row.rate },
+          `Entry ${index + 1}`,
+          result
+        )
+      })
+    } else if (data && typeof data === 'object') {
+      const object = data as Record<string, unknown>
+      const rates = (object.rates && typeof object.rates === 'object' ? object.rates : object) as Record<string, unknown>
+      const base = typeof object.base === 'string' ? object.base : undefined
+      for (const [target, rate] of Object.entries(rates)) {
+        if (rates === object && target === 'base') continue
+        parseRateRow({ base, target, rate }, target, result)
+      }
+    } else {
+      result.errors.push('JSON must be an array or an object of rates')
+    }
+  }
+
+  if (result.rates.length === 0 && result.errors.length === 0) {
+    result.errors.push('No rates found in file')
+  }
+
+  return result
+}
@@ -0,0 +1,130 @@
+/**
+ * Transactional email templates.
+ * Each template returns a subject plus matching HTML and plain-text bodies.
+ */
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export interface EmailTemplateData {
+  passwordReset: { firstName: string; resetUrl: string; expiresInMinutes: number }
+  passwordChanged: { firstName: string }
+  welcome: { firstName: string; shopUrl: string }
+  paymentFailed: { firstName: string; orderNumber: string; reason: string; orderUrl: string }
+}
+
+export type EmailTemplateName = keyof EmailTemplateData
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Wraps template content in the shared branded layout.
+ */
+function layout(title: string, bodyHtml: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:0;background:#0f172a;font-family:Arial,Helvetica,sans-serif;">
+    <table width="100%" cellpadding="0" cellspacing="0" style="padding:32px 0;">
+      <tr>
+        <td align="center">
+          <table width="560" cellpadding="0" cellspacing="0" style="background:#1e293b;border-radius:12px;padding:32px;color:#e2e8f0;">
+            <tr><td style="font-size:22px;color:#22d3ee;padding-bottom:16px;">${escapeHtml(title)}</td></tr>
+            <tr><td style="font-size:15px;line-height:1.6;">${bodyHtml}</td></tr>
+            <tr><td style="font-size:12px;color:#64748b;padding-top:24px;">Vytrion Technologies</td></tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`
+}
+
+function button(url: string, label: string): string {
+  return `<p style="margin:24px 0;"><a href="${escapeHtml(url)}" style="background:#06b6d4;color:#ffffff;text-decoration:none;padding:12px 24px;border-radius:8px;display:inline-block;">${escapeHtml(label)}</a></p>`
+}
+
+const templates: { [K in EmailTemplateName]: (data: EmailTemplateData[K]) => RenderedEmail } = {
+  passwordReset: ({ firstName, resetUrl, expiresInMinutes }) => ({
+    subject: 'Reset your Vytrion password',
+    html: layout(
+      'Reset your password',
+      `<p>Hi ${escapeHtml(firstName)},</p>
+<p>We received a request to reset your password. Click the button below to choose a new one.</p>
+${button(resetUrl, 'Reset Password')}
+<p>This link expires in ${expiresInMinutes} minutes. If you did not request a reset, you can safely ignore this email.</p>`
+    ),
+    text: `Hi ${firstName},
+
+We received a request to reset your password. Open the link below to choose a new one:
+
+${resetUrl}
+
+This link expires in ${expiresInMinutes} minutes. If you did not request a reset, you can safely ignore this email.`,
+  }),
+
+  passwordChanged: ({ firstName }) => ({
+    subject: 'Your Vytrion password was changed',
+    html: layout(
+      'Password changed',
+      `<p>Hi ${escapeHtml(firstName)},</p>
+<p>The password for your account was just changed. If this was you, no further action is needed.</p>
+<p>If you did not make this change, please reset your password immediately and contact our support team.</p>`
+    ),
+    text: `Hi ${firstName},
+
+The password for your account was just changed. If this was you, no further action is needed.
+
+If you did not make this change, please reset your password immediately and contact our support team.`,
+  }),
+
+  welcome: ({ firstName, shopUrl }) => ({
+    subject: 'Welcome to Vytrion Technologies',
+    html: layout(
+      `Welcome, ${firstName}!`,
+      `<p>Thanks for creating an account with Vytrion Technologies.</p>
+<p>You can now track orders, save products to your wishlist and check out faster.</p>
+${button(shopUrl, 'Start Shopping')}`
+    ),
+    text: `Welcome, ${firstName}!
+
+Thanks for creating an account with Vytrion Technologies.
+You can now track orders, save products to your wishlist and check out faster.
+
+Start shopping: ${shopUrl}`,
+  }),
+
+  paymentFailed: ({ firstName, orderNumber, reason, orderUrl }) => ({
+    subject: `Payment for order ${orderNumber} did not go through`,
+    html: layout(
+      'Payment unsuccessful',
+      `<p>Hi ${escapeHtml(firstName)},</p>
+<p>We could not take payment for order <strong>${escapeHtml(orderNumber)}</strong>: ${escapeHtml(reason)}</p>
+<p>Your order is still saved. You can retry with the same or a different card.</p>
+${button(orderUrl, 'Complete Payment')}`
+    ),
+    text: `Hi ${firstName},
+
+We could not take payment for order ${orderNumber}: ${reason}
+
+Your order is still saved. You can retry with the same or a different card:
+
+${orderUrl}`,
+  }),
+}
+
+export function renderEmailTemplate<T extends EmailTemplateName>(
+  template: T,
+  data: EmailTemplateData[T]
+): RenderedEmail {
+  return templates[template](data)
+}
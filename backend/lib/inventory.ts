@@ -0,0 +1,219 @@
+import { Prisma, StockMovement, StockMovementType } from '@prisma/client'
+import { prisma } from './prisma'
+
+/**
+ * Inventory ledger.
+ * Product.stock is only changed through recordStockMovement, which leaves a
+ * StockMovement row with the signed quantity, the stock it left behind and who
+ * made the change. Products that drop to their reorderPoint are reported so
+ * admins can be alerted once the transaction commits.
+ * For products with variants the stock lives on each ProductVariant and
+ * Product.stock is kept as their sum.
+ */
+
+/**
+ * Raised when a stock change is refused, e.g. restocking an order twice.
+ * Carries the HTTP status the route should respond with.
+ */
+export class InventoryError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'InventoryError'
+    this.status = status
+  }
+}
+
+export interface StockMovementInput {
+  productId: string
+  variantId?: string | null
+  type: StockMovementType
+  quantity: number // Signed: negative takes stock off the shelf
+  reason?: string | null
+  orderId?: string | null
+  returnRequestId?: string | null
+  createdById?: string | null
+}
+
+export interface StockMovementResult {
+  movement: StockMovement
+  lowStock: boolean // The product just reached its reorder point
+}
+
+/**
+ * Applies a stock change and records it. Stock is only taken while enough is on
+ * the shelf, so concurrent orders cannot oversell; returns null when it is not.
+ */
+export async function recordStockMovement(
+  tx: Prisma.TransactionClient,
+  input: StockMovementInput
+): Promise<StockMovementResult | null> {
+  const enough = input.quantity < 0 ? { stock: { gte: -input.quantity } } : {}
+  let variantStock: number | null = null
+  if (input.variantId) {
+    const updated = await tx.productVariant.updateMany({
+      where: { id: input.variantId, productId: input.productId, ...enough },
+      data: { stock: { increment: input.quantity } },
+    })
+    if (updated.count === 0) return null
+
+    const variant = await tx.productVariant.findUniqueOrThrow({
+      where: { id: input.variantId },
+      select: { stock: true },
+    })
+    variantStock = variant.stock
+    await tx.product.update({
+      where: { id: input.productId },
+      data: { stock: { increment: input.quantity } },
+    })
+  } else {
+    const updated = await tx.product.updateMany({
+      where: { id: input.productId, ...enough },
+      data: { stock: { increment: input.quantity } },
+    })
+    if (updated.count === 0) return null
+  }
+
+  const product = await tx.product.findUniqueOrThrow({
+    where: { id: input.productId },
+    select: { stock: true, reorderPoint: true },
+  })
+
+  const movement = await tx.stockMovement.create({
+    data: { ...input, stockAfter: variantStock ?? product.stock },
+  })
+
+  // Claim the alert so each dip below the reorder point is only reported once
+  let lowStock = false
+  if (product.stock <= product.reorderPoint) {
+    const claimed = await tx.product.updateMany({
+      where: { id: input.productId, lowStockAlertedAt: null },
+      data: { lowStockAlertedAt: new Date() },
+    })
+    lowStock = claimed.count > 0
+  } else {
+    await tx.product.updateMany({
+      where: { id: input.productId, lowStockAlertedAt: { not: null } },
+      data: { lowStockAlertedAt: null },
+    })
+  }
+
+  return { movement, lowStock }
+}
+
+/**
+ * Sets the stock of a product, or of one of its variants, to an absolute count
+ * (admin edits and stock takes), recording the difference as an ADJUSTMENT.
+ * Returns null when nothing changed.
+ */
+export async function setProductStock(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  stock: number,
+  entry: { variantId?: string | null; reason?: string | null; createdById?: string | null } = {}
+): Promise<StockMovementResult | null> {
+  const current = entry.variantId
+    ? await tx.productVariant.findUniqueOrThrow({
+        where: { id: entry.variantId },
+        select: { stock: true },
+      })
+    : await tx.product.findUniqueOrThrow({
+        where: { id: productId },
+        select: { stock: true },
+      })
+  if (current.stock === stock) return null
+
+  return recordStockMovement(tx, {
+    productId,
+    variantId: entry.variantId ?? null,
+    type: 'ADJUSTMENT',
+    quantity: stock - current.stock,
+    reason: entry.reason ?? 'Stock updated',
+    createdById: entry.createdById ?? null,
+  })
+}
+
+/**
+ * Puts every item of an order back on the shelf (cancellations and returns).
+ */
+export async function restockOrderItems(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  entry: Omit<StockMovementInput, 'productId' | 'variantId' | 'quantity' | 'orderId'>
+): Promise<StockMovementResult[]> {
+  const items = await tx.orderItem.findMany({
+    where: { subOrder: { orderId } },
+    select: { productId: true, variantId: true, quantity: true },
+  })
+
+  const results = await Promise.all(
+    items.map((item) =>
+      recordStockMovement(tx, {
+        ...entry,
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        orderId,
+      })
+    )
+  )
+  return results.filter((result): result is StockMovementResult => result !== null)
+}
+
+/**
+ * Stock movements that already put an order's items back (a return or a cancellation).
+ */
+export async function countOrderRestocks(db: Prisma.TransactionClient, orderId: string): Promise<number> {
+  return db.stockMovement.count({
+    where: { orderId, type: { in: ['RETURN', 'CANCELLATION'] } },
+  })
+}
+
+/**
+ * Product ids that reached their reorder point in a batch of movements.
+ */
+export function lowStockProductIds(results: (StockMovementResult | null)[]): string[] {
+  return results.flatMap((result) => (result?.lowStock ? [result.movement.productId] : []))
+}
+
+/**
+ * Sends every admin an inbox message about products at or below their reorder point.
+ * Call after the transaction commits; failures are logged and never undo the stock change.
+ */
+export async function notifyLowStock(productIds: string[]): Promise<void> {
+  if (productIds.length === 0) return
+
+  try {
+    const [products, admins] = await Promise.all([
+      prisma.product.findMany({
+        // Archived products aren't restocked
+        where: { id: { in: productIds }, status: { not: 'ARCHIVED' } },
+        select: { id: true, title: true, stock: true, reorderPoint: true },
+      }),
+      prisma.user.findMany({
+        where: { isAdmin: true },
+        select: { id: true },
+      }),
+    ])
+    if (products.length === 0 || admins.length === 0) return
+
+    const lines = products.map(
+      (product) => `- ${product.title}: ${product.stock} left (reorder point ${product.reorderPoint})`
+    )
+    const subject = products.length === 1
+      ? `Low stock: ${products[0].title}`
+      : `Low stock: ${products.length} products`
+
+    await prisma.userMessage.createMany({
+      data: admins.map((admin) => ({
+        userId: admin.id,
+        sender: 'System',
+        subject,
+        message: `The following products have reached their reorder point:\n\n${lines.join('\n')}\n\nRestock them from Admin → Inventory.`,
+      })),
+    })
+  } catch (error) {
+    console.error('[Inventory] Failed to send low stock alert:', error)
+  }
+}
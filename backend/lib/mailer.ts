@@ -0,0 +1,147 @@
+import nodemailer from 'nodemailer'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { renderEmailTemplate, EmailTemplateName, EmailTemplateData } from './emailTemplates'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+/**
+ * A mail transport delivers a fully rendered message.
+ * Select one with MAIL_TRANSPORT=smtp|file|console.
+ */
+export interface MailTransport {
+  name: string
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+function getMailFrom(): string {
+  return process.env.MAIL_FROM || 'Vytrion Technologies <no-reply@vytrion.com>'
+}
+
+/**
+ * SMTP transport backed by nodemailer.
+ * Requires SMTP_HOST; SMTP_PORT, SMTP_USER, SMTP_PASSWORD and SMTP_SECURE are optional.
+ */
+function createSmtpTransport(): MailTransport {
+  if (!process.env.SMTP_HOST) {
+    throw new Error('SMTP_HOST is not set. Please set SMTP_HOST or use MAIL_TRANSPORT=console.')
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || '587', 10)
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  })
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail(message)
+    },
+  }
+}
+
+/**
+ * File transport for local development and tests.
+ * Writes every message as JSON into MAIL_OUTBOX_DIR (default: .mail-outbox).
+ */
+function createFileTransport(): MailTransport {
+  const outboxDir = path.resolve(process.env.MAIL_OUTBOX_DIR || '.mail-outbox')
+
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(outboxDir, { recursive: true })
+      const fileName = `${Date.now()}-${message.to.replace(/[^\w.@-]/g, '_')}.json`
+      await fs.writeFile(
+        path.join(outboxDir, fileName),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      )
+    },
+  }
+}
+
+/**
+ * Console transport - prints the text body instead of sending anything.
+ */
+function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[Mailer] To: ${message.to}`)
+      console.log(`[Mailer] Subject: ${message.subject}`)
+      console.log(message.text)
+    },
+  }
+}
+
+let cachedTransport: MailTransport | null = null
+
+/**
+ * Resolves the configured transport. Falls back to SMTP when SMTP_HOST is set,
+ * otherwise to the console transport so development works without configuration.
+ * Production never falls back to the console: it would print reset links to the logs.
+ */
+export function getMailTransport(): MailTransport {
+  if (cachedTransport) return cachedTransport
+
+  const configured = process.env.MAIL_TRANSPORT?.toLowerCase()
+  if (!configured && !process.env.SMTP_HOST && process.env.NODE_ENV === 'production') {
+    throw new Error('No mail transport configured. Set SMTP_HOST or MAIL_TRANSPORT.')
+  }
+  const transportName = configured || (process.env.SMTP_HOST ? 'smtp' : 'console')
+
+  switch (transportName) {
+    case 'smtp':
+      cachedTransport = createSmtpTransport()
+      break
+    case 'file':
+      cachedTransport = createFileTransport()
+      break
+    case 'console':
+      cachedTransport = createConsoleTransport()
+      break
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transportName}". Use smtp, file or console.`)
+  }
+
+  return cachedTransport
+}
+
+/**
+ * Sends a pre-rendered message through the configured transport.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const transport = getMailTransport()
+  await transport.send({ ...message, from: getMailFrom() })
+  console.log(`[Mailer] Sent "${message.subject}" to ${message.to} via ${transport.name}`)
+}
+
+/**
+ * Renders one of the templates in emailTemplates.ts and sends it.
+ */
+export async function sendTemplatedEmail<T extends EmailTemplateName>(
+  to: string,
+  template: T,
+  data: EmailTemplateData[T]
+): Promise<void> {
+  const rendered = renderEmailTemplate(template, data)
+  await sendMail({ to, ...rendered })
+}
+
+/**
+ * Base URL of the storefront, used to build links inside emails.
+ */
+export function getFrontendUrl(): string {
+  const url = process.env.FRONTEND_URL || 'http://localhost:3000'
+  return url.replace(/\/$/, '')
+}
@@ -0,0 +1,195 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { deleteStoredImage, UploadedImage, UploadFolder } from './uploads'
+
+/**
+ * Media library.
+ * Admin uploads for the catalogue and content are registered as MediaAsset rows so
+ * they can be searched, tagged and reused. Usage is worked out from the URLs stored
+ * on products, variants, blog posts and projects, so it never goes stale.
+ */
+
+// Upload folders that belong in the library; profile and return photos stay private
+export const MEDIA_FOLDERS: UploadFolder[] = ['products', 'blog', 'projects', 'misc']
+
+export interface MediaUsage {
+  type: 'product' | 'variant' | 'blog' | 'project' | 'category' | 'promotion'
+  id: string
+  title: string
+  productId?: string // For variants, the product to open
+}
+
+/**
+ * Lower-cased, trimmed and de-duplicated tags.
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)))
+}
+
+/**
+ * Registers an upload in the library.
+ */
+export async function createMediaAsset(
+  upload: UploadedImage,
+  data: { folder: UploadFolder; filename: string; uploadedById?: string; altText?: string; tags?: string[] }
+) {
+  return prisma.mediaAsset.create({
+    data: {
+      key: upload.key,
+      url: upload.url,
+      sizes: upload.sizes,
+      folder: data.folder,
+      filename: data.filename.slice(0, 255) || upload.key.split('/').pop()!,
+      contentType: upload.contentType,
+      size: upload.size,
+      width: upload.width,
+      height: upload.height,
+      altText: data.altText || null,
+      tags: normalizeTags(data.tags || []),
+      uploadedById: data.uploadedById || null,
+    },
+  })
+}
+
+/**
+ * Every URL an asset can be referenced by: the original and its resized copies.
+ */
+export function getAssetUrls(asset: { url: string; sizes: Prisma.JsonValue }): string[] {
+  const sizes = asset.sizes && typeof asset.sizes === 'object' && !Array.isArray(asset.sizes)
+    ? Object.values(asset.sizes).filter((url): url is string => typeof url === 'string')
+    : []
+  return [asset.url, ...sizes]
+}
+
+// A usage and which of the looked-up URLs it references
+interface UsageMatch {
+  usage: MediaUsage
+  urls: string[]
+}
+
+// URLs from the list that a JSON images array holds
+function imagesMatching(images: Prisma.JsonValue, urls: string[]): string[] {
+  return Array.isArray(images) ? urls.filter((url) => images.includes(url)) : []
+}
+
+async function findUsageMatches(urls: string[]): Promise<UsageMatch[]> {
+  if (urls.length === 0) return []
+
+  const inImages = urls.map((url) => ({ images: { array_contains: [url] } }))
+
+  const [products, variants, blogs, projects, categories, promotions] = await Promise.all([
+    prisma.product.findMany({
+      where: { OR: inImages },
+      select: { id: true, title: true, images: true },
+    }),
+    prisma.productVariant.findMany({
+      where: { OR: inImages },
+      select: { id: true, sku: true, productId: true, images: true, product: { select: { title: true } } },
+    }),
+    prisma.blog.findMany({
+      where: {
+        OR: [
+          { featuredImage: { in: urls } },
+          ...urls.map((url) => ({ content: { contains: url } })),
+        ],
+      },
+      select: { id: true, title: true, featuredImage: true, content: true },
+    }),
+    prisma.project.findMany({
+      where: { OR: inImages },
+      select: { id: true, title: true, images: true },
+    }),
+    prisma.category.findMany({
+      where: { image: { in: urls } },
+      select: { id: true, name: true, image: true },
+    }),
+    prisma.promotion.findMany({
+      where: { bannerImage: { in: urls } },
+      select: { id: true, name: true, bannerImage: true },
+    }),
+  ])
+
+  return [
+    ...products.map((product) => ({
+      usage: { type: 'product' as const, id: product.id, title: product.title },
+      urls: imagesMatching(product.images, urls),
+    })),
+    ...variants.map((variant) => ({
+      usage: {
+        type: 'variant' as const,
+        id: variant.id,
+        title: `${variant.product.title} (${variant.sku})`,
+        productId: variant.productId,
+      },
+      urls: imagesMatching(variant.images, urls),
+    })),
+    ...blogs.map((blog) => ({
+      usage: { type: 'blog' as const, id: blog.id, title: blog.title },
+      urls: urls.filter((url) => url === blog.featuredImage || blog.content.includes(url)),
+    })),
+    ...projects.map((project) => ({
+      usage: { type: 'project' as const, id: project.id, title: project.title },
+      urls: imagesMatching(project.images, urls),
+    })),
+    ...categories.map((category) => ({
+      usage: { type: 'category' as const, id: category.id, title: category.name },
+      urls: urls.filter((url) => url === category.image),
+    })),
+    ...promotions.map((promotion) => ({
+      usage: { type: 'promotion' as const, id: promotion.id, title: promotion.name },
+      urls: urls.filter((url) => url === promotion.bannerImage),
+    })),
+  ]
+}
+
+/**
+ * Products, variants, blog posts, projects, categories and promotions that use any of
+ * the given URLs.
+ */
+export async function findMediaUsages(urls: string[]): Promise<MediaUsage[]> {
+  return (await findUsageMatches(urls)).map((match) => match.usage)
+}
+
+/**
+ * Usage counts for a page of assets, each given by its URLs. The lookups run once
+ * for the whole page rather than per asset.
+ */
+export async function countMediaUsages(urlsPerAsset: string[][]): Promise<number[]> {
+  const matches = await findUsageMatches(urlsPerAsset.flat())
+  return urlsPerAsset.map((urls) => matches.filter((match) => match.urls.some((url) => urls.includes(url))).length)
+}
+
+/**
+ * All tags in use across the library, alphabetically.
+ */
+export async function listMediaTags(): Promise<string[]> {
+  const rows = await prisma.$queryRaw<{ tag: string }[]>`
+    SELECT DISTINCT unnest("tags") AS tag FROM "MediaAsset" ORDER BY tag
+  `
+  return rows.map((row) => row.tag)
+}
+
+/**
+ * Removes an asset and its files. Callers must check it is unused first.
+ * The row goes first so a storage failure leaves orphaned files, never a
+ * library entry pointing at nothing.
+ */
+export async function deleteMediaAsset(asset: { id: string; key: string }): Promise<void> {
+  await prisma.mediaAsset.delete({ where: { id: asset.id } })
+  try {
+    await deleteStoredImage(asset.key)
+  } catch (error) {
+    console.error(`Failed to delete stored files for ${asset.key}:`, error)
+  }
+}
+
+/**
+ * Shape an asset for API responses.
+ */
+export function formatMediaAsset<T extends { sizes: Prisma.JsonValue }>(asset: T, usageCount?: number) {
+  return {
+    ...asset,
+    sizes: asset.sizes || {},
+    ...(usageCount !== undefined && { usageCount }),
+  }
+}
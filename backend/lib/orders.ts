@@ -0,0 +1,29 @@
+import { Prisma } from '@prisma/client'
+import { releaseCoupon } from './coupons'
+import { restoreOrderWalletPayment } from './wallet'
+import { restockOrderItems } from './inventory'
+
+/**
+ * Order lifecycle helpers shared by the order routes, the Stripe webhook and
+ * background jobs.
+ */
+
+/**
+ * Cancels an unpaid order: stock goes back on the shelf, the coupon use is freed
+ * and any store credit is returned. Only PENDING orders are touched, so a payment
+ * confirmed at the same moment wins and calling this twice is harmless.
+ * Returns whether the order was cancelled.
+ */
+export async function cancelPendingOrder(tx: Prisma.TransactionClient, orderId: string): Promise<boolean> {
+  const updated = await tx.order.updateMany({
+    where: { id: orderId, status: 'PENDING' },
+    data: { status: 'CANCELLED' },
+  })
+  if (updated.count === 0) return false
+
+  await restockOrderItems(tx, orderId, { type: 'CANCELLATION', reason: 'Unpaid order cancelled' })
+
+  await releaseCoupon(tx, orderId)
+  await restoreOrderWalletPayment(tx, orderId)
+  return true
+}
@@ -0,0 +1,582 @@
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { generateSlug } from './utils'
+import { productSchema, productStatusData, variantSchema } from './products'
+import { listCategories, findCategory, CategoryRecord } from './categories'
+import { getVariantRejection, upsertProductVariants, VariantOptions, VariantPatch } from './variants'
+import { recordStockMovement, setProductStock, lowStockProductIds, notifyLowStock, StockMovementResult } from './inventory'
+import { storeRemoteImage } from './uploads'
+import { refreshSearchWords } from './search'
+import { createMediaAsset } from './media'
+import { getStorage } from './storage'
+import { Sheet, SheetRow, SpreadsheetError } from './spreadsheets'
+
+/**
+ * Bulk product import and export.
+ * A sheet has one row per product, or one row per variant for products with
+ * variants: those rows share the product's slug and each carries a SKU, and the
+ * product columns are read from the first of them. Products are matched on slug,
+ * then on any of their SKUs; matches are updated and the rest created. Blank
+ * cells leave an existing product's or variant's value alone, and variants
+ * missing from the sheet are kept.
+ */
+
+export const PRODUCT_SHEET_COLUMNS = [
+  'slug',
+  'title',
+  'description',
+  'category',
+  'price',
+  'discount',
+  'hsCode',
+  'weight',
+  'featured',
+  'status',
+  'stock',
+  'reorderPoint',
+  'images',
+  'sku',
+  'options',
+  'variantPrice',
+  'variantStock',
+  'variantImages',
+] as const
+
+type ProductColumn = typeof PRODUCT_SHEET_COLUMNS[number]
+
+// Keeps one import to what a single request can get through
+export const MAX_IMPORT_ROWS = 5000
+
+export interface ImportIssue {
+  row: number // Line in the sheet; the header is line 1
+  message: string
+}
+
+export interface ImportItem {
+  rows: number[]
+  slug: string
+  title: string
+  action: 'create' | 'update'
+  productId: string | null
+  variants: number
+  imagesToFetch: number
+  status?: 'created' | 'updated' | 'failed'
+  error?: string
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  totalRows: number
+  created: number
+  updated: number
+  failed: number
+  errors: ImportIssue[]
+  items: ImportItem[]
+}
+
+// Product columns to write; images are kept apart until remote ones are downloaded
+type PlannedWrite =
+  | { action: 'create'; productId: null; data: Omit<Prisma.ProductUncheckedCreateInput, 'slug' | 'images'> }
+  | { action: 'update'; productId: string; data: Omit<Prisma.ProductUncheckedUpdateInput, 'slug' | 'images'> }
+
+type PlannedProduct = ImportItem & PlannedWrite & {
+  images: string[] | undefined
+  variantInputs: VariantPatch[] | null
+  stock: number | undefined
+  fetchUrls: string[] // Remote images to download into the media library
+}
+
+interface SheetLine {
+  line: number
+  cells: Partial<Record<ProductColumn, string>>
+}
+
+type ColumnValue<T> = { value: T | undefined; error?: string }
+
+function parseNumber(cell: string | undefined, column: ProductColumn): ColumnValue<number> {
+  if (!cell) return { value: undefined }
+  const value = Number(cell.replace(/,/g, ''))
+  return Number.isFinite(value) ? { value } : { value: undefined, error: `${column} must be a number, got "${cell}"` }
+}
+
+function parseBoolean(cell: string | undefined, column: ProductColumn): ColumnValue<boolean> {
+  if (!cell) return { value: undefined }
+  const lower = cell.toLowerCase()
+  if (['true', 'yes', 'y', '1'].includes(lower)) return { value: true }
+  if (['false', 'no', 'n', '0'].includes(lower)) return { value: false }
+  return { value: undefined, error: `${column} must be yes or no, got "${cell}"` }
+}
+
+// Image lists are separated by | or line breaks
+function parseList(cell: string | undefined): string[] | undefined {
+  if (!cell) return undefined
+  return cell.split(/[|\r\n]+/).map((item) => item.trim()).filter(Boolean)
+}
+
+// "Color=Black; Size=M"
+function parseOptions(cell: string | undefined): ColumnValue<VariantOptions> {
+  if (!cell) return { value: {} }
+  const options: VariantOptions = {}
+  for (const pair of cell.split(';').map((item) => item.trim()).filter(Boolean)) {
+    const separator = pair.search(/[=:]/)
+    if (separator <= 0) {
+      return { value: undefined, error: `options must look like "Color=Black; Size=M", got "${cell}"` }
+    }
+    options[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim()
+  }
+  return { value: options }
+}
+
+function formatOptions(options: Prisma.JsonValue): string {
+  if (!options || typeof options !== 'object' || Array.isArray(options)) return ''
+  return Object.entries(options).map(([name, value]) => `${name}=${value}`).join('; ')
+}
+
+function isImageReference(url: string): boolean {
+  return url.startsWith('/') || /^https?:\/\/[^\s]+$/i.test(url)
+}
+
+function toStringList(value: Prisma.JsonValue): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+}
+
+/**
+ * Maps header cells to known columns, ignoring case, spaces and underscores.
+ */
+function readLines(sheet: Sheet): SheetLine[] {
+  const key = (name: string) => name.toLowerCase().replace(/[\s_-]/g, '')
+  const columnOf = new Map<string, ProductColumn>()
+  for (const header of sheet.columns) {
+    const column = PRODUCT_SHEET_COLUMNS.find((known) => key(known) === key(header))
+    if (column) columnOf.set(header, column)
+  }
+  const known = new Set(columnOf.values())
+  if (!known.has('slug') && !known.has('title')) {
+    throw new SpreadsheetError('The sheet needs a header row with at least a title or slug column')
+  }
+
+  return sheet.rows.map((row: SheetRow, index) => {
+    const cells: SheetLine['cells'] = {}
+    columnOf.forEach((column, header) => {
+      if (row[header]) cells[column] = row[header]
+    })
+    return { line: index + 2, cells }
+  })
+}
+
+// Zod paths back to sheet columns and lines
+function issueFor(group: SheetLine[], issue: z.ZodIssue): ImportIssue {
+  const [field, index, variantField] = issue.path
+  if (field === 'variants' && typeof index === 'number') {
+    const column = { price: 'variantPrice', stock: 'variantStock', images: 'variantImages' }[String(variantField)] || variantField
+    return { row: group[index]?.line ?? group[0].line, message: `${column ?? 'variant'}: ${issue.message}` }
+  }
+  return { row: group[0].line, message: `${String(field ?? 'row')}: ${issue.message}` }
+}
+
+/**
+ * Validates a sheet and works out what importing it would do, without writing
+ * anything.
+ */
+export async function planProductImport(sheet: Sheet): Promise<{ products: PlannedProduct[]; errors: ImportIssue[]; totalRows: number }> {
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw new SpreadsheetError(`Imports are limited to ${MAX_IMPORT_ROWS} rows; split the file and import each part`)
+  }
+
+  const lines = readLines(sheet)
+  const errors: ImportIssue[] = []
+
+  // Rows sharing a slug (or, without one, a title) are one product's variants
+  const groups = new Map<string, SheetLine[]>()
+  for (const line of lines) {
+    const source = line.cells.slug || line.cells.title
+    if (!source) {
+      errors.push({ row: line.line, message: 'Each row needs a title or a slug' })
+      continue
+    }
+    const slug = generateSlug(source)
+    groups.set(slug, [...(groups.get(slug) || []), line])
+  }
+
+  const skuLine = new Map<string, number>()
+  for (const line of lines) {
+    const sku = line.cells.sku
+    if (!sku) continue
+    if (skuLine.has(sku)) {
+      errors.push({ row: line.line, message: `Duplicate SKU "${sku}" (also on row ${skuLine.get(sku)})` })
+    } else {
+      skuLine.set(sku, line.line)
+    }
+  }
+
+  const allUrls = lines.flatMap((line) => [...(parseList(line.cells.images) || []), ...(parseList(line.cells.variantImages) || [])])
+  const [categories, existingProducts, existingVariants, knownAssets] = await Promise.all([
+    listCategories(),
+    prisma.product.findMany({
+      where: { slug: { in: Array.from(groups.keys()) } },
+      select: { id: true, slug: true, status: true, images: true, variants: { where: { archivedAt: null }, select: { id: true, sku: true, options: true, images: true } } },
+    }),
+    prisma.productVariant.findMany({
+      where: { sku: { in: Array.from(skuLine.keys()) } },
+      select: {
+        sku: true,
+        product: { select: { id: true, slug: true, status: true, images: true, variants: { where: { archivedAt: null }, select: { id: true, sku: true, options: true, images: true } } } },
+      },
+    }),
+    allUrls.length > 0
+      ? prisma.mediaAsset.findMany({ where: { url: { in: allUrls } }, select: { url: true } })
+      : [],
+  ])
+  const productBySlug = new Map(existingProducts.map((product) => [product.slug, product]))
+  const productBySku = new Map(existingVariants.map((variant) => [variant.sku, variant.product]))
+  const storedUrlPrefix = getStorage().url('')
+  const knownUrls = new Set(knownAssets.map((asset) => asset.url))
+
+  const products: PlannedProduct[] = []
+  for (const [slug, group] of groups) {
+    const errorCount = errors.length
+    const first = group[0].cells
+    const hasVariants = group.some((line) => line.cells.sku)
+
+    if (group.length > 1 && group.some((line) => !line.cells.sku)) {
+      const line = group.find((l) => !l.cells.sku)!
+      errors.push({
+        row: line.line,
+        message: `Duplicate slug "${slug}" (first used on row ${group[0].line}); rows sharing a slug must each be a variant with its own SKU`,
+      })
+      continue
+    }
+
+    // Match on slug, then on SKU; a SKU can't move between products
+    const skus = group.flatMap((line) => (line.cells.sku ? [line.cells.sku] : []))
+    const bySlug = productBySlug.get(slug)
+    const skuOwners = skus.flatMap((sku) => (productBySku.has(sku) ? [{ sku, product: productBySku.get(sku)! }] : []))
+    const existing = bySlug || skuOwners[0]?.product
+    const foreignSku = skuOwners.find(({ product }) => product.id !== existing?.id)
+    if (foreignSku) {
+      errors.push({
+        row: skuLine.get(foreignSku.sku)!,
+        message: `SKU "${foreignSku.sku}" already belongs to product "${foreignSku.product.slug}"`,
+      })
+      continue
+    }
+
+    const parsed = {
+      price: parseNumber(first.price, 'price'),
+      discount: parseNumber(first.discount, 'discount'),
+      weight: parseNumber(first.weight, 'weight'),
+      stock: parseNumber(first.stock, 'stock'),
+      reorderPoint: parseNumber(first.reorderPoint, 'reorderPoint'),
+      featured: parseBoolean(first.featured, 'featured'),
+    }
+    Object.values(parsed).forEach(({ error }) => error && errors.push({ row: group[0].line, message: error }))
+
+    let category: CategoryRecord | null = null
+    if (first.category) {
+      category = findCategory(categories, first.category)
+      if (!category) errors.push({ row: group[0].line, message: `Unknown category "${first.category}"` })
+    }
+
+    // Blank variant cells leave an existing variant's value alone
+    const existingVariants = new Map((existing?.variants || []).map((variant) => [variant.sku, variant]))
+    const variantInputs: VariantPatch[] | undefined = hasVariants
+      ? group.map((line, index) => {
+          const current = existingVariants.get(line.cells.sku!)
+          const options = parseOptions(line.cells.options)
+          const price = parseNumber(line.cells.variantPrice, 'variantPrice')
+          const stock = parseNumber(line.cells.variantStock, 'variantStock')
+          ;[options, price, stock].forEach(({ error }) => error && errors.push({ row: line.line, message: error }))
+          const variant = {
+            ...(current && { id: current.id }),
+            sku: line.cells.sku!,
+            options: (line.cells.options || !current) ? options.value || {} : undefined,
+            price: price.value ?? (current ? undefined : null),
+            stock: stock.value ?? (current ? undefined : 0),
+            images: parseList(line.cells.variantImages) ?? (current ? undefined : []),
+          }
+          const checked = (current ? variantSchema.partial() : variantSchema).safeParse(variant)
+          if (!checked.success) {
+            checked.error.issues.forEach((issue) => errors.push(issueFor(group, { ...issue, path: ['variants', index, ...issue.path] })))
+          }
+          return variant
+        })
+      : undefined
+    if (!hasVariants && existing && existing.variants.length > 0) {
+      errors.push({ row: group[0].line, message: `Product "${slug}" has variants; give each variant a row with its SKU` })
+    }
+
+    const images = parseList(first.images)
+    const urls = [...(images || []), ...(variantInputs || []).flatMap((variant) => variant.images || [])]
+    urls.filter((url) => !isImageReference(url))
+      .forEach((url) => errors.push({ row: group[0].line, message: `Image "${url}" is not a URL` }))
+
+    const input = {
+      title: first.title,
+      description: first.description,
+      price: parsed.price.value,
+      discount: parsed.discount.value,
+      hsCode: first.hsCode,
+      stock: parsed.stock.value,
+      reorderPoint: parsed.reorderPoint.value,
+      weight: parsed.weight.value,
+      images,
+      featured: parsed.featured.value,
+      status: first.status?.toUpperCase(),
+    }
+    // New products need every required column; updates only the ones given
+    const created = existing ? null : productSchema.safeParse(input)
+    const result = created ?? productSchema.partial().safeParse(input)
+    if (!result.success) {
+      result.error.issues.forEach((issue) => errors.push(issueFor(group, issue)))
+    }
+    if (variantInputs) {
+      // Checked against the variants the product ends up with, including those not in the sheet
+      const listed = new Set(variantInputs.map((variant) => variant.sku))
+      const rejection = getVariantRejection(
+        [
+          ...(existing?.variants || [])
+            .filter((variant) => !listed.has(variant.sku))
+            .map((variant) => ({ ...variant, options: variant.options as VariantOptions })),
+          ...variantInputs.map((variant) => ({
+            ...variant,
+            options: variant.options ?? (existingVariants.get(variant.sku)?.options as VariantOptions),
+          })),
+        ],
+        existing?.variants.map((variant) => variant.id)
+      )
+      if (rejection) errors.push({ row: group[0].line, message: rejection })
+    }
+    if (errors.length > errorCount || !result.success) continue
+
+    // Only images we don't already hold are downloaded
+    const heldUrls = new Set([
+      ...toStringList(existing?.images ?? null),
+      ...(existing?.variants || []).flatMap((variant) => toStringList(variant.images)),
+    ])
+    const fetchUrls = Array.from(new Set(urls.filter((url) =>
+      /^https?:/i.test(url) && !url.startsWith(storedUrlPrefix) && !knownUrls.has(url) && !heldUrls.has(url)
+    )))
+
+    const data = result.data
+    const columns = {
+      ...(data.description !== undefined && { description: data.description || null }),
+      ...(data.discount !== undefined && { discount: data.discount || null }),
+      ...(data.reorderPoint !== undefined && { reorderPoint: data.reorderPoint }),
+      ...(data.weight !== undefined && { weight: data.weight }),
+      ...(parsed.featured.value !== undefined && { featured: parsed.featured.value }),
+      ...(data.status !== undefined && data.status !== existing?.status && productStatusData(data.status)),
+      ...(category && { categoryId: category.id, category: category.name }),
+    }
+    let write: PlannedWrite
+    if (existing) {
+      write = {
+        action: 'update',
+        productId: existing.id,
+        data: {
+          ...(data.title !== undefined && { title: data.title }),
+          ...(data.price !== undefined && { price: data.price }),
+          ...(data.hsCode !== undefined && { hsCode: data.hsCode }),
+          ...columns,
+        },
+      }
+    } else if (created?.success) {
+      write = {
+        action: 'create',
+        productId: null,
+        data: { title: created.data.title, price: created.data.price, hsCode: created.data.hsCode, ...columns },
+      }
+    } else {
+      continue
+    }
+
+    products.push({
+      ...write,
+      rows: group.map((line) => line.line),
+      slug: existing && !first.slug ? existing.slug || slug : slug,
+      title: data.title || first.title || slug,
+      variants: variantInputs?.length || 0,
+      imagesToFetch: fetchUrls.length,
+      fetchUrls,
+      images: data.images ?? undefined,
+      variantInputs: variantInputs || null,
+      stock: parsed.stock.value,
+    })
+  }
+
+  errors.sort((a, b) => a.row - b.row)
+  return { products, errors, totalRows: lines.length }
+}
+
+function toItem(product: PlannedProduct): ImportItem {
+  return {
+    rows: product.rows,
+    slug: product.slug,
+    title: product.title,
+    action: product.action,
+    productId: product.productId,
+    variants: product.variants,
+    imagesToFetch: product.imagesToFetch,
+  }
+}
+
+/**
+ * Dry-run report for a planned import.
+ */
+export function describeImport(plan: Awaited<ReturnType<typeof planProductImport>>): ImportReport {
+  return {
+    dryRun: true,
+    totalRows: plan.totalRows,
+    created: plan.products.filter((product) => product.action === 'create').length,
+    updated: plan.products.filter((product) => product.action === 'update').length,
+    failed: 0,
+    errors: plan.errors,
+    items: plan.products.map(toItem),
+  }
+}
+
+/**
+ * Writes a planned import. Remote images are downloaded into the media library
+ * first; each product is then saved in its own transaction, so one failure
+ * doesn't undo the rest. Stock changes go through the inventory ledger.
+ */
+export async function applyProductImport(products: PlannedProduct[], createdById: string): Promise<ImportReport> {
+  const fetched = new Map<string, string>()
+  const fetchErrors = new Map<string, string>()
+  for (const url of new Set(products.flatMap((product) => product.fetchUrls))) {
+    try {
+      const upload = await storeRemoteImage(url, 'products')
+      await createMediaAsset(upload, {
+        folder: 'products',
+        filename: decodeURIComponent(new URL(url).pathname.split('/').pop() || ''),
+        uploadedById: createdById,
+        tags: ['import'],
+      })
+      fetched.set(url, upload.url)
+    } catch (error) {
+      fetchErrors.set(url, (error instanceof Error && error.message) || `Could not download ${url}`)
+    }
+  }
+  const localUrl = (url: string) => fetched.get(url) || url
+
+  const items: ImportItem[] = []
+  const movements: (StockMovementResult | null)[] = []
+  for (const product of products) {
+    const failedUrl = product.fetchUrls.find((url) => fetchErrors.has(url))
+    if (failedUrl) {
+      items.push({ ...toItem(product), status: 'failed', error: fetchErrors.get(failedUrl) })
+      continue
+    }
+
+    const variants = product.variantInputs?.map((variant) => ({ ...variant, images: variant.images?.map(localUrl) }))
+    const images = product.images?.map(localUrl)
+
+    try {
+      const saved = await prisma.$transaction(async (tx) => {
+        const results: (StockMovementResult | null)[] = []
+        if (product.action === 'update') {
+          await tx.product.update({
+            where: { id: product.productId },
+            data: { ...product.data, ...(images && { images }), slug: product.slug },
+          })
+          if (variants) {
+            results.push(...await upsertProductVariants(tx, product.productId, variants, createdById))
+          } else if (product.stock !== undefined) {
+            results.push(await setProductStock(tx, product.productId, product.stock, {
+              reason: 'Bulk import',
+              createdById,
+            }))
+          }
+          return results
+        }
+
+        const created = await tx.product.create({
+          data: { ...product.data, images: images ?? [], slug: product.slug },
+        })
+        if (variants) {
+          results.push(...await upsertProductVariants(tx, created.id, variants, createdById))
+        } else if (product.stock) {
+          results.push(await recordStockMovement(tx, {
+            productId: created.id,
+            type: 'RECEIPT',
+            quantity: product.stock,
+            reason: 'Opening stock (bulk import)',
+            createdById,
+          }))
+        }
+        return results
+      })
+      movements.push(...saved)
+      items.push({ ...toItem(product), status: product.productId ? 'updated' : 'created' })
+    } catch (error) {
+      console.error(`Import of product "${product.slug}" failed:`, error)
+      items.push({
+        ...toItem(product),
+        status: 'failed',
+        error: error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+          ? 'Slug or SKU is already in use'
+          : 'Could not be saved',
+      })
+    }
+  }
+
+  await notifyLowStock(lowStockProductIds(movements))
+  if (items.some((item) => item.status !== 'failed')) await refreshSearchWords()
+
+  return {
+    dryRun: false,
+    totalRows: products.reduce((sum, product) => sum + product.rows.length, 0),
+    created: items.filter((item) => item.status === 'created').length,
+    updated: items.filter((item) => item.status === 'updated').length,
+    failed: items.filter((item) => item.status === 'failed').length,
+    errors: [],
+    items,
+  }
+}
+
+/**
+ * Sheet rows for products in the import layout, one row per variant.
+ */
+export async function buildProductSheet(productIds: string[]): Promise<Sheet> {
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds } },
+    include: { variants: { where: { archivedAt: null }, orderBy: { position: 'asc' } } },
+  })
+  const position = new Map(productIds.map((id, index) => [id, index]))
+  products.sort((a, b) => position.get(a.id)! - position.get(b.id)!)
+
+  const rows: SheetRow[] = []
+  for (const product of products) {
+    const productCells: SheetRow = {
+      slug: product.slug || '',
+      title: product.title,
+      description: product.description || '',
+      category: product.category || '',
+      price: product.price.toString(),
+      discount: product.discount ? String(product.discount) : '',
+      hsCode: product.hsCode,
+      weight: product.weight ? product.weight.toString() : '',
+      featured: product.featured ? 'yes' : 'no',
+      status: product.status.toLowerCase(),
+      stock: product.variants.length > 0 ? '' : String(product.stock),
+      reorderPoint: String(product.reorderPoint),
+      images: toStringList(product.images).join(' | '),
+    }
+    if (product.variants.length === 0) {
+      rows.push(productCells)
+      continue
+    }
+    for (const variant of product.variants) {
+      rows.push({
+        ...productCells,
+        sku: variant.sku,
+        options: formatOptions(variant.options),
+        variantPrice: variant.price ? variant.price.toString() : '',
+        variantStock: String(variant.stock),
+        variantImages: toStringList(variant.images).join(' | '),
+      })
+    }
+  }
+
+  return { columns: [...PRODUCT_SHEET_COLUMNS], rows }
+}
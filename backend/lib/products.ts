@@ -0,0 +1,78 @@
+import { Prisma, ProductStatus } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { generateSlug } from './utils'
+import { specInputSchema } from './specs'
+
+/**
+ * Product input validation shared by the products API and the bulk importer,
+ * and the product lifecycle: drafts aren't published yet, archived products are
+ * retired. Both are hidden from the storefront but stay linked to past orders.
+ */
+
+export const PRODUCT_STATUSES = ['DRAFT', 'ACTIVE', 'ARCHIVED'] as const satisfies readonly ProductStatus[]
+
+export const variantSchema = z.object({
+  sku: z.string().trim().min(1, 'SKU is required'),
+  options: z.record(z.string().trim().min(1)).refine((options) => Object.keys(options).length > 0, 'At least one option is required'),
+  price: z.number().positive('Variant price must be a positive number').optional().nullable(),
+  stock: z.number().int().min(0).default(0),
+  images: z.array(z.string()).optional().nullable(),
+})
+
+export const productSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  description: z.string().optional().nullable(),
+  price: z.number().positive('Price must be a positive number'),
+  discount: z.number().int().min(0).max(100).optional().nullable(),
+  hsCode: z.string().min(1, 'HS Code is required'),
+  category: z.string().optional().nullable(),
+  categoryId: z.string().optional().nullable(),
+  stock: z.number().int().min(0).default(0),
+  reorderPoint: z.number().int().min(0).optional(),
+  weight: z.number().nonnegative('Weight cannot be negative').optional().nullable(),
+  images: z.array(z.string()).optional().nullable(),
+  featured: z.boolean().default(false),
+  status: z.enum(PRODUCT_STATUSES).default('ACTIVE'),
+  slug: z.string().optional().nullable(),
+  variants: z.array(variantSchema).optional(), // When set, stock is tracked per variant
+  specs: specInputSchema.optional(), // Spec key -> value, for the category's specs
+})
+
+export type ProductInput = z.infer<typeof productSchema>
+
+type Db = Prisma.TransactionClient | typeof prisma
+
+/**
+ * A slug not yet used by another product; numbered when it is.
+ */
+export async function uniqueProductSlug(source: string, excludeId?: string, db: Db = prisma): Promise<string> {
+  const base = generateSlug(source) || `product-${Date.now()}`
+  let slug = base
+  let counter = 1
+  // findUnique only works with @unique fields that Prisma client recognizes
+  while (await db.product.findFirst({ where: { slug, ...(excludeId && { id: { not: excludeId } }) } })) {
+    slug = `${base}-${counter}`
+    counter++
+  }
+  return slug
+}
+
+/**
+ * Columns to write when a product's status changes. archivedAt records when it
+ * was retired and is cleared on restore.
+ */
+export function productStatusData(status: ProductStatus): { status: ProductStatus; archivedAt: Date | null } {
+  return { status, archivedAt: status === 'ARCHIVED' ? new Date() : null }
+}
+
+/**
+ * Statuses an admin listing asked for: a comma-separated list, or "all".
+ * Anything unrecognised falls back to active products only.
+ */
+export function parseProductStatuses(value: string | null): ProductStatus[] {
+  const requested = (value || '').split(',').map((status) => status.trim().toUpperCase()).filter(Boolean)
+  if (requested.includes('ALL')) return [...PRODUCT_STATUSES]
+  const statuses = PRODUCT_STATUSES.filter((status) => requested.includes(status))
+  return statuses.length > 0 ? statuses : ['ACTIVE']
+}
@@ -0,0 +1,170 @@
+import { Promotion, PromotionType } from '@prisma/client'
+import { prisma } from './prisma'
+import { listCategories, getDescendantIds } from './categories'
+
+/**
+ * Scheduled sales.
+ * A promotion takes a percentage or a fixed amount off each unit of the products
+ * it targets while it runs (startsAt up to endsAt). Targets are products and
+ * categories, subcategories included; a promotion with neither puts the whole
+ * catalogue on sale. Promotions don't stack with each other or with a product's
+ * own discount: the lowest price wins. Listings, checkout and order creation all
+ * price through getSalePrice so the customer pays what they were shown.
+ */
+
+export interface ActivePromotion {
+  id: string
+  name: string
+  type: PromotionType
+  value: number
+  bannerImage: string | null
+  startsAt: Date
+  endsAt: Date
+  sitewide: boolean
+  productIds: Set<string>
+  categoryIds: Set<string> // Targeted categories and their descendants
+}
+
+export interface PricedProduct {
+  id: string
+  categoryId: string | null
+  discount: number | null // The product's own percentage off
+}
+
+export interface SalePrice {
+  unitPrice: number
+  discountPercent: number // Off the list price, from whichever discount won
+  promotion: ActivePromotion | null
+}
+
+// What clients need to show a sale: the banner and when it ends
+export interface PromotionSummary {
+  id: string
+  name: string
+  bannerImage: string | null
+  endsAt: Date
+}
+
+function roundPrice(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Promotions running at the given time, soonest-ending first.
+ */
+export async function getActivePromotions(now: Date = new Date()): Promise<ActivePromotion[]> {
+  const promotions = await prisma.promotion.findMany({
+    where: { isActive: true, startsAt: { lte: now }, endsAt: { gt: now } },
+    orderBy: { endsAt: 'asc' },
+  })
+  if (promotions.length === 0) return []
+
+  const categories = promotions.some((promotion) => promotion.categoryIds.length > 0) ? await listCategories() : []
+  return promotions.map((promotion) => ({
+    id: promotion.id,
+    name: promotion.name,
+    type: promotion.type,
+    value: Number(promotion.value),
+    bannerImage: promotion.bannerImage,
+    startsAt: promotion.startsAt,
+    endsAt: promotion.endsAt,
+    sitewide: promotion.productIds.length === 0 && promotion.categoryIds.length === 0,
+    productIds: new Set(promotion.productIds),
+    categoryIds: new Set(promotion.categoryIds.flatMap((categoryId) => getDescendantIds(categories, categoryId))),
+  }))
+}
+
+export function isPromotionTarget(promotion: ActivePromotion, product: PricedProduct): boolean {
+  return promotion.sitewide
+    || promotion.productIds.has(product.id)
+    || (!!product.categoryId && promotion.categoryIds.has(product.categoryId))
+}
+
+/**
+ * The unit price to charge for a product (or one of its variants, at that
+ * variant's list price) and the discount that set it.
+ */
+export function getSalePrice(product: PricedProduct, listPrice: number, promotions: ActivePromotion[]): SalePrice {
+  let unitPrice = roundPrice(listPrice * (1 - (product.discount || 0) / 100))
+  let promotion: ActivePromotion | null = null
+
+  for (const candidate of promotions) {
+    if (!isPromotionTarget(candidate, product)) continue
+    const price = candidate.type === 'PERCENTAGE'
+      ? roundPrice(listPrice * (1 - Math.min(candidate.value, 100) / 100))
+      : roundPrice(Math.max(listPrice - candidate.value, 0))
+    if (price < unitPrice) {
+      unitPrice = price
+      promotion = candidate
+    }
+  }
+
+  return {
+    unitPrice,
+    discountPercent: listPrice > 0 ? roundPrice((1 - unitPrice / listPrice) * 100) : 0,
+    promotion,
+  }
+}
+
+export function summarizePromotion(promotion: ActivePromotion): PromotionSummary {
+  return {
+    id: promotion.id,
+    name: promotion.name,
+    bannerImage: promotion.bannerImage,
+    endsAt: promotion.endsAt,
+  }
+}
+
+/**
+ * Sale fields for a product in API responses: salePrice is what checkout
+ * charges, saleDiscount the whole percentage off for badges. Variants, already
+ * formatted, get their own salePrice.
+ */
+export function withSalePrices<V extends { price: string | null }>(
+  product: PricedProduct & { price: { toString(): string } },
+  variants: V[],
+  promotions: ActivePromotion[]
+) {
+  const listPrice = Number(product.price.toString())
+  const sale = getSalePrice(product, listPrice, promotions)
+  const variantSales = variants.map((variant) => ({
+    variant,
+    sale: getSalePrice(product, variant.price !== null ? Number(variant.price) : listPrice, promotions),
+  }))
+  // A promotion on any option is worth showing on the product
+  const promotion = sale.promotion || variantSales.find(({ sale }) => sale.promotion)?.sale.promotion || null
+
+  return {
+    salePrice: sale.unitPrice.toFixed(2),
+    saleDiscount: Math.round(Math.max(sale.discountPercent, ...variantSales.map(({ sale }) => sale.discountPercent))),
+    promotion: promotion && summarizePromotion(promotion),
+    variants: variantSales.map(({ variant, sale }) => ({ ...variant, salePrice: sale.unitPrice.toFixed(2) })),
+  }
+}
+
+/**
+ * Checks a promotion's discount and schedule. Returns a reason when it can't be
+ * saved, otherwise null.
+ */
+export function getPromotionRejection(promotion: { type: PromotionType; value: number; startsAt: Date; endsAt: Date }): string | null {
+  if (promotion.type === 'PERCENTAGE' && (promotion.value <= 0 || promotion.value > 100)) {
+    return 'Percentage promotions need a value between 0 and 100'
+  }
+  if (promotion.type === 'FIXED_AMOUNT' && promotion.value <= 0) {
+    return 'Fixed amount promotions need a value greater than 0'
+  }
+  if (promotion.endsAt <= promotion.startsAt) {
+    return 'End date must be after the start date'
+  }
+  return null
+}
+
+/**
+ * Shape a promotion for API responses.
+ */
+export function formatPromotion<T extends Pick<Promotion, 'value'>>(promotion: T) {
+  return {
+    ...promotion,
+    value: promotion.value.toString(),
+  }
+}
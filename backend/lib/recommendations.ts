@@ -0,0 +1,178 @@
+import { prisma } from './prisma'
+import { listCategories, getDescendantIds } from './categories'
+
+/**
+ * Product recommendations.
+ * "Frequently bought together" comes from ProductAffinity, which the refresh job
+ * rebuilds from paid orders: two products are related when they keep turning up
+ * in the same order, scored so that best sellers don't pair with everything.
+ * When order history is thin, products from the same category (then the parent
+ * category) fill the "related" list. Schedule the job via the cron route or
+ * `npm run recommendations:refresh`.
+ */
+
+const DEFAULT_LOOKBACK_DAYS = 365
+const DEFAULT_MAX_RELATED = 20 // Affinities kept per product
+const DEFAULT_MIN_ORDERS = 2 // A single shared order is coincidence
+const DEFAULT_LIMIT = 8
+
+export interface RefreshAffinitiesOptions {
+  lookbackDays?: number
+  maxRelated?: number
+  minOrders?: number
+}
+
+export interface RefreshAffinitiesReport {
+  startedAt: string
+  finishedAt: string
+  since: string
+  products: number // Products with at least one affinity
+  affinities: number
+}
+
+export interface RecommendationOptions {
+  limit?: number
+  cartProductIds?: string[] // Other products in the cart; merged in and never recommended
+}
+
+export interface Recommendations {
+  frequentlyBoughtTogether: string[] // Product ids, strongest first
+  related: string[]
+}
+
+interface AffinityRow {
+  productId: string
+  relatedProductId: string
+  orderCount: number
+  score: number
+}
+
+/**
+ * Rebuilds ProductAffinity from orders placed within the lookback window that
+ * were paid for. Each order counts once per product, however many units or
+ * variants it held.
+ */
+export async function refreshProductAffinities(options: RefreshAffinitiesOptions = {}): Promise<RefreshAffinitiesReport> {
+  const startedAt = new Date()
+  const since = new Date(startedAt.getTime() - (options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS) * 24 * 60 * 60 * 1000)
+  const maxRelated = options.maxRelated ?? DEFAULT_MAX_RELATED
+  const minOrders = options.minOrders ?? DEFAULT_MIN_ORDERS
+
+  // Score is the cosine of the two products' order sets
+  const rows = await prisma.$queryRaw<AffinityRow[]>`
+    WITH baskets AS (
+      SELECT DISTINCT so."orderId", oi."productId"
+      FROM "OrderItem" oi
+      JOIN "SubOrder" so ON so.id = oi."subOrderId"
+      JOIN "Order" o ON o.id = so."orderId"
+      WHERE o.status IN ('PROCESSED', 'SHIPPED', 'DELIVERED') AND o."createdAt" >= ${since}
+    ),
+    totals AS (
+      SELECT "productId", COUNT(*) AS orders FROM baskets GROUP BY "productId"
+    ),
+    pairs AS (
+      SELECT a."productId", b."productId" AS "relatedProductId", COUNT(*) AS "orderCount"
+      FROM baskets a
+      JOIN baskets b ON b."orderId" = a."orderId" AND b."productId" <> a."productId"
+      GROUP BY a."productId", b."productId"
+      HAVING COUNT(*) >= ${minOrders}
+    ),
+    scored AS (
+      SELECT p."productId", p."relatedProductId", p."orderCount"::int AS "orderCount",
+        (p."orderCount" / sqrt(ta.orders::float8 * tb.orders))::float8 AS score,
+        row_number() OVER (PARTITION BY p."productId" ORDER BY p."orderCount" / sqrt(ta.orders::float8 * tb.orders) DESC, p."orderCount" DESC) AS position
+      FROM pairs p
+      JOIN totals ta ON ta."productId" = p."productId"
+      JOIN totals tb ON tb."productId" = p."relatedProductId"
+    )
+    SELECT "productId", "relatedProductId", "orderCount", score
+    FROM scored
+    WHERE position <= ${maxRelated}
+  `
+
+  await prisma.$transaction([
+    prisma.productAffinity.deleteMany(),
+    prisma.productAffinity.createMany({ data: rows }),
+  ])
+
+  return {
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    since: since.toISOString(),
+    products: new Set(rows.map((row) => row.productId)).size,
+    affinities: rows.length,
+  }
+}
+
+/**
+ * Recommendation ids for a product, or for a whole cart when cartProductIds is
+ * given. Only active products are recommended, and no product appears in both
+ * lists.
+ */
+export async function getRecommendations(productId: string, options: RecommendationOptions = {}): Promise<Recommendations> {
+  const limit = options.limit ?? DEFAULT_LIMIT
+  const seedIds = Array.from(new Set([productId, ...(options.cartProductIds || [])]))
+
+  const affinities = await prisma.productAffinity.findMany({
+    where: {
+      productId: { in: seedIds },
+      relatedProductId: { notIn: seedIds },
+      relatedProduct: { status: 'ACTIVE' },
+    },
+    select: { relatedProductId: true, score: true },
+  })
+
+  // A product related to several cart items ranks higher
+  const scores = new Map<string, number>()
+  for (const affinity of affinities) {
+    scores.set(affinity.relatedProductId, (scores.get(affinity.relatedProductId) || 0) + affinity.score)
+  }
+  const frequentlyBoughtTogether = Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([id]) => id)
+
+  const related = await getSameCategoryIds(seedIds, [...seedIds, ...frequentlyBoughtTogether], limit)
+  return { frequentlyBoughtTogether, related }
+}
+
+/**
+ * Active products from the seeds' categories, subcategories included, widening
+ * to each parent category until there are enough. Featured and newer first.
+ */
+async function getSameCategoryIds(seedIds: string[], excludeIds: string[], limit: number): Promise<string[]> {
+  const seeds = await prisma.product.findMany({
+    where: { id: { in: seedIds } },
+    select: { categoryId: true },
+  })
+  let categoryIds = Array.from(new Set(seeds.map((seed) => seed.categoryId).filter((id): id is string => !!id)))
+  if (categoryIds.length === 0) return []
+
+  const categories = await listCategories()
+  const ids: string[] = []
+  const excluded = new Set(excludeIds)
+  while (categoryIds.length > 0 && ids.length < limit) {
+    const products = await prisma.product.findMany({
+      where: {
+        status: 'ACTIVE',
+        id: { notIn: Array.from(excluded) },
+        categoryId: { in: Array.from(new Set(categoryIds.flatMap((id) => getDescendantIds(categories, id)))) },
+      },
+      orderBy: [{ featured: 'desc' }, { createdAt: 'desc' }],
+      take: limit - ids.length,
+      select: { id: true },
+    })
+    for (const product of products) {
+      ids.push(product.id)
+      excluded.add(product.id)
+    }
+
+    categoryIds = Array.from(new Set(
+      categoryIds
+        .map((id) => categories.find((category) => category.id === id)?.parentId)
+        .filter((id): id is string => !!id)
+    ))
+  }
+
+  return ids
+}
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type Stripe from 'stripe'
+import { prisma } from './prisma'
+import { cancelPendingOrder } from './orders'
+import { updateOrderToProcessed } from './webhooks'
+import { reconcilePendingOrders, ReconciliationStripeClient } from './reconciliation'
+
+vi.mock('./prisma', () => ({
+  prisma: {
+    order: { findMany: vi.fn() },
+    $transaction: vi.fn((run: (tx: object) => unknown) => run({})),
+  },
+}))
+// Tests pass their own Stripe stub
+vi.mock('./stripe', () => ({ stripe: null }))
+vi.mock('./orders', () => ({ cancelPendingOrder: vi.fn() }))
+vi.mock('./webhooks', () => ({ updateOrderToProcessed: vi.fn() }))
+
+const order = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  orderNumber: `ORD-${id}`,
+  status: 'PENDING',
+  totalAmount: 50,
+  walletAmount: 0,
+  currency: 'USD',
+  stripePaymentIntentId: `pi_${id}`,
+  ...overrides,
+})
+
+// Answers retrieve() from a map of PaymentIntent id -> status or error
+function stubStripe(intents: Record<string, Partial<Stripe.PaymentIntent> | Error>): ReconciliationStripeClient {
+  const retrieve = vi.fn(async (id: string) => {
+    const intent = intents[id]
+    if (intent instanceof Error) throw intent
+    return { id, amount_received: 0, ...intent }
+  })
+  return { paymentIntents: { retrieve } } as unknown as ReconciliationStripeClient
+}
+
+function givenOrders(...orders: ReturnType<typeof order>[]) {
+  vi.mocked(prisma.order.findMany).mockResolvedValue(orders as never)
+}
+
+describe('reconcilePendingOrders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(updateOrderToProcessed).mockResolvedValue({ success: true, message: 'ok' })
+    vi.mocked(cancelPendingOrder).mockResolvedValue(true)
+  })
+
+  it('marks orders whose payment succeeded as processed', async () => {
+    givenOrders(order('1'))
+    const client = stubStripe({ pi_1: { status: 'succeeded', amount_received: 5000 } })
+
+    const report = await reconcilePendingOrders({ stripeClient: client })
+
+    expect(updateOrderToProcessed).toHaveBeenCalledWith('1', 'pi_1')
+    expect(report.mismatches).toEqual([
+      expect.objectContaining({ orderId: '1', paymentIntentStatus: 'succeeded', action: 'MARKED_PROCESSED', detail: undefined }),
+    ])
+    expect(report.errors).toEqual([])
+  })
+
+  it('notes when Stripe received a different amount than the order expects', async () => {
+    givenOrders(order('1', { walletAmount: 10 }))
+    const client = stubStripe({ pi_1: { status: 'succeeded', amount_received: 5000 } })
+
+    const report = await reconcilePendingOrders({ stripeClient: client })
+
+    expect(report.mismatches[0].detail).toBe('Stripe received 5000, order expects 4000 (USD minor units)')
+  })
+
+  it('cancels orders whose PaymentIntent was canceled', async () => {
+    givenOrders(order('1'))
+    const client = stubStripe({ pi_1: { status: 'canceled' } })
+
+    const report = await reconcilePendingOrders({ stripeClient: client })
+
+    expect(cancelPendingOrder).toHaveBeenCalledWith({}, '1')
+    expect(report.mismatches).toEqual([expect.objectContaining({ orderId: '1', action: 'CANCELLED' })])
+  })
+
+  it('reports a canceled payment whose order changed status in the meantime', async () => {
+    givenOrders(order('1'))
+    vi.mocked(cancelPendingOrder).mockResolvedValue(false)
+    const client = stubStripe({ pi_1: { status: 'canceled' } })
+
+    const report = await reconcilePendingOrders({ stripeClient: client })
+
+    expect(report.mismatches).toEqual([
+      expect.objectContaining({ action: 'NONE', detail: 'Order changed status while reconciling' }),
+    ])
+  })
+
+  it('leaves orders whose payment is still pending alone', async () => {
+    givenOrders(order('1'), order('2'))
+    const client = stubStripe({
+      pi_1: { status: 'requires_payment_method' },
+      pi_2: { status: 'processing' },
+    })
+
+    const report = await reconcilePendingOrders({ stripeClient: client })
+
+    expect(report.inSync).toBe(2)
+    expect(report.mismatches).toEqual([])
+    expect(updateOrderToProcessed).not.toHaveBeenCalled()
+    expect(cancelPendingOrder).not.toHaveBeenCalled()
+  })
+
+  it('records Stripe errors and carries on with the other orders', async () => {
+    givenOrders(order('1'), order('2'))
+    const client = stubStripe({
+      pi_1: new Error('No such payment_intent'),
+      pi_2: { status: 'succeeded', amount_received: 5000 },
+    })
+
+    const report = await reconcilePendingOrders({ stripeClient: client })
+
+    expect(report.errors).toEqual([
+      { orderId: '1', orderNumber: 'ORD-1', paymentIntentId: 'pi_1', error: 'No such payment_intent' },
+    ])
+    expect(report.mismatches).toEqual([expect.objectContaining({ orderId: '2', action: 'MARKED_PROCESSED' })])
+  })
+
+  it('records a failed status update as an error', async () => {
+    givenOrders(order('1'))
+    vi.mocked(updateOrderToProcessed).mockResolvedValue({ success: false, message: 'Order 1 not found' })
+    const client = stubStripe({ pi_1: { status: 'succeeded', amount_received: 5000 } })
+
+    const report = await reconcilePendingOrders({ stripeClient: client })
+
+    expect(report.errors).toEqual([expect.objectContaining({ orderId: '1', error: 'Order 1 not found' })])
+    expect(report.mismatches).toEqual([])
+  })
+
+  it('changes nothing on a dry run', async () => {
+    givenOrders(order('1'), order('2'))
+    const client = stubStripe({
+      pi_1: { status: 'succeeded', amount_received: 5000 },
+      pi_2: { status: 'canceled' },
+    })
+
+    const report = await reconcilePendingOrders({ stripeClient: client, dryRun: true })
+
+    expect(report.dryRun).toBe(true)
+    expect(report.mismatches.map((mismatch) => mismatch.action)).toEqual(['NONE', 'NONE'])
+    expect(updateOrderToProcessed).not.toHaveBeenCalled()
+    expect(prisma.$transaction).not.toHaveBeenCalled()
+  })
+})
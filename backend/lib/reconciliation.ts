@@ -0,0 +1,158 @@
+import Stripe from 'stripe'
+import { prisma } from './prisma'
+import { stripe } from './stripe'
+import { cancelPendingOrder } from './orders'
+import { updateOrderToProcessed } from './webhooks'
+import { toMinorUnits } from './currency'
+
+/**
+ * Pending order reconciliation.
+ * Catches orders whose Stripe webhook never arrived: every PENDING order with a
+ * PaymentIntent is compared with Stripe and moved to the state Stripe reports.
+ * Run it from the cron route or `npm run reconcile:orders`.
+ */
+
+// Only the part of the Stripe client the job uses, so callers can pass a stub
+export type ReconciliationStripeClient = {
+  paymentIntents: Pick<Stripe['paymentIntents'], 'retrieve'>
+}
+
+export interface ReconciliationOptions {
+  stripeClient?: ReconciliationStripeClient
+  minAgeMinutes?: number // Skip orders still inside an active checkout
+  limit?: number
+  dryRun?: boolean // Report mismatches without changing any order
+}
+
+export type ReconciliationAction = 'MARKED_PROCESSED' | 'CANCELLED' | 'NONE'
+
+export interface ReconciliationMismatch {
+  orderId: string
+  orderNumber: string
+  paymentIntentId: string
+  orderStatus: string
+  paymentIntentStatus: string
+  action: ReconciliationAction
+  detail?: string
+}
+
+export interface ReconciliationError {
+  orderId: string
+  orderNumber: string
+  paymentIntentId: string
+  error: string
+}
+
+export interface ReconciliationReport {
+  startedAt: string
+  finishedAt: string
+  dryRun: boolean
+  scanned: number
+  inSync: number
+  mismatches: ReconciliationMismatch[]
+  errors: ReconciliationError[]
+}
+
+const DEFAULT_MIN_AGE_MINUTES = 15
+const DEFAULT_LIMIT = 200
+
+export async function reconcilePendingOrders(options: ReconciliationOptions = {}): Promise<ReconciliationReport> {
+  const client = options.stripeClient ?? stripe
+  if (!client) {
+    throw new Error('Stripe is not configured. Please set STRIPE_SECRET_KEY in environment variables.')
+  }
+
+  const dryRun = options.dryRun ?? false
+  const minAgeMinutes = options.minAgeMinutes ?? DEFAULT_MIN_AGE_MINUTES
+  const startedAt = new Date()
+
+  const orders = await prisma.order.findMany({
+    where: {
+      status: 'PENDING',
+      stripePaymentIntentId: { not: null },
+      createdAt: { lt: new Date(startedAt.getTime() - minAgeMinutes * 60 * 1000) },
+    },
+    select: {
+      id: true,
+      orderNumber: true,
+      status: true,
+      totalAmount: true,
+      walletAmount: true,
+      currency: true,
+      stripePaymentIntentId: true,
+    },
+    orderBy: { createdAt: 'asc' },
+    take: options.limit ?? DEFAULT_LIMIT,
+  })
+
+  const report: ReconciliationReport = {
+    startedAt: startedAt.toISOString(),
+    finishedAt: startedAt.toISOString(),
+    dryRun,
+    scanned: orders.length,
+    inSync: 0,
+    mismatches: [],
+    errors: [],
+  }
+
+  // One order at a time keeps us well inside Stripe's rate limits
+  for (const order of orders) {
+    const paymentIntentId = order.stripePaymentIntentId as string
+
+    try {
+      const paymentIntent = await client.paymentIntents.retrieve(paymentIntentId)
+      const mismatch = {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        paymentIntentId,
+        orderStatus: order.status,
+        paymentIntentStatus: paymentIntent.status,
+      }
+
+      if (paymentIntent.status === 'succeeded') {
+        const expected = toMinorUnits(Number(order.totalAmount) - Number(order.walletAmount), order.currency)
+        const detail = paymentIntent.amount_received !== expected
+          ? `Stripe received ${paymentIntent.amount_received}, order expects ${expected} (${order.currency} minor units)`
+          : undefined
+
+        if (dryRun) {
+          report.mismatches.push({ ...mismatch, action: 'NONE', detail })
+          continue
+        }
+
+        const result = await updateOrderToProcessed(order.id, paymentIntent.id)
+        if (!result.success) throw new Error(result.message)
+        report.mismatches.push({ ...mismatch, action: 'MARKED_PROCESSED', detail })
+      } else if (paymentIntent.status === 'canceled') {
+        if (dryRun) {
+          report.mismatches.push({ ...mismatch, action: 'NONE' })
+          continue
+        }
+
+        const cancelled = await prisma.$transaction((tx) => cancelPendingOrder(tx, order.id))
+        report.mismatches.push({
+          ...mismatch,
+          action: cancelled ? 'CANCELLED' : 'NONE',
+          detail: cancelled ? undefined : 'Order changed status while reconciling',
+        })
+      } else {
+        // requires_payment_method, requires_action, processing...: still genuinely pending
+        report.inSync++
+      }
+    } catch (error: any) {
+      console.error(`[Reconcile] Failed to reconcile order ${order.orderNumber}:`, error)
+      report.errors.push({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        paymentIntentId,
+        error: error.message || 'Unknown error',
+      })
+    }
+  }
+
+  report.finishedAt = new Date().toISOString()
+  console.log(
+    `[Reconcile] Scanned ${report.scanned} pending order(s): ${report.mismatches.length} mismatch(es), ${report.errors.length} error(s)${dryRun ? ' (dry run)' : ''}`
+  )
+  return report
+}
@@ -0,0 +1,332 @@
+import { Prisma, RefundStatus } from '@prisma/client'
+import Stripe from 'stripe'
+import { prisma } from './prisma'
+import { stripe, createRefund } from './stripe'
+import { currencyDecimals, roundCurrency, toMinorUnits } from './currency'
+
+/**
+ * Card refunds.
+ * Money goes back through Stripe against the order's PaymentIntent. The Refund row
+ * is written before Stripe is called so no refund is ever issued untracked, and
+ * the charge.refunded webhook confirms the final status.
+ */
+
+// Refunds that count against what can still be refunded
+const ACTIVE_REFUND_STATUSES: RefundStatus[] = ['PENDING', 'SUCCEEDED']
+
+export interface RefundInput {
+  orderId: string
+  amount?: number // Order currency; defaults to everything still refundable
+  reason?: string | null
+  returnRequestId?: string | null
+  createdById?: string | null
+  requestId?: string | null // The client's Idempotency-Key header; makes retries safe
+}
+
+/**
+ * Raised when a refund cannot be issued. Carries the HTTP status the route should respond with.
+ */
+export class RefundError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'RefundError'
+    this.status = status
+  }
+}
+
+export function mapStripeRefundStatus(status: string | null): RefundStatus {
+  switch (status) {
+    case 'succeeded':
+      return 'SUCCEEDED'
+    case 'failed':
+      return 'FAILED'
+    case 'canceled':
+      return 'CANCELED'
+    default:
+      return 'PENDING' // pending, requires_action
+  }
+}
+
+/**
+ * Card-paid amount still available to refund, in the order currency.
+ * Store credit used on the order is given back to the wallet instead.
+ */
+export async function getRefundableAmount(
+  orderId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const order = await client.order.findUnique({
+    where: { id: orderId },
+    select: {
+      totalAmount: true,
+      walletAmount: true,
+      currency: true,
+      refunds: {
+        where: { status: { in: ACTIVE_REFUND_STATUSES } },
+        select: { amount: true },
+      },
+    },
+  })
+  if (!order) return 0
+
+  const paid = Number(order.totalAmount) - Number(order.walletAmount)
+  const refunded = order.refunds.reduce((sum, refund) => sum + Number(refund.amount), 0)
+  return Math.max(roundCurrency(paid - refunded, order.currency), 0)
+}
+
+/**
+ * Locks the order row until the transaction ends, so refunds of the same order
+ * are checked and written one after the other.
+ */
+export async function lockOrderForRefund(tx: Prisma.TransactionClient, orderId: string) {
+  await tx.$queryRaw`SELECT id FROM "Order" WHERE id = ${orderId} FOR UPDATE`
+}
+
+/**
+ * What returns on the order can still give back, in the order currency: the order
+ * total less card refunds and return credits to the wallet already made for it.
+ */
+export async function getReturnRefundableAmount(
+  orderId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const order = await client.order.findUnique({
+    where: { id: orderId },
+    select: {
+      totalAmount: true,
+      currency: true,
+      exchangeRate: true,
+      refunds: {
+        where: { status: { in: ACTIVE_REFUND_STATUSES } },
+        select: { amount: true },
+      },
+      walletTransactions: {
+        where: { reason: 'RETURN_REFUND', type: 'CREDIT' },
+        select: { amount: true },
+      },
+    },
+  })
+  if (!order) return 0
+
+  const refunded = order.refunds.reduce((sum, refund) => sum + Number(refund.amount), 0)
+  // Wallet credits are in the base currency
+  const credited = order.walletTransactions.reduce((sum, entry) => sum + Number(entry.amount), 0) * (Number(order.exchangeRate) || 1)
+  return Math.max(roundCurrency(Number(order.totalAmount) - refunded - credited, order.currency), 0)
+}
+
+export async function issueRefund(input: RefundInput) {
+  const order = await prisma.order.findUnique({
+    where: { id: input.orderId },
+    select: {
+      id: true,
+      orderNumber: true,
+      status: true,
+      currency: true,
+      stripePaymentIntentId: true,
+    },
+  })
+
+  if (!order) {
+    throw new RefundError('Order not found', 404)
+  }
+  if (order.status === 'PENDING' || !order.stripePaymentIntentId) {
+    throw new RefundError(`Order ${order.orderNumber} has no card payment to refund`)
+  }
+
+  // A retried request (same client request id and amount) finds the refund it made
+  // before instead of claiming another
+  const idempotencyKey = input.requestId
+    ? `refund-${order.id}-${input.amount !== undefined ? toMinorUnits(input.amount, order.currency) : 'full'}-${input.requestId}`
+    : null
+
+  // The amount is claimed under the order lock: a concurrent refund waits, then
+  // sees this one's PENDING row
+  const { refund, replayed } = await prisma.$transaction(async (tx) => {
+    await lockOrderForRefund(tx, order.id)
+
+    if (idempotencyKey) {
+      const existing = await tx.refund.findUnique({ where: { idempotencyKey } })
+      if (existing) return { refund: existing, replayed: true }
+    }
+
+    // Refunds for a return also count what other returns gave back to the wallet
+    const refundable = input.returnRequestId
+      ? Math.min(await getRefundableAmount(order.id, tx), await getReturnRefundableAmount(order.id, tx))
+      : await getRefundableAmount(order.id, tx)
+    const amount = roundCurrency(input.amount ?? refundable, order.currency)
+    if (refundable <= 0) {
+      throw new RefundError(`Order ${order.orderNumber} has already been fully refunded`, 409)
+    }
+    if (amount <= 0 || amount > refundable) {
+      throw new RefundError(`Refund amount must be between 0 and ${refundable} ${order.currency}`)
+    }
+
+    const refund = await tx.refund.create({
+      data: {
+        orderId: order.id,
+        returnRequestId: input.returnRequestId ?? null,
+        amount,
+        currency: order.currency,
+        reason: input.reason ?? null,
+        createdById: input.createdById ?? null,
+        idempotencyKey,
+      },
+    })
+    return { refund, replayed: false }
+  })
+
+  if (replayed) {
+    if (refund.status === 'FAILED') {
+      throw new RefundError(`Refund failed: ${refund.failureReason || 'Stripe refund failed'}`, 502)
+    }
+    // Only a refund whose first attempt never reached Stripe is sent again
+    if (refund.stripeRefundId) return refund
+  }
+
+  try {
+    const stripeRefund = await createRefund(
+      order.stripePaymentIntentId,
+      toMinorUnits(Number(refund.amount), order.currency),
+      idempotencyKey ?? `refund-${refund.id}`,
+      { orderId: order.id, orderNumber: order.orderNumber, refundId: refund.id }
+    )
+
+    return await prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        stripeRefundId: stripeRefund.id,
+        status: mapStripeRefundStatus(stripeRefund.status),
+        failureReason: stripeRefund.failure_reason ?? null,
+      },
+    })
+  } catch (error: any) {
+    console.error(`[Refund] Stripe refund failed for order ${order.orderNumber}:`, error)
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data: { status: 'FAILED', failureReason: error.message || 'Stripe refund failed' },
+    })
+    throw new RefundError(`Refund failed: ${error.message || 'Stripe refund failed'}`, 502)
+  }
+}
+
+/**
+ * Gives back a payment that succeeded after its order was cancelled. The order's stock
+ * and store credit are already released, so it is not revived. Keyed by the
+ * PaymentIntent, so a redelivered webhook finds the refund it already made.
+ */
+export async function refundLatePayment(orderId: string, paymentIntentId: string) {
+  const idempotencyKey = `late-payment-${paymentIntentId}`
+  const order = await prisma.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: { id: true, orderNumber: true, totalAmount: true, walletAmount: true, currency: true },
+  })
+
+  const refund = await prisma.refund.upsert({
+    where: { idempotencyKey },
+    create: {
+      orderId: order.id,
+      amount: roundCurrency(Number(order.totalAmount) - Number(order.walletAmount), order.currency),
+      currency: order.currency,
+      reason: 'Payment received after the order was cancelled',
+      idempotencyKey,
+    },
+    update: {},
+  })
+  if (refund.stripeRefundId) return refund
+
+  try {
+    // No amount: everything this PaymentIntent captured goes back
+    const stripeRefund = await createRefund(paymentIntentId, undefined, idempotencyKey, {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      refundId: refund.id,
+    })
+
+    return await prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        stripeRefundId: stripeRefund.id,
+        status: mapStripeRefundStatus(stripeRefund.status),
+        failureReason: stripeRefund.failure_reason ?? null,
+      },
+    })
+  } catch (error: any) {
+    console.error(`[Refund] Refunding late payment ${paymentIntentId} for order ${order.orderNumber} failed:`, error)
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data: { status: 'FAILED', failureReason: error.message || 'Stripe refund failed' },
+    })
+    throw new RefundError(`Refund failed: ${error.message || 'Stripe refund failed'}`, 502)
+  }
+}
+
+/**
+ * Records the latest state of a Stripe refund. Refunds made in the Stripe dashboard
+ * have no Refund row yet, so one is created for the order paid with that PaymentIntent.
+ */
+export async function syncStripeRefund(stripeRefund: Stripe.Refund) {
+  const status = mapStripeRefundStatus(stripeRefund.status)
+  const failureReason = stripeRefund.failure_reason ?? null
+
+  const existing = await prisma.refund.findFirst({
+    where: {
+      OR: [
+        { stripeRefundId: stripeRefund.id },
+        ...(stripeRefund.metadata?.refundId ? [{ id: stripeRefund.metadata.refundId }] : []),
+      ],
+    },
+  })
+  if (existing) {
+    return prisma.refund.update({
+      where: { id: existing.id },
+      data: { stripeRefundId: stripeRefund.id, status, failureReason },
+    })
+  }
+
+  const paymentIntentId = typeof stripeRefund.payment_intent === 'string'
+    ? stripeRefund.payment_intent
+    : stripeRefund.payment_intent?.id
+  if (!paymentIntentId) return null
+
+  const order = await prisma.order.findFirst({
+    where: { stripePaymentIntentId: paymentIntentId },
+    select: { id: true },
+  })
+  if (!order) return null
+
+  const currency = stripeRefund.currency.toUpperCase()
+  return prisma.refund.create({
+    data: {
+      orderId: order.id,
+      stripeRefundId: stripeRefund.id,
+      amount: stripeRefund.amount / 10 ** currencyDecimals(currency),
+      currency,
+      status,
+      failureReason,
+      reason: 'Issued in the Stripe dashboard',
+    },
+  })
+}
+
+/**
+ * Syncs every refund on a charge (used by the charge.refunded webhook).
+ */
+export async function syncChargeRefunds(charge: Stripe.Charge) {
+  const refunds = charge.refunds?.data?.length
+    ? charge.refunds.data
+    : (await stripe.refunds.list({ charge: charge.id, limit: 100 })).data
+
+  return Promise.all(refunds.map((refund: Stripe.Refund) => syncStripeRefund(refund)))
+}
+
+/**
+ * Shape a refund for API responses.
+ */
+export function formatRefund<T extends { amount: { toString(): string } }>(refund: T) {
+  return {
+    ...refund,
+    amount: refund.amount.toString(),
+  }
+}
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type Stripe from 'stripe'
+import { prisma } from './prisma'
+import { cancelPendingOrder } from './orders'
+import { updateOrderToProcessed } from './webhooks'
+import { expirePendingOrders, ReservationStripeClient } from './reservations'
+
+vi.mock('./prisma', () => ({
+  prisma: {
+    order: { findMany: vi.fn() },
+    $transaction: vi.fn((run: (tx: object) => unknown) => run({})),
+  },
+}))
+// Tests pass their own Stripe stub
+vi.mock('./stripe', () => ({ stripe: null }))
+vi.mock('./orders', () => ({ cancelPendingOrder: vi.fn() }))
+vi.mock('./webhooks', () => ({ updateOrderToProcessed: vi.fn() }))
+
+const order = (id: string, paymentIntentId: string | null = `pi_${id}`) => ({
+  id,
+  orderNumber: `ORD-${id}`,
+  stripePaymentIntentId: paymentIntentId,
+})
+
+function stubStripe(statuses: Record<string, Stripe.PaymentIntent.Status>) {
+  const retrieve = vi.fn(async (id: string) => ({ id, status: statuses[id] }))
+  const cancel = vi.fn(async (id: string) => ({ id, status: 'canceled' }))
+  return { retrieve, cancel, client: { paymentIntents: { retrieve, cancel } } as unknown as ReservationStripeClient }
+}
+
+function givenOrders(...orders: ReturnType<typeof order>[]) {
+  vi.mocked(prisma.order.findMany).mockResolvedValue(orders as never)
+}
+
+describe('expirePendingOrders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(updateOrderToProcessed).mockResolvedValue({ success: true, message: 'ok' })
+    vi.mocked(cancelPendingOrder).mockResolvedValue(true)
+  })
+
+  it('voids the PaymentIntent before cancelling the order', async () => {
+    givenOrders(order('1'))
+    const { client, cancel } = stubStripe({ pi_1: 'requires_payment_method' })
+
+    const report = await expirePendingOrders({ stripeClient: client })
+
+    expect(cancel).toHaveBeenCalledWith('pi_1', { cancellation_reason: 'abandoned' })
+    expect(cancelPendingOrder).toHaveBeenCalledWith({}, '1')
+    expect(cancel.mock.invocationCallOrder[0]).toBeLessThan(vi.mocked(cancelPendingOrder).mock.invocationCallOrder[0])
+    expect(report.cancelled).toBe(1)
+    expect(report.results).toEqual([expect.objectContaining({ orderId: '1', outcome: 'CANCELLED' })])
+  })
+
+  it('keeps orders whose payment already succeeded', async () => {
+    givenOrders(order('1'))
+    const { client, cancel } = stubStripe({ pi_1: 'succeeded' })
+
+    const report = await expirePendingOrders({ stripeClient: client })
+
+    expect(updateOrderToProcessed).toHaveBeenCalledWith('1', 'pi_1')
+    expect(cancel).not.toHaveBeenCalled()
+    expect(cancelPendingOrder).not.toHaveBeenCalled()
+    expect(report.cancelled).toBe(0)
+    expect(report.results).toEqual([expect.objectContaining({ orderId: '1', outcome: 'PAID' })])
+  })
+
+  it('skips orders whose payment is still processing', async () => {
+    givenOrders(order('1'))
+    const { client, cancel } = stubStripe({ pi_1: 'processing' })
+
+    const report = await expirePendingOrders({ stripeClient: client })
+
+    expect(cancel).not.toHaveBeenCalled()
+    expect(cancelPendingOrder).not.toHaveBeenCalled()
+    expect(report.results).toEqual([expect.objectContaining({ orderId: '1', outcome: 'SKIPPED' })])
+  })
+
+  it('cancels orders whose PaymentIntent is already canceled without voiding it again', async () => {
+    givenOrders(order('1'))
+    const { client, cancel } = stubStripe({ pi_1: 'canceled' })
+
+    const report = await expirePendingOrders({ stripeClient: client })
+
+    expect(cancel).not.toHaveBeenCalled()
+    expect(report.results).toEqual([expect.objectContaining({ orderId: '1', outcome: 'CANCELLED' })])
+  })
+
+  it('cancels orders that never got a PaymentIntent', async () => {
+    givenOrders(order('1', null))
+    const { client, retrieve } = stubStripe({})
+
+    const report = await expirePendingOrders({ stripeClient: client })
+
+    expect(retrieve).not.toHaveBeenCalled()
+    expect(report.cancelled).toBe(1)
+  })
+
+  it('leaves the order alone when the PaymentIntent cannot be voided', async () => {
+    givenOrders(order('1'), order('2'))
+    const { client, cancel } = stubStripe({ pi_1: 'requires_payment_method', pi_2: 'requires_payment_method' })
+    cancel.mockRejectedValueOnce(new Error('Stripe is unavailable'))
+
+    const report = await expirePendingOrders({ stripeClient: client })
+
+    expect(cancelPendingOrder).toHaveBeenCalledTimes(1)
+    expect(cancelPendingOrder).toHaveBeenCalledWith({}, '2')
+    expect(report.errors).toEqual([{ orderId: '1', orderNumber: 'ORD-1', error: 'Stripe is unavailable' }])
+    expect(report.cancelled).toBe(1)
+  })
+})
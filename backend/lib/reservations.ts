@@ -0,0 +1,155 @@
+import Stripe from 'stripe'
+import { prisma } from './prisma'
+import { stripe } from './stripe'
+import { cancelPendingOrder } from './orders'
+import { updateOrderToProcessed } from './webhooks'
+
+/**
+ * Stock reservations.
+ * Creating an order takes its items out of stock straight away. Unpaid orders only
+ * hold that stock until reservationExpiresAt; the sweeper then cancels them, voids
+ * their PaymentIntent and puts the stock back.
+ * The window is ORDER_RESERVATION_MINUTES (default 30).
+ */
+
+const DEFAULT_RESERVATION_MINUTES = 30
+const DEFAULT_LIMIT = 200
+
+// Only the part of the Stripe client the sweeper uses, so callers can pass a stub
+export type ReservationStripeClient = {
+  paymentIntents: Pick<Stripe['paymentIntents'], 'retrieve' | 'cancel'>
+}
+
+export interface ExpireOrdersOptions {
+  stripeClient?: ReservationStripeClient
+  now?: Date
+  limit?: number
+}
+
+export type ExpiredOrderOutcome = 'CANCELLED' | 'PAID' | 'SKIPPED'
+
+export interface ExpiredOrderResult {
+  orderId: string
+  orderNumber: string
+  paymentIntentId: string | null
+  outcome: ExpiredOrderOutcome
+  detail?: string
+}
+
+export interface ExpireOrdersReport {
+  startedAt: string
+  finishedAt: string
+  scanned: number
+  cancelled: number
+  results: ExpiredOrderResult[]
+  errors: { orderId: string; orderNumber: string; error: string }[]
+}
+
+export function getReservationMinutes(): number {
+  const minutes = parseInt(process.env.ORDER_RESERVATION_MINUTES || '')
+  return Number.isNaN(minutes) || minutes <= 0 ? DEFAULT_RESERVATION_MINUTES : minutes
+}
+
+export function getReservationExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + getReservationMinutes() * 60 * 1000)
+}
+
+export function isReservationExpired(order: { reservationExpiresAt: Date | null }, now: Date = new Date()): boolean {
+  return !!order.reservationExpiresAt && order.reservationExpiresAt <= now
+}
+
+/**
+ * Voids the PaymentIntent of an unpaid order so it can no longer be paid.
+ * Returns 'PAID' when Stripe already took the money, 'SKIPPED' while a payment is still
+ * settling, or null once the PaymentIntent is cancelled.
+ */
+export async function voidPaymentIntent(
+  client: ReservationStripeClient,
+  orderId: string,
+  paymentIntentId: string
+): Promise<{ outcome: ExpiredOrderOutcome; detail: string } | null> {
+  const paymentIntent = await client.paymentIntents.retrieve(paymentIntentId)
+
+  if (paymentIntent.status === 'succeeded') {
+    // The webhook was missed; the customer paid in time, so keep the order
+    const result = await updateOrderToProcessed(orderId, paymentIntent.id)
+    if (!result.success) throw new Error(result.message)
+    return { outcome: 'PAID', detail: 'Payment had already succeeded' }
+  }
+  if (paymentIntent.status === 'processing') {
+    return { outcome: 'SKIPPED', detail: 'Payment is still processing' }
+  }
+  if (paymentIntent.status !== 'canceled') {
+    await client.paymentIntents.cancel(paymentIntent.id, { cancellation_reason: 'abandoned' })
+  }
+  return null
+}
+
+/**
+ * Cancels PENDING orders whose reservation has run out.
+ * Orders placed before reservations existed expire one window after they were created.
+ */
+export async function expirePendingOrders(options: ExpireOrdersOptions = {}): Promise<ExpireOrdersReport> {
+  const client = options.stripeClient ?? stripe
+  const now = options.now ?? new Date()
+
+  const orders = await prisma.order.findMany({
+    where: {
+      status: 'PENDING',
+      OR: [
+        { reservationExpiresAt: { lte: now } },
+        {
+          reservationExpiresAt: null,
+          createdAt: { lte: new Date(now.getTime() - getReservationMinutes() * 60 * 1000) },
+        },
+      ],
+    },
+    select: { id: true, orderNumber: true, stripePaymentIntentId: true },
+    orderBy: { createdAt: 'asc' },
+    take: options.limit ?? DEFAULT_LIMIT,
+  })
+
+  const report: ExpireOrdersReport = {
+    startedAt: now.toISOString(),
+    finishedAt: now.toISOString(),
+    scanned: orders.length,
+    cancelled: 0,
+    results: [],
+    errors: [],
+  }
+
+  for (const order of orders) {
+    const base = { orderId: order.id, orderNumber: order.orderNumber, paymentIntentId: order.stripePaymentIntentId }
+
+    try {
+      // Void the payment first: if it cannot be cancelled, the order must not be either
+      if (order.stripePaymentIntentId) {
+        if (!client) {
+          throw new Error('Stripe is not configured. Please set STRIPE_SECRET_KEY in environment variables.')
+        }
+        const settled = await voidPaymentIntent(client, order.id, order.stripePaymentIntentId)
+        if (settled) {
+          report.results.push({ ...base, ...settled })
+          continue
+        }
+      }
+
+      const cancelled = await prisma.$transaction((tx) => cancelPendingOrder(tx, order.id))
+      if (cancelled) report.cancelled++
+      report.results.push({
+        ...base,
+        outcome: cancelled ? 'CANCELLED' : 'SKIPPED',
+        detail: cancelled ? undefined : 'Order changed status while expiring',
+      })
+    } catch (error: any) {
+      console.error(`[Reservations] Failed to expire order ${order.orderNumber}:`, error)
+      report.errors.push({ orderId: order.id, orderNumber: order.orderNumber, error: error.message || 'Unknown error' })
+    }
+  }
+
+  report.finishedAt = new Date().toISOString()
+  console.log(
+    `[Reservations] Expired ${report.cancelled} of ${report.scanned} unpaid order(s), ${report.errors.length} error(s)`
+  )
+  return report
+}
@@ -0,0 +1,85 @@
+import { prisma } from './prisma'
+
+export interface RatingSummary {
+  averageRating: number
+  reviewCount: number
+}
+
+/**
+ * A user may review a product only after an order containing it was DELIVERED.
+ */
+export async function hasDeliveredPurchase(userId: string, productId: string): Promise<boolean> {
+  const item = await prisma.orderItem.findFirst({
+    where: {
+      productId,
+      subOrder: {
+        order: {
+          userId,
+          status: 'DELIVERED',
+        },
+      },
+    },
+    select: { id: true },
+  })
+  return !!item
+}
+
+/**
+ * Aggregate rating and count of visible reviews for each product.
+ * Products without reviews are returned with a zero summary.
+ */
+export async function getRatingSummaries(productIds: string[]): Promise<Map<string, RatingSummary>> {
+  const summaries = new Map<string, RatingSummary>()
+  productIds.forEach((id) => summaries.set(id, { averageRating: 0, reviewCount: 0 }))
+
+  if (productIds.length === 0) return summaries
+
+  const grouped = await prisma.review.groupBy({
+    by: ['productId'],
+    where: {
+      productId: { in: productIds },
+      hidden: false,
+    },
+    _avg: { rating: true },
+    _count: { id: true },
+  })
+
+  for (const row of grouped) {
+    summaries.set(row.productId, {
+      averageRating: Math.round((row._avg.rating || 0) * 10) / 10,
+      reviewCount: row._count.id,
+    })
+  }
+
+  return summaries
+}
+
+/**
+ * Shape a review for API responses. Only the reviewer's first name and
+ * last initial are exposed publicly.
+ */
+export function formatReview(review: {
+  id: string
+  productId: string
+  userId: string
+  rating: number
+  comment: string | null
+  hidden: boolean
+  createdAt: Date
+  updatedAt: Date
+  user?: { firstName: string; lastName: string } | null
+}) {
+  const lastInitial = review.user?.lastName ? `${review.user.lastName[0]}.` : ''
+  return {
+    id: review.id,
+    productId: review.productId,
+    userId: review.userId,
+    rating: review.rating,
+    comment: review.comment,
+    hidden: review.hidden,
+    verifiedPurchase: true,
+    authorName: review.user ? `${review.user.firstName} ${lastInitial}`.trim() : 'Customer',
+    createdAt: review.createdAt,
+    updatedAt: review.updatedAt,
+  }
+}
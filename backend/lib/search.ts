@@ -0,0 +1,134 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+
+/**
+ * Product search.
+ * Full-text matching runs on Product.searchVector, where the title weighs more
+ * than the category and the category more than the description. The last word
+ * is prefix-matched so live search finds "headph". Titles a typo or two away
+ * are found through trigram similarity (pg_trgm). See the add_product_search
+ * migration for the generated column and indexes. "Did you mean" draws on
+ * the SearchWord view of title and category words (add_search_words migration).
+ */
+
+// Matches beyond this are dropped; nobody pages that far into search results
+export const MAX_SEARCH_RESULTS = 500
+
+export interface SearchMatch {
+  id: string
+  rank: number
+  exact: boolean // Matched the full-text query; false for typo-tolerant title matches only
+}
+
+export interface SearchHighlight {
+  title: string // HTML-escaped, matched words wrapped in <mark>
+  snippet: string | null // Best description fragments, same format
+}
+
+/**
+ * Lower-cased words of a query, without punctuation or tsquery operators.
+ */
+export function getSearchTerms(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^a-z0-9À-ɏ]+/)
+    .filter(Boolean)
+    .slice(0, 8)
+}
+
+function toPrefixQuery(terms: string[]): string {
+  return terms.map((term) => `${term}:*`).join(' & ')
+}
+
+/**
+ * Product ids matching the query, best first. Full-text matches always rank
+ * above typo-tolerant ones.
+ */
+export async function searchProducts(query: string): Promise<SearchMatch[]> {
+  const terms = getSearchTerms(query)
+  if (terms.length === 0) return []
+
+  const text = terms.join(' ')
+  return prisma.$queryRaw<SearchMatch[]>`
+    WITH q AS (SELECT to_tsquery('english', ${toPrefixQuery(terms)}) AS query)
+    SELECT p.id,
+      p."searchVector" @@ q.query AS exact,
+      (ts_rank(p."searchVector", q.query) + word_similarity(${text}, p.title))::float8 AS rank
+    FROM "Product" p, q
+    WHERE p."searchVector" @@ q.query OR ${text} <% p.title
+    ORDER BY exact DESC, rank DESC
+    LIMIT ${MAX_SEARCH_RESULTS}
+  `
+}
+
+// Escapes the column before highlighting so only the <mark> tags are markup
+function escapedColumn(column: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`replace(replace(replace(${column}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`
+}
+
+/**
+ * Highlighted title and description snippet for each product, keyed by id.
+ * Run on one page of results; ts_headline is too slow for the whole match list.
+ */
+export async function getSearchHighlights(query: string, productIds: string[]): Promise<Map<string, SearchHighlight>> {
+  const highlights = new Map<string, SearchHighlight>()
+  const terms = getSearchTerms(query)
+  if (terms.length === 0 || productIds.length === 0) return highlights
+
+  const rows = await prisma.$queryRaw<{ id: string; title: string; snippet: string | null }[]>`
+    WITH q AS (SELECT to_tsquery('english', ${toPrefixQuery(terms)}) AS query)
+    SELECT p.id,
+      ts_headline('english', ${escapedColumn(Prisma.sql`p.title`)}, q.query,
+        'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS title,
+      CASE WHEN p.description IS NULL OR p.description = '' THEN NULL
+        ELSE ts_headline('english', ${escapedColumn(Prisma.sql`p.description`)}, q.query,
+          'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "')
+      END AS snippet
+    FROM "Product" p, q
+    WHERE p.id IN (${Prisma.join(productIds)})
+  `
+
+  for (const row of rows) {
+    highlights.set(row.id, { title: row.title, snippet: row.snippet })
+  }
+  return highlights
+}
+
+/**
+ * Rebuilds the SearchWord view that suggestions are drawn from. Run after
+ * products are written; a failed refresh only leaves suggestions stale.
+ */
+export async function refreshSearchWords(): Promise<void> {
+  try {
+    await prisma.$executeRaw`REFRESH MATERIALIZED VIEW CONCURRENTLY "SearchWord"`
+  } catch (error) {
+    console.error('Refresh search words error:', error)
+  }
+}
+
+/**
+ * "Did you mean" for a query: each word is swapped for the closest word used in
+ * product titles and categories (the SearchWord view). Returns null when
+ * nothing better is found.
+ */
+export async function getSearchSuggestion(query: string): Promise<string | null> {
+  const terms = getSearchTerms(query)
+  if (terms.length === 0) return null
+
+  // Words under three letters are kept as typed
+  const rows = await prisma.$queryRaw<{ word: string }[]>`
+    SELECT coalesce(closest.word, t.term) AS word
+    FROM unnest(${terms}::text[]) WITH ORDINALITY AS t(term, position)
+    LEFT JOIN LATERAL (
+      SELECT w.word
+      FROM "SearchWord" w
+      WHERE length(t.term) > 2 AND w.word % t.term
+      ORDER BY w.word = t.term DESC, similarity(w.word, t.term) DESC
+      LIMIT 1
+    ) closest ON true
+    ORDER BY t.position
+  `
+
+  const suggestion = rows.map((row) => row.word).join(' ')
+  return suggestion === terms.join(' ') ? null : suggestion
+}
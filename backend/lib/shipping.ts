@@ -0,0 +1,157 @@
+import { prisma } from './prisma'
+
+/**
+ * Shipping rate engine.
+ * Admins define zones (a list of destination countries) with rate tables per
+ * shipping method. Each rate row covers a weight or order-value bracket.
+ */
+
+// Used while no shipping zones have been configured at all
+export const DEFAULT_SHIPPING_RATE = 10
+export const DEFAULT_SHIPPING_METHOD = 'standard'
+
+export interface ShippingOption {
+  method: string
+  name: string
+  price: number
+  estimatedDays: string | null
+  freeShipping: boolean
+}
+
+export interface ShippingContext {
+  country?: string
+  itemsTotal: number
+  totalWeight: number
+}
+
+export interface ShippingZoneSummary {
+  id: string
+  name: string
+  freeShippingThreshold: number | null
+}
+
+export interface ShippingOptionsResult {
+  zone: ShippingZoneSummary | null
+  options: ShippingOption[]
+}
+
+function normalizeCountry(country: string): string {
+  return country.trim().toLowerCase()
+}
+
+async function findZone(country?: string) {
+  const zones = await prisma.shippingZone.findMany({
+    where: { isActive: true },
+    include: { rates: true },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  if (zones.length === 0) return { configured: false, zone: null }
+
+  const normalized = country ? normalizeCountry(country) : null
+  const match = normalized
+    ? zones.find((zone) => zone.countries.some((c) => normalizeCountry(c) === normalized))
+    : undefined
+
+  return { configured: true, zone: match || zones.find((zone) => zone.isDefault) || null }
+}
+
+/**
+ * Lists the shipping methods available for a destination, cheapest first.
+ * When a zone's free-shipping threshold is met, its cheapest method costs nothing.
+ */
+export async function getShippingOptions(context: ShippingContext): Promise<ShippingOptionsResult> {
+  const { configured, zone } = await findZone(context.country)
+
+  if (!configured) {
+    return {
+      zone: null,
+      options: [{
+        method: DEFAULT_SHIPPING_METHOD,
+        name: 'Standard Shipping',
+        price: context.itemsTotal > 0 ? DEFAULT_SHIPPING_RATE : 0,
+        estimatedDays: null,
+        freeShipping: false,
+      }],
+    }
+  }
+
+  if (!zone) return { zone: null, options: [] }
+
+  // Pick the matching bracket for every method in the zone
+  const byMethod = new Map<string, ShippingOption>()
+  for (const rate of zone.rates) {
+    const value = rate.basis === 'WEIGHT' ? context.totalWeight : context.itemsTotal
+    const min = Number(rate.minValue)
+    const max = rate.maxValue === null ? null : Number(rate.maxValue)
+    if (value < min || (max !== null && value >= max)) continue
+
+    const existing = byMethod.get(rate.method)
+    const price = Number(rate.price)
+    if (!existing || price < existing.price) {
+      byMethod.set(rate.method, {
+        method: rate.method,
+        name: rate.name,
+        price,
+        estimatedDays: rate.estimatedDays,
+        freeShipping: false,
+      })
+    }
+  }
+
+  const options = Array.from(byMethod.values()).sort((a, b) => a.price - b.price)
+  const threshold = zone.freeShippingThreshold === null ? null : Number(zone.freeShippingThreshold)
+  if (threshold !== null && options.length > 0 && context.itemsTotal >= threshold) {
+    options[0] = { ...options[0], price: 0, freeShipping: true }
+  }
+
+  return {
+    zone: { id: zone.id, name: zone.name, freeShippingThreshold: threshold },
+    options,
+  }
+}
+
+/**
+ * Shape a zone with its rates for API responses.
+ */
+export function formatShippingZone(zone: {
+  id: string
+  name: string
+  countries: string[]
+  isDefault: boolean
+  freeShippingThreshold: { toString(): string } | null
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+  rates?: {
+    id: string
+    method: string
+    name: string
+    basis: string
+    minValue: { toString(): string }
+    maxValue: { toString(): string } | null
+    price: { toString(): string }
+    estimatedDays: string | null
+  }[]
+}) {
+  return {
+    id: zone.id,
+    name: zone.name,
+    countries: zone.countries,
+    isDefault: zone.isDefault,
+    freeShippingThreshold: zone.freeShippingThreshold?.toString() ?? null,
+    isActive: zone.isActive,
+    createdAt: zone.createdAt,
+    updatedAt: zone.updatedAt,
+    rates: (zone.rates || []).map((rate) => ({
+      id: rate.id,
+      method: rate.method,
+      name: rate.name,
+      basis: rate.basis,
+      minValue: rate.minValue.toString(),
+      maxValue: rate.maxValue?.toString() ?? null,
+      price: rate.price.toString(),
+      estimatedDays: rate.estimatedDays,
+    })),
+  }
+}
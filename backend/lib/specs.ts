@@ -0,0 +1,258 @@
+import { Prisma, SpecDefinition, SpecType } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { generateSlug } from './utils'
+import { listCategories, getCategoryPath, getDescendantIds } from './categories'
+
+/**
+ * Product specifications.
+ * Each category defines the specs its products can have (battery life in hours,
+ * wattage, ports, ...); subcategories inherit their ancestors' definitions, so
+ * a key is only defined once along any branch. A product stores one typed value
+ * per spec of its category. Keys are what listing filters and the compare view
+ * match on, so two categories can share a key like "wattage".
+ */
+
+export const SPEC_TYPES = ['TEXT', 'NUMBER', 'BOOLEAN', 'SELECT'] as const satisfies readonly SpecType[]
+
+const MAX_TEXT_LENGTH = 200
+
+export class SpecError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'SpecError'
+    this.status = status
+  }
+}
+
+export type SpecValue = string | number | boolean
+
+// Spec key -> value; null or an empty string removes the value
+export type SpecInput = Record<string, SpecValue | null>
+
+export interface ProductSpecView {
+  key: string
+  name: string
+  type: SpecType
+  unit: string | null
+  value: SpecValue
+  display: string // e.g. "20 h", "Yes"
+}
+
+type Db = Prisma.TransactionClient | typeof prisma
+
+type StoredSpec = { textValue: string | null; numberValue: number | null; booleanValue: boolean | null }
+
+export const specDefinitionSchema = z.object({
+  key: z.string().trim().max(60).optional(), // Derived from the name when omitted
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  type: z.enum(SPEC_TYPES),
+  unit: z.string().trim().max(20).optional().nullable(),
+  options: z.array(z.string().trim().min(1)).default([]),
+  filterable: z.boolean().default(true),
+  sortOrder: z.number().int().min(0).optional(),
+})
+
+export const specInputSchema = z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+
+/**
+ * Filter-friendly key for a spec name, e.g. "Battery Life" -> "battery_life".
+ */
+export function toSpecKey(value: string): string {
+  return generateSlug(value).replace(/-/g, '_')
+}
+
+/**
+ * Checks a definition's type, options and key. Returns a reason when it can't
+ * be saved, otherwise null.
+ */
+export function getSpecDefinitionRejection(definition: { key: string; type: SpecType; options: string[] }): string | null {
+  if (!/^[a-z0-9_]+$/.test(definition.key)) {
+    return 'Key may only contain lowercase letters, numbers and underscores'
+  }
+  if (definition.type === 'SELECT' && definition.options.length === 0) {
+    return 'Select specs need at least one option'
+  }
+  if (new Set(definition.options.map((option) => option.toLowerCase())).size !== definition.options.length) {
+    return 'Options must be unique'
+  }
+  return null
+}
+
+/**
+ * Throws when the key is already defined on the category's branch: one of its
+ * ancestors, descendants or the category itself.
+ */
+export async function assertSpecKeyAvailable(categoryId: string, key: string, excludeId?: string, db: Db = prisma) {
+  const categories = await listCategories(db)
+  const branch = [
+    ...getCategoryPath(categories, categoryId).map((category) => category.id),
+    ...getDescendantIds(categories, categoryId),
+  ]
+  const taken = await db.specDefinition.findFirst({
+    where: { key, categoryId: { in: branch }, ...(excludeId && { id: { not: excludeId } }) },
+    include: { category: { select: { name: true } } },
+  })
+  if (taken) {
+    throw new SpecError(`"${key}" is already a spec of ${taken.category.name}`, 409)
+  }
+}
+
+/**
+ * Rejects moving a category under parentId when a spec of its subtree has the
+ * same key as one of the new ancestors' specs.
+ */
+export async function assertSpecKeysAvailableUnder(categoryId: string, parentId: string | null, db: Db = prisma) {
+  if (!parentId) return
+
+  const categories = await listCategories(db)
+  const [subtree, ancestors] = await Promise.all([
+    db.specDefinition.findMany({
+      where: { categoryId: { in: getDescendantIds(categories, categoryId) } },
+      select: { key: true },
+    }),
+    db.specDefinition.findMany({
+      where: { categoryId: { in: getCategoryPath(categories, parentId).map((category) => category.id) } },
+      include: { category: { select: { name: true } } },
+    }),
+  ])
+  const keys = new Set(subtree.map((definition) => definition.key))
+  const taken = ancestors.find((definition) => keys.has(definition.key))
+  if (taken) {
+    throw new SpecError(`"${taken.key}" is already a spec of ${taken.category.name}`, 409)
+  }
+}
+
+/**
+ * Drops spec values that products in a moved subtree no longer inherit. Run
+ * after the move, inside its transaction.
+ */
+export async function pruneSubtreeProductSpecs(tx: Prisma.TransactionClient, categoryId: string) {
+  const categories = await listCategories(tx)
+  for (const id of getDescendantIds(categories, categoryId)) {
+    await tx.productSpec.deleteMany({
+      where: {
+        product: { categoryId: id },
+        definition: { categoryId: { notIn: getCategoryPath(categories, id).map((category) => category.id) } },
+      },
+    })
+  }
+}
+
+/**
+ * Specs a product in the category can have: the category's own and its
+ * ancestors', top-level category first.
+ */
+export async function getCategorySpecDefinitions(categoryId: string | null, db: Db = prisma): Promise<SpecDefinition[]> {
+  if (!categoryId) return []
+  const path = getCategoryPath(await listCategories(db), categoryId).map((category) => category.id)
+  const definitions = await db.specDefinition.findMany({
+    where: { categoryId: { in: path } },
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+  })
+  return definitions.sort((a, b) => path.indexOf(a.categoryId) - path.indexOf(b.categoryId))
+}
+
+export function readSpecValue(type: SpecType, spec: StoredSpec): SpecValue | null {
+  if (type === 'NUMBER') return spec.numberValue
+  if (type === 'BOOLEAN') return spec.booleanValue
+  return spec.textValue
+}
+
+export function formatSpecValue(definition: { type: SpecType; unit: string | null }, value: SpecValue): string {
+  if (definition.type === 'BOOLEAN') return value ? 'Yes' : 'No'
+  if (definition.type === 'NUMBER' && definition.unit) return `${value} ${definition.unit}`
+  return String(value)
+}
+
+// Input value -> the column it is stored in, or a reason it doesn't fit the spec
+function toStoredSpec(definition: SpecDefinition, value: SpecValue): StoredSpec | string {
+  const stored: StoredSpec = { textValue: null, numberValue: null, booleanValue: null }
+  switch (definition.type) {
+    case 'NUMBER': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim())
+      if (typeof value === 'boolean' || !Number.isFinite(number)) return `${definition.name} must be a number`
+      return { ...stored, numberValue: number }
+    }
+    case 'BOOLEAN': {
+      const text = String(value).trim().toLowerCase()
+      if (['true', 'yes', '1'].includes(text)) return { ...stored, booleanValue: true }
+      if (['false', 'no', '0'].includes(text)) return { ...stored, booleanValue: false }
+      return `${definition.name} must be yes or no`
+    }
+    case 'SELECT': {
+      const text = String(value).trim()
+      const option = definition.options.find((candidate) => candidate.toLowerCase() === text.toLowerCase())
+      if (!option) return `${definition.name} must be one of: ${definition.options.join(', ')}`
+      return { ...stored, textValue: option }
+    }
+    default: {
+      const text = String(value).trim()
+      if (text.length > MAX_TEXT_LENGTH) return `${definition.name} must be ${MAX_TEXT_LENGTH} characters or less`
+      return { ...stored, textValue: text }
+    }
+  }
+}
+
+/**
+ * Saves spec values for a product and drops values of specs its category no
+ * longer has (after a category change). Keys not defined for the category are
+ * rejected.
+ */
+export async function syncProductSpecs(tx: Prisma.TransactionClient, productId: string, categoryId: string | null, input: SpecInput = {}) {
+  const definitions = await getCategorySpecDefinitions(categoryId, tx)
+  const byKey = new Map(definitions.map((definition) => [definition.key, definition]))
+
+  await tx.productSpec.deleteMany({
+    where: { productId, definitionId: { notIn: definitions.map((definition) => definition.id) } },
+  })
+
+  for (const [key, value] of Object.entries(input)) {
+    const definition = byKey.get(key)
+    if (!definition) {
+      throw new SpecError(`"${key}" is not a spec of this product's category`)
+    }
+
+    if (value === null || (typeof value === 'string' && value.trim() === '')) {
+      await tx.productSpec.deleteMany({ where: { productId, definitionId: definition.id } })
+      continue
+    }
+
+    const stored = toStoredSpec(definition, value)
+    if (typeof stored === 'string') throw new SpecError(stored)
+    await tx.productSpec.upsert({
+      where: { productId_definitionId: { productId, definitionId: definition.id } },
+      create: { productId, definitionId: definition.id, ...stored },
+      update: stored,
+    })
+  }
+}
+
+/**
+ * Spec values of each product, in definition order.
+ */
+export async function getProductSpecs(productIds: string[], db: Db = prisma): Promise<Map<string, ProductSpecView[]>> {
+  const specs = await db.productSpec.findMany({
+    where: { productId: { in: productIds } },
+    include: { definition: true },
+    orderBy: [{ definition: { sortOrder: 'asc' } }, { definition: { name: 'asc' } }],
+  })
+
+  const byProduct = new Map<string, ProductSpecView[]>()
+  for (const spec of specs) {
+    const { definition } = spec
+    const value = readSpecValue(definition.type, spec)
+    if (value === null) continue
+    byProduct.set(spec.productId, [...(byProduct.get(spec.productId) || []), {
+      key: definition.key,
+      name: definition.name,
+      type: definition.type,
+      unit: definition.unit,
+      value,
+      display: formatSpecValue(definition, value),
+    }])
+  }
+  return byProduct
+}
@@ -0,0 +1,166 @@
+import ExcelJS from 'exceljs'
+
+/**
+ * CSV and XLSX reading and writing for bulk imports and exports.
+ * Sheets are read as rows of text keyed by the header row; the caller decides
+ * what the columns mean.
+ */
+
+export type SheetRow = Record<string, string>
+export type SheetFormat = 'csv' | 'xlsx'
+
+export interface Sheet {
+  columns: string[] // Header row, as written
+  rows: SheetRow[]
+}
+
+export class SpreadsheetError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'SpreadsheetError'
+    this.status = status
+  }
+}
+
+export const SHEET_CONTENT_TYPES: Record<SheetFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+}
+
+// Cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+export function getSheetFormat(filename: string): SheetFormat | null {
+  const extension = filename.toLowerCase().split('.').pop()
+  if (extension === 'csv' || extension === 'txt') return 'csv'
+  if (extension === 'xlsx') return 'xlsx'
+  return null
+}
+
+/**
+ * Splits CSV text into cells. Handles quoted cells with commas, doubled quotes
+ * and line breaks; the delimiter (comma, semicolon or tab) is taken from the
+ * header line.
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^﻿/, '')
+  const headerLine = text.slice(0, text.search(/\r?\n|$/))
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  )
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+function toSheet(cells: string[][]): Sheet {
+  const [header = [], ...body] = cells
+  const columns = header.map((column) => column.trim())
+  const rows = body
+    .filter((row) => row.some((cell) => cell.trim() !== ''))
+    .map((row) => {
+      const record: SheetRow = {}
+      columns.forEach((column, index) => {
+        // Undo the quote added on export to stop formula injection
+        const value = (row[index] ?? '').trim()
+        record[column] = /^'[=+\-@]/.test(value) ? value.slice(1) : value
+      })
+      return record
+    })
+  return { columns, rows }
+}
+
+/**
+ * Reads the first worksheet of a CSV or XLSX file.
+ */
+export async function readSheet(body: Buffer, format: SheetFormat): Promise<Sheet> {
+  if (format === 'csv') {
+    return toSheet(parseCsv(body.toString('utf8')))
+  }
+
+  const workbook = new ExcelJS.Workbook()
+  try {
+    await workbook.xlsx.load(body as unknown as ExcelJS.Buffer)
+  } catch {
+    throw new SpreadsheetError('The file is not a readable XLSX workbook')
+  }
+  const worksheet = workbook.worksheets[0]
+  if (!worksheet) {
+    throw new SpreadsheetError('The workbook has no worksheets')
+  }
+
+  const cells: string[][] = []
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    const values: string[] = []
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      values[column - 1] = cell.text ?? ''
+    })
+    cells.push(Array.from(values, (value) => value ?? ''))
+  })
+  return toSheet(cells)
+}
+
+function safeCell(value: string): string {
+  return FORMULA_PREFIX.test(value) ? `'${value}` : value
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Writes rows as CSV or XLSX with the given columns in order.
+ */
+export async function writeSheet(sheet: Sheet, format: SheetFormat, sheetName = 'Sheet1'): Promise<Buffer> {
+  const rows = sheet.rows.map((row) => sheet.columns.map((column) => safeCell(row[column] ?? '')))
+
+  if (format === 'csv') {
+    const lines = [sheet.columns, ...rows].map((cells) => cells.map(csvCell).join(','))
+    // The BOM makes Excel open the file as UTF-8
+    return Buffer.from(`﻿${lines.join('\r\n')}\r\n`, 'utf8')
+  }
+
+  const workbook = new ExcelJS.Workbook()
+  const worksheet = workbook.addWorksheet(sheetName)
+  worksheet.addRow(sheet.columns).font = { bold: true }
+  rows.forEach((cells) => worksheet.addRow(cells))
+  worksheet.columns.forEach((column) => { column.width = 18 })
+  return Buffer.from(await workbook.xlsx.writeBuffer())
+}
@@ -0,0 +1,132 @@
+import { S3Client, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+/**
+ * File storage for uploads.
+ * Select a driver with UPLOAD_STORAGE=local|s3. Keys are relative paths such as
+ * "products/2026/02/abc.webp"; drivers turn them into public URLs.
+ */
+export interface StorageDriver {
+  name: string
+  put(key: string, body: Buffer, contentType: string): Promise<void>
+  delete(key: string): Promise<void>
+  url(key: string): string
+}
+
+function getPublicBaseUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:5000').replace(/\/+$/, '')
+}
+
+/**
+ * Directory the local driver writes to (UPLOAD_DIR, default: uploads).
+ */
+export function getLocalUploadDir(): string {
+  return path.resolve(process.env.UPLOAD_DIR || 'uploads')
+}
+
+/**
+ * Resolves a key inside the local upload directory, or null when it would escape it.
+ */
+export function resolveLocalPath(key: string): string | null {
+  const root = getLocalUploadDir()
+  const filePath = path.resolve(root, key)
+  return filePath.startsWith(root + path.sep) ? filePath : null
+}
+
+/**
+ * Local disk driver. Files are served back by GET /api/uploads/[...key].
+ */
+function createLocalDriver(): StorageDriver {
+  return {
+    name: 'local',
+    async put(key, body) {
+      const filePath = resolveLocalPath(key)
+      if (!filePath) throw new Error(`Invalid upload key "${key}"`)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, body)
+    },
+    async delete(key) {
+      const filePath = resolveLocalPath(key)
+      if (!filePath) return
+      await fs.rm(filePath, { force: true })
+    },
+    url(key) {
+      return `${getPublicBaseUrl()}/api/uploads/${key}`
+    },
+  }
+}
+
+/**
+ * S3 driver; works with AWS and S3-compatible services (R2, MinIO, Spaces).
+ * Requires S3_BUCKET. S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY,
+ * S3_FORCE_PATH_STYLE and S3_PUBLIC_URL (e.g. a CDN in front of the bucket) are optional.
+ */
+function createS3Driver(): StorageDriver {
+  const bucket = process.env.S3_BUCKET
+  if (!bucket) {
+    throw new Error('S3_BUCKET is not set. Please set S3_BUCKET or use UPLOAD_STORAGE=local.')
+  }
+
+  const region = process.env.S3_REGION || 'us-east-1'
+  const endpoint = process.env.S3_ENDPOINT?.replace(/\/+$/, '')
+  const forcePathStyle = process.env.S3_FORCE_PATH_STYLE === 'true'
+  const client = new S3Client({
+    region,
+    endpoint,
+    forcePathStyle,
+    credentials: process.env.S3_ACCESS_KEY_ID
+      ? {
+          accessKeyId: process.env.S3_ACCESS_KEY_ID,
+          secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+        }
+      : undefined,
+  })
+
+  const publicUrl = (process.env.S3_PUBLIC_URL
+    || (endpoint
+      ? (forcePathStyle ? `${endpoint}/${bucket}` : endpoint.replace('://', `://${bucket}.`))
+      : `https://${bucket}.s3.${region}.amazonaws.com`)).replace(/\/+$/, '')
+
+  return {
+    name: 's3',
+    async put(key, body, contentType) {
+      await client.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        CacheControl: 'public, max-age=31536000, immutable',
+      }))
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }))
+    },
+    url(key) {
+      return `${publicUrl}/${key}`
+    },
+  }
+}
+
+let cachedDriver: StorageDriver | null = null
+
+/**
+ * Resolves the configured driver; local disk unless UPLOAD_STORAGE says otherwise.
+ */
+export function getStorage(): StorageDriver {
+  if (cachedDriver) return cachedDriver
+
+  const driverName = process.env.UPLOAD_STORAGE?.toLowerCase() || 'local'
+  switch (driverName) {
+    case 'local':
+      cachedDriver = createLocalDriver()
+      break
+    case 's3':
+      cachedDriver = createS3Driver()
+      break
+    default:
+      throw new Error(`Unknown UPLOAD_STORAGE "${driverName}". Use local or s3.`)
+  }
+
+  return cachedDriver
+}
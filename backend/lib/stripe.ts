@@ -37,3 +37,30 @@ export async function verifyWebhookSignature(
   
   return await stripe.webhooks.constructEvent(buffer, signature, webhookSecret)
 }
+
+/**
+ * Refund all or part of a PaymentIntent
+ * @param paymentIntentId - PaymentIntent the order was paid with
+ * @param amount - Amount in the currency's smallest unit; omit to refund the remaining balance
+ * @param idempotencyKey - Stable key so a retried request cannot refund twice
+ * @returns The Stripe refund
+ */
+export async function createRefund(
+  paymentIntentId: string,
+  amount: number | undefined,
+  idempotencyKey: string,
+  metadata: Record<string, string> = {}
+): Promise<Stripe.Refund> {
+  if (!process.env.STRIPE_SECRET_KEY || !stripe) {
+    throw new Error('Stripe is not configured. Please set STRIPE_SECRET_KEY in environment variables.')
+  }
+
+  return await stripe.refunds.create(
+    {
+      payment_intent: paymentIntentId,
+      ...(amount !== undefined && { amount }),
+      metadata,
+    },
+    { idempotencyKey }
+  )
+}
@@ -0,0 +1,128 @@
+import { prisma } from './prisma'
+
+/**
+ * Tax/VAT engine.
+ * Rules are defined per destination country (optionally narrowed to a region).
+ * A rule with a category or HS code prefix overrides the country-wide rate for
+ * matching products; the most specific matching rule wins.
+ * Prices are tax-exclusive, so tax is added on top of the discounted line total.
+ */
+
+export interface TaxLineInput {
+  productId: string
+  category: string | null
+  hsCode: string
+  amount: number
+}
+
+export interface TaxContext {
+  country?: string
+  region?: string
+  lines: TaxLineInput[]
+  shipping: number
+}
+
+export interface TaxLineResult {
+  productId: string
+  rate: number
+  amount: number
+}
+
+export interface TaxResult {
+  lines: TaxLineResult[]
+  shippingTax: number
+  total: number
+}
+
+interface TaxRuleLike {
+  region: string | null
+  category: string | null
+  hsCodePrefix: string | null
+  rate: { toString(): string }
+  appliesToShipping: boolean
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase()
+}
+
+function roundTax(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Higher is more specific: HS code prefixes beat categories, which beat the
+ * country-wide rate. A region-specific rule beats the same rule without one.
+ */
+function specificity(rule: TaxRuleLike): number {
+  let score = 0
+  if (rule.hsCodePrefix) score = 2000 + rule.hsCodePrefix.length
+  else if (rule.category) score = 1000
+  if (rule.region) score += 500
+  return score
+}
+
+function mostSpecific<T extends TaxRuleLike>(rules: T[]): T | null {
+  return rules.reduce<T | null>(
+    (best, rule) => (!best || specificity(rule) > specificity(best) ? rule : best),
+    null
+  )
+}
+
+export async function calculateTax(context: TaxContext): Promise<TaxResult> {
+  const noTax: TaxResult = {
+    lines: context.lines.map((line) => ({ productId: line.productId, rate: 0, amount: 0 })),
+    shippingTax: 0,
+    total: 0,
+  }
+
+  if (!context.country?.trim()) return noTax
+
+  const region = context.region?.trim() ? normalize(context.region) : null
+  const rules = (await prisma.taxRule.findMany({
+    where: {
+      isActive: true,
+      country: { equals: context.country.trim(), mode: 'insensitive' },
+    },
+  })).filter((rule) => !rule.region || (region !== null && normalize(rule.region) === region))
+
+  if (rules.length === 0) return noTax
+
+  const lines = context.lines.map((line) => {
+    const category = line.category ? normalize(line.category) : null
+    const hsCode = line.hsCode.replace(/\D/g, '')
+    const rule = mostSpecific(rules.filter((r) => {
+      if (r.hsCodePrefix) return hsCode.startsWith(r.hsCodePrefix.replace(/\D/g, ''))
+      if (r.category) return category !== null && normalize(r.category) === category
+      return true
+    }))
+    const rate = rule ? Number(rule.rate) : 0
+    return {
+      productId: line.productId,
+      rate,
+      amount: roundTax(line.amount * rate / 100),
+    }
+  })
+
+  // Shipping follows the country-wide rate, if that rule is marked as taxing shipping
+  const baseRule = mostSpecific(rules.filter((r) => !r.hsCodePrefix && !r.category))
+  const shippingTax = baseRule?.appliesToShipping
+    ? roundTax(context.shipping * Number(baseRule.rate) / 100)
+    : 0
+
+  return {
+    lines,
+    shippingTax,
+    total: roundTax(lines.reduce((sum, line) => sum + line.amount, 0) + shippingTax),
+  }
+}
+
+/**
+ * Shape a tax rule for API responses.
+ */
+export function formatTaxRule<T extends { rate: { toString(): string } }>(rule: T) {
+  return {
+    ...rule,
+    rate: rule.rate.toString(),
+  }
+}
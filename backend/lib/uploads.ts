@@ -0,0 +1,296 @@
+import sharp, { Metadata } from 'sharp'
+import { randomUUID } from 'crypto'
+import { lookup, LookupAddress, LookupOptions } from 'dns'
+import http, { IncomingMessage } from 'http'
+import https from 'https'
+import { BlockList, isIP } from 'net'
+import { getStorage } from './storage'
+
+/**
+ * Image uploads.
+ * Every upload is checked against the allowed types and size limit, stored as
+ * uploaded, and resized into a thumbnail and responsive widths (WebP). Callers
+ * keep the returned URLs instead of base64 data in the database.
+ */
+
+export const ALLOWED_IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+}
+
+// sharp's format name for each allowed type, used to check the file really is one
+const SHARP_FORMATS: Record<string, string[]> = {
+  'image/jpeg': ['jpeg'],
+  'image/png': ['png'],
+  'image/webp': ['webp'],
+  'image/gif': ['gif'],
+  'image/avif': ['heif'],
+}
+
+// Longest edge for the thumbnail, width for the responsive sizes
+export const IMAGE_SIZES = {
+  thumbnail: 200,
+  small: 480,
+  medium: 960,
+  large: 1600,
+} as const
+
+export type ImageSize = keyof typeof IMAGE_SIZES
+
+export const UPLOAD_FOLDERS = ['products', 'blog', 'projects', 'profile', 'returns', 'misc'] as const
+export type UploadFolder = typeof UPLOAD_FOLDERS[number]
+
+export function getMaxUploadBytes(): number {
+  const mb = parseFloat(process.env.UPLOAD_MAX_MB || '5')
+  return Math.round((mb > 0 ? mb : 5) * 1024 * 1024)
+}
+
+export interface UploadedImage {
+  key: string
+  url: string // The image as uploaded
+  contentType: string
+  size: number
+  width: number
+  height: number
+  sizes: Partial<Record<ImageSize, string>> // Only widths smaller than the original are generated
+}
+
+/**
+ * Raised when an upload is rejected (wrong type, too large, unreadable).
+ * Carries the HTTP status the route should respond with.
+ */
+export class UploadError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'UploadError'
+    this.status = status
+  }
+}
+
+function buildKeyBase(folder: UploadFolder): string {
+  const now = new Date()
+  const month = String(now.getUTCMonth() + 1).padStart(2, '0')
+  return `${folder}/${now.getUTCFullYear()}/${month}/${randomUUID()}`
+}
+
+/**
+ * Validates, stores and resizes an image. The declared MIME type must be allowed
+ * and match what the bytes actually contain.
+ */
+export async function storeImage(
+  body: Buffer,
+  contentType: string,
+  folder: UploadFolder = 'misc'
+): Promise<UploadedImage> {
+  const type = contentType.toLowerCase().split(';')[0].trim()
+  const extension = ALLOWED_IMAGE_TYPES[type]
+  if (!extension) {
+    throw new UploadError(`Unsupported file type ${type || 'unknown'}. Allowed: JPEG, PNG, WebP, GIF, AVIF`, 415)
+  }
+
+  const maxBytes = getMaxUploadBytes()
+  if (body.length > maxBytes) {
+    throw new UploadError(`Image is too large. Maximum size is ${Math.round(maxBytes / 1024 / 1024)}MB`, 413)
+  }
+  if (body.length === 0) {
+    throw new UploadError('The uploaded file is empty')
+  }
+
+  let metadata: Metadata
+  try {
+    metadata = await sharp(body).metadata()
+  } catch {
+    throw new UploadError('The uploaded file is not a readable image')
+  }
+  if (!metadata.format || !SHARP_FORMATS[type].includes(metadata.format)) {
+    throw new UploadError(`The file content does not match its type ${type}`)
+  }
+
+  const storage = getStorage()
+  const keyBase = buildKeyBase(folder)
+  const key = `${keyBase}.${extension}`
+  await storage.put(key, body, type)
+
+  // EXIF orientation is applied so rotated phone photos display upright
+  const width = (metadata.autoOrient?.width ?? metadata.width) || 0
+  const height = (metadata.autoOrient?.height ?? metadata.height) || 0
+  const sizes: UploadedImage['sizes'] = {}
+  for (const [name, size] of Object.entries(IMAGE_SIZES) as [ImageSize, number][]) {
+    const isThumbnail = name === 'thumbnail'
+    if (!isThumbnail && width <= size) continue
+
+    const resized = await sharp(body)
+      .rotate()
+      .resize(isThumbnail
+        ? { width: size, height: size, fit: 'inside', withoutEnlargement: true }
+        : { width: size })
+      .webp({ quality: 80 })
+      .toBuffer()
+    const sizeKey = `${keyBase}-${name}.webp`
+    await storage.put(sizeKey, resized, 'image/webp')
+    sizes[name] = storage.url(sizeKey)
+  }
+
+  return {
+    key,
+    url: storage.url(key),
+    contentType: type,
+    size: body.length,
+    width,
+    height,
+    sizes,
+  }
+}
+
+/**
+ * Deletes an upload and all of its resized copies.
+ */
+export async function deleteStoredImage(key: string): Promise<void> {
+  const storage = getStorage()
+  const keyBase = key.replace(/\.[^./]+$/, '')
+  await storage.delete(key)
+  await Promise.all(
+    (Object.keys(IMAGE_SIZES) as ImageSize[]).map((name) => storage.delete(`${keyBase}-${name}.webp`))
+  )
+}
+
+const DATA_URL_PATTERN = /^data:([\w/+.-]+);base64,([\s\S]*)$/
+
+export function isDataUrl(value: unknown): value is string {
+  return typeof value === 'string' && DATA_URL_PATTERN.test(value)
+}
+
+/**
+ * Stores a base64 data URL (as older clients sent) and returns the upload.
+ */
+export async function storeDataUrl(dataUrl: string, folder: UploadFolder = 'misc'): Promise<UploadedImage> {
+  const match = DATA_URL_PATTERN.exec(dataUrl)
+  if (!match) throw new UploadError('Not a base64 data URL')
+  return storeImage(Buffer.from(match[2], 'base64'), match[1], folder)
+}
+
+// Remote images that take longer than this to download are given up on
+const REMOTE_IMAGE_TIMEOUT_MS = 15_000
+const MAX_REMOTE_REDIRECTS = 3
+
+// Addresses a remote image may not come from: this host, private networks and other internal ranges
+const INTERNAL_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+// IPv4-mapped IPv6 addresses are matched against the IPv4 ranges too
+function isInternalAddress(address: string): boolean {
+  return INTERNAL_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * dns.lookup that refuses internal addresses. Passed to the request, so the check
+ * applies to the address actually connected to, not an earlier resolution.
+ */
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+) {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '')
+    if (addresses.length === 0 || addresses.some(({ address }) => isInternalAddress(address))) {
+      return callback(new UploadError(`Images can't be downloaded from ${hostname}`), '')
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+function parseRemoteUrl(url: string): URL {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new UploadError(`Not a valid image URL: ${url}`)
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new UploadError(`Only http and https image URLs are supported: ${url}`)
+  }
+  // Literal addresses never reach the lookup
+  const host = parsed.hostname.replace(/^\[|\]$/g, '')
+  if (isIP(host) && isInternalAddress(host)) {
+    throw new UploadError(`Images can't be downloaded from ${parsed.hostname}`)
+  }
+  return parsed
+}
+
+/**
+ * Fetches a URL, following a few redirects, and reads at most maxBytes of the body.
+ */
+function download(url: URL, maxBytes: number, signal: AbortSignal, redirects = 0): Promise<{ body: Buffer; contentType: string }> {
+  return new Promise((resolve, reject) => {
+    const fail = (error: unknown) => reject(error instanceof UploadError ? error : new UploadError(`Could not download ${url}`, 502))
+    const client = url.protocol === 'https:' ? https : http
+
+    const request = client.get(url, { lookup: publicLookup, signal }, (response: IncomingMessage) => {
+      const status = response.statusCode || 0
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume()
+        if (redirects >= MAX_REMOTE_REDIRECTS) return fail(new UploadError(`Too many redirects downloading ${url}`, 502))
+        try {
+          const next = parseRemoteUrl(new URL(response.headers.location, url).toString())
+          download(next, maxBytes, signal, redirects + 1).then(resolve, fail)
+        } catch (error) {
+          fail(error)
+        }
+        return
+      }
+      if (status < 200 || status >= 300) {
+        response.resume()
+        return fail(new UploadError(`Could not download ${url} (HTTP ${status})`, 502))
+      }
+
+      // The declared length can't be trusted, so the cap is checked as the bytes arrive
+      const tooLarge = new UploadError(`Image at ${url} is too large`, 413)
+      if (Number(response.headers['content-length']) > maxBytes) {
+        response.destroy()
+        return fail(tooLarge)
+      }
+      const chunks: Buffer[] = []
+      let size = 0
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length
+        if (size > maxBytes) {
+          response.destroy()
+          fail(tooLarge)
+          return
+        }
+        chunks.push(chunk)
+      })
+      response.on('end', () => resolve({ body: Buffer.concat(chunks), contentType: response.headers['content-type'] || '' }))
+      response.on('error', fail)
+    })
+    request.on('error', fail)
+  })
+}
+
+/**
+ * Downloads an image from an http(s) URL and stores it like an upload. Hosts on
+ * internal networks are refused.
+ */
+export async function storeRemoteImage(url: string, folder: UploadFolder = 'misc'): Promise<UploadedImage> {
+  const { body, contentType } = await download(
+    parseRemoteUrl(url),
+    getMaxUploadBytes(),
+    AbortSignal.timeout(REMOTE_IMAGE_TIMEOUT_MS)
+  )
+  return storeImage(body, contentType, folder)
+}
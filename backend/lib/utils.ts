@@ -54,6 +54,19 @@ export async function requireAdmin(request: NextRequest) {
   return authResult
 }
 
+/**
+ * Allows scheduled jobs through with `Authorization: Bearer <CRON_SECRET>`
+ * (the header Vercel Cron sends); anyone else must be an admin.
+ */
+export async function requireCronOrAdmin(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  if (cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`) {
+    return { error: null, user: null }
+  }
+
+  return requireAdmin(request)
+}
+
 export function generateOrderNumber(): string {
   const timestamp = Date.now()
   const random = Math.floor(Math.random() * 10000)
@@ -0,0 +1,268 @@
+import { Prisma } from '@prisma/client'
+import { recordStockMovement, setProductStock, StockMovementResult } from './inventory'
+
+/**
+ * Product variants.
+ * A variant is one combination of option values (colour, size, ...) with its own
+ * SKU, optional price override, images and stock. Variant stock only changes
+ * through the inventory ledger, which keeps Product.stock as the variants' sum.
+ */
+
+export type VariantOptions = Record<string, string>
+
+export interface VariantInput {
+  id?: string // Existing variant to update; new variants have none
+  sku: string
+  options: VariantOptions
+  price?: number | null
+  stock: number
+  images?: string[] | null
+}
+
+// A variant row from a bulk import: fields left undefined keep the existing variant's value
+export type VariantPatch = Partial<Omit<VariantInput, 'sku'>> & { sku: string }
+
+/**
+ * Human-readable option values, e.g. "Black / M". Stored on order items so the
+ * customer's choice survives the variant being edited or removed.
+ */
+export function formatVariantLabel(options: unknown): string {
+  if (!options || typeof options !== 'object') return ''
+  return Object.values(options as VariantOptions)
+    .map((value) => String(value).trim())
+    .filter(Boolean)
+    .join(' / ')
+}
+
+function optionsKey(options: VariantOptions): string {
+  return Object.keys(options)
+    .map((name) => name.trim().toLowerCase())
+    .sort()
+    .map((name) => {
+      const value = Object.entries(options).find(([key]) => key.trim().toLowerCase() === name)?.[1]
+      return `${name}=${String(value ?? '').trim().toLowerCase()}`
+    })
+    .join('|')
+}
+
+/**
+ * Checks a variant list before it is saved. Returns a reason when a variant id is
+ * not one of the product's, or two variants share a SKU or the same option
+ * values, otherwise null.
+ */
+export function getVariantRejection(
+  variants: Pick<VariantInput, 'id' | 'sku' | 'options'>[],
+  existingIds: string[] = []
+): string | null {
+  const unknown = variants.find((variant) => variant.id && !existingIds.includes(variant.id))
+  if (unknown) return `Variant ${unknown.id} does not belong to this product`
+
+  const skus = new Set<string>()
+  const combinations = new Set<string>()
+  for (const variant of variants) {
+    const sku = variant.sku.trim().toUpperCase()
+    if (skus.has(sku)) return `SKU ${variant.sku.trim()} is used by more than one variant`
+    skus.add(sku)
+
+    const key = optionsKey(variant.options)
+    if (combinations.has(key)) {
+      return `More than one variant has the options ${formatVariantLabel(variant.options)}`
+    }
+    combinations.add(key)
+  }
+  return null
+}
+
+/**
+ * Creates a variant, or brings back the product's archived variant with the same
+ * SKU (the SKU is still taken by it). Revived variants keep their stock.
+ */
+async function createOrReviveVariant(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  data: Omit<Prisma.ProductVariantUncheckedCreateInput, 'productId' | 'stock'>
+): Promise<{ id: string; revived: boolean }> {
+  const archived = await tx.productVariant.findFirst({
+    where: { productId, sku: data.sku, archivedAt: { not: null } },
+    select: { id: true },
+  })
+  if (archived) {
+    await tx.productVariant.update({ where: { id: archived.id }, data: { ...data, archivedAt: null } })
+    return { id: archived.id, revived: true }
+  }
+  const created = await tx.productVariant.create({ data: { ...data, productId, stock: 0 } })
+  return { id: created.id, revived: false }
+}
+
+// A new variant's stock comes in as a receipt; a revived one is set to the given level
+async function recordOpeningStock(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  variant: { id: string; revived: boolean },
+  stock: number,
+  createdById: string
+): Promise<StockMovementResult | null> {
+  if (variant.revived) {
+    return setProductStock(tx, productId, stock, { variantId: variant.id, reason: 'Variant restored', createdById })
+  }
+  if (stock <= 0) return null
+  return recordStockMovement(tx, {
+    productId,
+    variantId: variant.id,
+    type: 'RECEIPT',
+    quantity: stock,
+    reason: 'Opening stock',
+    createdById,
+  })
+}
+
+/**
+ * Replaces a product's variants with the given list inside a transaction.
+ * Ids in the list must belong to the product (see getVariantRejection).
+ * Variants missing from the list have their stock written off and are deleted,
+ * or archived when orders reference them; stock changes on kept and new variants
+ * are recorded in the ledger. When a product gets its first variants, its own
+ * stock is written off first so Product.stock stays the sum of the variants.
+ */
+export async function syncProductVariants(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  variants: VariantInput[],
+  createdById: string
+): Promise<StockMovementResult[]> {
+  const existing = await tx.productVariant.findMany({
+    where: { productId, archivedAt: null },
+    select: { id: true, stock: true, _count: { select: { orderItems: true } } },
+  })
+  const keepIds = new Set(variants.flatMap((variant) => (variant.id ? [variant.id] : [])))
+
+  const results: (StockMovementResult | null)[] = []
+
+  for (const variant of existing.filter((v) => !keepIds.has(v.id))) {
+    if (variant.stock > 0) {
+      results.push(await recordStockMovement(tx, {
+        productId,
+        variantId: variant.id,
+        type: 'ADJUSTMENT',
+        quantity: -variant.stock,
+        reason: 'Variant removed',
+        createdById,
+      }))
+    }
+    if (variant._count.orderItems > 0) {
+      await tx.productVariant.update({ where: { id: variant.id }, data: { archivedAt: new Date() } })
+    } else {
+      await tx.productVariant.delete({ where: { id: variant.id } })
+    }
+  }
+
+  if (existing.length === 0 && variants.length > 0) {
+    results.push(await setProductStock(tx, productId, 0, {
+      reason: 'Stock moved to variants',
+      createdById,
+    }))
+  }
+
+  for (const [position, variant] of variants.entries()) {
+    const data = {
+      sku: variant.sku.trim(),
+      options: variant.options,
+      price: variant.price ?? null,
+      images: variant.images?.length ? variant.images : Prisma.JsonNull,
+      position,
+    }
+
+    if (variant.id) {
+      await tx.productVariant.update({ where: { id: variant.id }, data })
+      results.push(await setProductStock(tx, productId, variant.stock, {
+        variantId: variant.id,
+        reason: 'Variant edited',
+        createdById,
+      }))
+      continue
+    }
+
+    results.push(await recordOpeningStock(tx, productId, await createOrReviveVariant(tx, productId, data), variant.stock, createdById))
+  }
+
+  return results.filter((result): result is StockMovementResult => result !== null)
+}
+
+/**
+ * Adds or updates the given variants inside a transaction, leaving the product's
+ * other variants as they are. On an existing variant, undefined fields are left
+ * alone; new variants need their options. As with syncProductVariants, stock
+ * changes go through the ledger and a product's own stock is written off when it
+ * gets its first variants.
+ */
+export async function upsertProductVariants(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  variants: VariantPatch[],
+  createdById: string
+): Promise<StockMovementResult[]> {
+  const existing = await tx.productVariant.aggregate({
+    where: { productId, archivedAt: null },
+    _count: true,
+    _max: { position: true },
+  })
+  let position = (existing._max.position ?? -1) + 1
+
+  const results: (StockMovementResult | null)[] = []
+
+  if (existing._count === 0 && variants.length > 0) {
+    results.push(await setProductStock(tx, productId, 0, {
+      reason: 'Stock moved to variants',
+      createdById,
+    }))
+  }
+
+  for (const variant of variants) {
+    if (variant.id) {
+      await tx.productVariant.update({
+        where: { id: variant.id },
+        data: {
+          sku: variant.sku.trim(),
+          ...(variant.options !== undefined && { options: variant.options }),
+          ...(variant.price !== undefined && { price: variant.price }),
+          ...(variant.images !== undefined && { images: variant.images?.length ? variant.images : Prisma.JsonNull }),
+        },
+      })
+      if (variant.stock !== undefined) {
+        results.push(await setProductStock(tx, productId, variant.stock, {
+          variantId: variant.id,
+          reason: 'Variant edited',
+          createdById,
+        }))
+      }
+      continue
+    }
+
+    const created = await createOrReviveVariant(tx, productId, {
+      sku: variant.sku.trim(),
+      options: variant.options ?? {},
+      price: variant.price ?? null,
+      images: variant.images?.length ? variant.images : Prisma.JsonNull,
+      position: position++,
+    })
+    results.push(await recordOpeningStock(tx, productId, created, variant.stock ?? 0, createdById))
+  }
+
+  return results.filter((result): result is StockMovementResult => result !== null)
+}
+
+/**
+ * Shape a variant for API responses.
+ */
+export function formatVariant<T extends {
+  options: Prisma.JsonValue
+  price: { toString(): string } | null
+  images: Prisma.JsonValue
+}>(variant: T) {
+  return {
+    ...variant,
+    label: formatVariantLabel(variant.options),
+    price: variant.price?.toString() ?? null,
+    images: variant.images || [],
+  }
+}
@@ -0,0 +1,118 @@
+import { Prisma, WalletReason } from '@prisma/client'
+import { prisma } from './prisma'
+
+/**
+ * Store credit wallet.
+ * User.walletBalance holds the balance in the base currency. Every change goes
+ * through creditWallet/debitWallet inside a transaction and leaves a
+ * WalletTransaction row, so the balance can always be explained from the ledger.
+ */
+
+// Stripe will not charge less than this (in the base currency), so a wallet
+// payment never leaves a card remainder below it
+export const MIN_CARD_CHARGE = 0.5
+
+export interface WalletEntryInput {
+  userId: string
+  amount: number // Base currency, positive
+  reason: WalletReason
+  note?: string | null
+  orderId?: string | null
+  returnRequestId?: string | null
+  createdById?: string | null
+}
+
+function roundBalance(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export async function getWalletBalance(
+  userId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const user = await client.user.findUnique({
+    where: { id: userId },
+    select: { walletBalance: true },
+  })
+  return user ? Number(user.walletBalance) : 0
+}
+
+export async function creditWallet(tx: Prisma.TransactionClient, entry: WalletEntryInput) {
+  const amount = roundBalance(entry.amount)
+  const user = await tx.user.update({
+    where: { id: entry.userId },
+    data: { walletBalance: { increment: amount } },
+    select: { walletBalance: true },
+  })
+
+  return tx.walletTransaction.create({
+    data: {
+      ...entry,
+      type: 'CREDIT',
+      amount,
+      balanceAfter: user.walletBalance,
+    },
+  })
+}
+
+/**
+ * Takes money out of the wallet. The balance is only decremented while it covers
+ * the amount, so two concurrent checkouts cannot overdraw it. Returns null when
+ * the balance is insufficient.
+ */
+export async function debitWallet(tx: Prisma.TransactionClient, entry: WalletEntryInput) {
+  const amount = roundBalance(entry.amount)
+  const updated = await tx.user.updateMany({
+    where: { id: entry.userId, walletBalance: { gte: amount } },
+    data: { walletBalance: { decrement: amount } },
+  })
+  if (updated.count === 0) return null
+
+  const balanceAfter = await getWalletBalance(entry.userId, tx)
+  return tx.walletTransaction.create({
+    data: {
+      ...entry,
+      type: 'DEBIT',
+      amount,
+      balanceAfter,
+    },
+  })
+}
+
+/**
+ * Returns store credit spent on an order when it is cancelled. Safe to call more
+ * than once: credit already given back for the order is subtracted.
+ */
+export async function restoreOrderWalletPayment(tx: Prisma.TransactionClient, orderId: string): Promise<void> {
+  const entries = await tx.walletTransaction.findMany({
+    where: { orderId, reason: { in: ['ORDER_PAYMENT', 'ORDER_CANCELLED'] } },
+  })
+  if (entries.length === 0) return
+
+  const outstanding = roundBalance(entries.reduce(
+    (sum, entry) => sum + (entry.type === 'DEBIT' ? Number(entry.amount) : -Number(entry.amount)),
+    0
+  ))
+  if (outstanding <= 0) return
+
+  await creditWallet(tx, {
+    userId: entries[0].userId,
+    amount: outstanding,
+    reason: 'ORDER_CANCELLED',
+    orderId,
+  })
+}
+
+/**
+ * Shape a ledger entry for API responses.
+ */
+export function formatWalletTransaction<T extends {
+  amount: { toString(): string }
+  balanceAfter: { toString(): string }
+}>(entry: T) {
+  return {
+    ...entry,
+    amount: entry.amount.toString(),
+    balanceAfter: entry.balanceAfter.toString(),
+  }
+}
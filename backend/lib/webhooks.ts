@@ -0,0 +1,296 @@
+import { Prisma, WebhookEventStatus } from '@prisma/client'
+import Stripe from 'stripe'
+import { prisma } from './prisma'
+import { stripe } from './stripe'
+import { refundLatePayment, syncChargeRefunds } from './refunds'
+import { cancelPendingOrder } from './orders'
+import { sendTemplatedEmail, getFrontendUrl } from './mailer'
+
+/**
+ * Stripe webhook processing.
+ * Every event is stored in WebhookEvent before it is handled, keyed by the Stripe
+ * event id. Redeliveries of an event that already succeeded are skipped, and failed
+ * events keep their payload and error so they can be replayed from the admin panel.
+ */
+
+// An event stuck in PROCESSING this long is assumed to have crashed mid-way and may be claimed again
+const STALE_PROCESSING_MS = 5 * 60 * 1000
+
+type StripeEventOutcome = Extract<WebhookEventStatus, 'PROCESSED' | 'IGNORED'>
+
+export interface HandledStripeEvent {
+  id: string
+  status: WebhookEventStatus
+  duplicate: boolean
+}
+
+type WebhookOrder = {
+  id: string
+  status: string
+  orderNumber: string
+  stripePaymentIntentId: string | null
+}
+
+const webhookOrderSelect = { id: true, status: true, orderNumber: true, stripePaymentIntentId: true } as const
+
+/**
+ * Find the order for a Stripe event by PaymentIntent ID, falling back to the orderId in its metadata
+ */
+export async function findOrderByStripeEvent(
+  orderId?: string,
+  paymentIntentId?: string
+): Promise<WebhookOrder | null> {
+  // Try by paymentIntentId first (most direct for PaymentIntents)
+  if (paymentIntentId) {
+    const order = await prisma.order.findFirst({
+      where: { stripePaymentIntentId: paymentIntentId },
+      select: webhookOrderSelect,
+    })
+    if (order) return order
+  }
+
+  // The webhook can arrive before the payment-intent endpoint has stored the ID
+  if (orderId) {
+    return prisma.order.findUnique({
+      where: { id: orderId },
+      select: webhookOrderSelect,
+    })
+  }
+
+  return null
+}
+
+/**
+ * Move a PENDING order to PROCESSED (idempotent). A payment for an order that was
+ * already cancelled is refunded.
+ */
+export async function updateOrderToProcessed(
+  orderId: string,
+  paymentIntentId?: string
+): Promise<{ success: boolean; message: string }> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: webhookOrderSelect,
+  })
+
+  if (!order) {
+    return { success: false, message: `Order ${orderId} not found` }
+  }
+
+  const updated = await prisma.order.updateMany({
+    where: { id: order.id, status: 'PENDING' },
+    data: {
+      status: 'PROCESSED',
+      paymentFailureReason: null,
+      // Always link the PaymentIntent that paid, in case the webhook beat the payment-intent endpoint
+      ...(paymentIntentId && { stripePaymentIntentId: paymentIntentId }),
+    },
+  })
+
+  if (updated.count === 0) {
+    // Re-read: the order may have been cancelled since it was loaded
+    const current = await prisma.order.findUnique({ where: { id: order.id }, select: { status: true } })
+    if (current?.status === 'CANCELLED' && paymentIntentId) {
+      // Paid after cancelling released its stock; the money has to go back
+      const refund = await refundLatePayment(order.id, paymentIntentId)
+      console.warn(`[Webhook] ⚠️ Order ${order.orderNumber} was paid after it was cancelled; refund ${refund.id} is ${refund.status}`)
+      return { success: true, message: `Order ${order.orderNumber} is cancelled; payment refunded` }
+    }
+
+    console.log(`[Webhook] Order ${order.id} (${order.orderNumber}) already processed. Current status: ${current?.status}`)
+    return { success: true, message: `Order already processed with status: ${current?.status}` }
+  }
+
+  console.log(`[Webhook] ✅ Order ${order.id} (${order.orderNumber}) updated from PENDING to PROCESSED`)
+  return { success: true, message: `Order ${order.orderNumber} updated to PROCESSED` }
+}
+
+function getPaymentIntentId(paymentIntent: string | Stripe.PaymentIntent | null): string | undefined {
+  return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id
+}
+
+async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<StripeEventOutcome> {
+  const orderId = paymentIntent.metadata?.orderId
+  if (!orderId) {
+    // Throw so the event is marked FAILED and Stripe retries
+    throw new Error(`No orderId found in payment_intent ${paymentIntent.id} metadata. Cannot process order update.`)
+  }
+
+  const order = await findOrderByStripeEvent(orderId, paymentIntent.id)
+  if (!order) {
+    // The order might be created later, so let Stripe retry
+    throw new Error(`Order not found for payment_intent ${paymentIntent.id}. Tried orderId: ${orderId}`)
+  }
+
+  const result = await updateOrderToProcessed(order.id, paymentIntent.id)
+  if (!result.success) {
+    throw new Error(`Failed to update order ${order.orderNumber}: ${result.message}`)
+  }
+
+  return 'PROCESSED'
+}
+
+async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent): Promise<StripeEventOutcome> {
+  const order = await findOrderByStripeEvent(paymentIntent.metadata?.orderId, paymentIntent.id)
+  if (!order) {
+    console.log(`[Webhook] No order found for failed payment_intent ${paymentIntent.id}`)
+    return 'IGNORED'
+  }
+
+  // The order stays PENDING so the customer can retry with another card
+  const reason = paymentIntent.last_payment_error?.message || 'Your card was declined.'
+  const updated = await prisma.order.updateMany({
+    where: { id: order.id, status: 'PENDING' },
+    data: { paymentFailureReason: reason },
+  })
+  if (updated.count === 0) {
+    console.log(`[Webhook] Order ${order.orderNumber} is ${order.status}, ignoring failed payment_intent ${paymentIntent.id}`)
+    return 'IGNORED'
+  }
+
+  console.log(`[Webhook] ⚠️ Payment failed for order ${order.orderNumber}: ${reason}`)
+
+  const customer = await prisma.order.findUnique({
+    where: { id: order.id },
+    select: { user: { select: { email: true, firstName: true } } },
+  })
+  if (customer?.user.email) {
+    try {
+      await sendTemplatedEmail(customer.user.email, 'paymentFailed', {
+        firstName: customer.user.firstName,
+        orderNumber: order.orderNumber,
+        reason,
+        orderUrl: `${getFrontendUrl()}/orders/${order.id}`,
+      })
+    } catch (emailError) {
+      // A notification failure must not make Stripe redeliver the event
+      console.error(`[Webhook] Failed to send payment failed email for order ${order.orderNumber}:`, emailError)
+    }
+  }
+
+  return 'PROCESSED'
+}
+
+async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent): Promise<StripeEventOutcome> {
+  const order = await findOrderByStripeEvent(paymentIntent.metadata?.orderId, paymentIntent.id)
+
+  // Retrying payment cancels the previous PaymentIntent as a duplicate; only the one on the order counts
+  if (!order || order.stripePaymentIntentId !== paymentIntent.id || paymentIntent.cancellation_reason === 'duplicate') {
+    console.log(`[Webhook] payment_intent ${paymentIntent.id} is not the active payment for any order`)
+    return 'IGNORED'
+  }
+
+  // Events can arrive late or out of order; go by what Stripe says now
+  const live = stripe ? await stripe.paymentIntents.retrieve(paymentIntent.id) : paymentIntent
+  if (live.status !== 'canceled') {
+    console.log(`[Webhook] payment_intent ${paymentIntent.id} is ${live.status} now, not cancelling order ${order.orderNumber}`)
+    return 'IGNORED'
+  }
+
+  const cancelled = await prisma.$transaction((tx) => cancelPendingOrder(tx, order.id))
+  if (!cancelled) {
+    console.log(`[Webhook] Order ${order.orderNumber} is ${order.status}, not cancelling`)
+    return 'IGNORED'
+  }
+
+  console.log(`[Webhook] Order ${order.orderNumber} cancelled after payment_intent ${paymentIntent.id} was canceled`)
+  return 'PROCESSED'
+}
+
+async function handleDisputeCreated(dispute: Stripe.Dispute): Promise<StripeEventOutcome> {
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent)
+  const order = paymentIntentId ? await findOrderByStripeEvent(undefined, paymentIntentId) : null
+  if (!order) {
+    console.log(`[Webhook] No order found for dispute ${dispute.id}`)
+    return 'IGNORED'
+  }
+
+  await prisma.order.update({
+    where: { id: order.id },
+    data: { disputeStatus: dispute.status, disputeReason: dispute.reason },
+  })
+
+  console.log(`[Webhook] ⚠️ Order ${order.orderNumber} disputed (${dispute.reason}), ${dispute.amount} ${dispute.currency}`)
+  return 'PROCESSED'
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge): Promise<StripeEventOutcome> {
+  const refunds = await syncChargeRefunds(charge)
+  const synced = refunds.filter(Boolean)
+  console.log(`[Webhook] Synced ${synced.length} of ${refunds.length} refund(s) for charge ${charge.id}`)
+  return 'PROCESSED'
+}
+
+/**
+ * Applies a Stripe event to the store. Throws when the event should be retried.
+ */
+async function processStripeEvent(event: Stripe.Event): Promise<StripeEventOutcome> {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      return handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent)
+    case 'payment_intent.payment_failed':
+      return handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent)
+    case 'payment_intent.canceled':
+      return handlePaymentIntentCanceled(event.data.object as Stripe.PaymentIntent)
+    case 'charge.dispute.created':
+      return handleDisputeCreated(event.data.object as Stripe.Dispute)
+    case 'charge.refunded':
+      return handleChargeRefunded(event.data.object as Stripe.Charge)
+    default:
+      console.log(`[Webhook] ℹ️ Unhandled event type: ${event.type}`)
+      return 'IGNORED'
+  }
+}
+
+/**
+ * Records and processes a Stripe event exactly once.
+ * Used both for live deliveries and for replaying a stored event. Events that were
+ * already handled, or are being handled by a concurrent delivery, are reported as
+ * duplicates. Processing errors are saved on the event and rethrown.
+ */
+export async function handleStripeEvent(event: Stripe.Event): Promise<HandledStripeEvent> {
+  const record = await prisma.webhookEvent.upsert({
+    where: { stripeEventId: event.id },
+    create: {
+      stripeEventId: event.id,
+      type: event.type,
+      payload: event as unknown as Prisma.InputJsonValue,
+    },
+    update: {},
+  })
+
+  if (record.status === 'PROCESSED' || record.status === 'IGNORED') {
+    console.log(`[Webhook] Event ${event.id} already ${record.status.toLowerCase()}, skipping duplicate`)
+    return { id: record.id, status: record.status, duplicate: true }
+  }
+
+  const claimed = await prisma.webhookEvent.updateMany({
+    where: {
+      id: record.id,
+      OR: [
+        { status: { in: ['RECEIVED', 'FAILED'] } },
+        { status: 'PROCESSING', updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } },
+      ],
+    },
+    data: { status: 'PROCESSING', attempts: { increment: 1 } },
+  })
+  if (claimed.count === 0) {
+    console.log(`[Webhook] Event ${event.id} is already being processed, skipping duplicate`)
+    return { id: record.id, status: 'PROCESSING', duplicate: true }
+  }
+
+  try {
+    const status = await processStripeEvent(event)
+    await prisma.webhookEvent.update({
+      where: { id: record.id },
+      data: { status, error: null, processedAt: new Date() },
+    })
+    return { id: record.id, status, duplicate: false }
+  } catch (error: any) {
+    await prisma.webhookEvent.update({
+      where: { id: record.id },
+      data: { status: 'FAILED', error: error.message || 'Unknown error' },
+    })
+    throw error
+  }
+}
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "discountAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "shippingAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "subtotalAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxAmount" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- Existing orders were charged for items only
+UPDATE "Order" SET "subtotalAmount" = "totalAmount";
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "ShippingRateBasis" AS ENUM ('WEIGHT', 'ORDER_VALUE');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shippingMethod" TEXT;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "weight" DECIMAL(10,3);
+
+-- CreateTable
+CREATE TABLE "ShippingZone" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "countries" TEXT[],
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "freeShippingThreshold" DECIMAL(10,2),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingRate" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "basis" "ShippingRateBasis" NOT NULL DEFAULT 'ORDER_VALUE',
+    "minValue" DECIMAL(10,3) NOT NULL DEFAULT 0,
+    "maxValue" DECIMAL(10,3),
+    "price" DECIMAL(10,2) NOT NULL,
+    "estimatedDays" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingZone_isActive_idx" ON "ShippingZone"("isActive");
+
+-- CreateIndex
+CREATE INDEX "ShippingRate_zoneId_idx" ON "ShippingRate"("zoneId");
+
+-- AddForeignKey
+ALTER TABLE "ShippingRate" ADD CONSTRAINT "ShippingRate_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "ShippingZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
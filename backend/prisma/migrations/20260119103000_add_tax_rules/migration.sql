@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "taxAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxRate" DECIMAL(5,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "TaxRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "region" TEXT,
+    "category" TEXT,
+    "hsCodePrefix" TEXT,
+    "rate" DECIMAL(5,2) NOT NULL,
+    "appliesToShipping" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaxRule_country_idx" ON "TaxRule"("country");
+
+-- CreateIndex
+CREATE INDEX "TaxRule_isActive_idx" ON "TaxRule"("isActive");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "exchangeRate" DECIMAL(18,8) NOT NULL DEFAULT 1;
+
+-- Keep only the most recent rate per currency pair before adding the unique index
+DELETE FROM "CurrencyRate" a
+USING "CurrencyRate" b
+WHERE a."base" = b."base"
+  AND a."target" = b."target"
+  AND (a."lastFetched" < b."lastFetched" OR (a."lastFetched" = b."lastFetched" AND a."id" < b."id"));
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CurrencyRate_base_target_key" ON "CurrencyRate"("base", "target");
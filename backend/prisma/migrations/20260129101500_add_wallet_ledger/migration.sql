@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "WalletTransactionType" AS ENUM ('CREDIT', 'DEBIT');
+
+-- CreateEnum
+CREATE TYPE "WalletReason" AS ENUM ('ADMIN_ADJUSTMENT', 'RETURN_REFUND', 'ORDER_PAYMENT', 'ORDER_CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "walletAmount" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "WalletTransaction" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "WalletTransactionType" NOT NULL,
+    "reason" "WalletReason" NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "balanceAfter" DECIMAL(12,2) NOT NULL,
+    "note" TEXT,
+    "orderId" TEXT,
+    "returnRequestId" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WalletTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WalletTransaction_returnRequestId_key" ON "WalletTransaction"("returnRequestId");
+
+-- CreateIndex
+CREATE INDEX "WalletTransaction_userId_idx" ON "WalletTransaction"("userId");
+
+-- CreateIndex
+CREATE INDEX "WalletTransaction_orderId_idx" ON "WalletTransaction"("orderId");
+
+-- CreateIndex
+CREATE INDEX "WalletTransaction_createdAt_idx" ON "WalletTransaction"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "WalletTransaction" ADD CONSTRAINT "WalletTransaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WalletTransaction" ADD CONSTRAINT "WalletTransaction_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WalletTransaction" ADD CONSTRAINT "WalletTransaction_returnRequestId_fkey" FOREIGN KEY ("returnRequestId") REFERENCES "ReturnRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
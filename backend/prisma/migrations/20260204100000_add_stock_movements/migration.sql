@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "StockMovementType" AS ENUM ('SALE', 'CANCELLATION', 'RETURN', 'ADJUSTMENT', 'RECEIPT');
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "lowStockAlertedAt" TIMESTAMP(3),
+ADD COLUMN     "reorderPoint" INTEGER NOT NULL DEFAULT 10;
+
+-- CreateTable
+CREATE TABLE "StockMovement" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "type" "StockMovementType" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "stockAfter" INTEGER NOT NULL,
+    "reason" TEXT,
+    "orderId" TEXT,
+    "returnRequestId" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockMovement_productId_createdAt_idx" ON "StockMovement"("productId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_orderId_idx" ON "StockMovement"("orderId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_returnRequestId_idx" ON "StockMovement"("returnRequestId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_type_idx" ON "StockMovement"("type");
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_returnRequestId_fkey" FOREIGN KEY ("returnRequestId") REFERENCES "ReturnRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "MediaAsset" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "sizes" JSONB,
+    "folder" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "altText" TEXT,
+    "tags" TEXT[],
+    "uploadedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MediaAsset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MediaAsset_key_key" ON "MediaAsset"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MediaAsset_url_key" ON "MediaAsset"("url");
+
+-- CreateIndex
+CREATE INDEX "MediaAsset_folder_idx" ON "MediaAsset"("folder");
+
+-- CreateIndex
+CREATE INDEX "MediaAsset_createdAt_idx" ON "MediaAsset"("createdAt");
@@ -0,0 +1,16 @@
+-- Trigram matching for typo tolerance and "did you mean" suggestions
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+-- Kept up to date by Postgres; Prisma never writes it
+ALTER TABLE "Product" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("category", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Product_searchVector_idx" ON "Product" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Product_title_trgm_idx" ON "Product" USING GIN ("title" gin_trgm_ops);
@@ -0,0 +1,91 @@
+-- Categories were first created with `prisma db push`, so older databases may not have them yet
+CREATE TABLE IF NOT EXISTS "Category" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Category_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "Category_name_key" ON "Category"("name");
+
+CREATE INDEX IF NOT EXISTS "Category_name_idx" ON "Category"("name");
+
+ALTER TABLE "Product" ADD COLUMN IF NOT EXISTS "categoryId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "Product_categoryId_idx" ON "Product"("categoryId");
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'Product_categoryId_fkey') THEN
+        ALTER TABLE "Product" ADD CONSTRAINT "Product_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+    END IF;
+END $$;
+
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "slug" TEXT,
+ADD COLUMN     "description" TEXT,
+ADD COLUMN     "image" TEXT,
+ADD COLUMN     "sortOrder" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "parentId" TEXT,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+ALTER TABLE "Category" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- Consolidate the legacy Product.category strings: every name in use becomes a
+-- category, and products point at it through categoryId
+UPDATE "Product" SET "category" = NULLIF(TRIM("category"), '') WHERE "category" IS NOT NULL;
+
+INSERT INTO "Category" ("id", "name", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, names."name", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT ON (LOWER(p."category")) p."category" AS "name"
+    FROM "Product" p
+    WHERE p."category" IS NOT NULL AND p."categoryId" IS NULL
+    ORDER BY LOWER(p."category"), p."category"
+) names
+WHERE NOT EXISTS (SELECT 1 FROM "Category" c WHERE LOWER(c."name") = LOWER(names."name"))
+ON CONFLICT ("name") DO NOTHING;
+
+UPDATE "Product" p
+SET "categoryId" = c."id"
+FROM "Category" c
+WHERE p."categoryId" IS NULL AND p."category" IS NOT NULL AND LOWER(c."name") = LOWER(p."category");
+
+-- categoryId wins where the two disagreed; the name is kept as a copy from here on
+UPDATE "Product" p
+SET "category" = c."name"
+FROM "Category" c
+WHERE p."categoryId" = c."id" AND p."category" IS DISTINCT FROM c."name";
+
+-- Slugs for existing categories, numbered where two names slugify alike
+UPDATE "Category" c
+SET "slug" = s."slug"
+FROM (
+    SELECT b."id",
+        b."base" || CASE WHEN ROW_NUMBER() OVER w > 1 THEN '-' || (ROW_NUMBER() OVER w - 1) ELSE '' END AS "slug"
+    FROM (
+        SELECT "id", "createdAt",
+            COALESCE(NULLIF(TRIM(BOTH '-' FROM REGEXP_REPLACE(LOWER("name"), '[^a-z0-9]+', '-', 'g')), ''), 'category') AS "base"
+        FROM "Category"
+    ) b
+    WINDOW w AS (PARTITION BY b."base" ORDER BY b."createdAt", b."id")
+) s
+WHERE c."id" = s."id";
+
+-- Existing categories keep their alphabetical order
+UPDATE "Category" c
+SET "sortOrder" = o."position"
+FROM (SELECT "id", (ROW_NUMBER() OVER (ORDER BY "name") - 1)::int AS "position" FROM "Category") o
+WHERE c."id" = o."id";
+
+ALTER TABLE "Category" ALTER COLUMN "slug" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Category_slug_key" ON "Category"("slug");
+
+-- CreateIndex
+CREATE INDEX "Category_parentId_sortOrder_idx" ON "Category"("parentId", "sortOrder");
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
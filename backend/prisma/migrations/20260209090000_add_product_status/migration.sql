@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "ProductStatus" AS ENUM ('DRAFT', 'ACTIVE', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "status" "ProductStatus" NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN     "archivedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Product_status_idx" ON "Product"("status");
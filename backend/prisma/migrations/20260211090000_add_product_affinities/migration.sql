@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ProductAffinity" (
+    "productId" TEXT NOT NULL,
+    "relatedProductId" TEXT NOT NULL,
+    "orderCount" INTEGER NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductAffinity_pkey" PRIMARY KEY ("productId","relatedProductId")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductAffinity_productId_score_idx" ON "ProductAffinity"("productId", "score");
+
+-- AddForeignKey
+ALTER TABLE "ProductAffinity" ADD CONSTRAINT "ProductAffinity_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductAffinity" ADD CONSTRAINT "ProductAffinity_relatedProductId_fkey" FOREIGN KEY ("relatedProductId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
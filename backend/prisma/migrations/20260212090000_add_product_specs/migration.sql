@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "SpecType" AS ENUM ('TEXT', 'NUMBER', 'BOOLEAN', 'SELECT');
+
+-- CreateTable
+CREATE TABLE "SpecDefinition" (
+    "id" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "SpecType" NOT NULL,
+    "unit" TEXT,
+    "options" TEXT[],
+    "filterable" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SpecDefinition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProductSpec" (
+    "productId" TEXT NOT NULL,
+    "definitionId" TEXT NOT NULL,
+    "textValue" TEXT,
+    "numberValue" DOUBLE PRECISION,
+    "booleanValue" BOOLEAN,
+
+    CONSTRAINT "ProductSpec_pkey" PRIMARY KEY ("productId","definitionId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SpecDefinition_categoryId_key_key" ON "SpecDefinition"("categoryId", "key");
+
+-- CreateIndex
+CREATE INDEX "SpecDefinition_categoryId_sortOrder_idx" ON "SpecDefinition"("categoryId", "sortOrder");
+
+-- CreateIndex
+CREATE INDEX "ProductSpec_definitionId_idx" ON "ProductSpec"("definitionId");
+
+-- AddForeignKey
+ALTER TABLE "SpecDefinition" ADD CONSTRAINT "SpecDefinition_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductSpec" ADD CONSTRAINT "ProductSpec_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductSpec" ADD CONSTRAINT "ProductSpec_definitionId_fkey" FOREIGN KEY ("definitionId") REFERENCES "SpecDefinition"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Refund" ADD COLUMN "idempotencyKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Refund_idempotencyKey_key" ON "Refund"("idempotencyKey");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN "archivedAt" TIMESTAMP(3);
+
+-- DropForeignKey
+ALTER TABLE "OrderItem" DROP CONSTRAINT "OrderItem_variantId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- Words of active product titles and categories for "did you mean" suggestions.
+-- Not part of the Prisma schema; the app refreshes it after product writes
+-- (refreshSearchWords in lib/search.ts)
+CREATE MATERIALIZED VIEW "SearchWord" AS
+SELECT DISTINCT word
+FROM "Product" p, regexp_split_to_table(lower(p.title || ' ' || coalesce(p.category, '')), '[^[:alnum:]]+') AS word
+WHERE p.status = 'ACTIVE' AND length(word) > 2;
+
+-- CreateIndex
+-- A unique index lets the view be refreshed concurrently
+CREATE UNIQUE INDEX "SearchWord_word_key" ON "SearchWord" ("word");
+
+-- CreateIndex
+CREATE INDEX "SearchWord_word_trgm_idx" ON "SearchWord" USING GIN ("word" gin_trgm_ops);
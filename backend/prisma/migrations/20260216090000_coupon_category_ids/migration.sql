@@ -0,0 +1,19 @@
+-- AlterTable
+-- Coupons are restricted by category id (subcategories included) instead of the legacy name
+ALTER TABLE "Coupon" ADD COLUMN     "categoryIds" TEXT[];
+
+-- Existing restrictions point at every category that had the name
+UPDATE "Coupon" c
+SET "categoryIds" = coalesce((
+    SELECT array_agg(DISTINCT cat.id)
+    FROM "Category" cat
+    WHERE lower(cat.name) IN (SELECT lower(trim(name)) FROM unnest(c."categories") AS name)
+), ARRAY[]::TEXT[]);
+
+-- A coupon whose categories are all gone applied to nothing; keep it from applying to everything
+UPDATE "Coupon"
+SET "isActive" = false
+WHERE cardinality("categories") > 0 AND cardinality("categoryIds") = 0 AND cardinality("productIds") = 0;
+
+-- AlterTable
+ALTER TABLE "Coupon" DROP COLUMN "categories";
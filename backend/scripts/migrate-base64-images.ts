@@ -0,0 +1,144 @@
+/**
+ * Move base64 data URLs stored in the database into the upload storage.
+ *
+ * Older admin and profile forms saved images inline as data URLs. This rewrites
+ * product, variant, blog, project, profile and return images to uploaded files
+ * and stores their URLs instead. Values that are already URLs are left alone, so
+ * the script can be run again safely.
+ *
+ * Usage:
+ *   npm run uploads:migrate              # convert and save
+ *   npm run uploads:migrate -- --dry-run # only count what would be converted
+ *
+ * Exits with code 1 when any image could not be converted.
+ */
+import 'dotenv/config'
+import { Prisma } from '@prisma/client'
+import { prisma } from '../lib/prisma'
+import { isDataUrl, storeDataUrl, UploadFolder } from '../lib/uploads'
+
+const BATCH_SIZE = 50
+
+interface Report {
+  records: number
+  images: number
+  errors: { record: string; error: string }[]
+}
+
+const dryRun = process.argv.includes('--dry-run')
+const report: Report = { records: 0, images: 0, errors: [] }
+
+async function convert(value: string, folder: UploadFolder, record: string): Promise<string> {
+  if (!isDataUrl(value)) return value
+  report.images++
+  if (dryRun) return value
+  try {
+    return (await storeDataUrl(value, folder)).url
+  } catch (error: any) {
+    report.errors.push({ record, error: error.message })
+    return value
+  }
+}
+
+async function convertList(value: Prisma.JsonValue, folder: UploadFolder, record: string) {
+  if (!Array.isArray(value) || !value.some(isDataUrl)) return null
+  const converted: Prisma.JsonArray = []
+  for (const item of value) {
+    converted.push(typeof item === 'string' ? await convert(item, folder, record) : item)
+  }
+  return converted
+}
+
+/**
+ * Walks a table in id order so large base64 columns are never all in memory at once.
+ */
+async function eachBatch<T extends { id: string }>(
+  findMany: (args: { take: number; skip?: number; cursor?: { id: string }; orderBy: { id: 'asc' } }) => Promise<T[]>,
+  handle: (row: T) => Promise<void>
+) {
+  let cursor: string | undefined
+  for (;;) {
+    const rows = await findMany({
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      orderBy: { id: 'asc' },
+    })
+    for (const row of rows) await handle(row)
+    if (rows.length < BATCH_SIZE) return
+    cursor = rows[rows.length - 1].id
+  }
+}
+
+async function main() {
+  await eachBatch(
+    (args) => prisma.product.findMany({ ...args, select: { id: true, images: true } }),
+    async (product) => {
+      const images = await convertList(product.images, 'products', `Product ${product.id}`)
+      if (!images) return
+      report.records++
+      if (!dryRun) await prisma.product.update({ where: { id: product.id }, data: { images } })
+    }
+  )
+
+  await eachBatch(
+    (args) => prisma.productVariant.findMany({ ...args, select: { id: true, images: true } }),
+    async (variant) => {
+      const images = await convertList(variant.images, 'products', `ProductVariant ${variant.id}`)
+      if (!images) return
+      report.records++
+      if (!dryRun) await prisma.productVariant.update({ where: { id: variant.id }, data: { images } })
+    }
+  )
+
+  await eachBatch(
+    (args) => prisma.project.findMany({ ...args, select: { id: true, images: true } }),
+    async (project) => {
+      const images = await convertList(project.images, 'projects', `Project ${project.id}`)
+      if (!images) return
+      report.records++
+      if (!dryRun) await prisma.project.update({ where: { id: project.id }, data: { images } })
+    }
+  )
+
+  await eachBatch(
+    (args) => prisma.returnRequest.findMany({ ...args, select: { id: true, images: true } }),
+    async (returnRequest) => {
+      const images = await convertList(returnRequest.images, 'returns', `ReturnRequest ${returnRequest.id}`)
+      if (!images) return
+      report.records++
+      if (!dryRun) await prisma.returnRequest.update({ where: { id: returnRequest.id }, data: { images } })
+    }
+  )
+
+  await eachBatch(
+    (args) => prisma.blog.findMany({ ...args, where: { featuredImage: { startsWith: 'data:' } }, select: { id: true, featuredImage: true } }),
+    async (blog) => {
+      const featuredImage = await convert(blog.featuredImage!, 'blog', `Blog ${blog.id}`)
+      report.records++
+      if (!dryRun && featuredImage !== blog.featuredImage) {
+        await prisma.blog.update({ where: { id: blog.id }, data: { featuredImage } })
+      }
+    }
+  )
+
+  await eachBatch(
+    (args) => prisma.user.findMany({ ...args, where: { profilePicture: { startsWith: 'data:' } }, select: { id: true, profilePicture: true } }),
+    async (user) => {
+      const profilePicture = await convert(user.profilePicture!, 'profile', `User ${user.id}`)
+      report.records++
+      if (!dryRun && profilePicture !== user.profilePicture) {
+        await prisma.user.update({ where: { id: user.id }, data: { profilePicture } })
+      }
+    }
+  )
+
+  console.log(JSON.stringify({ dryRun, ...report }, null, 2))
+  if (report.errors.length > 0) process.exitCode = 1
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Image migration failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,27 @@
+/**
+ * Reconcile PENDING orders with Stripe from the command line.
+ *
+ * Usage:
+ *   npm run reconcile:orders              # sync and print the report
+ *   npm run reconcile:orders -- --dry-run # only report mismatches
+ *
+ * Exits with code 1 when any order could not be checked.
+ */
+import 'dotenv/config'
+import { prisma } from '../lib/prisma'
+import { reconcilePendingOrders } from '../lib/reconciliation'
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run')
+  const report = await reconcilePendingOrders({ dryRun })
+
+  console.log(JSON.stringify(report, null, 2))
+  if (report.errors.length > 0) process.exitCode = 1
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Reconciliation failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
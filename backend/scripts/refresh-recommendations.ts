@@ -0,0 +1,27 @@
+/**
+ * Rebuild product recommendations from order history on the command line.
+ *
+ * Usage:
+ *   npm run recommendations:refresh
+ *   npm run recommendations:refresh -- --days=90 # only orders from the last 90 days
+ */
+import 'dotenv/config'
+import { prisma } from '../lib/prisma'
+import { refreshProductAffinities } from '../lib/recommendations'
+
+async function main() {
+  const daysArg = process.argv.find((arg) => arg.startsWith('--days='))
+  const lookbackDays = daysArg ? parseInt(daysArg.slice('--days='.length)) : NaN
+  const report = await refreshProductAffinities({
+    lookbackDays: Number.isNaN(lookbackDays) ? undefined : lookbackDays,
+  })
+
+  console.log(JSON.stringify(report, null, 2))
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Refreshing recommendations failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
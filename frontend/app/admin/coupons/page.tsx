@@ -0,0 +1,5 @@
+import { AdminCouponsPage } from "@/pages/admin/AdminCouponsPage";
+
+export default function Page() {
+  return <AdminCouponsPage />;
+}
@@ -0,0 +1,5 @@
+import { AdminInventoryPage } from "@/pages/admin/AdminInventoryPage";
+
+export default function Page() {
+  return <AdminInventoryPage />;
+}
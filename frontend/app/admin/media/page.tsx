@@ -0,0 +1,5 @@
+import { AdminMediaPage } from "@/pages/admin/AdminMediaPage";
+
+export default function Page() {
+  return <AdminMediaPage />;
+}
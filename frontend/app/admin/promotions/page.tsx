@@ -0,0 +1,5 @@
+import { AdminPromotionsPage } from "@/pages/admin/AdminPromotionsPage";
+
+export default function Page() {
+  return <AdminPromotionsPage />;
+}
@@ -0,0 +1,5 @@
+import { AdminReviewsPage } from "@/pages/admin/AdminReviewsPage";
+
+export default function Page() {
+  return <AdminReviewsPage />;
+}
@@ -0,0 +1,5 @@
+import { AdminSettingsPage } from "@/pages/admin/AdminSettingsPage";
+
+export default function Page() {
+  return <AdminSettingsPage />;
+}
@@ -0,0 +1,5 @@
+import { AdminShippingPage } from "@/pages/admin/AdminShippingPage";
+
+export default function Page() {
+  return <AdminShippingPage />;
+}
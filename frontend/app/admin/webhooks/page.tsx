@@ -0,0 +1,5 @@
+import { AdminWebhooksPage } from "@/pages/admin/AdminWebhooksPage";
+
+export default function Page() {
+  return <AdminWebhooksPage />;
+}
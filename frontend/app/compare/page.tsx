@@ -0,0 +1,5 @@
+import { ComparePage } from "@/pages/ComparePage";
+
+export default function Page() {
+  return <ComparePage />;
+}
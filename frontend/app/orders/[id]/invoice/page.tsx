@@ -0,0 +1,8 @@
+import { InvoicePage } from "@/pages/InvoicePage";
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export default function Page({ params }: { params: Promise<{ id: string }> | { id: string } }) {
+  return <InvoicePage params={params} />;
+}
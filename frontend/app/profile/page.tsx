@@ -3,7 +3,7 @@
 import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/context/AuthContext";
-import { authAPI } from "@/lib/api";
+import { authAPI, uploadsAPI } from "@/lib/api";
 import { motion, AnimatePresence } from "motion/react";
 import { User, Save, ArrowLeft, X, CheckCircle, Loader2, Camera } from "lucide-react";
 import Link from "next/link";
@@ -22,6 +22,7 @@ export default function ProfilePage() {
   const [marketingOptIn, setMarketingOptIn] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
 
   useEffect(() => {
     if (!user) {
@@ -37,7 +38,7 @@ export default function ProfilePage() {
     setMarketingOptIn(user.marketingOptIn || false);
   }, [user, router]);
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       // Validate file type
@@ -52,17 +53,20 @@ export default function ProfilePage() {
         return;
       }
       
-      // Convert file to base64 data URL
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const imageUrl = event.target?.result as string;
-        setProfilePicture(imageUrl);
-        setPreview(imageUrl);
-      };
-      reader.onerror = () => {
-        toast.error('Error reading file. Please try again.');
-      };
-      reader.readAsDataURL(file);
+      setIsUploading(true);
+      try {
+        const upload = await uploadsAPI.upload(file, 'profile');
+        setProfilePicture(upload.url);
+        setPreview(upload.url);
+      } catch (error: any) {
+        toast.error(error.response?.data?.error || 'Failed to upload image. Please try again.');
+      } finally {
+        setIsUploading(false);
+      }
+    }
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
   };
 
@@ -186,9 +190,14 @@ export default function ProfilePage() {
                   <button
                     type="button"
                     onClick={() => fileInputRef.current?.click()}
-                    className="absolute bottom-0 right-0 bg-cyan-500 hover:bg-cyan-600 text-white p-3 rounded-full shadow-lg transition-all transform hover:scale-110"
+                    disabled={isUploading}
+                    className="absolute bottom-0 right-0 bg-cyan-500 hover:bg-cyan-600 disabled:cursor-not-allowed text-white p-3 rounded-full shadow-lg transition-all transform hover:scale-110"
                   >
-                    <Camera className="w-5 h-5" />
+                    {isUploading ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <Camera className="w-5 h-5" />
+                    )}
                   </button>
                 </div>
                 <input
@@ -266,7 +275,8 @@ export default function ProfilePage() {
               {/* Save Button */}
               <button
                 onClick={handleSaveClick}
-                className="w-full bg-gradient-to-r from-cyan-500 to-blue-500 hover:from-cyan-600 hover:to-blue-600 text-white py-3 rounded-lg transition-all transform hover:scale-105 flex items-center justify-center gap-2 shadow-lg shadow-cyan-500/50"
+                disabled={isUploading}
+                className="w-full bg-gradient-to-r from-cyan-500 to-blue-500 hover:from-cyan-600 hover:to-blue-600 text-white py-3 rounded-lg transition-all transform hover:scale-105 disabled:opacity-60 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg shadow-cyan-500/50"
               >
                 <Save className="w-5 h-5" />
                 Save Changes
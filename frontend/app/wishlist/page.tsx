@@ -0,0 +1,5 @@
+import { WishlistPage } from "@/pages/WishlistPage";
+
+export default function Page() {
+  return <WishlistPage />;
+}
@@ -6,44 +6,50 @@ import { useRouter } from "next/navigation";
 import { Star } from "lucide-react";
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { useCart } from "../context/CartContext";
-import { productsAPI } from "@/lib/api";
+import { useCurrency } from "../context/CurrencyContext";
+import { PromotionCountdown } from "./PromotionCountdown";
+import { offersAPI, PromotionSummary } from "@/lib/api";
 
 interface Product {
   id: string;
   title: string;
   price: string;
-  discount?: number;
+  salePrice: string; // What checkout charges
+  saleDiscount: number;
+  promotion?: PromotionSummary | null;
   description?: string;
   category?: string;
   stock?: number;
   images?: string[] | null;
   slug?: string;
   featured?: boolean;
+  variants?: { id: string }[];
 }
 
 export function BigOffers() {
   const router = useRouter();
   const [isVisible, setIsVisible] = useState(false);
   const { addToCart } = useCart();
+  const { formatPrice } = useCurrency();
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const fetchFeaturedProducts = async () => {
+    const fetchBigOffers = async () => {
       try {
         setLoading(true);
-        const response = await productsAPI.getAll({ featured: true, limit: 8 });
+        const response = await offersAPI.get({ minDiscount: 25, limit: 8 });
         setProducts(response?.products || []);
       } catch (err: any) {
         // Silently handle errors - don't show to user
-        console.error('Error fetching featured products:', err);
+        console.error('Error fetching big offers:', err);
         setProducts([]);
       } finally {
         setLoading(false);
       }
     };
 
-    fetchFeaturedProducts();
+    fetchBigOffers();
   }, []);
 
   useEffect(() => {
@@ -92,16 +98,14 @@ export function BigOffers() {
           </div>
         ) : products.length === 0 ? (
           <div className="text-center py-12">
-            <p className="text-slate-400">No featured products available.</p>
+            <p className="text-slate-400">No big offers right now.</p>
           </div>
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6 mb-8 sm:mb-10">
             {products.map((product, index) => {
               const images = product.images && Array.isArray(product.images) ? product.images : [];
-              const price = parseFloat(product.price);
-              const originalPrice = product.discount
-                ? price / (1 - product.discount / 100)
-                : price;
+              const price = parseFloat(product.salePrice);
+              const originalPrice = parseFloat(product.price);
 
               return (
                 <motion.div
@@ -122,9 +126,14 @@ export function BigOffers() {
                       className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500"
                     />
                     {/* Discount Badge */}
-                    {product.discount && product.discount > 0 && (
+                    {product.saleDiscount > 0 && (
                       <div className="absolute top-4 right-4 bg-red-500 text-white px-3 py-1 rounded-full text-sm shadow-lg">
-                        {product.discount}% OFF
+                        {product.saleDiscount}% OFF
+                      </div>
+                    )}
+                    {product.promotion && (
+                      <div className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-xs px-3 py-2">
+                        <PromotionCountdown to={product.promotion.endsAt} />
                       </div>
                     )}
                   </div>
@@ -157,10 +166,10 @@ export function BigOffers() {
                     {/* Price and Stock */}
                     <div className="flex items-center justify-between mb-4">
                       <div className="flex items-center gap-3">
-                        <span className="text-white text-xl sm:text-2xl">${price.toFixed(2)}</span>
-                        {product.discount && product.discount > 0 && (
+                        <span className="text-white text-xl sm:text-2xl">{formatPrice(price)}</span>
+                        {price < originalPrice && (
                           <span className="text-slate-500 line-through text-sm">
-                            ${originalPrice.toFixed(2)}
+                            {formatPrice(originalPrice)}
                           </span>
                         )}
                       </div>
@@ -194,6 +203,11 @@ export function BigOffers() {
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
+                          // Options are chosen on the product page
+                          if (product.variants?.length) {
+                            router.push(`/product/${product.slug || product.id}`);
+                            return;
+                          }
                           addToCart({
                             id: product.id,
                             name: product.title,
@@ -3,9 +3,12 @@
 import { usePathname } from "next/navigation";
 import { AuthProvider } from "@/context/AuthContext";
 import { CartProvider } from "@/context/CartContext";
+import { CurrencyProvider } from "@/context/CurrencyContext";
+import { CompareProvider } from "@/context/CompareContext";
 import { Header } from "@/components/Header";
 import { Footer } from "@/components/Footer";
 import { BackToTop } from "@/components/BackToTop";
+import { CompareBar } from "@/components/CompareBar";
 import { ScrollToTop } from "@/components/ScrollToTop";
 import { Toaster } from "sonner";
 
@@ -16,16 +19,21 @@ export function ClientLayout({ children }: { children: React.ReactNode }) {
 
   return (
     <AuthProvider>
-      <CartProvider>
-        <ScrollToTop />
-        <Toaster position="top-right" richColors />
-        <div className="min-h-screen bg-slate-50">
-          {!isAdminRoute && !isAuthRoute && <Header />}
-          {children}
-          {!isAdminRoute && !isAuthRoute && <Footer />}
-          {!isAdminRoute && !isAuthRoute && <BackToTop />}
-        </div>
-      </CartProvider>
+      <CurrencyProvider>
+        <CartProvider>
+          <CompareProvider>
+            <ScrollToTop />
+            <Toaster position="top-right" richColors />
+            <div className="min-h-screen bg-slate-50">
+              {!isAdminRoute && !isAuthRoute && <Header />}
+              {children}
+              {!isAdminRoute && !isAuthRoute && <Footer />}
+              {!isAdminRoute && !isAuthRoute && <BackToTop />}
+              {!isAdminRoute && !isAuthRoute && <CompareBar />}
+            </div>
+          </CompareProvider>
+        </CartProvider>
+      </CurrencyProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,69 @@
+"use client";
+
+import { motion, AnimatePresence } from "motion/react";
+import { useRouter, usePathname } from "next/navigation";
+import { X, GitCompare } from "lucide-react";
+import { ImageWithFallback } from "./figma/ImageWithFallback";
+import { useCompare, MAX_COMPARE_ITEMS } from "../context/CompareContext";
+
+/**
+ * Products picked for comparison, pinned to the bottom of storefront pages
+ * until the shopper opens the compare view or clears the list.
+ */
+export function CompareBar() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { compareItems, removeFromCompare, clearCompare } = useCompare();
+
+  const visible = compareItems.length > 0 && pathname !== "/compare";
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <motion.div
+          initial={{ opacity: 0, y: 40 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 40 }}
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-3xl bg-slate-900 text-white rounded-xl shadow-2xl p-3 sm:p-4 flex items-center gap-3"
+        >
+          <div className="flex items-center gap-2 flex-1 min-w-0 overflow-x-auto">
+            {compareItems.map((item) => (
+              <div key={item.id} className="relative flex-shrink-0">
+                <ImageWithFallback
+                  src={item.image}
+                  alt={item.title}
+                  className="w-12 h-12 rounded-lg object-cover border border-slate-700"
+                />
+                <button
+                  onClick={() => removeFromCompare(item.id)}
+                  title={`Remove ${item.title}`}
+                  className="absolute -top-1.5 -right-1.5 bg-slate-700 hover:bg-red-500 rounded-full p-0.5"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            <span className="text-slate-400 text-xs sm:text-sm whitespace-nowrap ml-1">
+              {compareItems.length}/{MAX_COMPARE_ITEMS} selected
+            </span>
+          </div>
+          <button
+            onClick={clearCompare}
+            className="text-slate-400 hover:text-white text-sm px-2"
+          >
+            Clear
+          </button>
+          <button
+            onClick={() => router.push("/compare")}
+            disabled={compareItems.length < 2}
+            title={compareItems.length < 2 ? "Pick at least two products" : undefined}
+            className="bg-cyan-500 hover:bg-cyan-600 disabled:bg-slate-700 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 flex-shrink-0"
+          >
+            <GitCompare className="w-4 h-4" />
+            Compare
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,12 +1,13 @@
 "use client";
 
 import { useState, useMemo, useEffect, useRef } from "react";
-import { Search, ChevronDown, Menu, X, LogOut, User as UserIcon, HelpCircle, ShoppingCart, MessageSquare, Mail, Package } from "lucide-react";
+import { Search, ChevronDown, Menu, X, LogOut, User as UserIcon, HelpCircle, ShoppingCart, MessageSquare, Mail, Package, Heart } from "lucide-react";
 import { motion, AnimatePresence } from "motion/react";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import { useAuth } from "../context/AuthContext";
 import { useCart } from "../context/CartContext";
+import { useCurrency } from "@/context/CurrencyContext";
 import { productsAPI, messagesAPI } from "@/lib/api";
 import logoImage from "../assets/77ac9b30465e2a638fe36d43d6692e10b6bf92e1.png";
 
@@ -56,6 +57,7 @@ export function Header() {
     return "U";
   };
   const { getTotalItems } = useCart();
+  const { currency, currencies, setCurrency, formatPrice } = useCurrency();
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
@@ -67,6 +69,7 @@ export function Header() {
   const totalCartItems = getTotalItems();
   const [searchResults, setSearchResults] = useState<any[]>([]);
   const [searchLoading, setSearchLoading] = useState(false);
+  const [didYouMean, setDidYouMean] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
 
   // Search products via API
@@ -74,6 +77,7 @@ export function Header() {
     const searchProducts = async () => {
       if (!searchQuery.trim()) {
         setSearchResults([]);
+        setDidYouMean(null);
         return;
       }
 
@@ -84,9 +88,11 @@ export function Header() {
           limit: 10
         });
         setSearchResults(response.products || []);
+        setDidYouMean(response.didYouMean || null);
       } catch (err) {
         console.error('Search error:', err);
         setSearchResults([]);
+        setDidYouMean(null);
       } finally {
         setSearchLoading(false);
       }
@@ -238,7 +244,7 @@ export function Header() {
 
                 {/* Search Results Dropdown */}
                 <AnimatePresence>
-                  {isSearchFocused && filteredProducts.length > 0 && (
+                  {isSearchFocused && (filteredProducts.length > 0 || didYouMean) && (
                     <motion.div
                       initial={{ opacity: 0, y: -10 }}
                       animate={{ opacity: 1, y: 0 }}
@@ -251,6 +257,15 @@ export function Header() {
                       {!searchLoading && filteredProducts.length === 0 && searchQuery.trim() && (
                         <div className="p-4 text-center text-slate-400 text-sm">No products found</div>
                       )}
+                      {!searchLoading && didYouMean && (
+                        <button
+                          type="button"
+                          onClick={() => setSearchQuery(didYouMean)}
+                          className="w-full p-3 text-left text-sm text-slate-400 hover:bg-slate-700 border-b border-slate-700"
+                        >
+                          Did you mean <span className="text-cyan-400 font-medium">{didYouMean}</span>?
+                        </button>
+                      )}
                       {!searchLoading && filteredProducts.map((product) => {
                         const images = product.images && Array.isArray(product.images) ? product.images : [];
                         return (
@@ -269,11 +284,24 @@ export function Header() {
                               className="w-12 h-12 object-cover rounded-lg"
                             />
                             <div className="flex-1 min-w-0">
-                              <p className="text-white text-sm font-medium truncate">{product.title}</p>
+                              {product.highlight ? (
+                                <p
+                                  className="text-white text-sm font-medium truncate [&_mark]:bg-transparent [&_mark]:text-cyan-400"
+                                  dangerouslySetInnerHTML={{ __html: product.highlight.title }}
+                                />
+                              ) : (
+                                <p className="text-white text-sm font-medium truncate">{product.title}</p>
+                              )}
+                              {product.highlight?.snippet?.includes('<mark>') && !product.highlight.title.includes('<mark>') && (
+                                <p
+                                  className="text-slate-400 text-xs truncate [&_mark]:bg-transparent [&_mark]:text-cyan-400"
+                                  dangerouslySetInnerHTML={{ __html: product.highlight.snippet }}
+                                />
+                              )}
                               {product.category && (
                                 <p className="text-slate-400 text-xs truncate">{product.category}</p>
                               )}
-                              <p className="text-cyan-400 text-sm font-semibold">${parseFloat(product.price).toFixed(2)}</p>
+                              <p className="text-cyan-400 text-sm font-semibold">{formatPrice(product.price)}</p>
                             </div>
                           </Link>
                         );
@@ -323,6 +351,20 @@ export function Header() {
               <span>Support</span>
             </button>
 
+            {/* Currency Selector */}
+            {currencies.length > 1 && (
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                className="bg-slate-800 text-white text-sm border border-slate-700 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                aria-label="Currency"
+              >
+                {currencies.map((option) => (
+                  <option key={option.code} value={option.code}>{option.code}</option>
+                ))}
+              </select>
+            )}
+
             {/* Cart Icon with Badge */}
             <button
               onClick={() => router.push("/cart")}
@@ -390,6 +432,14 @@ export function Header() {
                           <ShoppingCart className="w-4 h-4" />
                           My Orders
                         </Link>
+                        <Link
+                          href="/wishlist"
+                          className="flex items-center gap-2 px-4 py-2 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+                          onClick={() => setIsUserMenuOpen(false)}
+                        >
+                          <Heart className="w-4 h-4" />
+                          My Wishlist
+                        </Link>
                         <div className="border-t border-slate-700 mt-2 pt-2">
                           <button
                             onClick={() => {
@@ -462,7 +512,7 @@ export function Header() {
 
             {/* Mobile Search Results Dropdown */}
             <AnimatePresence>
-              {isSearchFocused && filteredProducts.length > 0 && (
+              {isSearchFocused && (filteredProducts.length > 0 || didYouMean) && (
                 <motion.div
                   initial={{ opacity: 0, y: -10 }}
                   animate={{ opacity: 1, y: 0 }}
@@ -475,6 +525,15 @@ export function Header() {
                   {!searchLoading && filteredProducts.length === 0 && searchQuery.trim() && (
                     <div className="p-4 text-center text-slate-400 text-sm">No products found</div>
                   )}
+                  {!searchLoading && didYouMean && (
+                    <button
+                      type="button"
+                      onClick={() => setSearchQuery(didYouMean)}
+                      className="w-full p-3 text-left text-sm text-slate-400 hover:bg-slate-700 border-b border-slate-700"
+                    >
+                      Did you mean <span className="text-cyan-400 font-medium">{didYouMean}</span>?
+                    </button>
+                  )}
                   {!searchLoading && filteredProducts.map((product) => {
                     const images = product.images && Array.isArray(product.images) ? product.images : [];
                     return (
@@ -493,11 +552,24 @@ export function Header() {
                           className="w-12 h-12 object-cover rounded-lg"
                         />
                         <div className="flex-1 min-w-0">
-                          <p className="text-white text-sm font-medium truncate">{product.title}</p>
+                          {product.highlight ? (
+                            <p
+                              className="text-white text-sm font-medium truncate [&_mark]:bg-transparent [&_mark]:text-cyan-400"
+                              dangerouslySetInnerHTML={{ __html: product.highlight.title }}
+                            />
+                          ) : (
+                            <p className="text-white text-sm font-medium truncate">{product.title}</p>
+                          )}
+                          {product.highlight?.snippet?.includes('<mark>') && !product.highlight.title.includes('<mark>') && (
+                            <p
+                              className="text-slate-400 text-xs truncate [&_mark]:bg-transparent [&_mark]:text-cyan-400"
+                              dangerouslySetInnerHTML={{ __html: product.highlight.snippet }}
+                            />
+                          )}
                           {product.category && (
                             <p className="text-slate-400 text-xs truncate">{product.category}</p>
                           )}
-                          <p className="text-cyan-400 text-sm font-semibold">${parseFloat(product.price).toFixed(2)}</p>
+                          <p className="text-cyan-400 text-sm font-semibold">{formatPrice(product.price)}</p>
                         </div>
                       </Link>
                     );
@@ -554,6 +626,22 @@ export function Header() {
                   Support
                 </button>
 
+                {currencies.length > 1 && (
+                  <div className="px-3 py-2 flex items-center justify-between">
+                    <span className="text-white">Currency</span>
+                    <select
+                      value={currency}
+                      onChange={(e) => setCurrency(e.target.value)}
+                      className="bg-slate-800 text-white text-sm border border-slate-700 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                      aria-label="Currency"
+                    >
+                      {currencies.map((option) => (
+                        <option key={option.code} value={option.code}>{option.code}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 {/* Mobile User Menu */}
                 {user ? (
                   <>
@@ -592,6 +680,13 @@ export function Header() {
                     >
                       My Orders
                     </Link>
+                    <Link
+                      href="/wishlist"
+                      className="px-3 py-2 text-white hover:bg-slate-800 hover:text-cyan-400 transition-colors rounded"
+                      onClick={() => setIsMobileMenuOpen(false)}
+                    >
+                      My Wishlist
+                    </Link>
                     <button
                       onClick={() => {
                         handleLogout();
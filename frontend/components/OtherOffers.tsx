@@ -5,13 +5,15 @@ import { useEffect, useState } from "react";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { useRouter } from "next/navigation";
-import { productsAPI } from "@/lib/api";
+import { offersAPI } from "@/lib/api";
+import { useCurrency } from "../context/CurrencyContext";
 
 export function OtherOffers() {
   const [isVisible, setIsVisible] = useState(false);
   const [currentSlide, setCurrentSlide] = useState(0);
   const [cardsPerView, setCardsPerView] = useState(1);
   const router = useRouter();
+  const { formatPrice } = useCurrency();
 
   const [offers, setOffers] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
@@ -20,10 +22,9 @@ export function OtherOffers() {
     const fetchOffers = async () => {
       try {
         setLoading(true);
-        const response = await productsAPI.getAll({ limit: 5 });
-        // Filter products with discount > 20%
-        const discountedProducts = (response?.products || []).filter((p: any) => p.discount && p.discount > 20);
-        setOffers(discountedProducts || []);
+        // Latest products on sale; Big Offers shows the biggest discounts
+        const response = await offersAPI.get({ sort: 'newest', limit: 6 });
+        setOffers(response?.products || []);
       } catch (err: any) {
         // Silently handle errors - don't show to user
         console.error('Error fetching offers:', err);
@@ -189,9 +190,9 @@ export function OtherOffers() {
                         {/* Content */}
                         <div className="p-4 sm:p-6 flex flex-col flex-grow">
                           <div className="flex items-center justify-between mb-2">
-                            {offer.discount && offer.discount > 0 && (
+                            {offer.saleDiscount > 0 && (
                               <span className="bg-cyan-500 text-white text-xs sm:text-sm px-3 sm:px-4 py-1 rounded-full inline-block whitespace-nowrap">
-                                {offer.discount}% OFF
+                                {offer.saleDiscount}% OFF
                               </span>
                             )}
                             {offer.category && (
@@ -205,7 +206,12 @@ export function OtherOffers() {
                             </p>
                           )}
                           <div className="flex items-center justify-between mb-2">
-                            <span className="text-slate-900 text-lg sm:text-xl">${parseFloat(offer.price).toFixed(2)}</span>
+                            <div className="flex items-center gap-2">
+                              <span className="text-slate-900 text-lg sm:text-xl">{formatPrice(offer.salePrice)}</span>
+                              {parseFloat(offer.salePrice) < parseFloat(offer.price) && (
+                                <span className="text-slate-500 line-through text-sm">{formatPrice(offer.price)}</span>
+                              )}
+                            </div>
                             {offer.stock !== undefined && (
                               <span className="text-slate-500 text-xs">Stock: {offer.stock}</span>
                             )}
@@ -6,6 +6,7 @@ import { useRouter } from "next/navigation";
 import { ChevronLeft, ChevronRight, Star } from "lucide-react";
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { useCart } from "../context/CartContext";
+import { useCurrency } from "../context/CurrencyContext";
 import { toast } from "sonner";
 import { productsAPI } from "@/lib/api";
 
@@ -13,17 +14,20 @@ interface Product {
   id: string;
   title: string;
   price: string;
+  salePrice: string; // What checkout charges
   description?: string;
   category?: string;
   stock?: number;
   images?: string[] | null;
   slug?: string;
   featured?: boolean;
+  variants?: { id: string }[];
 }
 
 export function OtherProducts() {
   const router = useRouter();
   const { addToCart } = useCart();
+  const { formatPrice } = useCurrency();
   const [isVisible, setIsVisible] = useState(false);
   const [currentSlide, setCurrentSlide] = useState(0);
   const [products, setProducts] = useState<Product[]>([]);
@@ -201,8 +205,13 @@ export function OtherProducts() {
                         <div className="flex items-center justify-between mb-3">
                           <div>
                             <span className="text-slate-900 text-xl sm:text-2xl">
-                              ${parseFloat(product.price).toFixed(2)}
+                              {formatPrice(product.salePrice)}
                             </span>
+                            {parseFloat(product.salePrice) < parseFloat(product.price) && (
+                              <span className="text-slate-500 line-through text-sm ml-2">
+                                {formatPrice(product.price)}
+                              </span>
+                            )}
                             {product.stock !== undefined && (
                               <p className="text-slate-500 text-xs mt-1">Stock: {product.stock}</p>
                             )}
@@ -223,10 +232,16 @@ export function OtherProducts() {
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
+                              // Options are chosen on the product page
+                              if (product.variants?.length) {
+                                router.push(`/product/${product.slug || product.id}`);
+                                return;
+                              }
                               addToCart({
                                 id: product.id,
                                 name: product.title,
-                                price: parseFloat(product.price),
+                                price: parseFloat(product.salePrice),
+                                originalPrice: parseFloat(product.price),
                                 image: product.images?.[0] || ''
                               });
                               toast.success(`${product.title} added to cart!`, {
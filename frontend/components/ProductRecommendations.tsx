@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Star, Plus } from "lucide-react";
+import { ImageWithFallback } from "./figma/ImageWithFallback";
+import { useCart } from "../context/CartContext";
+import { useCurrency } from "../context/CurrencyContext";
+import { productsAPI } from "@/lib/api";
+import { toast } from "sonner";
+
+interface RecommendedProduct {
+  id: string;
+  title: string;
+  slug?: string;
+  price: string;
+  salePrice: string;
+  saleDiscount: number;
+  images?: string[] | null;
+  averageRating?: number;
+  reviewCount?: number;
+  variants?: { id: string }[];
+}
+
+interface ProductRecommendationsProps {
+  productId: string;
+  cartProductIds?: string[]; // The rest of the cart, when recommending for a whole cart
+  limit?: number;
+}
+
+/**
+ * "Frequently bought together" from order history, then related products from
+ * the same category. Renders nothing when there is nothing to recommend.
+ */
+export function ProductRecommendations({ productId, cartProductIds = [], limit = 4 }: ProductRecommendationsProps) {
+  const router = useRouter();
+  const { addToCart } = useCart();
+  const { formatPrice } = useCurrency();
+  const [boughtTogether, setBoughtTogether] = useState<RecommendedProduct[]>([]);
+  const [related, setRelated] = useState<RecommendedProduct[]>([]);
+  const cartKey = cartProductIds.join(",");
+
+  useEffect(() => {
+    const fetchRecommendations = async () => {
+      try {
+        const response = await productsAPI.getRecommendations(productId, {
+          limit,
+          ...(cartKey && { cart: cartKey }),
+        });
+        setBoughtTogether(response.frequentlyBoughtTogether || []);
+        setRelated(response.related || []);
+      } catch (err) {
+        // Recommendations are optional; the page works without them
+        console.error('Error fetching recommendations:', err);
+        setBoughtTogether([]);
+        setRelated([]);
+      }
+    };
+
+    fetchRecommendations();
+  }, [productId, cartKey, limit]);
+
+  const handleAdd = (product: RecommendedProduct) => {
+    // Options are chosen on the product page
+    if (product.variants?.length) {
+      router.push(`/product/${product.slug || product.id}`);
+      return;
+    }
+    addToCart({
+      id: product.id,
+      name: product.title,
+      price: parseFloat(product.salePrice),
+      originalPrice: parseFloat(product.price),
+      image: product.images?.[0] || '/images/products/headphones.png'
+    });
+    toast.success(`${product.title} added to cart!`, { duration: 2000 });
+  };
+
+  const renderSection = (title: string, products: RecommendedProduct[]) => (
+    <div className="bg-white rounded-xl shadow-lg p-6 sm:p-8 mt-8">
+      <h2 className="text-2xl font-bold text-slate-900 mb-6">{title}</h2>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {products.map((product) => {
+          const price = parseFloat(product.salePrice);
+          const listPrice = parseFloat(product.price);
+          return (
+            <div
+              key={product.id}
+              onClick={() => router.push(`/product/${product.slug || product.id}`)}
+              className="border border-slate-200 rounded-lg overflow-hidden hover:border-cyan-500 hover:shadow-lg transition-all cursor-pointer group flex flex-col"
+            >
+              <div className="relative h-32 sm:h-40 overflow-hidden">
+                <ImageWithFallback
+                  src={product.images?.[0] || '/images/products/headphones.png'}
+                  alt={product.title}
+                  className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
+                />
+                {product.saleDiscount > 0 && (
+                  <span className="absolute top-2 left-2 bg-red-500 text-white text-xs px-2 py-0.5 rounded-full">
+                    {product.saleDiscount}% OFF
+                  </span>
+                )}
+              </div>
+              <div className="p-3 flex flex-col flex-grow">
+                <h3 className="text-slate-900 text-sm mb-1 line-clamp-2 group-hover:text-cyan-600 transition-colors">
+                  {product.title}
+                </h3>
+                {!!product.reviewCount && (
+                  <div className="flex items-center gap-1 mb-1">
+                    <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                    <span className="text-slate-600 text-xs">{product.averageRating?.toFixed(1)} ({product.reviewCount})</span>
+                  </div>
+                )}
+                <div className="flex items-center justify-between gap-2 mt-auto pt-2">
+                  <div className="flex items-baseline gap-1.5 min-w-0">
+                    <span className="text-slate-900 font-semibold">{formatPrice(price)}</span>
+                    {price < listPrice && (
+                      <span className="text-slate-400 line-through text-xs">{formatPrice(listPrice)}</span>
+                    )}
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleAdd(product);
+                    }}
+                    title={product.variants?.length ? "Choose options" : "Add to cart"}
+                    className="flex-shrink-0 w-8 h-8 flex items-center justify-center bg-cyan-500 hover:bg-cyan-600 text-white rounded-lg transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      {boughtTogether.length > 0 && renderSection("Frequently Bought Together", boughtTogether)}
+      {related.length > 0 && renderSection(boughtTogether.length > 0 ? "You May Also Like" : "Related Products", related)}
+    </>
+  );
+}
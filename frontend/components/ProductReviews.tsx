@@ -0,0 +1,267 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Star, Loader2, BadgeCheck, Trash2, Pencil } from "lucide-react";
+import { reviewsAPI } from "@/lib/api";
+import { useAuth } from "@/context/AuthContext";
+import { toast } from "sonner";
+
+interface Review {
+  id: string;
+  rating: number;
+  comment: string | null;
+  authorName: string;
+  verifiedPurchase: boolean;
+  userId: string;
+  createdAt: string;
+}
+
+interface ReviewSummary {
+  averageRating: number;
+  reviewCount: number;
+  ratingDistribution: Record<number, number>;
+}
+
+function StarRating({ value, size = "w-4 h-4", onChange }: { value: number; size?: string; onChange?: (value: number) => void }) {
+  return (
+    <div className="flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          disabled={!onChange}
+          onClick={() => onChange?.(star)}
+          className={onChange ? "cursor-pointer" : "cursor-default"}
+        >
+          <Star
+            className={`${size} ${star <= Math.round(value) ? "fill-yellow-400 text-yellow-400" : "text-slate-300"}`}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function ProductReviews({ productId }: { productId: string }) {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+  const [myReview, setMyReview] = useState<Review | null>(null);
+  const [canReview, setCanReview] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+
+  const [editing, setEditing] = useState(false);
+  const [rating, setRating] = useState(5);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchReviews = useCallback(async (pageToLoad: number) => {
+    try {
+      setLoading(true);
+      const res = await reviewsAPI.getAll(productId, { page: pageToLoad, limit: 5 });
+      setReviews(res.reviews || []);
+      setSummary(res.summary || null);
+      setMyReview(res.myReview || null);
+      setCanReview(!!res.canReview);
+      setTotalPages(res.pagination?.totalPages || 1);
+    } catch (err) {
+      console.error("Error fetching reviews:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [productId]);
+
+  // Refetched on sign-in or out too: myReview and canReview depend on the user
+  useEffect(() => {
+    if (productId) fetchReviews(page);
+  }, [fetchReviews, productId, page, user?.id]);
+
+  const startEditing = () => {
+    setRating(myReview?.rating || 5);
+    setComment(myReview?.comment || "");
+    setEditing(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSubmitting(true);
+      if (myReview) {
+        await reviewsAPI.update(productId, myReview.id, { rating, comment });
+        toast.success("Review updated");
+      } else {
+        await reviewsAPI.create(productId, { rating, comment });
+        toast.success("Thanks for your review!");
+      }
+      setEditing(false);
+      await fetchReviews(page);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to save review");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!myReview || !confirm("Delete your review?")) return;
+    try {
+      await reviewsAPI.delete(productId, myReview.id);
+      toast.success("Review deleted");
+      await fetchReviews(1);
+      setPage(1);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to delete review");
+    }
+  };
+
+  const reviewCount = summary?.reviewCount || 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 sm:p-8 lg:p-10 mt-8">
+      <h2 className="text-2xl font-bold text-slate-900 mb-6">Customer Reviews</h2>
+
+      <div className="grid md:grid-cols-3 gap-8">
+        {/* Summary */}
+        <div>
+          <div className="flex items-center gap-3 mb-2">
+            <span className="text-4xl font-bold text-slate-900">
+              {(summary?.averageRating || 0).toFixed(1)}
+            </span>
+            <StarRating value={summary?.averageRating || 0} size="w-5 h-5" />
+          </div>
+          <p className="text-slate-600 text-sm mb-4">
+            Based on {reviewCount} review{reviewCount === 1 ? "" : "s"}
+          </p>
+          <div className="space-y-2">
+            {[5, 4, 3, 2, 1].map((star) => {
+              const count = summary?.ratingDistribution?.[star] || 0;
+              const percent = reviewCount > 0 ? (count / reviewCount) * 100 : 0;
+              return (
+                <div key={star} className="flex items-center gap-2 text-sm">
+                  <span className="w-3 text-slate-600">{star}</span>
+                  <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                  <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-yellow-400" style={{ width: `${percent}%` }} />
+                  </div>
+                  <span className="w-6 text-right text-slate-500">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Reviews List */}
+        <div className="md:col-span-2 space-y-6">
+          {/* Own review / review form */}
+          {user && (myReview || canReview) && (
+            editing || !myReview ? (
+              <form onSubmit={handleSubmit} className="bg-slate-50 border border-slate-200 rounded-lg p-4 space-y-3">
+                <p className="font-medium text-slate-900">{myReview ? "Edit your review" : "Write a review"}</p>
+                <StarRating value={rating} size="w-6 h-6" onChange={setRating} />
+                <textarea
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  rows={3}
+                  maxLength={2000}
+                  placeholder="Share your experience with this product (optional)"
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+                <div className="flex gap-2">
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="bg-cyan-500 hover:bg-cyan-600 text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                    {myReview ? "Save Review" : "Submit Review"}
+                  </button>
+                  {myReview && (
+                    <button
+                      type="button"
+                      onClick={() => setEditing(false)}
+                      className="px-4 py-2 rounded-lg border border-slate-300 text-slate-700 hover:bg-slate-100 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </form>
+            ) : (
+              <div className="bg-cyan-50 border border-cyan-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="font-medium text-slate-900">Your review</p>
+                  <div className="flex gap-2">
+                    <button onClick={startEditing} className="text-slate-600 hover:text-cyan-600" title="Edit review">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={handleDelete} className="text-slate-600 hover:text-red-600" title="Delete review">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <StarRating value={myReview.rating} />
+                {myReview.comment && <p className="text-slate-700 mt-2">{myReview.comment}</p>}
+              </div>
+            )
+          )}
+
+          {user && !myReview && !canReview && (
+            <p className="text-slate-500 text-sm">
+              Only customers who received this product can leave a review.
+            </p>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-cyan-500" />
+            </div>
+          ) : reviews.length === 0 ? (
+            <p className="text-slate-500">No reviews yet.</p>
+          ) : (
+            reviews.map((review) => (
+              <div key={review.id} className="border-b border-slate-200 pb-4 last:border-b-0">
+                <div className="flex items-center gap-3 mb-1">
+                  <StarRating value={review.rating} />
+                  <span className="font-medium text-slate-900">{review.authorName}</span>
+                  {review.verifiedPurchase && (
+                    <span className="flex items-center gap-1 text-xs text-green-600">
+                      <BadgeCheck className="w-4 h-4" /> Verified Purchase
+                    </span>
+                  )}
+                </div>
+                <p className="text-slate-500 text-xs mb-2">
+                  {new Date(review.createdAt).toLocaleDateString()}
+                </p>
+                {review.comment && <p className="text-slate-700">{review.comment}</p>}
+              </div>
+            ))
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-center gap-2">
+              <button
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page === 1}
+                className="px-3 py-1 rounded-lg border border-slate-300 text-sm disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-slate-600">
+                Page {page} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                disabled={page === totalPages}
+                className="px-3 py-1 rounded-lg border border-slate-300 text-sm disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
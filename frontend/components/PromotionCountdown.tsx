@@ -0,0 +1,62 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Clock } from "lucide-react";
+
+interface PromotionCountdownProps {
+  to: string; // When the promotion ends, or starts for upcoming ones
+  label?: string;
+  serverTime?: string; // Corrects for a device clock that is off
+  onDone?: () => void;
+  className?: string;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const clock = [hours, minutes, seconds].map((part) => part.toString().padStart(2, "0")).join(":");
+  return days > 0 ? `${days}d ${clock}` : clock;
+};
+
+/**
+ * Time left until a promotion ends (or starts), ticking every second.
+ */
+export function PromotionCountdown({ to, label = "Ends in", serverTime, onDone, className = "" }: PromotionCountdownProps) {
+  const target = new Date(to).getTime();
+  const [offset] = useState(() => (serverTime ? new Date(serverTime).getTime() - Date.now() : 0));
+  const [now, setNow] = useState(() => Date.now());
+  const remaining = target - (now + offset);
+
+  // Read through a ref so a new onDone from the parent doesn't restart the timer
+  const onDoneRef = useRef(onDone);
+  useEffect(() => {
+    onDoneRef.current = onDone;
+  }, [onDone]);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (target - (current + offset) <= 0) {
+        clearInterval(interval);
+        onDoneRef.current?.();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [target, offset]);
+
+  if (remaining <= 0) return null;
+
+  return (
+    <span className={`inline-flex items-center gap-1.5 ${className}`}>
+      <Clock className="w-4 h-4 flex-shrink-0" />
+      <span>
+        {label} <span className="font-semibold tabular-nums">{formatRemaining(remaining)}</span>
+      </span>
+    </span>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { Loader2 } from "lucide-react";
+import { formatCurrencyAmount } from "@/context/CurrencyContext";
+
+export interface ShippingOption {
+  method: string;
+  name: string;
+  price: number;
+  estimatedDays: string | null;
+  freeShipping: boolean;
+}
+
+export interface QuoteCoupon {
+  code: string;
+  type: string;
+  discount: number;
+  freeShipping: boolean;
+  shippingDiscount: number;
+}
+
+export interface QuoteWallet {
+  balance: number;
+  applied: number;
+}
+
+export interface CheckoutQuote {
+  currency: string;
+  exchangeRate?: number;
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  shippingMethod: string | null;
+  shippingOptions: ShippingOption[];
+  coupon?: QuoteCoupon | null;
+  tax: number;
+  total: number;
+  wallet?: QuoteWallet | null;
+  amountDue?: number;
+}
+
+interface QuoteBreakdownProps {
+  quote: CheckoutQuote | null;
+  loading?: boolean;
+  error?: string | null;
+  onShippingMethodChange?: (method: string) => void;
+}
+
+/**
+ * Renders the server-calculated price breakdown used by both checkouts.
+ */
+export function QuoteBreakdown({ quote, loading, error, onShippingMethodChange }: QuoteBreakdownProps) {
+  if (error) {
+    return <p className="text-red-600 text-sm">{error}</p>;
+  }
+
+  if (!quote) {
+    return (
+      <div className="flex items-center gap-2 text-slate-500 text-sm">
+        {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+        Calculating totals...
+      </div>
+    );
+  }
+
+  const format = (amount: number) => formatCurrencyAmount(amount, quote.currency);
+
+  return (
+    <div className={`space-y-3 ${loading ? "opacity-60" : ""}`}>
+      {/* Shipping Method */}
+      {onShippingMethodChange && quote.shippingOptions.length > 1 && (
+        <div className="space-y-2 pb-3 border-b border-slate-200">
+          <p className="text-slate-700 text-sm font-medium">Shipping Method</p>
+          {quote.shippingOptions.map((option) => (
+            <label key={option.method} className="flex items-center justify-between gap-3 text-sm cursor-pointer">
+              <span className="flex items-center gap-2 text-slate-600">
+                <input
+                  type="radio"
+                  name="shippingMethod"
+                  checked={quote.shippingMethod === option.method}
+                  onChange={() => onShippingMethodChange(option.method)}
+                  className="accent-cyan-500"
+                />
+                {option.name}
+                {option.estimatedDays && (
+                  <span className="text-slate-400">({option.estimatedDays})</span>
+                )}
+              </span>
+              <span className="text-slate-700">
+                {option.price > 0 ? format(option.price) : "Free"}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-between text-slate-600 text-sm sm:text-base">
+        <span>Subtotal:</span>
+        <span>{format(quote.subtotal)}</span>
+      </div>
+      {quote.discount - (quote.coupon?.discount || 0) > 0 && (
+        <div className="flex justify-between text-green-600 text-sm sm:text-base">
+          <span>Discount:</span>
+          <span>-{format(quote.discount - (quote.coupon?.discount || 0))}</span>
+        </div>
+      )}
+      {quote.coupon && quote.coupon.discount > 0 && (
+        <div className="flex justify-between text-green-600 text-sm sm:text-base">
+          <span>Coupon ({quote.coupon.code}):</span>
+          <span>-{format(quote.coupon.discount)}</span>
+        </div>
+      )}
+      <div className="flex justify-between text-slate-600 text-sm sm:text-base">
+        <span>Shipping:</span>
+        <span>
+          {!quote.shippingMethod
+            ? "Enter your address"
+            : quote.shipping > 0
+              ? format(quote.shipping)
+              : "Free"}
+        </span>
+      </div>
+      <div className="flex justify-between text-slate-600 text-sm sm:text-base">
+        <span>Tax:</span>
+        <span>{format(quote.tax)}</span>
+      </div>
+      <div className="border-t border-slate-200 pt-3 flex justify-between text-slate-900 text-lg sm:text-xl">
+        <span>Total:</span>
+        <span>{format(quote.total)}</span>
+      </div>
+      {quote.wallet && quote.wallet.applied > 0 && (
+        <>
+          <div className="flex justify-between text-green-600 text-sm sm:text-base">
+            <span>Store credit:</span>
+            <span>-{format(quote.wallet.applied)}</span>
+          </div>
+          <div className="flex justify-between text-slate-900 font-semibold text-base sm:text-lg">
+            <span>Amount due:</span>
+            <span>{format(quote.amountDue ?? quote.total - quote.wallet.applied)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Clock } from "lucide-react";
+
+interface ReservationCountdownProps {
+  expiresAt: string;
+  onExpire?: () => void;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+/**
+ * Time left to pay before an unpaid order is cancelled and its stock released.
+ */
+export function ReservationCountdown({ expiresAt, onExpire }: ReservationCountdownProps) {
+  const expiry = new Date(expiresAt).getTime();
+  const [now, setNow] = useState(() => Date.now());
+  const remaining = expiry - now;
+
+  // Read through a ref so a new onExpire from the parent doesn't restart the timer
+  const onExpireRef = useRef(onExpire);
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  }, [onExpire]);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (expiry - current <= 0) {
+        clearInterval(interval);
+        onExpireRef.current?.();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [expiry]);
+
+  if (remaining <= 0) {
+    return (
+      <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 rounded-lg px-3 py-2 text-sm">
+        <Clock className="w-4 h-4 flex-shrink-0" />
+        <span>Your reservation has expired and the items have been released.</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg px-3 py-2 text-sm">
+      <Clock className="w-4 h-4 flex-shrink-0" />
+      <span>
+        Items reserved for <span className="font-semibold tabular-nums">{formatRemaining(remaining)}</span>. Complete payment before the timer runs out.
+      </span>
+    </div>
+  );
+}
@@ -9,11 +9,13 @@ import {
 import { Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { ordersAPI } from "@/lib/api";
+import { formatCurrencyAmount } from "@/context/CurrencyContext";
 
 interface StripePaymentFormProps {
   clientSecret: string;
   orderId: string;
   amount: number;
+  currency?: string; // Order currency; amount is already in it
   onSuccess: () => void;
   onError: (error: string) => void;
   onRetry?: () => void; // Callback to create new PaymentIntent on retry
@@ -23,6 +25,7 @@ export function StripePaymentForm({
   clientSecret,
   orderId,
   amount,
+  currency = "USD",
   onSuccess,
   onError,
   onRetry,
@@ -310,7 +313,7 @@ export function StripePaymentForm({
             </>
           ) : (
             <>
-              Pay ${amount.toFixed(2)}
+              Pay {formatCurrencyAmount(amount, currency)}
             </>
           )}
         </button>
@@ -13,7 +13,15 @@ import {
   ShoppingCart,
   Mail,
   X,
-  Tag
+  Tag,
+  Star,
+  Truck,
+  Settings,
+  Ticket,
+  BadgePercent,
+  Webhook,
+  Boxes,
+  Images
 } from "lucide-react";
 import { contactAPI } from "@/lib/api";
 
@@ -21,11 +29,19 @@ const navItems = [
   { name: "Dashboard", path: "/admin", icon: LayoutDashboard },
   { name: "Products", path: "/admin/products", icon: Package },
   { name: "Categories", path: "/admin/categories", icon: Tag },
+  { name: "Inventory", path: "/admin/inventory", icon: Boxes },
+  { name: "Media", path: "/admin/media", icon: Images },
   { name: "Orders", path: "/admin/orders", icon: ShoppingCart },
+  { name: "Reviews", path: "/admin/reviews", icon: Star },
+  { name: "Shipping", path: "/admin/shipping", icon: Truck },
+  { name: "Coupons", path: "/admin/coupons", icon: Ticket },
+  { name: "Promotions", path: "/admin/promotions", icon: BadgePercent },
   { name: "Blog", path: "/admin/blog", icon: FileText },
   { name: "Projects", path: "/admin/projects", icon: Briefcase },
   { name: "Services", path: "/admin/services", icon: Wrench },
   { name: "Messages", path: "/admin/contact-messages", icon: Mail },
+  { name: "Webhooks", path: "/admin/webhooks", icon: Webhook },
+  { name: "Settings", path: "/admin/settings", icon: Settings },
 ];
 
 interface AdminSidebarProps {
@@ -0,0 +1,368 @@
+"use client";
+
+import { motion } from "motion/react";
+import { useState, useEffect } from "react";
+import { X, Plus, Loader2, Edit, Trash2, ArrowUp, ArrowDown, ListChecks } from "lucide-react";
+import { specsAPI, SpecDefinition, SpecType } from "@/lib/api";
+
+interface CategorySpecsDialogProps {
+  category: { id: string; name: string } | null; // Closed when null
+  onClose: () => void;
+}
+
+interface SpecForm {
+  name: string;
+  key: string;
+  type: SpecType;
+  unit: string;
+  options: string; // Comma separated
+  filterable: boolean;
+}
+
+const emptyForm: SpecForm = { name: "", key: "", type: "TEXT", unit: "", options: "", filterable: true };
+
+const typeLabels: Record<SpecType, string> = {
+  TEXT: "Text",
+  NUMBER: "Number",
+  BOOLEAN: "Yes / No",
+  SELECT: "Choice",
+};
+
+/**
+ * Manages the specs products in a category can have. Specs inherited from
+ * parent categories are listed but edited on the parent.
+ */
+export function CategorySpecsDialog({ category, onClose }: CategorySpecsDialogProps) {
+  const [specs, setSpecs] = useState<SpecDefinition[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<SpecDefinition | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<SpecForm>(emptyForm);
+
+  const fetchSpecs = async (categoryId: string) => {
+    try {
+      setLoading(true);
+      const response = await specsAPI.getForCategory(categoryId);
+      setSpecs(response.specs || []);
+    } catch (err: any) {
+      console.error('Error fetching specs:', err);
+      alert(err.response?.data?.error || 'Failed to load specs');
+      setSpecs([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setShowForm(false);
+    setEditing(null);
+    setForm(emptyForm);
+    if (category) fetchSpecs(category.id);
+  }, [category]);
+
+  if (!category) return null;
+
+  const ownSpecs = specs.filter((spec) => spec.categoryId === category.id);
+  const inheritedSpecs = specs.filter((spec) => spec.categoryId !== category.id);
+
+  const handleAddNew = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const handleEdit = (spec: SpecDefinition) => {
+    setEditing(spec);
+    setForm({
+      name: spec.name,
+      key: spec.key,
+      type: spec.type,
+      unit: spec.unit || "",
+      options: spec.options.join(", "),
+      filterable: spec.filterable,
+    });
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      alert("Please enter a spec name!");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const data = {
+        name: form.name.trim(),
+        type: form.type,
+        unit: form.type === "NUMBER" ? form.unit.trim() || null : null,
+        options: form.type === "SELECT"
+          ? form.options.split(",").map((option) => option.trim()).filter(Boolean)
+          : [],
+        filterable: form.filterable,
+        ...(form.key.trim() && { key: form.key.trim() }),
+      };
+      if (editing) {
+        await specsAPI.update(category.id, editing.id, data);
+      } else {
+        await specsAPI.create(category.id, data);
+      }
+      await fetchSpecs(category.id);
+      setShowForm(false);
+      setEditing(null);
+      setForm(emptyForm);
+    } catch (err: any) {
+      console.error('Error saving spec:', err);
+      alert(err.response?.data?.error || err.response?.data?.details?.[0]?.message || 'Failed to save spec');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (spec: SpecDefinition) => {
+    if (!confirm(`Delete "${spec.name}"? Products lose their values for it.`)) return;
+
+    try {
+      setSaving(true);
+      await specsAPI.delete(category.id, spec.id);
+      await fetchSpecs(category.id);
+    } catch (err: any) {
+      console.error('Error deleting spec:', err);
+      alert(err.response?.data?.error || 'Failed to delete spec');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Swaps with the neighbouring spec, renumbering all so ties don't make it a no-op
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= ownSpecs.length) return;
+
+    const reordered = [...ownSpecs];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    try {
+      setSaving(true);
+      await Promise.all(reordered
+        .map((spec, position) => ({ spec, position }))
+        .filter(({ spec, position }) => spec.sortOrder !== position)
+        .map(({ spec, position }) => specsAPI.update(category.id, spec.id, { sortOrder: position })));
+      await fetchSpecs(category.id);
+    } catch (err: any) {
+      console.error('Error reordering specs:', err);
+      alert(err.response?.data?.error || 'Failed to reorder specs');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = "bg-slate-700/80 border border-slate-600 text-white px-4 py-3 rounded-xl w-full focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+  const describe = (spec: SpecDefinition) => [
+    typeLabels[spec.type],
+    spec.unit,
+    spec.type === "SELECT" && spec.options.join(" / "),
+    !spec.filterable && "not filterable",
+  ].filter(Boolean).join(" · ");
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+        className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 sm:p-8 w-full max-w-2xl max-h-[90vh] overflow-y-auto border border-slate-700 shadow-2xl"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-white text-2xl font-semibold">Specs: {category.name}</h2>
+            <p className="text-slate-400 text-sm mt-1">Values are entered per product and can be filtered and compared on the storefront.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors p-1"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-cyan-500" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {inheritedSpecs.length > 0 && (
+              <div>
+                <h3 className="text-slate-400 text-xs uppercase tracking-wide mb-2">From parent categories</h3>
+                <div className="bg-slate-800/60 rounded-lg divide-y divide-slate-700/60">
+                  {inheritedSpecs.map((spec) => (
+                    <div key={spec.id} className="px-4 py-3">
+                      <p className="text-slate-300 text-sm">{spec.name} <span className="text-slate-500">({spec.key})</span></p>
+                      <p className="text-slate-500 text-xs">{describe(spec)}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-slate-400 text-xs uppercase tracking-wide mb-2">This category</h3>
+              {ownSpecs.length === 0 ? (
+                <div className="text-center py-6 bg-slate-800/60 rounded-lg">
+                  <ListChecks className="w-10 h-10 text-slate-600 mx-auto mb-2" />
+                  <p className="text-slate-400 text-sm">No specs yet, e.g. battery life, wattage or ports.</p>
+                </div>
+              ) : (
+                <div className="bg-slate-800/60 rounded-lg divide-y divide-slate-700/60">
+                  {ownSpecs.map((spec, index) => (
+                    <div key={spec.id} className="flex items-center gap-3 px-4 py-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-white text-sm">{spec.name} <span className="text-slate-500">({spec.key})</span></p>
+                        <p className="text-slate-400 text-xs truncate">{describe(spec)}</p>
+                      </div>
+                      <button
+                        onClick={() => handleMove(index, -1)}
+                        disabled={saving || index === 0}
+                        title="Move up"
+                        className="p-2 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleMove(index, 1)}
+                        disabled={saving || index === ownSpecs.length - 1}
+                        title="Move down"
+                        className="p-2 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleEdit(spec)}
+                        title="Edit"
+                        className="p-2 text-cyan-400 hover:text-cyan-300"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(spec)}
+                        disabled={saving}
+                        title="Delete"
+                        className="p-2 text-red-400 hover:text-red-300 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {showForm ? (
+              <div className="bg-slate-800/60 rounded-lg p-4 space-y-4">
+                <h3 className="text-white font-semibold">{editing ? "Edit Spec" : "New Spec"}</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-slate-300 text-sm mb-2 block">Name *</label>
+                    <input
+                      type="text"
+                      placeholder="e.g. Battery Life"
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      className={inputClass}
+                      autoFocus
+                    />
+                  </div>
+                  <div>
+                    <label className="text-slate-300 text-sm mb-2 block">Key</label>
+                    <input
+                      type="text"
+                      placeholder="Generated from the name if left empty"
+                      value={form.key}
+                      onChange={(e) => setForm({ ...form, key: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-slate-300 text-sm mb-2 block">Type</label>
+                    <select
+                      value={form.type}
+                      onChange={(e) => setForm({ ...form, type: e.target.value as SpecType })}
+                      className={inputClass}
+                    >
+                      {(Object.keys(typeLabels) as SpecType[]).map((type) => (
+                        <option key={type} value={type}>{typeLabels[type]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {form.type === "NUMBER" && (
+                    <div>
+                      <label className="text-slate-300 text-sm mb-2 block">Unit</label>
+                      <input
+                        type="text"
+                        placeholder="e.g. h, W, g"
+                        value={form.unit}
+                        onChange={(e) => setForm({ ...form, unit: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                  )}
+                  {form.type === "SELECT" && (
+                    <div>
+                      <label className="text-slate-300 text-sm mb-2 block">Options *</label>
+                      <input
+                        type="text"
+                        placeholder="USB-C, Lightning, Micro-USB"
+                        value={form.options}
+                        onChange={(e) => setForm({ ...form, options: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                  )}
+                </div>
+                <label className="flex items-center gap-2 text-slate-300 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={form.filterable}
+                    onChange={(e) => setForm({ ...form, filterable: e.target.checked })}
+                    className="w-4 h-4 accent-cyan-500"
+                  />
+                  Show as a filter on product listings
+                </label>
+                <div className="flex gap-3">
+                  <button
+                    onClick={handleSave}
+                    disabled={saving || !form.name.trim()}
+                    className="flex-1 bg-green-500 hover:bg-green-600 disabled:bg-slate-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-all flex items-center justify-center gap-2"
+                  >
+                    {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save Spec'}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setShowForm(false);
+                      setEditing(null);
+                    }}
+                    disabled={saving}
+                    className="px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg transition-all"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={handleAddNew}
+                className="bg-green-500 hover:bg-green-600 text-white px-3 py-2 rounded-lg transition-all flex items-center gap-2 text-sm"
+              >
+                <Plus className="w-4 h-4" />
+                Add Spec
+              </button>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
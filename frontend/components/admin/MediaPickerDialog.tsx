@@ -0,0 +1,254 @@
+"use client";
+
+import { motion, AnimatePresence } from "motion/react";
+import { useState, useEffect, useRef } from "react";
+import { X, Search, Upload, Loader2, Image as ImageIcon, Check } from "lucide-react";
+import { mediaAPI, MediaAsset, UploadFolder } from "@/lib/api";
+
+interface MediaPickerDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSelect: (asset: MediaAsset) => void;
+  folder?: UploadFolder; // Where new uploads from the dialog are stored
+  title?: string;
+}
+
+/**
+ * Lets admins pick an image from the media library, or upload a new one into it.
+ */
+export function MediaPickerDialog({ open, onClose, onSelect, folder = "misc", title = "Choose Image" }: MediaPickerDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [tag, setTag] = useState("");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [selected, setSelected] = useState<MediaAsset | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchAssets = async () => {
+      try {
+        setLoading(true);
+        const response = await mediaAPI.getAll({
+          search: search || undefined,
+          tag: tag || undefined,
+          page,
+          limit: 24,
+        });
+        setAssets(current => page === 1 ? response.assets || [] : [...current, ...(response.assets || [])]);
+        setTags(response.tags || []);
+        setTotalPages(response.pagination?.totalPages || 1);
+      } catch (err: any) {
+        console.error('Error fetching media:', err);
+        alert(err.response?.data?.error || 'Failed to load media library');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAssets();
+  }, [open, search, tag, page]);
+
+  useEffect(() => {
+    if (!open) setSelected(null);
+  }, [open]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      alert('Please select an image file');
+      return;
+    }
+
+    try {
+      setUploading(true);
+      const asset = await mediaAPI.upload(file, folder);
+      setAssets(current => [asset, ...current]);
+      setSelected(asset);
+    } catch (err: any) {
+      console.error('Error uploading image:', err);
+      alert(err.response?.data?.error || 'Failed to upload image. Please try again.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!selected) return;
+    onSelect(selected);
+    onClose();
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-[60] p-4">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.9 }}
+            className="bg-slate-800 rounded-xl p-4 sm:p-6 max-w-4xl w-full max-h-[90vh] flex flex-col border border-slate-700"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-white text-xl sm:text-2xl">{title}</h2>
+              <button
+                type="button"
+                onClick={onClose}
+                className="text-slate-400 hover:text-white transition-colors"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3 mb-3">
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  setSearch(searchInput.trim());
+                  setPage(1);
+                }}
+                className="relative flex-1"
+              >
+                <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Search by name, alt text or tag..."
+                  className={`${inputClass} pl-9`}
+                />
+              </form>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleUpload}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploading}
+                className="bg-cyan-500 hover:bg-cyan-600 disabled:opacity-60 text-white px-4 py-2 rounded-lg text-sm flex items-center justify-center gap-2"
+              >
+                {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                {uploading ? "Uploading..." : "Upload New"}
+              </button>
+            </div>
+
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-3">
+                {["", ...tags].map((value) => (
+                  <button
+                    key={value || "all"}
+                    type="button"
+                    onClick={() => {
+                      setTag(value);
+                      setPage(1);
+                    }}
+                    className={`px-3 py-1 rounded-full text-xs transition-all ${tag === value
+                      ? "bg-cyan-500 text-white"
+                      : "bg-slate-700 text-slate-300 hover:bg-slate-600"
+                      }`}
+                  >
+                    {value || "All"}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto min-h-[200px]">
+              {loading && page === 1 ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
+                </div>
+              ) : assets.length === 0 ? (
+                <div className="text-center py-12">
+                  <ImageIcon className="w-12 h-12 text-slate-600 mx-auto mb-3" />
+                  <p className="text-slate-400">No images found. Upload one to get started.</p>
+                </div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+                    {assets.map((asset) => (
+                      <button
+                        key={asset.id}
+                        type="button"
+                        onClick={() => setSelected(asset)}
+                        onDoubleClick={() => {
+                          onSelect(asset);
+                          onClose();
+                        }}
+                        title={asset.altText || asset.filename}
+                        className={`relative aspect-square rounded-lg overflow-hidden border-2 transition-all ${selected?.id === asset.id
+                          ? "border-cyan-500"
+                          : "border-transparent hover:border-slate-500"
+                          }`}
+                      >
+                        <img
+                          src={asset.sizes?.thumbnail || asset.url}
+                          alt={asset.altText || asset.filename}
+                          className="w-full h-full object-cover bg-slate-900"
+                        />
+                        {selected?.id === asset.id && (
+                          <span className="absolute top-1 right-1 bg-cyan-500 rounded-full p-0.5">
+                            <Check className="w-3 h-3 text-white" />
+                          </span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                  {page < totalPages && (
+                    <div className="flex justify-center mt-4">
+                      <button
+                        type="button"
+                        onClick={() => setPage(p => p + 1)}
+                        disabled={loading}
+                        className="px-4 py-2 rounded-lg bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-50 text-sm"
+                      >
+                        {loading ? "Loading..." : "Load more"}
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mt-4 pt-4 border-t border-slate-700">
+              <p className="text-slate-400 text-sm truncate">
+                {selected ? `${selected.filename} · ${selected.width}×${selected.height}` : "Select an image"}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleConfirm}
+                  disabled={!selected}
+                  className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-sm"
+                >
+                  Use Image
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { motion, AnimatePresence } from "motion/react";
+import { useState, useRef, useEffect } from "react";
+import { X, Upload, Loader2, FileSpreadsheet, AlertTriangle, CheckCircle } from "lucide-react";
+import { productSheetsAPI, ProductImportReport } from "@/lib/api";
+
+interface ProductImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+/**
+ * Imports products from a CSV or XLSX sheet. The sheet is checked with a dry run
+ * first; the import only runs once that comes back without errors.
+ */
+export function ProductImportDialog({ open, onClose, onImported }: ProductImportDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ProductImportReport | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (open) return;
+    setFile(null);
+    setReport(null);
+    setMessage(null);
+  }, [open]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!selected) return;
+
+    setFile(selected);
+    setReport(null);
+    setMessage(null);
+    try {
+      setChecking(true);
+      const response = await productSheetsAPI.import(selected, true);
+      setReport(response.report);
+    } catch (err: any) {
+      console.error('Error checking import:', err);
+      setFile(null);
+      alert(err.response?.data?.error || 'Failed to read the file');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      const response = await productSheetsAPI.import(file, false);
+      setReport(response.report);
+      setMessage(response.message || 'Import finished');
+      onImported();
+    } catch (err: any) {
+      console.error('Error importing products:', err);
+      if (err.response?.data?.report) setReport(err.response.data.report);
+      alert(err.response?.data?.error || 'Failed to import products');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const imagesToFetch = report?.items.reduce((sum, item) => sum + item.imagesToFetch, 0) || 0;
+  const canImport = !!file && !!report?.dryRun && report.errors.length === 0 && report.items.length > 0;
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.9 }}
+            className="bg-slate-800 rounded-xl p-4 sm:p-6 max-w-3xl w-full max-h-[90vh] flex flex-col border border-slate-700"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-white text-xl sm:text-2xl">Import Products</h2>
+              <button
+                type="button"
+                onClick={onClose}
+                className="text-slate-400 hover:text-white transition-colors"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <p className="text-slate-400 text-sm mb-4">
+              Upload a CSV or XLSX file in the export layout. Products are matched by slug or SKU and updated;
+              the rest are created. For products with variants, add one row per variant with the same slug.
+              Separate image URLs with <code className="text-cyan-400">|</code>.
+            </p>
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={checking || importing}
+              className="bg-slate-700 hover:bg-slate-600 disabled:opacity-60 text-white px-4 py-3 rounded-lg text-sm flex items-center justify-center gap-2 mb-4"
+            >
+              {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileSpreadsheet className="w-4 h-4" />}
+              {checking ? "Checking..." : file ? file.name : "Choose File"}
+            </button>
+
+            <div className="flex-1 overflow-y-auto min-h-0">
+              {report && (
+                <div className="space-y-4">
+                  {message && (
+                    <div className="flex items-center gap-2 bg-green-500/20 border border-green-500/30 rounded-lg p-3 text-green-400 text-sm">
+                      <CheckCircle className="w-4 h-4 flex-shrink-0" />
+                      {message}
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    <div className="bg-slate-900/60 rounded-lg p-3">
+                      <p className="text-slate-400 text-xs">Rows</p>
+                      <p className="text-white text-lg">{report.totalRows}</p>
+                    </div>
+                    <div className="bg-slate-900/60 rounded-lg p-3">
+                      <p className="text-slate-400 text-xs">{report.dryRun ? "To create" : "Created"}</p>
+                      <p className="text-green-400 text-lg">{report.created}</p>
+                    </div>
+                    <div className="bg-slate-900/60 rounded-lg p-3">
+                      <p className="text-slate-400 text-xs">{report.dryRun ? "To update" : "Updated"}</p>
+                      <p className="text-cyan-400 text-lg">{report.updated}</p>
+                    </div>
+                    <div className="bg-slate-900/60 rounded-lg p-3">
+                      <p className="text-slate-400 text-xs">{report.dryRun ? "Errors" : "Failed"}</p>
+                      <p className="text-red-400 text-lg">{report.dryRun ? report.errors.length : report.failed}</p>
+                    </div>
+                  </div>
+
+                  {report.dryRun && imagesToFetch > 0 && (
+                    <p className="text-slate-400 text-sm">
+                      {imagesToFetch} image(s) will be downloaded into the media library.
+                    </p>
+                  )}
+
+                  {report.errors.length > 0 && (
+                    <div>
+                      <p className="text-red-400 text-sm mb-2 flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4" />
+                        Fix these rows and choose the file again. Nothing is imported while there are errors.
+                      </p>
+                      <div className="bg-slate-900/60 rounded-lg divide-y divide-slate-700/60">
+                        {report.errors.map((issue, index) => (
+                          <div key={index} className="flex gap-3 px-3 py-2 text-sm">
+                            <span className="text-slate-500 w-16 flex-shrink-0">Row {issue.row}</span>
+                            <span className="text-slate-300">{issue.message}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {report.items.length > 0 && (
+                    <div className="bg-slate-900/60 rounded-lg divide-y divide-slate-700/60">
+                      {report.items.map((item) => (
+                        <div key={item.slug} className="flex items-center gap-3 px-3 py-2 text-sm">
+                          <span className={`w-16 flex-shrink-0 text-xs ${
+                            item.status === "failed"
+                              ? "text-red-400"
+                              : (item.status || item.action).startsWith("create") ? "text-green-400" : "text-cyan-400"
+                            }`}
+                          >
+                            {item.status || item.action}
+                          </span>
+                          <span className="text-white truncate flex-1">{item.title}</span>
+                          {item.variants > 0 && <span className="text-slate-500 text-xs">{item.variants} variants</span>}
+                          {item.error && <span className="text-red-400 text-xs truncate">{item.error}</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2 mt-4 pt-4 border-t border-slate-700">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm"
+              >
+                {report && !report.dryRun ? "Done" : "Cancel"}
+              </button>
+              {(!report || report.dryRun) && (
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={!canImport || importing}
+                  className="px-4 py-2 bg-green-500 hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-sm flex items-center gap-2"
+                >
+                  {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  {importing ? "Importing..." : `Import ${report?.items.length || 0} Products`}
+                </button>
+              )}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
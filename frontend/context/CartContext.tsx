@@ -3,14 +3,28 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 
 export interface CartItem {
-  id: string;
+  id: string; // Product id, or "productId:variantId" for a variant
   name: string;
   price: number;
   originalPrice?: number;
   image: string;
   quantity: number;
+  productId?: string; // Set for variant lines
+  variantId?: string;
+  variantLabel?: string; // e.g. "Black / M"
 }
 
+// Cart line id for a product, or for one of its variants
+export const getCartItemId = (productId: string, variantId?: string) =>
+  variantId ? `${productId}:${variantId}` : productId;
+
+// The item as the checkout quote and order APIs expect it
+export const toOrderItem = (item: CartItem) => ({
+  productId: item.productId || item.id,
+  ...(item.variantId && { variantId: item.variantId }),
+  quantity: item.quantity,
+});
+
 interface CartContextType {
   cartItems: CartItem[];
   addToCart: (item: Omit<CartItem, 'quantity'>) => void;
@@ -0,0 +1,107 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+
+export const MAX_COMPARE_ITEMS = 4;
+
+export interface CompareItem {
+  id: string; // Product id
+  title: string;
+  slug?: string;
+  image: string;
+}
+
+interface CompareContextType {
+  compareItems: CompareItem[];
+  addToCompare: (item: CompareItem) => boolean; // False when the list is full
+  removeFromCompare: (id: string) => void;
+  clearCompare: () => void;
+  isInCompare: (id: string) => boolean;
+}
+
+const CompareContext = createContext<CompareContextType | undefined>(undefined);
+
+const COMPARE_STORAGE_KEY = 'compare_items';
+
+// Load compare list from localStorage
+const loadCompareFromStorage = (): CompareItem[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(COMPARE_STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored).slice(0, MAX_COMPARE_ITEMS);
+    }
+  } catch (error) {
+    console.error('Error loading compare list from localStorage:', error);
+  }
+  return [];
+};
+
+// Save compare list to localStorage
+const saveCompareToStorage = (items: CompareItem[]) => {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(COMPARE_STORAGE_KEY, JSON.stringify(items));
+  } catch (error) {
+    console.error('Error saving compare list to localStorage:', error);
+  }
+};
+
+export function CompareProvider({ children }: { children: ReactNode }) {
+  // Load compare list from localStorage on first render
+  const [compareItems, setCompareItems] = useState<CompareItem[]>(loadCompareFromStorage);
+
+  // Save compare list to localStorage whenever it changes
+  useEffect(() => {
+    saveCompareToStorage(compareItems);
+  }, [compareItems]);
+
+  const isInCompare = (id: string) => compareItems.some((item) => item.id === id);
+
+  const addToCompare = (item: CompareItem) => {
+    if (isInCompare(item.id)) return true;
+    if (compareItems.length >= MAX_COMPARE_ITEMS) return false;
+    setCompareItems((prevItems) => [...prevItems, item].slice(0, MAX_COMPARE_ITEMS));
+    return true;
+  };
+
+  const removeFromCompare = (id: string) => {
+    setCompareItems((prevItems) => prevItems.filter((item) => item.id !== id));
+  };
+
+  const clearCompare = () => {
+    setCompareItems([]);
+  };
+
+  return (
+    <CompareContext.Provider
+      value={{
+        compareItems,
+        addToCompare,
+        removeFromCompare,
+        clearCompare,
+        isInCompare,
+      }}
+    >
+      {children}
+    </CompareContext.Provider>
+  );
+}
+
+export function useCompare() {
+  const context = useContext(CompareContext);
+  if (!context) {
+    // Return a safe default during SSR when context is not available
+    if (typeof window === 'undefined') {
+      return {
+        compareItems: [],
+        addToCompare: () => false,
+        removeFromCompare: () => {},
+        clearCompare: () => {},
+        isInCompare: () => false,
+      };
+    }
+    throw new Error('useCompare must be used within a CompareProvider');
+  }
+  return context;
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { currencyAPI } from '@/lib/api';
+
+export const BASE_CURRENCY = 'USD';
+
+export interface CurrencyOption {
+  code: string;
+  rate: number;
+}
+
+interface CurrencyContextType {
+  currency: string;
+  currencies: CurrencyOption[];
+  setCurrency: (code: string) => void;
+  // Catalog prices are in the base currency; convert them for display
+  convertPrice: (amount: number | string) => number;
+  formatPrice: (amount: number | string) => string;
+  // Amounts already in a given currency (quotes, orders)
+  formatMoney: (amount: number | string, currency?: string) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+const CURRENCY_STORAGE_KEY = 'currency';
+
+export function formatCurrencyAmount(amount: number | string, currency: string = BASE_CURRENCY): string {
+  const value = typeof amount === 'string' ? parseFloat(amount) : amount;
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(value || 0);
+  } catch {
+    return `${currency} ${(value || 0).toFixed(2)}`;
+  }
+}
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const [currency, setCurrencyState] = useState<string>(BASE_CURRENCY);
+  const [currencies, setCurrencies] = useState<CurrencyOption[]>([{ code: BASE_CURRENCY, rate: 1 }]);
+
+  // Load the customer's choice and the available rates on mount
+  useEffect(() => {
+    const stored = typeof window !== 'undefined' ? localStorage.getItem(CURRENCY_STORAGE_KEY) : null;
+
+    const loadCurrencies = async () => {
+      try {
+        const response = await currencyAPI.getAll();
+        const available: CurrencyOption[] = response.currencies || [];
+        if (available.length > 0) setCurrencies(available);
+        // Fall back to the base currency if the stored one is no longer offered
+        if (stored && available.some((c) => c.code === stored)) {
+          setCurrencyState(stored);
+        }
+      } catch (error) {
+        console.error('Error loading currencies:', error);
+      }
+    };
+
+    loadCurrencies();
+  }, []);
+
+  const setCurrency = (code: string) => {
+    setCurrencyState(code);
+    try {
+      localStorage.setItem(CURRENCY_STORAGE_KEY, code);
+    } catch (error) {
+      console.error('Error saving currency to localStorage:', error);
+    }
+  };
+
+  const rate = currencies.find((c) => c.code === currency)?.rate || 1;
+
+  const convertPrice = useCallback(
+    (amount: number | string) => (typeof amount === 'string' ? parseFloat(amount) : amount) * rate,
+    [rate]
+  );
+
+  const formatPrice = useCallback(
+    (amount: number | string) => formatCurrencyAmount(convertPrice(amount), currency),
+    [convertPrice, currency]
+  );
+
+  const formatMoney = useCallback(
+    (amount: number | string, code?: string) => formatCurrencyAmount(amount, code || currency),
+    [currency]
+  );
+
+  return (
+    <CurrencyContext.Provider
+      value={{
+        currency,
+        currencies,
+        setCurrency,
+        convertPrice,
+        formatPrice,
+        formatMoney,
+      }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    // Return a safe default during SSR when context is not available
+    if (typeof window === 'undefined') {
+      return {
+        currency: BASE_CURRENCY,
+        currencies: [{ code: BASE_CURRENCY, rate: 1 }],
+        setCurrency: () => {},
+        convertPrice: (amount: number | string) => (typeof amount === 'string' ? parseFloat(amount) : amount),
+        formatPrice: (amount: number | string) => formatCurrencyAmount(amount),
+        formatMoney: (amount: number | string, code?: string) => formatCurrencyAmount(amount, code),
+      };
+    }
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
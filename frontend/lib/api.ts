@@ -110,6 +110,9 @@ export const adminAPI = {
 // =======================
 // PRODUCTS API
 // =======================
+// Only ACTIVE products are listed and sold; admins pass status to see the others
+export type ProductStatus = 'DRAFT' | 'ACTIVE' | 'ARCHIVED'
+
 export const productsAPI = {
   getAll: (params?: any) =>
     api.get('/products', { params }).then(r => r.data),
@@ -119,8 +122,72 @@ export const productsAPI = {
     api.post('/products', data).then(r => r.data),
   update: (id: string, data: any) =>
     api.put(`/products/${id}`, data).then(r => r.data),
-  delete: (id: string) =>
+  // Products with orders are archived instead of deleted; the response has archived: true
+  delete: (id: string): Promise<{ message: string; archived: boolean; product?: any }> =>
     api.delete(`/products/${id}`).then(r => r.data),
+  archive: (id: string) =>
+    api.put(`/products/${id}`, { status: 'ARCHIVED' }).then(r => r.data),
+  restore: (id: string) =>
+    api.put(`/products/${id}`, { status: 'ACTIVE' }).then(r => r.data),
+  // cart: the other product ids in the cart, for recommendations across the whole cart
+  getRecommendations: (id: string, params?: { limit?: number; cart?: string }): Promise<{ frequentlyBoughtTogether: any[]; related: any[] }> =>
+    api.get(`/products/${id}/recommendations`, { params }).then(r => r.data),
+  // Up to four ids or slugs; specs rows line up with products
+  compare: (ids: string[]): Promise<CompareResponse> =>
+    api.get('/products/compare', { params: { ids: ids.join(',') } }).then(r => r.data),
+}
+
+export interface CompareSpecRow {
+  key: string
+  name: string
+  unit: string | null
+  type: SpecType
+  values: (string | null)[] // Display values, one per product; null when missing
+  differs: boolean
+}
+
+export interface CompareResponse {
+  products: any[]
+  specs: CompareSpecRow[]
+}
+
+// =======================
+// PRODUCT IMPORT / EXPORT API
+// =======================
+export interface ProductImportItem {
+  rows: number[]
+  slug: string
+  title: string
+  action: 'create' | 'update'
+  productId: string | null
+  variants: number
+  imagesToFetch: number
+  status?: 'created' | 'updated' | 'failed'
+  error?: string
+}
+
+export interface ProductImportReport {
+  dryRun: boolean
+  totalRows: number
+  created: number
+  updated: number
+  failed: number
+  errors: { row: number; message: string }[]
+  items: ProductImportItem[]
+}
+
+export const productSheetsAPI = {
+  // A dry run validates the sheet and reports what would change without saving
+  import: (file: File, dryRun: boolean): Promise<{ message?: string; report: ProductImportReport }> => {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('dryRun', String(dryRun))
+    return api.post('/admin/products/import', formData, { headers: { 'Content-Type': 'multipart/form-data' } })
+      .then(r => r.data)
+  },
+  // Takes the same filters as productsAPI.getAll
+  export: (params: { format: 'csv' | 'xlsx'; category?: string; search?: string; sort?: string; status?: string }): Promise<Blob> =>
+    api.get('/admin/products/export', { params, responseType: 'blob' }).then(r => r.data),
 }
 
 // =======================
@@ -137,6 +204,11 @@ export const ordersAPI = {
     api.put(`/orders/${id}`, data).then(r => r.data),
   updateStatus: (id: string) =>
     api.post(`/orders/${id}/update-status`).then(r => r.data),
+  getRefunds: (id: string) =>
+    api.get(`/orders/${id}/refunds`).then(r => r.data),
+  // Retrying with the same requestId returns the refund already made instead of issuing another
+  refund: (id: string, data: { amount?: number; reason?: string }, requestId?: string) =>
+    api.post(`/orders/${id}/refunds`, data, requestId ? { headers: { 'Idempotency-Key': requestId } } : undefined).then(r => r.data),
 }
 
 // =======================
@@ -160,6 +232,258 @@ export const checkoutAPI = {
   },
 }
 
+// =======================
+// CHECKOUT QUOTE API
+// =======================
+export const checkoutQuoteAPI = {
+  get: (data: { items: { productId: string; variantId?: string; quantity: number }[]; shippingAddress?: { country?: string; region?: string }; shippingMethod?: string; couponCode?: string; currency?: string; useWallet?: boolean }) =>
+    api.post('/checkout/quote', data).then(r => r.data),
+}
+
+// =======================
+// SHIPPING API
+// =======================
+export const shippingAPI = {
+  getZones: () => api.get('/shipping').then(r => r.data),
+  getAdminZones: () =>
+    api.get('/admin/shipping/zones').then(r => r.data),
+  createZone: (data: any) =>
+    api.post('/admin/shipping/zones', data).then(r => r.data),
+  updateZone: (id: string, data: any) =>
+    api.put(`/admin/shipping/zones/${id}`, data).then(r => r.data),
+  deleteZone: (id: string) =>
+    api.delete(`/admin/shipping/zones/${id}`).then(r => r.data),
+}
+
+// =======================
+// TAX API
+// =======================
+export const taxAPI = {
+  getRules: (params?: any) =>
+    api.get('/admin/tax-rules', { params }).then(r => r.data),
+  createRule: (data: any) =>
+    api.post('/admin/tax-rules', data).then(r => r.data),
+  updateRule: (id: string, data: any) =>
+    api.put(`/admin/tax-rules/${id}`, data).then(r => r.data),
+  deleteRule: (id: string) =>
+    api.delete(`/admin/tax-rules/${id}`).then(r => r.data),
+}
+
+// =======================
+// COUPONS API
+// =======================
+export const couponsAPI = {
+  getAll: (params?: any) =>
+    api.get('/admin/coupons', { params }).then(r => r.data),
+  getById: (id: string) =>
+    api.get(`/admin/coupons/${id}`).then(r => r.data),
+  create: (data: any) =>
+    api.post('/admin/coupons', data).then(r => r.data),
+  update: (id: string, data: any) =>
+    api.put(`/admin/coupons/${id}`, data).then(r => r.data),
+  delete: (id: string) =>
+    api.delete(`/admin/coupons/${id}`).then(r => r.data),
+}
+
+// =======================
+// PROMOTIONS API
+// =======================
+export type PromotionType = 'PERCENTAGE' | 'FIXED_AMOUNT'
+
+export interface Promotion {
+  id: string
+  name: string
+  description: string | null
+  type: PromotionType
+  value: string
+  productIds: string[] // No products or categories puts the whole catalogue on sale
+  categoryIds: string[]
+  bannerImage: string | null
+  startsAt: string
+  endsAt: string
+  isActive: boolean
+  orderItemCount?: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PromotionInput {
+  name?: string
+  description?: string | null
+  type?: PromotionType
+  value?: number
+  productIds?: string[]
+  categoryIds?: string[]
+  bannerImage?: string | null
+  startsAt?: string
+  endsAt?: string
+  isActive?: boolean
+}
+
+// Attached to products on sale through a promotion
+export interface PromotionSummary {
+  id: string
+  name: string
+  bannerImage: string | null
+  endsAt: string
+}
+
+export const promotionsAPI = {
+  getAll: (): Promise<{ promotions: Promotion[] }> =>
+    api.get('/admin/promotions').then(r => r.data),
+  getById: (id: string): Promise<{ promotion: Promotion }> =>
+    api.get(`/admin/promotions/${id}`).then(r => r.data),
+  create: (data: PromotionInput) =>
+    api.post('/admin/promotions', data).then(r => r.data),
+  update: (id: string, data: PromotionInput) =>
+    api.put(`/admin/promotions/${id}`, data).then(r => r.data),
+  delete: (id: string) =>
+    api.delete(`/admin/promotions/${id}`).then(r => r.data),
+}
+
+// =======================
+// OFFERS API
+// =======================
+export interface OffersResponse {
+  promotions: Promotion[] // Running now
+  upcoming: Promotion[]
+  products: any[]
+  pagination: { page: number; limit: number; total: number; totalPages: number }
+  serverTime: string // For countdowns that don't depend on the device clock
+}
+
+export const offersAPI = {
+  // Takes the product listing filters; sorted by biggest discount unless sort is given
+  get: (params?: { page?: number; limit?: number; promotion?: string; minDiscount?: number; category?: string; sort?: string }): Promise<OffersResponse> =>
+    api.get('/offers', { params }).then(r => r.data),
+}
+
+// =======================
+// CURRENCY API
+// =======================
+export const currencyAPI = {
+  getAll: () =>
+    api.get('/currencies').then(r => r.data),
+  getRates: () =>
+    api.get('/admin/currency-rates').then(r => r.data),
+  saveRate: (data: any) =>
+    api.post('/admin/currency-rates', data).then(r => r.data),
+  updateRate: (id: string, data: any) =>
+    api.put(`/admin/currency-rates/${id}`, data).then(r => r.data),
+  deleteRate: (id: string) =>
+    api.delete(`/admin/currency-rates/${id}`).then(r => r.data),
+  importRates: (data: { format: 'csv' | 'json'; content: string }) =>
+    api.post('/admin/currency-rates/import', data).then(r => r.data),
+}
+
+// =======================
+// WALLET API
+// =======================
+export const walletAPI = {
+  get: () =>
+    api.get('/wallet').then(r => r.data),
+  getForUser: (userId: string) =>
+    api.get(`/admin/users/${userId}/wallet`).then(r => r.data),
+  adjust: (userId: string, data: { type: 'CREDIT' | 'DEBIT'; amount: number; note: string }) =>
+    api.post(`/admin/users/${userId}/wallet`, data).then(r => r.data),
+}
+
+// =======================
+// INVENTORY API
+// =======================
+export const inventoryAPI = {
+  getAll: (params?: { search?: string; lowStock?: boolean; page?: number; limit?: number }) =>
+    api.get('/admin/inventory', { params }).then(r => r.data),
+  getHistory: (productId: string, params?: { page?: number; limit?: number }) =>
+    api.get(`/admin/inventory/${productId}`, { params }).then(r => r.data),
+  recordMovement: (productId: string, data: { variantId?: string; type: 'RECEIPT' | 'ADJUSTMENT'; quantity: number; reason: string }) =>
+    api.post(`/admin/inventory/${productId}`, data).then(r => r.data),
+  updateReorderPoint: (productId: string, reorderPoint: number) =>
+    api.put(`/admin/inventory/${productId}`, { reorderPoint }).then(r => r.data),
+}
+
+// =======================
+// UPLOADS API
+// =======================
+export type UploadFolder = 'products' | 'blog' | 'projects' | 'profile' | 'returns' | 'misc'
+
+export interface UploadedImage {
+  key: string
+  url: string
+  contentType: string
+  size: number
+  width: number
+  height: number
+  sizes: Partial<Record<'thumbnail' | 'small' | 'medium' | 'large', string>>
+}
+
+const postUpload = (file: File, folder: UploadFolder) => {
+  const formData = new FormData()
+  formData.append('file', file)
+  formData.append('folder', folder)
+  // multipart header lets the browser add the boundary instead of axios sending JSON
+  return api.post('/uploads', formData, { headers: { 'Content-Type': 'multipart/form-data' } })
+}
+
+export const uploadsAPI = {
+  upload: (file: File, folder: UploadFolder): Promise<UploadedImage> =>
+    postUpload(file, folder).then(r => r.data.upload),
+}
+
+// =======================
+// MEDIA LIBRARY API
+// =======================
+export interface MediaAsset {
+  id: string
+  key: string
+  url: string
+  sizes: UploadedImage['sizes']
+  folder: string
+  filename: string
+  contentType: string
+  size: number
+  width: number
+  height: number
+  altText: string | null
+  tags: string[]
+  createdAt: string
+  updatedAt: string
+  usageCount?: number
+}
+
+export interface MediaUsage {
+  type: 'product' | 'variant' | 'blog' | 'project' | 'category' | 'promotion'
+  id: string
+  title: string
+  productId?: string
+}
+
+export const mediaAPI = {
+  getAll: (params?: { search?: string; tag?: string; folder?: string; page?: number; limit?: number }) =>
+    api.get('/admin/media', { params }).then(r => r.data),
+  getById: (id: string): Promise<{ asset: MediaAsset; usages: MediaUsage[] }> =>
+    api.get(`/admin/media/${id}`).then(r => r.data),
+  // Admin uploads to library folders come back registered as an asset
+  upload: (file: File, folder: UploadFolder = 'misc'): Promise<MediaAsset> =>
+    postUpload(file, folder).then(r => r.data.asset),
+  update: (id: string, data: { filename?: string; altText?: string | null; tags?: string[] }) =>
+    api.put(`/admin/media/${id}`, data).then(r => r.data),
+  delete: (id: string) =>
+    api.delete(`/admin/media/${id}`).then(r => r.data),
+}
+
+// =======================
+// WEBHOOK EVENTS API
+// =======================
+export const webhookEventsAPI = {
+  getAll: (params?: { status?: string; type?: string; page?: number; limit?: number }) =>
+    api.get('/admin/webhook-events', { params }).then(r => r.data),
+  getById: (id: string) =>
+    api.get(`/admin/webhook-events/${id}`).then(r => r.data),
+  replay: (id: string) =>
+    api.post(`/admin/webhook-events/${id}/replay`).then(r => r.data),
+}
+
 // =======================
 // PAYMENT INTENT API (for Stripe Elements)
 // =======================
@@ -270,13 +594,112 @@ export const wishlistAPI = {
     api.delete(`/wishlist/${productId}`).then(r => r.data),
 }
 
+// =======================
+// REVIEWS API
+// =======================
+export const reviewsAPI = {
+  getAll: (productId: string, params?: any) =>
+    api.get(`/products/${productId}/reviews`, { params }).then(r => r.data),
+  create: (productId: string, data: { rating: number; comment?: string }) =>
+    api.post(`/products/${productId}/reviews`, data).then(r => r.data),
+  update: (productId: string, reviewId: string, data: { rating?: number; comment?: string }) =>
+    api.put(`/products/${productId}/reviews/${reviewId}`, data).then(r => r.data),
+  delete: (productId: string, reviewId: string) =>
+    api.delete(`/products/${productId}/reviews/${reviewId}`).then(r => r.data),
+  getModerationQueue: (params?: any) =>
+    api.get('/admin/reviews', { params }).then(r => r.data),
+  moderate: (reviewId: string, data: { hidden: boolean; hiddenReason?: string }) =>
+    api.put(`/admin/reviews/${reviewId}`, data).then(r => r.data),
+}
+
 // =======================
 // CATEGORIES API
 // =======================
+export interface Category {
+  id: string
+  name: string
+  slug: string
+  description: string | null
+  image: string | null
+  sortOrder: number
+  parentId: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CategoryNode extends Category {
+  productCount: number // Including subcategories
+  children: CategoryNode[]
+}
+
+export interface CategoryInput {
+  name?: string
+  slug?: string
+  description?: string | null
+  image?: string | null
+  parentId?: string | null
+  sortOrder?: number
+}
+
 export const categoriesAPI = {
-  getAll: () => api.get('/categories').then(r => r.data),
-  create: (data: any) => api.post('/categories', data).then(r => r.data),
+  // Parents come before their children, siblings in sort order
+  getAll: (): Promise<{ categories: Category[] }> => api.get('/categories').then(r => r.data),
+  getTree: (): Promise<{ tree: CategoryNode[] }> => api.get('/categories/tree').then(r => r.data),
+  // Accepts an id or a slug
+  getById: (id: string): Promise<{ category: Category; path: Category[]; children: Category[] }> =>
+    api.get(`/categories/${id}`).then(r => r.data),
+  create: (data: CategoryInput) => api.post('/categories', data).then(r => r.data),
+  update: (id: string, data: CategoryInput) => api.put(`/categories/${id}`, data).then(r => r.data),
   delete: (id: string) => api.delete(`/categories/${id}`).then(r => r.data),
 }
 
+// =======================
+// PRODUCT SPECS API
+// =======================
+export type SpecType = 'TEXT' | 'NUMBER' | 'BOOLEAN' | 'SELECT'
+
+export interface SpecDefinition {
+  id: string
+  categoryId: string // A parent category's id for inherited specs
+  key: string // Used in listing filters: spec=key:value
+  name: string
+  type: SpecType
+  unit: string | null
+  options: string[] // SELECT only
+  filterable: boolean
+  sortOrder: number
+}
+
+export interface SpecDefinitionInput {
+  key?: string
+  name?: string
+  type?: SpecType
+  unit?: string | null
+  options?: string[]
+  filterable?: boolean
+  sortOrder?: number
+}
+
+// A product's value for one spec, as returned with the product
+export interface ProductSpec {
+  key: string
+  name: string
+  type: SpecType
+  unit: string | null
+  value: string | number | boolean
+  display: string
+}
+
+export const specsAPI = {
+  // Includes specs inherited from parent categories
+  getForCategory: (categoryId: string): Promise<{ specs: SpecDefinition[] }> =>
+    api.get(`/categories/${categoryId}/specs`).then(r => r.data),
+  create: (categoryId: string, data: SpecDefinitionInput) =>
+    api.post(`/categories/${categoryId}/specs`, data).then(r => r.data),
+  update: (categoryId: string, specId: string, data: SpecDefinitionInput) =>
+    api.put(`/categories/${categoryId}/specs/${specId}`, data).then(r => r.data),
+  delete: (categoryId: string, specId: string): Promise<{ message: string; removedValues: number }> =>
+    api.delete(`/categories/${categoryId}/specs/${specId}`).then(r => r.data),
+}
+
 export default api
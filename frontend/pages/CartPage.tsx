@@ -1,19 +1,26 @@
 "use client";
 
 import { motion } from "motion/react";
-import { Minus, Plus, Trash2, Loader2, XCircle } from "lucide-react";
-import { useCart } from "../context/CartContext";
-import { useState, useEffect } from "react";
+import { Minus, Plus, Trash2, Loader2, XCircle, Tag, X, Wallet } from "lucide-react";
+import { useCart, toOrderItem } from "../context/CartContext";
+import { useState, useEffect, useRef } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
-import { ordersAPI, paymentIntentAPI, productsAPI } from "@/lib/api";
+import { ordersAPI, paymentIntentAPI, productsAPI, checkoutQuoteAPI, walletAPI } from "@/lib/api";
 import { useAuth } from "@/context/AuthContext";
+import { useCurrency } from "@/context/CurrencyContext";
 import { toast } from "sonner";
 import { StripeProvider } from "@/components/StripeProvider";
 import { StripePaymentForm } from "@/components/StripePaymentForm";
+import { QuoteBreakdown, CheckoutQuote } from "@/components/QuoteBreakdown";
+import { ReservationCountdown } from "@/components/ReservationCountdown";
+import { ProductRecommendations } from "@/components/ProductRecommendations";
 
 export function CartPage() {
-  const { cartItems, updateQuantity, removeFromCart, clearCart, getSubtotal } = useCart();
+  const { cartItems, updateQuantity, removeFromCart, clearCart } = useCart();
+  // Variant lines share their product's recommendations
+  const cartProductIds = Array.from(new Set(cartItems.map((item) => item.productId || item.id)));
   const { user } = useAuth();
+  const { currency, formatPrice } = useCurrency();
   const router = useRouter();
   const searchParams = useSearchParams();
 
@@ -23,6 +30,7 @@ export function CartPage() {
     city: '',
     zipCode: '',
     country: '',
+    region: '',
     phone: ''
   });
 
@@ -41,6 +49,18 @@ export function CartPage() {
   const [showPaymentForm, setShowPaymentForm] = useState(false);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [currentOrderId, setCurrentOrderId] = useState<string | null>(null);
+  const [reservationExpiresAt, setReservationExpiresAt] = useState<string | null>(null);
+  const [orderTotal, setOrderTotal] = useState<number>(0);
+  const [orderCurrency, setOrderCurrency] = useState<string>(currency);
+  const [quote, setQuote] = useState<CheckoutQuote | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [shippingMethod, setShippingMethod] = useState<string | undefined>(undefined);
+  const [couponInput, setCouponInput] = useState("");
+  const [couponCode, setCouponCode] = useState<string | null>(null);
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+  const [walletBalance, setWalletBalance] = useState(0);
+  const [useWallet, setUseWallet] = useState(false);
 
   // Check for canceled payment redirect
   useEffect(() => {
@@ -50,9 +70,98 @@ export function CartPage() {
     }
   }, [searchParams]);
 
-  const shippingCost = 10.00;
-  const subtotal = getSubtotal();
-  const total = subtotal + shippingCost;
+  // Store credit is kept in the base currency
+  useEffect(() => {
+    if (!user) {
+      setWalletBalance(0);
+      setUseWallet(false);
+      return;
+    }
+    walletAPI.get()
+      .then((response) => setWalletBalance(parseFloat(response.balance) || 0))
+      .catch((err) => console.error('Error loading wallet balance:', err));
+  }, [user]);
+
+  // Fetch the authoritative price breakdown whenever the cart or destination changes
+  const quoteItemsKey = cartItems.map(item => `${item.id}:${item.quantity}`).join(",");
+  // The quote reads the latest cart through a ref and re-runs only when quoteItemsKey changes
+  const cartItemsRef = useRef(cartItems);
+  useEffect(() => {
+    cartItemsRef.current = cartItems;
+  }, [cartItems]);
+  const quoteCountry = shippingInfo.country.trim();
+  const quoteRegion = shippingInfo.region.trim();
+
+  // A different destination may offer different shipping methods
+  useEffect(() => {
+    setShippingMethod(undefined);
+  }, [quoteCountry]);
+  useEffect(() => {
+    const items = cartItemsRef.current;
+    if (items.length === 0) {
+      setQuote(null);
+      setQuoteError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setQuoteLoading(true);
+        const response = await checkoutQuoteAPI.get({
+          items: items.map(toOrderItem),
+          ...(quoteCountry && { shippingAddress: { country: quoteCountry, ...(quoteRegion && { region: quoteRegion }) } }),
+          ...(shippingMethod && { shippingMethod }),
+          ...(couponCode && { couponCode }),
+          ...(useWallet && { useWallet }),
+          currency
+        });
+        if (!cancelled) {
+          setQuote(response.quote);
+          setQuoteError(null);
+        }
+      } catch (err: any) {
+        if (!cancelled) {
+          setQuote(null);
+          setQuoteError(err.response?.data?.error || 'Failed to calculate order total');
+        }
+      } finally {
+        if (!cancelled) setQuoteLoading(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [quoteItemsKey, quoteCountry, quoteRegion, shippingMethod, couponCode, currency, useWallet]);
+
+  // Validate the code against the current cart before applying it to the quote
+  const handleApplyCoupon = async () => {
+    const code = couponInput.trim().toUpperCase();
+    if (!code || cartItems.length === 0) return;
+
+    try {
+      setApplyingCoupon(true);
+      const response = await checkoutQuoteAPI.get({
+        items: cartItems.map(toOrderItem),
+        ...(quoteCountry && { shippingAddress: { country: quoteCountry, ...(quoteRegion && { region: quoteRegion }) } }),
+        ...(shippingMethod && { shippingMethod }),
+        couponCode: code,
+        ...(useWallet && { useWallet }),
+        currency
+      });
+      setQuote(response.quote);
+      setQuoteError(null);
+      setCouponCode(code);
+      setCouponInput("");
+      toast.success(`Coupon ${code} applied`);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to apply coupon');
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
 
   const handleCheckout = async () => {
     if (!user) {
@@ -94,7 +203,7 @@ export function CartPage() {
       // Fetch all products in parallel
       const productPromises = cartItems.map(async (cartItem) => {
         try {
-          const productResponse = await productsAPI.getById(cartItem.id);
+          const productResponse = await productsAPI.getById(cartItem.productId || cartItem.id);
           const product = productResponse.product || productResponse;
           return { cartItem, product };
         } catch (err) {
@@ -112,7 +221,14 @@ export function CartPage() {
           continue;
         }
         
-        const availableStock = Number(product.stock) || 0;
+        const variant = cartItem.variantId
+          ? product.variants?.find((v: any) => v.id === cartItem.variantId)
+          : null;
+        if (cartItem.variantId && !variant) {
+          stockIssues.push(`${cartItem.name}: This option is no longer available`);
+          continue;
+        }
+        const availableStock = Number(variant ? variant.stock : product.stock) || 0;
         const requestedQuantity = cartItem.quantity;
         
         if (availableStock < requestedQuantity) {
@@ -131,16 +247,14 @@ export function CartPage() {
       toast.loading('Creating your order...', { id: 'checkout' });
       
       const orderResponse = await ordersAPI.create({
-        items: cartItems.map(item => ({
-          productId: item.id,
-          quantity: item.quantity
-        })),
+        items: cartItems.map(toOrderItem),
         shippingAddress: {
           fullName: shippingInfo.fullName.trim(),
           address: shippingInfo.address.trim(),
           city: shippingInfo.city.trim(),
           zipCode: shippingInfo.zipCode.trim(),
           country: shippingInfo.country.trim(),
+          ...(shippingInfo.region?.trim() && { region: shippingInfo.region.trim() }),
           ...(shippingInfo.phone?.trim() && { phone: shippingInfo.phone.trim() })
         },
         billingAddress: {
@@ -150,16 +264,35 @@ export function CartPage() {
           zipCode: finalBillingInfo.zipCode.trim(),
           country: finalBillingInfo.country.trim(),
           ...(finalBillingInfo.phone?.trim() && { phone: finalBillingInfo.phone.trim() })
-        }
+        },
+        ...(quote?.shippingMethod && { shippingMethod: quote.shippingMethod }),
+        ...(couponCode && { couponCode }),
+        ...(useWallet && { useWallet }),
+        currency
       });
 
       const orderId = orderResponse.order.id;
       const orderNumber = orderResponse.order.orderNumber || orderId;
+      const amountDue = parseFloat(orderResponse.order.amountDue ?? orderResponse.order.totalAmount);
+      setOrderTotal(amountDue);
+      setOrderCurrency(orderResponse.order.currency || currency);
+      setReservationExpiresAt(orderResponse.order.reservationExpiresAt || null);
 
       // Show success message
       toast.success(`Order #${orderNumber} created successfully!`, { id: 'checkout' });
       setSuccess(true);
 
+      // Store credit covered everything, so there is nothing to charge
+      if (amountDue <= 0) {
+        toast.success('Paid with store credit. Redirecting...');
+        clearCart();
+        setProcessing(false);
+        setTimeout(() => {
+          router.push(`/orders/${orderId}`);
+        }, 1500);
+        return;
+      }
+
       // Create Stripe Payment Intent
       toast.loading('Setting up secure payment...', { id: 'checkout' });
       
@@ -313,7 +446,10 @@ export function CartPage() {
                     />
                     <div className="flex-1 min-w-0">
                       <h3 className="text-slate-900 text-base sm:text-lg mb-1 truncate">{item.name}</h3>
-                      <p className="text-cyan-600 mb-2 sm:mb-3 text-sm sm:text-base">${item.price.toFixed(2)}</p>
+                      {item.variantLabel && (
+                        <p className="text-slate-500 text-xs sm:text-sm mb-1 truncate">{item.variantLabel}</p>
+                      )}
+                      <p className="text-cyan-600 mb-2 sm:mb-3 text-sm sm:text-base">{formatPrice(item.price)}</p>
 
                       <div className="flex items-center justify-between flex-wrap gap-2">
                         {/* Quantity Controls */}
@@ -345,7 +481,7 @@ export function CartPage() {
 
                     {/* Item Total */}
                     <div className="text-right flex-shrink-0">
-                      <p className="text-slate-900 text-base sm:text-lg font-medium">${(item.price * item.quantity).toFixed(2)}</p>
+                      <p className="text-slate-900 text-base sm:text-lg font-medium">{formatPrice(item.price * item.quantity)}</p>
                     </div>
                   </div>
                 </motion.div>
@@ -402,6 +538,13 @@ export function CartPage() {
                   className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
                   required
                 />
+                <input
+                  type="text"
+                  placeholder="State / Region (optional)"
+                  value={shippingInfo.region}
+                  onChange={(e) => setShippingInfo({ ...shippingInfo, region: e.target.value })}
+                  className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
                 <input
                   type="text"
                   placeholder="Phone (optional)"
@@ -459,19 +602,67 @@ export function CartPage() {
             <div className="bg-white rounded-xl p-4 sm:p-6 shadow-md">
               <h2 className="text-slate-900 text-xl sm:text-2xl mb-4 sm:mb-6">Order Summary</h2>
 
-              <div className="space-y-3 mb-4 sm:mb-6">
-                <div className="flex justify-between text-slate-600 text-sm sm:text-base">
-                  <span>Subtotal:</span>
-                  <span>${subtotal.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between text-slate-600 text-sm sm:text-base">
-                  <span>Shipping:</span>
-                  <span>${shippingCost.toFixed(2)}</span>
-                </div>
-                <div className="border-t border-slate-200 pt-3 flex justify-between text-slate-900 text-lg sm:text-xl">
-                  <span>Total:</span>
-                  <span>${total.toFixed(2)}</span>
-                </div>
+              {/* Coupon Code */}
+              <div className="mb-4 pb-4 border-b border-slate-200">
+                {couponCode ? (
+                  <div className="flex items-center justify-between bg-green-50 border border-green-200 rounded-lg px-3 py-2">
+                    <span className="flex items-center gap-2 text-green-700 text-sm">
+                      <Tag className="w-4 h-4" />
+                      {couponCode}
+                      {quote?.coupon?.freeShipping && <span className="text-green-600">(free shipping)</span>}
+                    </span>
+                    <button
+                      onClick={() => setCouponCode(null)}
+                      className="text-slate-500 hover:text-red-600 transition-colors"
+                      aria-label="Remove coupon"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      placeholder="Coupon code"
+                      value={couponInput}
+                      onChange={(e) => setCouponInput(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && handleApplyCoupon()}
+                      className="flex-1 min-w-0 px-3 py-2 border border-slate-300 rounded-lg text-sm uppercase focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                    />
+                    <button
+                      onClick={handleApplyCoupon}
+                      disabled={applyingCoupon || !couponInput.trim()}
+                      className="px-4 py-2 bg-slate-900 hover:bg-slate-800 disabled:opacity-50 text-white rounded-lg text-sm flex items-center gap-2"
+                    >
+                      {applyingCoupon && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Apply
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {/* Store Credit */}
+              {walletBalance > 0 && (
+                <label className="mb-4 pb-4 border-b border-slate-200 flex items-center gap-2 text-slate-700 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={useWallet}
+                    onChange={(e) => setUseWallet(e.target.checked)}
+                    disabled={showPaymentForm}
+                    className="accent-cyan-500"
+                  />
+                  <Wallet className="w-4 h-4 text-cyan-600" />
+                  Use store credit ({formatPrice(walletBalance)} available)
+                </label>
+              )}
+
+              <div className="mb-4 sm:mb-6">
+                <QuoteBreakdown
+                  quote={quote}
+                  loading={quoteLoading}
+                  error={quoteError}
+                  onShippingMethodChange={setShippingMethod}
+                />
               </div>
 
               {error && (
@@ -515,11 +706,28 @@ export function CartPage() {
             {showPaymentForm && clientSecret && currentOrderId && process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY ? (
               <div id="payment-section" className="bg-white rounded-xl p-4 sm:p-6 shadow-md mt-4 sm:mt-6">
                 <h2 className="text-slate-900 text-xl sm:text-2xl mb-4 sm:mb-6">Payment Information</h2>
+                {reservationExpiresAt && (
+                  <div className="mb-4">
+                    <ReservationCountdown
+                      expiresAt={reservationExpiresAt}
+                      onExpire={() => {
+                        toast.error("Your reservation expired. Please place your order again.");
+                        setShowPaymentForm(false);
+                        setClientSecret(null);
+                        setCurrentOrderId(null);
+                        setReservationExpiresAt(null);
+                        setSuccess(false);
+                        setError("Your reservation expired and the items were released. Please place your order again.");
+                      }}
+                    />
+                  </div>
+                )}
                 <StripeProvider clientSecret={clientSecret}>
                   <StripePaymentForm
                     clientSecret={clientSecret}
                     orderId={currentOrderId}
-                    amount={total}
+                    amount={orderTotal}
+                    currency={orderCurrency}
                     onSuccess={() => {
                       toast.success("Payment successful! Redirecting...");
                       clearCart();
@@ -587,6 +795,10 @@ export function CartPage() {
             ) : null}
           </div>
         </div>
+
+        {cartProductIds.length > 0 && (
+          <ProductRecommendations productId={cartProductIds[0]} cartProductIds={cartProductIds.slice(1)} />
+        )}
       </div>
     </div>
   );
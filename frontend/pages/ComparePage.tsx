@@ -0,0 +1,212 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { productsAPI, CompareResponse } from "@/lib/api";
+import { Loader2, GitCompare, ShoppingCart, Star, X } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useCart } from "@/context/CartContext";
+import { useCompare } from "@/context/CompareContext";
+import { useCurrency } from "@/context/CurrencyContext";
+import { ImageWithFallback } from "@/components/figma/ImageWithFallback";
+import { toast } from "sonner";
+
+export function ComparePage() {
+  const router = useRouter();
+  const { addToCart } = useCart();
+  const { compareItems, removeFromCompare, clearCompare } = useCompare();
+  const { formatPrice } = useCurrency();
+  const [comparison, setComparison] = useState<CompareResponse>({ products: [], specs: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const idsKey = compareItems.map((item) => item.id).join(",");
+
+  useEffect(() => {
+    const fetchComparison = async () => {
+      if (!idsKey) {
+        setComparison({ products: [], specs: [] });
+        setLoading(false);
+        return;
+      }
+      try {
+        setLoading(true);
+        setError(null);
+        setComparison(await productsAPI.compare(idsKey.split(",")));
+      } catch (err: any) {
+        console.error('Error fetching comparison:', err);
+        setError(err.response?.data?.error || 'Failed to load the comparison');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchComparison();
+  }, [idsKey]);
+
+  const handleAddToCart = (product: any) => {
+    // Options are chosen on the product page
+    if (product.variants?.length) {
+      router.push(`/product/${product.slug || product.id}`);
+      return;
+    }
+    addToCart({
+      id: product.id,
+      name: product.title,
+      price: parseFloat(product.salePrice),
+      originalPrice: parseFloat(product.price),
+      image: product.images?.[0] || '/images/products/headphones.png'
+    });
+    toast.success(`${product.title} added to cart!`, { duration: 2000 });
+  };
+
+  const { products, specs } = comparison;
+  const rows = onlyDifferences ? specs.filter((row) => row.differs) : specs;
+  const columns = { gridTemplateColumns: `minmax(8rem, 12rem) repeat(${Math.max(products.length, 1)}, minmax(11rem, 1fr))` };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-white py-8 px-4 sm:px-6 lg:px-8 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-white py-8 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+          <h1 className="text-slate-900 font-bold text-3xl sm:text-4xl">Compare Products</h1>
+          {products.length > 0 && (
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 text-slate-600 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={onlyDifferences}
+                  onChange={(e) => setOnlyDifferences(e.target.checked)}
+                  className="w-4 h-4 accent-cyan-500"
+                />
+                Only show differences
+              </label>
+              <button
+                onClick={clearCompare}
+                className="text-slate-500 hover:text-red-600 text-sm"
+              >
+                Clear all
+              </button>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {!error && products.length === 0 && (
+          <div className="text-center py-12">
+            <GitCompare className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+            <p className="text-slate-600 mb-4">Add up to four products to compare them side by side.</p>
+            <button
+              onClick={() => router.push('/products')}
+              className="bg-cyan-500 hover:bg-cyan-600 text-white px-6 py-2 rounded-lg"
+            >
+              Browse Products
+            </button>
+          </div>
+        )}
+
+        {products.length > 0 && (
+          <div className="overflow-x-auto border border-slate-200 rounded-lg">
+            <div className="min-w-max">
+              <div className="grid border-b border-slate-200" style={columns}>
+                <div className="p-4" />
+                {products.map((product) => {
+                  const price = parseFloat(product.salePrice);
+                  const listPrice = parseFloat(product.price);
+                  const inStock = product.variants?.length
+                    ? product.variants.some((variant: any) => variant.stock > 0)
+                    : product.stock > 0;
+                  return (
+                    <div key={product.id} className="p-4 border-l border-slate-200 flex flex-col">
+                      <div className="relative">
+                        <button
+                          onClick={() => router.push(`/product/${product.slug || product.id}`)}
+                          className="bg-slate-100 h-36 w-full rounded-lg flex items-center justify-center overflow-hidden"
+                        >
+                          <ImageWithFallback
+                            src={product.images?.[0] || '/images/products/headphones.png'}
+                            alt={product.title}
+                            className="max-h-32 object-contain"
+                          />
+                        </button>
+                        <button
+                          onClick={() => removeFromCompare(product.id)}
+                          title="Remove from comparison"
+                          className="absolute top-2 right-2 bg-white/90 hover:bg-red-50 text-slate-500 hover:text-red-600 rounded-full p-1 shadow"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <h2 className="text-slate-900 font-semibold mt-3 mb-2 line-clamp-2">{product.title}</h2>
+                      <div className="flex items-baseline gap-2 mb-1">
+                        <span className="text-slate-900 font-bold text-lg">{formatPrice(price)}</span>
+                        {price < listPrice && (
+                          <span className="text-slate-400 line-through text-sm">{formatPrice(listPrice)}</span>
+                        )}
+                      </div>
+                      {product.reviewCount > 0 ? (
+                        <div className="flex items-center gap-1 mb-1">
+                          <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
+                          <span className="text-slate-600 text-sm">{product.averageRating?.toFixed(1)} ({product.reviewCount})</span>
+                        </div>
+                      ) : (
+                        <p className="text-slate-400 text-sm mb-1">No reviews yet</p>
+                      )}
+                      <p className={`text-sm mb-4 ${inStock ? 'text-green-600' : 'text-red-600'}`}>
+                        {inStock ? 'In Stock' : 'Out of Stock'}
+                      </p>
+                      <button
+                        onClick={() => handleAddToCart(product)}
+                        disabled={!inStock}
+                        className="mt-auto flex items-center justify-center gap-2 bg-cyan-500 hover:bg-cyan-600 disabled:bg-slate-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm transition-all"
+                      >
+                        <ShoppingCart className="w-4 h-4" />
+                        {product.variants?.length ? 'Choose Options' : 'Add to Cart'}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {rows.length === 0 ? (
+                <p className="p-6 text-center text-slate-500 text-sm">
+                  {specs.length === 0
+                    ? 'These products have no specifications to compare yet.'
+                    : 'These products have the same specifications.'}
+                </p>
+              ) : (
+                rows.map((row) => (
+                  <div
+                    key={row.key}
+                    className={`grid border-b border-slate-100 last:border-b-0 text-sm ${row.differs ? 'bg-cyan-50/60' : ''}`}
+                    style={columns}
+                  >
+                    <div className="p-4 text-slate-600 font-medium">{row.name}</div>
+                    {row.values.map((value, index) => (
+                      <div key={products[index]?.id || index} className="p-4 border-l border-slate-200 text-slate-900">
+                        {value ?? <span className="text-slate-400">—</span>}
+                      </div>
+                    ))}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ComparePage;
@@ -0,0 +1,240 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { ordersAPI } from "@/lib/api";
+import { formatCurrencyAmount } from "@/context/CurrencyContext";
+import { Loader2, Printer, XCircle } from "lucide-react";
+
+interface InvoiceItem {
+  product: {
+    id: string;
+    title: string;
+  };
+  quantity: number;
+  unitPrice: string;
+  variantLabel?: string | null;
+  taxRate?: string;
+  taxAmount?: string;
+  hsCode?: string;
+}
+
+interface InvoiceOrder {
+  id: string;
+  orderNumber: string;
+  subtotalAmount?: string;
+  discountAmount?: string;
+  shippingAmount?: string;
+  shippingMethod?: string | null;
+  couponCode?: string | null;
+  taxAmount?: string;
+  totalAmount: string;
+  walletAmount?: string;
+  status: string;
+  currency: string;
+  exchangeRate?: string;
+  shippingAddress: any;
+  billingAddress: any;
+  createdAt: string;
+  subOrders: { id: string; items: InvoiceItem[] }[];
+}
+
+function AddressBlock({ title, address }: { title: string; address: any }) {
+  if (!address) return null;
+  return (
+    <div>
+      <p className="text-slate-500 text-xs uppercase tracking-wide mb-1">{title}</p>
+      <div className="text-slate-800 text-sm space-y-0.5">
+        {address.fullName && <p className="font-medium">{address.fullName}</p>}
+        {address.address && <p>{address.address}</p>}
+        <p>
+          {[address.city, address.region, address.zipCode].filter(Boolean).join(", ")}
+        </p>
+        {address.country && <p>{address.country}</p>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Printable invoice with line-level tax for a single order.
+ */
+export function InvoicePage({ params }: { params: Promise<{ id: string }> | { id: string } }) {
+  const router = useRouter();
+  const [order, setOrder] = useState<InvoiceOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchOrder = async () => {
+      try {
+        const resolved = params instanceof Promise ? await params : params;
+        const response = await ordersAPI.getById(resolved.id);
+        if (isMounted) setOrder(response.order);
+      } catch (err: any) {
+        console.error("Error fetching invoice:", err);
+        if (isMounted) setError(err.response?.data?.error || "Failed to load invoice");
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    fetchOrder();
+    return () => {
+      isMounted = false;
+    };
+  }, [params]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50 py-8 px-4 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="min-h-screen bg-slate-50 py-8 px-4">
+        <div className="max-w-3xl mx-auto bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <XCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <p className="text-red-700 mb-4">{error || "Order not found"}</p>
+          <button
+            onClick={() => router.push("/orders")}
+            className="bg-cyan-500 hover:bg-cyan-600 text-white px-6 py-2 rounded-lg"
+          >
+            Back to Orders
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const formatMoney = (value: string | number | undefined) =>
+    formatCurrencyAmount(value ?? 0, order.currency || "USD");
+  const items = order.subOrders.flatMap((subOrder) => subOrder.items);
+  const shippingAmount = parseFloat(order.shippingAmount || "0");
+  const discountAmount = parseFloat(order.discountAmount || "0");
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8 px-4 sm:px-6 lg:px-8 print:bg-white print:p-0">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex justify-between items-center mb-4 print:hidden">
+          <button
+            onClick={() => router.push(`/orders/${order.id}`)}
+            className="text-cyan-600 hover:text-cyan-700 flex items-center gap-2"
+          >
+            ← Back to Order
+          </button>
+          <button
+            onClick={() => window.print()}
+            className="bg-cyan-500 hover:bg-cyan-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm"
+          >
+            <Printer className="w-4 h-4" />
+            Print
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl p-6 sm:p-8 shadow-md print:shadow-none print:rounded-none">
+          {/* Header */}
+          <div className="flex flex-col sm:flex-row sm:justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-slate-900 font-bold text-2xl">Invoice</h1>
+              <p className="text-slate-600 text-sm mt-1">Order {order.orderNumber}</p>
+            </div>
+            <div className="text-slate-600 text-sm sm:text-right">
+              <p>Date: {new Date(order.createdAt).toLocaleDateString()}</p>
+              <p>Status: {order.status}</p>
+              {order.currency && order.currency !== "USD" && order.exchangeRate && (
+                <p>Exchange rate: 1 USD = {parseFloat(order.exchangeRate)} {order.currency}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 mb-8">
+            <AddressBlock title="Bill To" address={order.billingAddress} />
+            <AddressBlock title="Ship To" address={order.shippingAddress} />
+          </div>
+
+          {/* Line Items */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-slate-500 text-left border-b border-slate-200">
+                  <th className="py-2 pr-4 font-medium">Item</th>
+                  <th className="py-2 pr-4 font-medium text-right">Qty</th>
+                  <th className="py-2 pr-4 font-medium text-right">Unit Price</th>
+                  <th className="py-2 pr-4 font-medium text-right">Tax Rate</th>
+                  <th className="py-2 pr-4 font-medium text-right">Tax</th>
+                  <th className="py-2 font-medium text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item, index) => (
+                  <tr key={index} className="border-b border-slate-100 text-slate-800">
+                    <td className="py-2 pr-4">
+                      {item.product.title}
+                      {item.variantLabel && (
+                        <span className="block text-slate-500 text-xs">{item.variantLabel}</span>
+                      )}
+                      {item.hsCode && (
+                        <span className="block text-slate-400 text-xs">HS {item.hsCode}</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{item.quantity}</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(item.unitPrice)}</td>
+                    <td className="py-2 pr-4 text-right">{parseFloat(item.taxRate || "0")}%</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(item.taxAmount)}</td>
+                    <td className="py-2 text-right">
+                      {formatMoney(parseFloat(item.unitPrice) * item.quantity)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Totals */}
+          <div className="flex justify-end mt-6">
+            <div className="w-full sm:w-72 space-y-2 text-sm">
+              <div className="flex justify-between text-slate-600">
+                <span>Subtotal:</span>
+                <span>{formatMoney(order.subtotalAmount || order.totalAmount)}</span>
+              </div>
+              {discountAmount > 0 && (
+                <div className="flex justify-between text-slate-600">
+                  <span>Discount{order.couponCode ? ` (${order.couponCode})` : ""}:</span>
+                  <span>-{formatMoney(discountAmount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-slate-600">
+                <span>Shipping{order.shippingMethod ? ` (${order.shippingMethod})` : ""}:</span>
+                <span>{formatMoney(shippingAmount)}</span>
+              </div>
+              <div className="flex justify-between text-slate-600">
+                <span>Tax:</span>
+                <span>{formatMoney(order.taxAmount)}</span>
+              </div>
+              <div className="border-t border-slate-200 pt-2 flex justify-between text-slate-900 font-semibold text-base">
+                <span>Total:</span>
+                <span>
+                  {formatMoney(order.totalAmount)}
+                </span>
+              </div>
+              {parseFloat(order.walletAmount || "0") > 0 && (
+                <div className="flex justify-between text-slate-600">
+                  <span>Paid with store credit:</span>
+                  <span>-{formatMoney(order.walletAmount)}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default InvoicePage;
@@ -6,48 +6,66 @@ import { useRouter } from "next/navigation";
 import { Star, Loader2 } from "lucide-react";
 import { ImageWithFallback } from "../components/figma/ImageWithFallback";
 import { useCart } from "../context/CartContext";
-import { productsAPI } from "@/lib/api";
+import { useCurrency } from "../context/CurrencyContext";
+import { PromotionCountdown } from "../components/PromotionCountdown";
+import { offersAPI, Promotion, PromotionSummary } from "@/lib/api";
 
 interface Offer {
   id: string;
   title: string;
   price: string;
-  discount?: number;
+  salePrice: string; // What checkout charges
+  saleDiscount: number;
+  promotion?: PromotionSummary | null;
   description?: string;
   category?: string;
   stock?: number;
   images?: string[] | null;
   slug?: string;
   featured?: boolean;
+  variants?: { id: string }[];
 }
 
+const PAGE_SIZE = 24;
+
+// "all", "big" or a promotion id
+type OffersTab = string;
+
 export function OffersPage() {
   const router = useRouter();
   const { addToCart } = useCart();
-  const [selectedTab, setSelectedTab] = useState<"all" | "big" | "other">("all");
+  const { formatPrice } = useCurrency();
+  const [selectedTab, setSelectedTab] = useState<OffersTab>("all");
   const [displayedOffers, setDisplayedOffers] = useState<Offer[]>([]);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [upcoming, setUpcoming] = useState<Promotion[]>([]);
+  const [serverTime, setServerTime] = useState<string | undefined>();
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const fetchOffers = async (tab: OffersTab, pageToLoad: number) => {
+    const response = await offersAPI.get({
+      page: pageToLoad,
+      limit: PAGE_SIZE,
+      ...(tab === "big" && { minDiscount: 25 }),
+      ...(tab !== "all" && tab !== "big" && { promotion: tab }),
+    });
+    setPromotions(response.promotions || []);
+    setUpcoming(response.upcoming || []);
+    setServerTime(response.serverTime);
+    setTotal(response.pagination?.total || 0);
+    return response.products || [];
+  };
 
   useEffect(() => {
-    const fetchOffers = async () => {
+    const loadFirstPage = async () => {
       try {
         setLoading(true);
-        const response = await productsAPI.getAll({ limit: 100 });
-        const allProducts = response.products || [];
-        
-        let filtered: Offer[] = [];
-        if (selectedTab === "all") {
-          // All products with any discount
-          filtered = allProducts.filter((p: Offer) => p.discount && p.discount > 0);
-        } else if (selectedTab === "big") {
-          // Products with discount >= 25%
-          filtered = allProducts.filter((p: Offer) => p.discount && p.discount >= 25);
-        } else {
-          // Products with discount < 25%
-          filtered = allProducts.filter((p: Offer) => p.discount && p.discount > 0 && p.discount < 25);
-        }
-        
-        setDisplayedOffers(filtered);
+        setPage(1);
+        setDisplayedOffers(await fetchOffers(selectedTab, 1));
       } catch (err) {
         console.error('Error fetching offers:', err);
         setDisplayedOffers([]);
@@ -56,14 +74,46 @@ export function OffersPage() {
       }
     };
 
-    fetchOffers();
-  }, [selectedTab]);
+    loadFirstPage();
+  }, [selectedTab, refreshKey]);
+
+  const handleLoadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const products = await fetchOffers(selectedTab, page + 1);
+      setDisplayedOffers((current) => [...current, ...products]);
+      setPage(page + 1);
+    } catch (err) {
+      console.error('Error fetching more offers:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Prices change when a promotion starts or ends
+  const handlePromotionChange = () => {
+    if (selectedTab !== "all" && selectedTab !== "big" && promotions.some((p) => p.id === selectedTab)) {
+      setSelectedTab("all");
+    }
+    setRefreshKey((key) => key + 1);
+  };
+
+  const selectedPromotion = promotions.find((promotion) => promotion.id === selectedTab);
+  const tabClass = (tab: OffersTab) => `px-6 py-3 rounded-lg transition-all font-medium whitespace-nowrap ${
+    selectedTab === tab
+      ? "bg-cyan-500 text-white"
+      : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+  }`;
 
   return (
     <div className="min-h-screen bg-slate-50">
       {/* Hero Section */}
-      <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 py-20">
-        <div className="container mx-auto px-4">
+      <div
+        className="relative bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 py-20 bg-cover bg-center"
+        style={selectedPromotion?.bannerImage ? { backgroundImage: `url(${selectedPromotion.bannerImage})` } : undefined}
+      >
+        {selectedPromotion?.bannerImage && <div className="absolute inset-0 bg-slate-900/70" />}
+        <div className="relative container mx-auto px-4">
           <motion.div
             key={selectedTab}
             initial={{ opacity: 0, y: 20 }}
@@ -75,16 +125,24 @@ export function OffersPage() {
               <span className="text-sm">★ Exclusive Deals</span>
             </div>
             <h1 className="text-white text-4xl md:text-6xl mb-6">
-              {selectedTab === "all" ? "All Offers" : selectedTab === "big" ? "Big Offers" : "Other Offers"}
+              {selectedPromotion ? selectedPromotion.name : selectedTab === "big" ? "Big Offers" : "All Offers"}
             </h1>
             <p className="text-slate-300 text-lg md:text-xl mb-8 leading-relaxed">
-              {selectedTab === "all" 
-                ? "Discover our complete collection of exclusive deals and special offers. Quality products at unbeatable prices."
+              {selectedPromotion
+                ? selectedPromotion.description || "A limited-time sale. Prices go back up when the timer runs out."
                 : selectedTab === "big"
-                ? "Discover our most exclusive deals and products at competitive prices. Quality and value that you can trust."
-                : "Explore additional products with special pricing. Quality products at competitive rates."
+                ? "Our biggest discounts: 25% off or more. Quality and value that you can trust."
+                : "Discover our complete collection of exclusive deals and special offers. Quality products at unbeatable prices."
               }
             </p>
+            {selectedPromotion && (
+              <PromotionCountdown
+                to={selectedPromotion.endsAt}
+                serverTime={serverTime}
+                onDone={handlePromotionChange}
+                className="bg-red-500 text-white px-5 py-2 rounded-full text-lg"
+              />
+            )}
           </motion.div>
         </div>
       </div>
@@ -92,41 +150,41 @@ export function OffersPage() {
       {/* Tabs Section */}
       <div className="bg-white border-b border-slate-200 sticky top-0 z-10">
         <div className="container mx-auto px-4">
-          <div className="flex gap-4 justify-center py-4">
-            <button
-              onClick={() => setSelectedTab("all")}
-              className={`px-6 py-3 rounded-lg transition-all font-medium ${
-                selectedTab === "all"
-                  ? "bg-cyan-500 text-white"
-                  : "bg-slate-100 text-slate-700 hover:bg-slate-200"
-              }`}
-            >
-              All Offers ({displayedOffers.length})
+          <div className="flex gap-4 justify-start md:justify-center py-4 overflow-x-auto">
+            <button onClick={() => setSelectedTab("all")} className={tabClass("all")}>
+              All Offers{selectedTab === "all" && ` (${total})`}
             </button>
-            <button
-              onClick={() => setSelectedTab("big")}
-              className={`px-6 py-3 rounded-lg transition-all font-medium ${
-                selectedTab === "big"
-                  ? "bg-cyan-500 text-white"
-                  : "bg-slate-100 text-slate-700 hover:bg-slate-200"
-              }`}
-            >
+            <button onClick={() => setSelectedTab("big")} className={tabClass("big")}>
               Big Offers
             </button>
-            <button
-              onClick={() => setSelectedTab("other")}
-              className={`px-6 py-3 rounded-lg transition-all font-medium ${
-                selectedTab === "other"
-                  ? "bg-cyan-500 text-white"
-                  : "bg-slate-100 text-slate-700 hover:bg-slate-200"
-              }`}
-            >
-              Other Offers
-            </button>
+            {promotions.map((promotion) => (
+              <button key={promotion.id} onClick={() => setSelectedTab(promotion.id)} className={tabClass(promotion.id)}>
+                {promotion.name}
+              </button>
+            ))}
           </div>
         </div>
       </div>
 
+      {/* Upcoming Promotions */}
+      {upcoming.length > 0 && (
+        <div className="bg-amber-50 border-b border-amber-200">
+          <div className="container mx-auto px-4 py-3 flex flex-wrap justify-center gap-x-8 gap-y-2 text-amber-800 text-sm">
+            {upcoming.map((promotion) => (
+              <div key={promotion.id} className="flex items-center gap-2">
+                <span className="font-medium">{promotion.name}</span>
+                <PromotionCountdown
+                  to={promotion.startsAt}
+                  label="starts in"
+                  serverTime={serverTime}
+                  onDone={handlePromotionChange}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Offers Grid */}
       <div className="py-16 md:py-24">
         <div className="container mx-auto px-4">
@@ -139,10 +197,8 @@ export function OffersPage() {
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
               {displayedOffers.map((product, index) => {
                 const images = product.images && Array.isArray(product.images) ? product.images : [];
-                const price = parseFloat(product.price);
-                const originalPrice = product.discount
-                  ? price / (1 - product.discount / 100)
-                  : price;
+                const price = parseFloat(product.salePrice);
+                const originalPrice = parseFloat(product.price);
 
                 return (
                   <motion.div
@@ -163,9 +219,14 @@ export function OffersPage() {
                         className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500"
                       />
                       {/* Discount Badge */}
-                      {product.discount && product.discount > 0 && (
+                      {product.saleDiscount > 0 && (
                         <div className="absolute top-4 right-4 bg-red-500 text-white px-3 py-1 rounded-full text-sm shadow-lg">
-                          {product.discount}% OFF
+                          {product.saleDiscount}% OFF
+                        </div>
+                      )}
+                      {product.promotion && !selectedPromotion && (
+                        <div className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-xs px-3 py-2">
+                          <PromotionCountdown to={product.promotion.endsAt} label={`${product.promotion.name} ends in`} serverTime={serverTime} />
                         </div>
                       )}
                     </div>
@@ -198,10 +259,10 @@ export function OffersPage() {
                       {/* Price and Stock */}
                       <div className="flex items-center justify-between mb-4">
                         <div className="flex items-center gap-3">
-                          <span className="text-slate-900 text-xl sm:text-2xl font-semibold">${price.toFixed(2)}</span>
-                          {product.discount && product.discount > 0 && (
+                          <span className="text-slate-900 text-xl sm:text-2xl font-semibold">{formatPrice(price)}</span>
+                          {price < originalPrice && (
                             <span className="text-slate-500 line-through text-sm">
-                              ${originalPrice.toFixed(2)}
+                              {formatPrice(originalPrice)}
                             </span>
                           )}
                         </div>
@@ -224,6 +285,11 @@ export function OffersPage() {
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
+                            // Options are chosen on the product page
+                            if (product.variants?.length) {
+                              router.push(`/product/${product.slug || product.id}`);
+                              return;
+                            }
                             addToCart({
                               id: product.id,
                               name: product.title,
@@ -248,6 +314,19 @@ export function OffersPage() {
               <p className="text-slate-600 text-lg">No offers available at the moment.</p>
             </div>
           )}
+
+          {!loading && displayedOffers.length < total && (
+            <div className="text-center mt-10">
+              <button
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                className="bg-cyan-500 hover:bg-cyan-600 disabled:opacity-60 text-white px-8 py-3 rounded-lg transition-all inline-flex items-center gap-2"
+              >
+                {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+                Load More Offers
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -3,8 +3,10 @@
 import { useState, useEffect } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { ordersAPI } from "@/lib/api";
-import { Loader2, CheckCircle2, XCircle, Package, MapPin, CreditCard } from "lucide-react";
+import { formatCurrencyAmount } from "@/context/CurrencyContext";
+import { Loader2, CheckCircle2, XCircle, Package, MapPin, CreditCard, FileText } from "lucide-react";
 import { toast } from "sonner";
+import { ReservationCountdown } from "@/components/ReservationCountdown";
 
 interface OrderItem {
   product: {
@@ -15,6 +17,9 @@ interface OrderItem {
   };
   quantity: number;
   unitPrice: string;
+  variantLabel?: string | null;
+  taxRate?: string;
+  taxAmount?: string;
 }
 
 interface SubOrder {
@@ -27,13 +32,21 @@ interface SubOrder {
 interface Order {
   id: string;
   orderNumber: string;
+  subtotalAmount?: string;
+  discountAmount?: string;
+  shippingAmount?: string;
+  shippingMethod?: string | null;
+  couponCode?: string | null;
+  taxAmount?: string;
   totalAmount: string;
+  walletAmount?: string;
   status: string;
   currency: string;
   shippingAddress: any;
   billingAddress: any;
   stripeSessionId?: string;
   stripePaymentIntentId?: string;
+  reservationExpiresAt?: string | null;
   createdAt: string;
   subOrders: SubOrder[];
 }
@@ -257,6 +270,9 @@ export function OrderDetailPage({ params }: { params: Promise<{ id: string }> |
     );
   }
 
+  // Amounts are stored in the currency the order was placed in
+  const formatMoney = (amount: string | number) => formatCurrencyAmount(amount, order.currency || "USD");
+
   return (
     <div className="min-h-screen bg-slate-50 py-8 px-4 sm:px-6 lg:px-8">
       <div className="max-w-4xl mx-auto">
@@ -276,6 +292,13 @@ export function OrderDetailPage({ params }: { params: Promise<{ id: string }> |
               <p className="text-slate-600 text-sm mt-1">Placed on {formatDate(order.createdAt)}</p>
             </div>
             <div className="flex items-center gap-3">
+              <button
+                onClick={() => router.push(`/orders/${order.id}/invoice`)}
+                className="flex items-center gap-2 px-4 py-2 border border-slate-300 hover:border-cyan-500 text-slate-700 hover:text-cyan-600 rounded-lg text-sm transition-colors"
+              >
+                <FileText className="w-4 h-4" />
+                Invoice
+              </button>
               {getStatusIcon(order.status)}
               <span
                 className={`px-4 py-2 rounded-full text-sm font-medium ${getStatusColor(
@@ -301,6 +324,13 @@ export function OrderDetailPage({ params }: { params: Promise<{ id: string }> |
           </div>
         )}
 
+        {/* Reservation Countdown - unpaid orders are cancelled when it runs out */}
+        {order && order.status === "PENDING" && order.reservationExpiresAt && (
+          <div className="mb-6">
+            <ReservationCountdown expiresAt={order.reservationExpiresAt} />
+          </div>
+        )}
+
         {/* Pending Payment Message - Show when order is PENDING */}
         {order && order.status === "PENDING" && order.stripePaymentIntentId && (
           <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
@@ -366,14 +396,22 @@ export function OrderDetailPage({ params }: { params: Promise<{ id: string }> |
                         )}
                         <div className="flex-1">
                           <h3 className="text-slate-900 font-medium mb-1">{item.product.title}</h3>
+                          {item.variantLabel && (
+                            <p className="text-slate-500 text-sm">{item.variantLabel}</p>
+                          )}
                           <p className="text-slate-600 text-sm">Quantity: {item.quantity}</p>
                           <p className="text-slate-600 text-sm">
-                            Unit Price: ${parseFloat(item.unitPrice).toFixed(2)}
+                            Unit Price: {formatMoney(item.unitPrice)}
                           </p>
+                          {parseFloat(item.taxAmount || "0") > 0 && (
+                            <p className="text-slate-600 text-sm">
+                              Tax ({parseFloat(item.taxRate || "0")}%): {formatMoney(item.taxAmount!)}
+                            </p>
+                          )}
                         </div>
                         <div className="text-right">
                           <p className="text-slate-900 font-semibold">
-                            ${(parseFloat(item.unitPrice) * item.quantity).toFixed(2)}
+                            {formatMoney(parseFloat(item.unitPrice) * item.quantity)}
                           </p>
                         </div>
                       </div>
@@ -398,18 +436,38 @@ export function OrderDetailPage({ params }: { params: Promise<{ id: string }> |
               <div className="space-y-3">
                 <div className="flex justify-between text-slate-600">
                   <span>Subtotal:</span>
-                  <span>${parseFloat(order.totalAmount).toFixed(2)}</span>
+                  <span>{formatMoney(order.subtotalAmount || order.totalAmount)}</span>
                 </div>
+                {parseFloat(order.discountAmount || "0") > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Discount{order.couponCode ? ` (${order.couponCode})` : ""}:</span>
+                    <span>-{formatMoney(order.discountAmount!)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-slate-600">
-                  <span>Shipping:</span>
-                  <span>Included</span>
+                  <span>Shipping{order.shippingMethod ? ` (${order.shippingMethod})` : ""}:</span>
+                  <span>
+                    {parseFloat(order.shippingAmount || "0") > 0
+                      ? formatMoney(order.shippingAmount!)
+                      : "Free"}
+                  </span>
+                </div>
+                <div className="flex justify-between text-slate-600">
+                  <span>Tax:</span>
+                  <span>{formatMoney(order.taxAmount || "0")}</span>
                 </div>
                 <div className="border-t border-slate-200 pt-3 flex justify-between text-slate-900 font-semibold text-lg">
                   <span>Total:</span>
                   <span>
-                    {order.currency || "USD"} ${parseFloat(order.totalAmount).toFixed(2)}
+                    {formatMoney(order.totalAmount)}
                   </span>
                 </div>
+                {parseFloat(order.walletAmount || "0") > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Paid with store credit:</span>
+                    <span>-{formatMoney(order.walletAmount!)}</span>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -424,7 +482,8 @@ export function OrderDetailPage({ params }: { params: Promise<{ id: string }> |
                   <p className="font-medium">{order.shippingAddress.fullName}</p>
                   <p>{order.shippingAddress.address}</p>
                   <p>
-                    {order.shippingAddress.city}, {order.shippingAddress.zipCode}
+                    {order.shippingAddress.city}
+                    {order.shippingAddress.region ? `, ${order.shippingAddress.region}` : ""}, {order.shippingAddress.zipCode}
                   </p>
                   <p>{order.shippingAddress.country}</p>
                   {order.shippingAddress.phone && <p>Phone: {order.shippingAddress.phone}</p>}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { ordersAPI } from "@/lib/api";
+import { formatCurrencyAmount } from "@/context/CurrencyContext";
 import { Loader2, X, RefreshCw } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
@@ -14,6 +15,7 @@ interface OrderItem {
   };
   quantity: number;
   unitPrice: string;
+  variantLabel?: string | null;
 }
 
 interface SubOrder {
@@ -27,6 +29,7 @@ interface Order {
   id: string;
   orderNumber: string;
   totalAmount: string;
+  currency: string;
   status: string;
   createdAt: string;
   subOrders: SubOrder[];
@@ -162,7 +165,7 @@ export function OrdersPage() {
                     Order {order.orderNumber}
                   </h2>
                   <p className="text-slate-600 text-sm mt-1">Date: {formatDate(order.createdAt)}</p>
-                  <p className="text-slate-600 text-sm">Total: ${parseFloat(order.totalAmount).toFixed(2)}</p>
+                  <p className="text-slate-600 text-sm">Total: {formatCurrencyAmount(order.totalAmount, order.currency)}</p>
                 </div>
                 <div className="flex items-center gap-3">
                   <span className={`px-4 py-1.5 rounded-full text-sm font-medium self-start sm:self-center ${getStatusColor(order.status)}`}>
@@ -207,10 +210,10 @@ export function OrdersPage() {
                           className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-1 sm:gap-4 text-sm sm:text-base"
                         >
                           <span className="text-slate-700">
-                            {item.product.title} (x{item.quantity})
+                            {item.product.title}{item.variantLabel && ` – ${item.variantLabel}`} (x{item.quantity})
                           </span>
                           <span className="text-slate-900 font-medium">
-                            ${(parseFloat(item.unitPrice) * item.quantity).toFixed(2)}
+                            {formatCurrencyAmount(parseFloat(item.unitPrice) * item.quantity, order.currency)}
                           </span>
                         </div>
                       ))}
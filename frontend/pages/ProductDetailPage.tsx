@@ -14,25 +14,51 @@ import {
   X,
   Heart,
   Plus,
-  Minus
+  Minus,
+  Star,
+  GitCompare
 } from "lucide-react";
-import { productsAPI, ordersAPI, wishlistAPI, paymentIntentAPI } from "@/lib/api";
+import { productsAPI, ordersAPI, wishlistAPI, paymentIntentAPI, checkoutQuoteAPI, shippingAPI, ProductStatus, PromotionSummary, ProductSpec } from "@/lib/api";
+import { PromotionCountdown } from "@/components/PromotionCountdown";
 import { StripeProvider } from "@/components/StripeProvider";
 import { StripePaymentForm } from "@/components/StripePaymentForm";
-import { useCart } from "@/context/CartContext";
+import { ProductReviews } from "@/components/ProductReviews";
+import { ProductRecommendations } from "@/components/ProductRecommendations";
+import { QuoteBreakdown, CheckoutQuote } from "@/components/QuoteBreakdown";
+import { useCart, getCartItemId } from "@/context/CartContext";
+import { useCompare, MAX_COMPARE_ITEMS } from "@/context/CompareContext";
 import { useAuth } from "@/context/AuthContext";
+import { useCurrency } from "@/context/CurrencyContext";
 import { toast } from "sonner";
 
+interface ProductVariant {
+  id: string;
+  sku: string;
+  options: Record<string, string>;
+  price: string | null; // Overrides the product price when set
+  salePrice: string; // What checkout charges for this option
+  stock: number;
+  images: string[];
+  label: string;
+}
+
 interface Product {
   id: string;
   title: string;
   description?: string;
   price: string;
-  discount?: number;
+  salePrice: string; // What checkout charges, after the product discount or a promotion
+  saleDiscount: number;
+  promotion?: PromotionSummary | null;
   category?: string;
   stock: number;
   images?: string[] | null;
   isInWishlist?: boolean;
+  averageRating?: number;
+  reviewCount?: number;
+  variants?: ProductVariant[];
+  specs?: ProductSpec[];
+  status?: ProductStatus;
 }
 
 export default function ProductDetailPage() {
@@ -40,13 +66,16 @@ export default function ProductDetailPage() {
   const productId = params?.id as string;
   const router = useRouter();
   const { addToCart } = useCart();
+  const { addToCompare, removeFromCompare, isInCompare } = useCompare();
   const { user } = useAuth();
+  const { currency, formatPrice } = useCurrency();
 
   const [product, setProduct] = useState<Product | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const [quantity, setQuantity] = useState(1);
+  const [selectedOptions, setSelectedOptions] = useState<Record<string, string>>({});
   const [selectedImage, setSelectedImage] = useState(0);
   const [showBuyModal, setShowBuyModal] = useState(false);
   const [processingBuy, setProcessingBuy] = useState(false);
@@ -55,6 +84,12 @@ export default function ProductDetailPage() {
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [currentOrderId, setCurrentOrderId] = useState<string | null>(null);
   const [orderAmount, setOrderAmount] = useState<number>(0);
+  const [orderCurrency, setOrderCurrency] = useState<string>(currency);
+  const [quote, setQuote] = useState<CheckoutQuote | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [shippingMethod, setShippingMethod] = useState<string | undefined>(undefined);
+  const [freeShippingThreshold, setFreeShippingThreshold] = useState<number | null>(null);
 
   const [isInWishlist, setIsInWishlist] = useState(false);
 
@@ -64,6 +99,7 @@ export default function ProductDetailPage() {
     city: "",
     zipCode: "",
     country: "",
+    region: "",
     phone: ""
   });
 
@@ -84,6 +120,10 @@ export default function ProductDetailPage() {
         const res = await productsAPI.getById(productId);
         setProduct(res.product);
         setIsInWishlist(!!res.product?.isInWishlist);
+        // Start from the first variant that can be bought
+        const variants: ProductVariant[] = res.product?.variants || [];
+        const initialVariant = variants.find((v) => v.stock > 0) || variants[0];
+        setSelectedOptions(initialVariant ? { ...initialVariant.options } : {});
       } catch (err: any) {
         setError("Failed to load product");
       } finally {
@@ -94,6 +134,68 @@ export default function ProductDetailPage() {
     if (productId) fetchProduct();
   }, [productId]);
 
+  // 🔹 Fetch free-shipping threshold of the default shipping zone
+  useEffect(() => {
+    shippingAPI.getZones()
+      .then((res) => {
+        const zones: { isDefault: boolean; freeShippingThreshold: string | null }[] = res.zones || [];
+        const zone = zones.find((z) => z.isDefault && z.freeShippingThreshold !== null);
+        setFreeShippingThreshold(zone ? parseFloat(zone.freeShippingThreshold!) : null);
+      })
+      .catch(() => setFreeShippingThreshold(null));
+  }, []);
+
+  // 🔹 Variant matching the selected options
+  const variants = product?.variants || [];
+  const hasVariants = variants.length > 0;
+  const optionNames = Array.from(new Set(variants.flatMap((v) => Object.keys(v.options))));
+  const selectedVariant = hasVariants
+    ? variants.find((v) => optionNames.every((name) => v.options[name] === selectedOptions[name])) || null
+    : null;
+
+  // 🔹 Fetch server-side price breakdown for the buy-now modal
+  const quoteProductId = product?.id;
+  const quoteVariantId = selectedVariant?.id;
+  const quoteCountry = shippingInfo.country.trim();
+  const quoteRegion = shippingInfo.region.trim();
+
+  // A different destination may offer different shipping methods
+  useEffect(() => {
+    setShippingMethod(undefined);
+  }, [quoteCountry]);
+  useEffect(() => {
+    if (!showBuyModal || !quoteProductId) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setQuoteLoading(true);
+        const response = await checkoutQuoteAPI.get({
+          items: [{ productId: quoteProductId, ...(quoteVariantId && { variantId: quoteVariantId }), quantity }],
+          ...(quoteCountry && { shippingAddress: { country: quoteCountry, ...(quoteRegion && { region: quoteRegion }) } }),
+          ...(shippingMethod && { shippingMethod }),
+          currency
+        });
+        if (!cancelled) {
+          setQuote(response.quote);
+          setQuoteError(null);
+        }
+      } catch (err: any) {
+        if (!cancelled) {
+          setQuote(null);
+          setQuoteError(err.response?.data?.error || "Failed to calculate order total");
+        }
+      } finally {
+        if (!cancelled) setQuoteLoading(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [showBuyModal, quoteProductId, quoteVariantId, quantity, quoteCountry, quoteRegion, shippingMethod, currency]);
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -111,27 +213,58 @@ export default function ProductDetailPage() {
   }
 
   const images =
-    product.images && product.images.length > 0
-      ? product.images
-      : ["/images/products/headphones.png"];
+    selectedVariant && selectedVariant.images.length > 0
+      ? selectedVariant.images
+      : product.images && product.images.length > 0
+        ? product.images
+        : ["/images/products/headphones.png"];
 
-  const price = parseFloat(product.price);
-  // Handle stock as both string and number
-  const stockValue = typeof product.stock === 'string' ? parseInt(product.stock) : Number(product.stock) || 0;
-  const inStock = stockValue > 0;
+  const listPrice = parseFloat(selectedVariant?.price ?? product.price);
+  const price = parseFloat(selectedVariant?.salePrice ?? product.salePrice ?? listPrice);
+  // Handle stock as both string and number; products with variants sell each variant's own stock
+  const stockValue = hasVariants
+    ? selectedVariant?.stock ?? 0
+    : typeof product.stock === 'string' ? parseInt(product.stock) : Number(product.stock) || 0;
+  // Archived products still open from past orders but can't be bought
+  const isArchived = product.status === 'ARCHIVED';
+  const inStock = stockValue > 0 && !isArchived;
+
+  // Whether the given option value leads to a variant that can be bought with the other selections
+  const isOptionAvailable = (name: string, value: string) =>
+    variants.some((v) =>
+      v.options[name] === value &&
+      v.stock > 0 &&
+      optionNames.every((other) => other === name || !selectedOptions[other] || v.options[other] === selectedOptions[other])
+    );
+
+  const handleSelectOption = (name: string, value: string) => {
+    setSelectedOptions({ ...selectedOptions, [name]: value });
+    setSelectedImage(0);
+    setQuantity(1);
+  };
 
   const handleAddToCart = () => {
+    if (hasVariants && !selectedVariant) {
+      toast.error("Please choose your options");
+      return;
+    }
     if (!inStock) {
       toast.error("Product is out of stock");
       return;
     }
-    console.log('Add to Cart clicked', { productId: product.id, quantity, inStock });
+    console.log('Add to Cart clicked', { productId: product.id, variantId: selectedVariant?.id, quantity, inStock });
     for (let i = 0; i < quantity; i++) {
       addToCart({
-        id: product.id,
+        id: getCartItemId(product.id, selectedVariant?.id),
         name: product.title,
         price,
-        image: images[0]
+        originalPrice: listPrice,
+        image: images[0],
+        ...(selectedVariant && {
+          productId: product.id,
+          variantId: selectedVariant.id,
+          variantLabel: selectedVariant.label
+        })
       });
     }
     toast.success("Added to cart");
@@ -159,7 +292,29 @@ export default function ProductDetailPage() {
     }
   };
 
+  const handleCompareToggle = () => {
+    if (isInCompare(product.id)) {
+      removeFromCompare(product.id);
+      toast.success("Removed from comparison");
+      return;
+    }
+    const added = addToCompare({
+      id: product.id,
+      title: product.title,
+      image: product.images?.[0] || '/images/products/headphones.png',
+    });
+    if (added) {
+      toast.success("Added to comparison");
+    } else {
+      toast.error(`You can compare up to ${MAX_COMPARE_ITEMS} products`);
+    }
+  };
+
   const handleBuyNow = () => {
+    if (hasVariants && !selectedVariant) {
+      toast.error("Please choose your options");
+      return;
+    }
     if (!inStock) {
       toast.error("Product is out of stock");
       return;
@@ -199,13 +354,14 @@ export default function ProductDetailPage() {
 
       // Create order
       const orderResponse = await ordersAPI.create({
-        items: [{ productId: product.id, quantity }],
+        items: [{ productId: product.id, ...(selectedVariant && { variantId: selectedVariant.id }), quantity }],
         shippingAddress: {
           fullName: shippingInfo.fullName.trim(),
           address: shippingInfo.address.trim(),
           city: shippingInfo.city.trim(),
           zipCode: shippingInfo.zipCode.trim(),
           country: shippingInfo.country.trim(),
+          ...(shippingInfo.region?.trim() && { region: shippingInfo.region.trim() }),
           ...(shippingInfo.phone?.trim() && { phone: shippingInfo.phone.trim() })
         },
         billingAddress: {
@@ -215,7 +371,9 @@ export default function ProductDetailPage() {
           zipCode: finalBillingInfo.zipCode.trim(),
           country: finalBillingInfo.country.trim(),
           ...(finalBillingInfo.phone?.trim() && { phone: finalBillingInfo.phone.trim() })
-        }
+        },
+        ...(quote?.shippingMethod && { shippingMethod: quote.shippingMethod }),
+        currency
       });
 
       const orderId = orderResponse.order.id;
@@ -254,7 +412,8 @@ export default function ProductDetailPage() {
           toast.dismiss('buy-order');
           setClientSecret(paymentIntentResponse.clientSecret);
           setCurrentOrderId(orderId);
-          setOrderAmount(price * quantity + 10); // Total with shipping
+          setOrderAmount(parseFloat(orderResponse.order.totalAmount));
+          setOrderCurrency(orderResponse.order.currency || currency);
           setShowPaymentForm(true);
           setProcessingBuy(false);
         } else {
@@ -310,10 +469,7 @@ export default function ProductDetailPage() {
     }
   };
 
-  const originalPrice = product.discount 
-    ? price / (1 - product.discount / 100) 
-    : price;
-  const discountPercent = product.discount || 0;
+  const discountPercent = listPrice > 0 ? Math.round((1 - price / listPrice) * 100) : 0;
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -394,16 +550,33 @@ export default function ProductDetailPage() {
                   {product.title}
                 </h1>
 
+                {/* Rating */}
+                {!!product.reviewCount && (
+                  <div className="flex items-center gap-2 mb-4">
+                    <div className="flex items-center gap-0.5">
+                      {[1, 2, 3, 4, 5].map((star) => (
+                        <Star
+                          key={star}
+                          className={`w-5 h-5 ${star <= Math.round(product.averageRating || 0) ? "fill-yellow-400 text-yellow-400" : "text-slate-300"}`}
+                        />
+                      ))}
+                    </div>
+                    <span className="text-slate-600 text-sm">
+                      {product.averageRating?.toFixed(1)} ({product.reviewCount} review{product.reviewCount === 1 ? "" : "s"})
+                    </span>
+                  </div>
+                )}
+
                 {/* Pricing */}
                 <div className="flex items-center gap-4 mb-4">
                   <div className="flex items-baseline gap-2">
                     {discountPercent > 0 && (
                       <span className="text-lg sm:text-xl text-slate-400 line-through">
-                        ${originalPrice.toFixed(2)}
+                        {formatPrice(listPrice)}
                       </span>
                     )}
                     <span className="text-3xl sm:text-4xl font-bold text-slate-900">
-                      ${price.toFixed(2)}
+                      {formatPrice(price)}
                     </span>
                   </div>
                   {discountPercent > 0 && (
@@ -412,10 +585,60 @@ export default function ProductDetailPage() {
                     </span>
                   )}
                 </div>
+                {product.promotion && (
+                  <div className="flex flex-wrap items-center gap-2 bg-red-50 border border-red-200 text-red-700 rounded-lg px-3 py-2 text-sm mb-4">
+                    <span className="font-semibold">{product.promotion.name}</span>
+                    <PromotionCountdown to={product.promotion.endsAt} label="ends in" />
+                  </div>
+                )}
+
+                {/* Variant Options */}
+                {hasVariants && (
+                  <div className="space-y-4 mb-6">
+                    {optionNames.map((name) => {
+                      const values = Array.from(new Set(variants.map((v) => v.options[name]).filter(Boolean)));
+                      return (
+                        <div key={name}>
+                          <label className="block text-sm font-medium text-slate-700 mb-2">
+                            {name}
+                            {selectedOptions[name] && (
+                              <span className="text-slate-500 font-normal">: {selectedOptions[name]}</span>
+                            )}
+                          </label>
+                          <div className="flex flex-wrap gap-2">
+                            {values.map((value) => {
+                              const selected = selectedOptions[name] === value;
+                              const available = isOptionAvailable(name, value);
+                              return (
+                                <button
+                                  key={value}
+                                  type="button"
+                                  onClick={() => handleSelectOption(name, value)}
+                                  className={`px-4 py-2 rounded-lg border text-sm transition-all ${
+                                    selected
+                                      ? "border-cyan-500 bg-cyan-50 text-cyan-700"
+                                      : "border-slate-300 text-slate-700 hover:border-cyan-500"
+                                  } ${available ? "" : "opacity-50 line-through"}`}
+                                >
+                                  {value}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {!selectedVariant && (
+                      <p className="text-amber-600 text-sm">This combination is not available</p>
+                    )}
+                  </div>
+                )}
 
                 {/* Stock Status */}
                 <div className="mb-6">
-                  {inStock ? (
+                  {isArchived ? (
+                    <p className="text-slate-500 font-medium">This product is no longer available</p>
+                  ) : inStock ? (
                     <p className="text-green-600 font-medium flex items-center gap-2">
                       <span className="w-2 h-2 bg-green-600 rounded-full"></span>
                       In Stock
@@ -497,6 +720,32 @@ export default function ProductDetailPage() {
                     Buy Now
                   </button>
 
+                  <button
+                    onClick={handleWishlistToggle}
+                    className={`w-12 h-12 flex items-center justify-center border rounded-lg transition-all ${
+                      isInWishlist
+                        ? "border-red-300 bg-red-50 hover:bg-red-100"
+                        : "border-slate-300 hover:border-cyan-500 hover:bg-cyan-50"
+                    }`}
+                    title={isInWishlist ? "Remove from wishlist" : "Add to wishlist"}
+                    type="button"
+                  >
+                    <Heart className={`w-5 h-5 ${isInWishlist ? "text-red-500 fill-red-500" : "text-slate-600"}`} />
+                  </button>
+
+                  <button
+                    onClick={handleCompareToggle}
+                    className={`w-12 h-12 flex items-center justify-center border rounded-lg transition-all ${
+                      isInCompare(product.id)
+                        ? "border-cyan-500 bg-cyan-50 hover:bg-cyan-100"
+                        : "border-slate-300 hover:border-cyan-500 hover:bg-cyan-50"
+                    }`}
+                    title={isInCompare(product.id) ? "Remove from comparison" : "Add to comparison"}
+                    type="button"
+                  >
+                    <GitCompare className={`w-5 h-5 ${isInCompare(product.id) ? "text-cyan-600" : "text-slate-600"}`} />
+                  </button>
+
                   <button
                     onClick={() => {
                       navigator.clipboard.writeText(window.location.href);
@@ -515,7 +764,11 @@ export default function ProductDetailPage() {
                     <div className="w-10 h-10 flex items-center justify-center bg-cyan-50 rounded-lg">
                       <Truck className="w-5 h-5 text-cyan-600" />
                     </div>
-                    <span className="font-medium">Free shipping on orders over $50</span>
+                    <span className="font-medium">
+                      {freeShippingThreshold !== null
+                        ? `Free shipping on orders over ${formatPrice(freeShippingThreshold)}`
+                        : "Fast, tracked shipping"}
+                    </span>
                   </div>
                   <div className="flex items-center gap-3 text-slate-700">
                     <div className="w-10 h-10 flex items-center justify-center bg-cyan-50 rounded-lg">
@@ -534,6 +787,24 @@ export default function ProductDetailPage() {
             </div>
           </div>
         </div>
+
+        {product.specs && product.specs.length > 0 && (
+          <div className="bg-white rounded-xl shadow-lg p-6 sm:p-8 mt-8">
+            <h2 className="text-2xl font-bold text-slate-900 mb-6">Specifications</h2>
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-8">
+              {product.specs.map((spec) => (
+                <div key={spec.key} className="flex justify-between gap-4 py-3 border-b border-slate-100">
+                  <dt className="text-slate-500">{spec.name}</dt>
+                  <dd className="text-slate-900 font-medium text-right">{spec.display}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
+        <ProductRecommendations productId={product.id} />
+
+        <ProductReviews productId={product.id} />
       </div>
 
       {showBuyModal && (
@@ -566,9 +837,12 @@ export default function ProductDetailPage() {
                   />
                   <div className="flex-1">
                     <h3 className="font-semibold text-slate-900 mb-1">{product.title}</h3>
+                    {selectedVariant && (
+                      <p className="text-slate-600 text-sm">{selectedVariant.label}</p>
+                    )}
                     <p className="text-slate-600 text-sm mb-2">Quantity: {quantity}</p>
                     <p className="text-lg font-bold text-slate-900">
-                      ${(price * quantity).toFixed(2)}
+                      {formatPrice(price * quantity)}
                     </p>
                   </div>
                 </div>
@@ -620,6 +894,13 @@ export default function ProductDetailPage() {
                     className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
                     required
                   />
+                  <input
+                    type="text"
+                    placeholder="State / Region (optional)"
+                    value={shippingInfo.region}
+                    onChange={(e) => setShippingInfo({ ...shippingInfo, region: e.target.value })}
+                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
                   <input
                     type="text"
                     placeholder="Phone (optional)"
@@ -678,20 +959,12 @@ export default function ProductDetailPage() {
               {/* Order Summary */}
               <div className="bg-slate-50 rounded-lg p-4 border border-slate-200">
                 <h3 className="text-lg font-semibold text-slate-900 mb-3">Order Summary</h3>
-                <div className="space-y-2">
-                  <div className="flex justify-between text-slate-600">
-                    <span>Subtotal:</span>
-                    <span>${(price * quantity).toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between text-slate-600">
-                    <span>Shipping:</span>
-                    <span>$10.00</span>
-                  </div>
-                  <div className="border-t border-slate-300 pt-2 flex justify-between text-lg font-bold text-slate-900">
-                    <span>Total:</span>
-                    <span>${(price * quantity + 10).toFixed(2)}</span>
-                  </div>
-                </div>
+                <QuoteBreakdown
+                  quote={quote}
+                  loading={quoteLoading}
+                  error={quoteError}
+                  onShippingMethodChange={setShippingMethod}
+                />
               </div>
 
               {/* Error Message */}
@@ -710,6 +983,7 @@ export default function ProductDetailPage() {
                       clientSecret={clientSecret}
                       orderId={currentOrderId}
                       amount={orderAmount}
+                      currency={orderCurrency}
                       onSuccess={() => {
                         toast.success("Payment successful! Redirecting...");
                         setTimeout(() => {
@@ -1,35 +1,106 @@
 "use client";
 
 import { motion } from "motion/react";
-import { useState, useMemo, useEffect } from "react";
-import { Star, Filter, ChevronDown, Loader2 } from "lucide-react";
-import { useRouter } from "next/navigation";
-import { productsAPI } from "@/lib/api";
+import { useState, useEffect } from "react";
+import { Star, Filter, ChevronDown, ChevronRight, Loader2, X } from "lucide-react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { productsAPI, categoriesAPI, Category, PromotionSummary, SpecType } from "@/lib/api";
+import { PromotionCountdown } from "@/components/PromotionCountdown";
 import { useCart } from "@/context/CartContext";
+import { useCompare, MAX_COMPARE_ITEMS } from "@/context/CompareContext";
+import { useCurrency } from "@/context/CurrencyContext";
+import { toast } from "sonner";
 
 interface Product {
   id: string;
   title: string;
   price: string;
-  discount?: number;
+  salePrice: string; // What checkout charges, after the product discount or a promotion
+  saleDiscount: number;
+  promotion?: PromotionSummary | null;
   category?: string;
   description?: string;
   stock?: number;
   images?: string[] | null;
   slug?: string;
   featured?: boolean;
+  averageRating?: number;
+  reviewCount?: number;
+  variants?: { id: string }[];
 }
 
+interface ProductFacets {
+  categories: { id: string; slug: string; name: string; parentId: string | null; count: number }[]; // Counts include subcategories
+  price: { min: number; max: number } | null;
+  inStock: number;
+  discounts: { min: number; count: number }[];
+  ratings: { min: number; count: number }[];
+  attributes: { name: string; values: { value: string; count: number }[] }[];
+  // Number specs have a range, the others values ("true"/"false" for yes/no specs)
+  specs: {
+    key: string;
+    name: string;
+    type: SpecType;
+    unit: string | null;
+    values: { value: string; count: number }[];
+    range: { min: number; max: number } | null;
+  }[];
+}
+
+const SORT_OPTIONS = [
+  { value: "newest", label: "Newest" },
+  { value: "best_selling", label: "Best Selling" },
+  { value: "price_asc", label: "Price: Low to High" },
+  { value: "price_desc", label: "Price: High to Low" },
+  { value: "discount", label: "Biggest Discount" },
+  { value: "rating", label: "Highest Rated" },
+];
+
+const PAGE_SIZE = 24;
+
 export function ProductsPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const queryString = searchParams.toString();
   const { addToCart } = useCart();
-  const [selectedCategory, setSelectedCategory] = useState("All");
-  const [sortBy, setSortBy] = useState("featured");
+  const { addToCompare, removeFromCompare, isInCompare } = useCompare();
+  const { formatPrice } = useCurrency();
   const [showFilters, setShowFilters] = useState(false);
   const [products, setProducts] = useState<Product[]>([]);
+  const [facets, setFacets] = useState<ProductFacets | null>(null);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [categories, setCategories] = useState<string[]>(["All"]);
+  const [activeCategory, setActiveCategory] = useState<{ category: Category; path: Category[] } | null>(null);
+
+  // Filter state lives in the URL so filtered views can be shared and survive reloads
+  const selectedCategory = searchParams.get("category"); // Slug; older links use the name
+  const sortBy = searchParams.get("sort") || "newest";
+  const page = Math.max(1, parseInt(searchParams.get("page") || "1") || 1);
+  const inStock = searchParams.get("inStock") === "true";
+  const minDiscount = searchParams.get("minDiscount") || "";
+  const minRating = searchParams.get("minRating") || "";
+  const selectedAttributes = searchParams.getAll("attr");
+  const selectedSpecs = searchParams.getAll("spec"); // key:value or key:min..max
+  const [minPrice, setMinPrice] = useState(searchParams.get("minPrice") || "");
+  const [maxPrice, setMaxPrice] = useState(searchParams.get("maxPrice") || "");
+
+  useEffect(() => {
+    setMinPrice(searchParams.get("minPrice") || "");
+    setMaxPrice(searchParams.get("maxPrice") || "");
+  }, [searchParams]);
+
+  // The selected category's details and breadcrumb
+  useEffect(() => {
+    if (!selectedCategory) {
+      setActiveCategory(null);
+      return;
+    }
+    categoriesAPI.getById(selectedCategory)
+      .then((response) => setActiveCategory({ category: response.category, path: response.path }))
+      .catch(() => setActiveCategory(null));
+  }, [selectedCategory]);
 
   // Fetch products
   useEffect(() => {
@@ -37,64 +108,125 @@ export function ProductsPage() {
       try {
         setLoading(true);
         setError(null);
-        const params: any = { limit: 100 };
-        if (selectedCategory !== "All") {
-          params.category = selectedCategory;
-        }
+        const params = new URLSearchParams(queryString);
+        params.set("limit", String(PAGE_SIZE));
+        params.set("facets", "true");
         const response = await productsAPI.getAll(params);
-        const productsList = response?.products || [];
-        setProducts(productsList);
-        
-        // Extract unique categories
-        const uniqueCategories = new Set<string>(["All"]);
-        productsList.forEach((p: Product) => {
-          if (p.category) uniqueCategories.add(p.category);
-        });
-        setCategories(Array.from(uniqueCategories));
+        setProducts(response?.products || []);
+        setFacets(response?.facets || null);
+        setTotal(response?.pagination?.total || 0);
+        setTotalPages(response?.pagination?.totalPages || 1);
       } catch (err: any) {
         // API wrapper should handle errors, but just in case
         console.error('Error fetching products:', err);
         setProducts([]);
-        setCategories(["All"]);
+        setFacets(null);
         setError(err.response?.data?.error || 'Failed to load products');
-        setProducts([]);
       } finally {
         setLoading(false);
       }
     };
 
     fetchProducts();
-  }, [selectedCategory]);
+  }, [queryString]);
+
+  // Applies filter changes to the URL; any filter change goes back to the first page
+  const updateFilters = (changes: Record<string, string | string[] | null>, keepPage = false) => {
+    const params = new URLSearchParams(queryString);
+    Object.entries(changes).forEach(([key, value]) => {
+      params.delete(key);
+      if (Array.isArray(value)) {
+        value.forEach((item) => params.append(key, item));
+      } else if (value) {
+        params.set(key, value);
+      }
+    });
+    if (!keepPage) params.delete("page");
+    const next = params.toString();
+    router.replace(next ? `/products?${next}` : "/products", { scroll: false });
+  };
+
+  const toggleAttribute = (name: string, value: string) => {
+    const key = `${name}:${value}`;
+    updateFilters({
+      attr: selectedAttributes.includes(key)
+        ? selectedAttributes.filter((item) => item !== key)
+        : [...selectedAttributes, key],
+    });
+  };
+
+  const toggleSpecValue = (key: string, value: string) => {
+    const entry = `${key}:${value}`;
+    updateFilters({
+      spec: selectedSpecs.includes(entry)
+        ? selectedSpecs.filter((item) => item !== entry)
+        : [...selectedSpecs, entry],
+    });
+  };
+
+  const specRange = (key: string) =>
+    selectedSpecs.find((item) => item.startsWith(`${key}:`) && item.includes(".."))?.slice(key.length + 1) || "";
+
+  // Replaces the spec's range; both ends empty removes it
+  const applySpecRange = (e: React.FormEvent<HTMLFormElement>, key: string) => {
+    e.preventDefault();
+    const form = new FormData(e.currentTarget);
+    const min = String(form.get("min") || "").trim();
+    const max = String(form.get("max") || "").trim();
+    const others = selectedSpecs.filter((item) => !(item.startsWith(`${key}:`) && item.includes("..")));
+    updateFilters({ spec: min || max ? [...others, `${key}:${min}..${max}`] : others });
+  };
 
-  const filteredAndSortedProducts = useMemo(() => {
-    // Products are already filtered by category from API
-    const sorted = [...products];
-    switch (sortBy) {
-      case "price-low":
-        sorted.sort((a, b) => parseFloat(a.price) - parseFloat(b.price));
-        break;
-      case "price-high":
-        sorted.sort((a, b) => parseFloat(b.price) - parseFloat(a.price));
-        break;
-      case "featured":
-      default:
-        // Keep original order
-        break;
+  const handleCompareToggle = (product: Product) => {
+    if (isInCompare(product.id)) {
+      removeFromCompare(product.id);
+      return;
     }
-    return sorted;
-  }, [products, sortBy]);
+    const added = addToCompare({
+      id: product.id,
+      title: product.title,
+      slug: product.slug,
+      image: product.images?.[0] || '/images/products/headphones.png',
+    });
+    if (!added) {
+      toast.error(`You can compare up to ${MAX_COMPARE_ITEMS} products`);
+    }
+  };
+
+  const applyPriceRange = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ minPrice: minPrice.trim() || null, maxPrice: maxPrice.trim() || null });
+  };
+
+  const hasFilters = ["category", "minPrice", "maxPrice", "inStock", "minDiscount", "minRating", "attr", "spec"]
+    .some((key) => searchParams.has(key));
+
+  // Top-level pills, then the selected category's subcategories (or its
+  // siblings when it has none)
+  const facetCategories = facets?.categories || [];
+  const activePathIds = activeCategory?.path.map((c) => c.id) || [];
+  const rootCategories = facetCategories.filter((c) => !c.parentId);
+  const childCategories = activeCategory
+    ? facetCategories.filter((c) => c.parentId === activeCategory.category.id)
+    : [];
+  const subCategories = childCategories.length > 0 || !activeCategory?.category.parentId
+    ? childCategories
+    : facetCategories.filter((c) => c.parentId === activeCategory.category.parentId);
 
   const handleAddToCart = (e: React.MouseEvent, product: Product) => {
     e.stopPropagation();
+    // Options are chosen on the product page
+    if (product.variants?.length) {
+      router.push(`/product/${product.slug || product.id}`);
+      return;
+    }
     const images = product.images && Array.isArray(product.images) ? product.images : [];
     addToCart({
       id: product.id,
       name: product.title,
-      price: parseFloat(product.price),
+      price: parseFloat(product.salePrice),
       image: images[0] || '/images/products/headphones.png',
-      originalPrice: product.discount 
-        ? parseFloat(product.price) / (1 - product.discount / 100)
-        : parseFloat(product.price)
+      originalPrice: parseFloat(product.price)
     });
   };
 
@@ -111,9 +243,25 @@ export function ProductsPage() {
             <div className="flex items-center gap-2 text-cyan-400 mb-3">
               <span className="text-xs sm:text-sm">★ Premium Products</span>
             </div>
-            <h1 className="text-white text-3xl sm:text-4xl md:text-5xl mb-3 sm:mb-4">Our Products</h1>
+            {activeCategory && activeCategory.path.length > 1 && (
+              <nav className="flex items-center gap-1 text-slate-400 text-xs sm:text-sm mb-2 flex-wrap">
+                {activeCategory.path.slice(0, -1).map((ancestor) => (
+                  <span key={ancestor.id} className="flex items-center gap-1">
+                    <button onClick={() => updateFilters({ category: ancestor.slug })} className="hover:text-cyan-400">
+                      {ancestor.name}
+                    </button>
+                    <ChevronRight className="w-3 h-3" />
+                  </span>
+                ))}
+              </nav>
+            )}
+            <h1 className="text-white text-3xl sm:text-4xl md:text-5xl mb-3 sm:mb-4">
+              {activeCategory ? activeCategory.category.name : "Our Products"}
+            </h1>
             <p className="text-slate-300 text-base sm:text-lg max-w-2xl">
-              Discover our complete range of premium technology products designed for your daily needs.
+              {activeCategory
+                ? activeCategory.category.description || `Browse our ${activeCategory.category.name} range.`
+                : "Discover our complete range of premium technology products designed for your daily needs."}
             </p>
           </motion.div>
         </div>
@@ -125,26 +273,53 @@ export function ProductsPage() {
           <div className="flex items-center gap-3 sm:gap-4 flex-wrap w-full md:w-auto">
             <button
               onClick={() => setShowFilters(!showFilters)}
-              className="flex items-center gap-2 bg-white border border-slate-200 px-3 sm:px-4 py-2 rounded-lg hover:border-cyan-500 transition-all text-xs sm:text-sm"
+              className="lg:hidden flex items-center gap-2 bg-white border border-slate-200 px-3 sm:px-4 py-2 rounded-lg hover:border-cyan-500 transition-all text-xs sm:text-sm"
             >
               <Filter className="w-4 h-4" />
               Filters
             </button>
 
             {/* Category Pills */}
-            <div className="flex gap-2 flex-wrap">
-              {categories.map((cat) => (
+            <div className="flex flex-col gap-2">
+              <div className="flex gap-2 flex-wrap">
                 <button
-                  key={cat}
-                  onClick={() => setSelectedCategory(cat)}
-                  className={`px-3 sm:px-4 py-2 rounded-lg transition-all text-xs sm:text-sm ${selectedCategory === cat
+                  onClick={() => updateFilters({ category: null })}
+                  className={`px-3 sm:px-4 py-2 rounded-lg transition-all text-xs sm:text-sm ${!selectedCategory
                     ? "bg-cyan-500 text-white"
                     : "bg-white text-slate-700 hover:bg-slate-100"
                     }`}
                 >
-                  {cat}
+                  All
                 </button>
-              ))}
+                {rootCategories.map((cat) => (
+                  <button
+                    key={cat.id}
+                    onClick={() => updateFilters({ category: cat.slug })}
+                    className={`px-3 sm:px-4 py-2 rounded-lg transition-all text-xs sm:text-sm ${activePathIds.includes(cat.id)
+                      ? "bg-cyan-500 text-white"
+                      : "bg-white text-slate-700 hover:bg-slate-100"
+                      }`}
+                  >
+                    {cat.name}
+                  </button>
+                ))}
+              </div>
+              {subCategories.length > 0 && (
+                <div className="flex gap-2 flex-wrap">
+                  {subCategories.map((cat) => (
+                    <button
+                      key={cat.id}
+                      onClick={() => updateFilters({ category: cat.slug })}
+                      className={`px-3 py-1 rounded-full transition-all text-xs border ${activePathIds.includes(cat.id)
+                        ? "bg-cyan-50 border-cyan-500 text-cyan-700"
+                        : "bg-white border-slate-200 text-slate-600 hover:border-cyan-500"
+                        }`}
+                    >
+                      {cat.name} <span className="text-slate-400">{cat.count}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
 
@@ -152,18 +327,204 @@ export function ProductsPage() {
           <div className="relative w-full md:w-auto">
             <select
               value={sortBy}
-              onChange={(e) => setSortBy(e.target.value)}
+              onChange={(e) => updateFilters({ sort: e.target.value === "newest" ? null : e.target.value })}
               className="appearance-none bg-white border border-slate-200 px-3 sm:px-4 py-2 pr-10 rounded-lg hover:border-cyan-500 transition-all cursor-pointer w-full md:w-auto text-xs sm:text-sm"
             >
-              <option value="featured">Featured</option>
-              <option value="price-low">Price: Low to High</option>
-              <option value="price-high">Price: High to Low</option>
-              <option value="rating">Highest Rated</option>
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
             </select>
             <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
           </div>
         </div>
 
+        <div className="flex flex-col lg:flex-row gap-6 lg:gap-8">
+        {/* Filter Sidebar */}
+        <aside className={`${showFilters ? "block" : "hidden"} lg:block lg:w-64 flex-shrink-0`}>
+          <div className="bg-white border border-slate-200 rounded-xl p-5 space-y-6 lg:sticky lg:top-24">
+            <div className="flex items-center justify-between">
+              <h2 className="text-slate-900 font-semibold">Filters</h2>
+              {hasFilters && (
+                <button
+                  onClick={() => router.replace(sortBy !== "newest" ? `/products?sort=${sortBy}` : "/products", { scroll: false })}
+                  className="flex items-center gap-1 text-cyan-600 hover:text-cyan-700 text-sm"
+                >
+                  <X className="w-4 h-4" />
+                  Clear all
+                </button>
+              )}
+            </div>
+
+            {/* Price */}
+            <form onSubmit={applyPriceRange}>
+              <p className="text-slate-700 text-sm font-medium mb-2">Price</p>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={minPrice}
+                  onChange={(e) => setMinPrice(e.target.value)}
+                  placeholder={facets?.price ? String(Math.floor(facets.price.min)) : "Min"}
+                  className="w-full border border-slate-200 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+                <span className="text-slate-400">–</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={maxPrice}
+                  onChange={(e) => setMaxPrice(e.target.value)}
+                  placeholder={facets?.price ? String(Math.ceil(facets.price.max)) : "Max"}
+                  className="w-full border border-slate-200 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+              </div>
+              <button
+                type="submit"
+                className="mt-2 w-full bg-slate-100 hover:bg-slate-200 text-slate-700 py-1.5 rounded-lg text-sm transition-all"
+              >
+                Apply
+              </button>
+            </form>
+
+            {/* Availability */}
+            <div>
+              <p className="text-slate-700 text-sm font-medium mb-2">Availability</p>
+              <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={inStock}
+                  onChange={(e) => updateFilters({ inStock: e.target.checked ? "true" : null })}
+                  className="w-4 h-4 accent-cyan-500"
+                />
+                In stock only
+                {facets && <span className="text-slate-400 ml-auto">{facets.inStock}</span>}
+              </label>
+            </div>
+
+            {/* Discount */}
+            {facets && facets.discounts.some((bucket) => bucket.count > 0) && (
+              <div>
+                <p className="text-slate-700 text-sm font-medium mb-2">Discount</p>
+                <div className="space-y-1.5">
+                  {facets.discounts.map((bucket) => (
+                    <label key={bucket.min} className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={minDiscount === String(bucket.min)}
+                        onChange={(e) => updateFilters({ minDiscount: e.target.checked ? String(bucket.min) : null })}
+                        className="w-4 h-4 accent-cyan-500"
+                      />
+                      {bucket.min}% off or more
+                      <span className="text-slate-400 ml-auto">{bucket.count}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Rating */}
+            {facets && facets.ratings.some((bucket) => bucket.count > 0) && (
+              <div>
+                <p className="text-slate-700 text-sm font-medium mb-2">Customer Rating</p>
+                <div className="space-y-1.5">
+                  {facets.ratings.map((bucket) => (
+                    <label key={bucket.min} className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={minRating === String(bucket.min)}
+                        onChange={(e) => updateFilters({ minRating: e.target.checked ? String(bucket.min) : null })}
+                        className="w-4 h-4 accent-cyan-500"
+                      />
+                      <span className="flex items-center gap-1">
+                        {bucket.min}
+                        <Star className="w-3.5 h-3.5 fill-yellow-400 text-yellow-400" />
+                        & up
+                      </span>
+                      <span className="text-slate-400 ml-auto">{bucket.count}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Attributes */}
+            {facets?.attributes.map((attribute) => (
+              <div key={attribute.name}>
+                <p className="text-slate-700 text-sm font-medium mb-2">{attribute.name}</p>
+                <div className="space-y-1.5">
+                  {attribute.values.map((option) => (
+                    <label key={option.value} className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedAttributes.includes(`${attribute.name}:${option.value}`)}
+                        onChange={() => toggleAttribute(attribute.name, option.value)}
+                        className="w-4 h-4 accent-cyan-500"
+                      />
+                      {option.value}
+                      <span className="text-slate-400 ml-auto">{option.count}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {/* Specs */}
+            {facets?.specs.map((spec) => (
+              <div key={spec.key}>
+                <p className="text-slate-700 text-sm font-medium mb-2">
+                  {spec.name}{spec.unit ? ` (${spec.unit})` : ""}
+                </p>
+                {spec.type === "NUMBER" && spec.range ? (
+                  <form key={specRange(spec.key)} onSubmit={(e) => applySpecRange(e, spec.key)}>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        step="any"
+                        name="min"
+                        defaultValue={specRange(spec.key).split("..")[0]}
+                        placeholder={String(spec.range.min)}
+                        className="w-full border border-slate-200 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                      />
+                      <span className="text-slate-400">–</span>
+                      <input
+                        type="number"
+                        step="any"
+                        name="max"
+                        defaultValue={specRange(spec.key).split("..")[1]}
+                        placeholder={String(spec.range.max)}
+                        className="w-full border border-slate-200 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                      />
+                    </div>
+                    <button
+                      type="submit"
+                      className="mt-2 w-full bg-slate-100 hover:bg-slate-200 text-slate-700 py-1.5 rounded-lg text-sm transition-all"
+                    >
+                      Apply
+                    </button>
+                  </form>
+                ) : (
+                  <div className="space-y-1.5">
+                    {spec.values.map((option) => (
+                      <label key={option.value} className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selectedSpecs.includes(`${spec.key}:${option.value}`)}
+                          onChange={() => toggleSpecValue(spec.key, option.value)}
+                          className="w-4 h-4 accent-cyan-500"
+                        />
+                        {spec.type === "BOOLEAN" ? (option.value === "true" ? "Yes" : "No") : option.value}
+                        <span className="text-slate-400 ml-auto">{option.count}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </aside>
+
+        <div className="flex-1 min-w-0">
         {/* Loading State */}
         {loading && (
           <div className="flex items-center justify-center py-12">
@@ -181,14 +542,14 @@ export function ProductsPage() {
         {/* Products Count */}
         {!loading && !error && (
           <p className="text-slate-600 mb-6">
-            Showing <span className="font-semibold">{filteredAndSortedProducts.length}</span> products
+            Showing <span className="font-semibold">{products.length}</span> of <span className="font-semibold">{total}</span> products
           </p>
         )}
 
         {/* Products Grid */}
         {!loading && !error && (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 mb-12">
-          {filteredAndSortedProducts.map((product, index) => (
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6 mb-12">
+          {products.map((product, index) => (
             <motion.div
               key={product.id}
               initial={{ opacity: 0, y: 20 }}
@@ -198,9 +559,9 @@ export function ProductsPage() {
               className="bg-white rounded-xl overflow-hidden hover:shadow-2xl transition-all cursor-pointer group border border-slate-200 hover:border-cyan-500"
             >
               {/* Discount Badge */}
-              {product.discount && product.discount > 0 && (
+              {product.saleDiscount > 0 && (
                 <div className="absolute top-4 left-4 bg-red-500 text-white px-3 py-1 rounded-full text-sm z-10">
-                  {product.discount}% OFF
+                  {product.saleDiscount}% OFF
                 </div>
               )}
 
@@ -237,6 +598,15 @@ export function ProductsPage() {
                   {product.title}
                 </h3>
 
+                {/* Rating */}
+                {!!product.reviewCount && (
+                  <div className="flex items-center gap-1 mb-2">
+                    <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
+                    <span className="text-slate-700 text-sm">{product.averageRating?.toFixed(1)}</span>
+                    <span className="text-slate-500 text-xs">({product.reviewCount})</span>
+                  </div>
+                )}
+
                 {/* Description */}
                 {product.description && (
                   <p className="text-slate-600 text-sm mb-3 line-clamp-2">
@@ -247,13 +617,13 @@ export function ProductsPage() {
                 {/* Price and Stock */}
                 <div className="flex items-center justify-between mb-3">
                   <div className="flex items-center gap-2">
-                    {product.discount && product.discount > 0 && (
+                    {parseFloat(product.salePrice) < parseFloat(product.price) && (
                       <span className="text-slate-500 line-through text-sm">
-                        ${(parseFloat(product.price) / (1 - product.discount / 100)).toFixed(2)}
+                        {formatPrice(product.price)}
                       </span>
                     )}
                     <span className="text-slate-900 text-xl sm:text-2xl">
-                      ${parseFloat(product.price).toFixed(2)}
+                      {formatPrice(product.salePrice)}
                     </span>
                   </div>
                   {product.stock !== undefined && (
@@ -262,6 +632,13 @@ export function ProductsPage() {
                     </span>
                   )}
                 </div>
+                {product.promotion && (
+                  <PromotionCountdown
+                    to={product.promotion.endsAt}
+                    label={`${product.promotion.name} ends in`}
+                    className="text-red-600 text-xs mb-3"
+                  />
+                )}
 
                 {/* Action Buttons */}
                 <div className="flex gap-2">
@@ -281,6 +658,18 @@ export function ProductsPage() {
                     Add to Cart
                   </button>
                 </div>
+                <label
+                  onClick={(e) => e.stopPropagation()}
+                  className="mt-3 flex items-center gap-2 text-sm text-slate-600 cursor-pointer w-fit"
+                >
+                  <input
+                    type="checkbox"
+                    checked={isInCompare(product.id)}
+                    onChange={() => handleCompareToggle(product)}
+                    className="w-4 h-4 accent-cyan-500"
+                  />
+                  Compare
+                </label>
               </div>
             </motion.div>
           ))}
@@ -288,11 +677,34 @@ export function ProductsPage() {
         )}
 
         {/* Empty State */}
-        {!loading && !error && filteredAndSortedProducts.length === 0 && (
+        {!loading && !error && products.length === 0 && (
           <div className="text-center py-12">
             <p className="text-slate-600">No products found.</p>
           </div>
         )}
+
+        {/* Pagination */}
+        {!loading && !error && totalPages > 1 && (
+          <div className="flex items-center justify-center gap-3">
+            <button
+              onClick={() => updateFilters({ page: page > 2 ? String(page - 1) : null }, true)}
+              disabled={page === 1}
+              className="px-4 py-2 rounded-lg bg-white border border-slate-200 text-slate-700 hover:border-cyan-500 disabled:opacity-50 text-sm"
+            >
+              Previous
+            </button>
+            <span className="text-slate-600 text-sm">Page {page} of {totalPages}</span>
+            <button
+              onClick={() => updateFilters({ page: String(page + 1) }, true)}
+              disabled={page >= totalPages}
+              className="px-4 py-2 rounded-lg bg-white border border-slate-200 text-slate-700 hover:border-cyan-500 disabled:opacity-50 text-sm"
+            >
+              Next
+            </button>
+          </div>
+        )}
+        </div>
+        </div>
       </div>
     </div>
   );
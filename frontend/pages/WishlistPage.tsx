@@ -0,0 +1,189 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { wishlistAPI } from "@/lib/api";
+import { Loader2, Heart, ShoppingCart, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useCart } from "@/context/CartContext";
+import { useCurrency } from "@/context/CurrencyContext";
+import { toast } from "sonner";
+
+interface WishlistItem {
+  id: string;
+  productId: string;
+  createdAt: string;
+  product: {
+    id: string;
+    title: string;
+    slug?: string | null;
+    price: string;
+    salePrice: string; // After the product discount and any running promotion
+    discount?: number | null;
+    stock: number;
+    images?: string[] | null;
+    variants?: { id: string }[];
+  };
+}
+
+export function WishlistPage() {
+  const router = useRouter();
+  const { addToCart } = useCart();
+  const { formatPrice } = useCurrency();
+  const [items, setItems] = useState<WishlistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchWishlist = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await wishlistAPI.getAll();
+        setItems(response.wishlist || []);
+      } catch (err: any) {
+        console.error('Error fetching wishlist:', err);
+        if (err.response?.status === 401) {
+          router.push('/login');
+        } else {
+          setError(err.response?.data?.error || 'Failed to load wishlist');
+        }
+        setItems([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchWishlist();
+  }, [router]);
+
+  const handleRemove = async (productId: string) => {
+    try {
+      setRemovingId(productId);
+      await wishlistAPI.remove(productId);
+      setItems(prevItems => prevItems.filter(item => item.productId !== productId));
+      toast.success('Removed from wishlist');
+    } catch (err: any) {
+      console.error('Error removing from wishlist:', err);
+      toast.error(err.response?.data?.error || 'Failed to remove from wishlist');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const handleAddToCart = (item: WishlistItem) => {
+    // Options are chosen on the product page
+    if (item.product.variants?.length) {
+      router.push(`/product/${item.product.slug || item.product.id}`);
+      return;
+    }
+    if (item.product.stock <= 0) {
+      toast.error('Product is out of stock');
+      return;
+    }
+    addToCart({
+      id: item.product.id,
+      name: item.product.title,
+      price: parseFloat(item.product.salePrice),
+      originalPrice: parseFloat(item.product.price),
+      image: item.product.images?.[0] || '/images/products/headphones.png',
+    });
+    toast.success('Added to cart');
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-white py-8 px-4 sm:px-6 lg:px-8 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-white py-8 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-6xl mx-auto">
+        <h1 className="text-slate-900 font-bold text-3xl sm:text-4xl mb-8">My Wishlist</h1>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {!error && items.length === 0 && (
+          <div className="text-center py-12">
+            <Heart className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+            <p className="text-slate-600 mb-4">Your wishlist is empty.</p>
+            <button
+              onClick={() => router.push('/products')}
+              className="bg-cyan-500 hover:bg-cyan-600 text-white px-6 py-2 rounded-lg"
+            >
+              Browse Products
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {items.map((item) => {
+            const price = parseFloat(item.product.salePrice);
+            const listPrice = parseFloat(item.product.price);
+            const inStock = item.product.stock > 0;
+            return (
+              <div
+                key={item.id}
+                className="bg-white border border-slate-200 rounded-lg overflow-hidden hover:shadow-md transition-shadow flex flex-col"
+              >
+                <button
+                  onClick={() => router.push(`/product/${item.product.slug || item.product.id}`)}
+                  className="bg-slate-100 h-48 flex items-center justify-center"
+                >
+                  <img
+                    src={item.product.images?.[0] || '/images/products/headphones.png'}
+                    alt={item.product.title}
+                    className="max-h-44 object-contain"
+                  />
+                </button>
+                <div className="p-4 flex flex-col flex-1">
+                  <h2 className="text-slate-900 font-semibold mb-2 line-clamp-2">{item.product.title}</h2>
+                  <div className="flex items-baseline gap-2 mb-1">
+                    <span className="text-slate-900 font-bold text-lg">{formatPrice(price)}</span>
+                    {price < listPrice && (
+                      <span className="text-slate-400 line-through text-sm">{formatPrice(listPrice)}</span>
+                    )}
+                  </div>
+                  <p className={`text-sm mb-4 ${inStock ? 'text-green-600' : 'text-red-600'}`}>
+                    {inStock ? 'In Stock' : 'Out of Stock'}
+                  </p>
+                  <div className="flex gap-2 mt-auto">
+                    <button
+                      onClick={() => handleAddToCart(item)}
+                      disabled={!inStock}
+                      className="flex-1 flex items-center justify-center gap-2 bg-cyan-500 hover:bg-cyan-600 disabled:bg-slate-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm transition-all"
+                    >
+                      <ShoppingCart className="w-4 h-4" />
+                      Add to Cart
+                    </button>
+                    <button
+                      onClick={() => handleRemove(item.productId)}
+                      disabled={removingId === item.productId}
+                      className="px-3 py-2 border border-slate-300 hover:border-red-400 hover:bg-red-50 disabled:opacity-50 rounded-lg transition-all"
+                      title="Remove from wishlist"
+                    >
+                      {removingId === item.productId ? (
+                        <Loader2 className="w-4 h-4 animate-spin text-slate-500" />
+                      ) : (
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default WishlistPage;
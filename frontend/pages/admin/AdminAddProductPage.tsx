@@ -6,8 +6,9 @@ import React from "react";
 import { useRouter, useParams } from "next/navigation";
 
 import { AdminLayout } from "../../components/admin/AdminLayout";
-import { ArrowLeft, Upload, Package, X, Loader2, CheckCircle, ChevronDown } from "lucide-react";
-import { productsAPI, categoriesAPI } from "@/lib/api";
+import { MediaPickerDialog } from "../../components/admin/MediaPickerDialog";
+import { ArrowLeft, Upload, Package, X, Loader2, CheckCircle, ChevronDown, Layers, Plus, Trash2, Images, ListChecks } from "lucide-react";
+import { productsAPI, categoriesAPI, uploadsAPI, specsAPI, Category, ProductStatus, SpecDefinition, ProductSpec } from "@/lib/api";
 
 interface Product {
   id: number;
@@ -21,6 +22,42 @@ interface Product {
   image: string;
 }
 
+interface OptionType {
+  name: string;
+  values: string; // Comma separated, e.g. "Black, White"
+}
+
+interface VariantRow {
+  id?: string; // Existing variant
+  options: Record<string, string>;
+  sku: string;
+  price: string; // Empty uses the product price
+  stock: string;
+  image: string; // One of the product images, or empty
+}
+
+const parseOptionValues = (values: string) =>
+  Array.from(new Set(values.split(",").map(v => v.trim()).filter(Boolean)));
+
+const variantKey = (options: Record<string, string>) =>
+  Object.keys(options).sort().map(name => `${name}=${options[name]}`).join("|");
+
+// Every combination of the option values, e.g. Color x Size
+const buildCombinations = (optionTypes: OptionType[]) =>
+  optionTypes.reduce<Record<string, string>[]>(
+    (combinations, type) =>
+      combinations.flatMap(combination =>
+        parseOptionValues(type.values).map(value => ({ ...combination, [type.name.trim()]: value }))
+      ),
+    [{}]
+  );
+
+const suggestSku = (title: string, options: Record<string, string>) =>
+  [title, ...Object.values(options)]
+    .map(part => part.trim().toUpperCase().replace(/[^A-Z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 12))
+    .filter(Boolean)
+    .join("-");
+
 function AdminAddProductPage() {
   const router = useRouter();
   const params = useParams();
@@ -30,27 +67,41 @@ function AdminAddProductPage() {
   const [formData, setFormData] = useState({
     name: "",
     price: "",
-    category: "",
+    categoryId: "",
     description: "",
     discount: "",
     hsCode: "",
     stock: "0",
+    weight: "",
     onOffer: false,
     bigOffer: false,
+    status: "ACTIVE" as ProductStatus,
     productType: "internal",
     externalUrl: "",
   });
 
   const [images, setImages] = useState<string[]>([]);
+  const [optionTypes, setOptionTypes] = useState<OptionType[]>([]);
+  const [variantRows, setVariantRows] = useState<VariantRow[]>([]);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [showMediaPicker, setShowMediaPicker] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [successMessage, setSuccessMessage] = useState("");
-  const [categories, setCategories] = useState<Array<{ id: string; name: string }>>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [loadingCategories, setLoadingCategories] = useState(false);
+  const [specDefinitions, setSpecDefinitions] = useState<SpecDefinition[]>([]);
+  const [specValues, setSpecValues] = useState<Record<string, string>>({}); // Spec key -> input value
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Indent subcategories under their parent; the list comes parents first
+  const categoryDepth = (category: Category): number => {
+    const parent = categories.find(c => c.id === category.parentId);
+    return parent ? categoryDepth(parent) + 1 : 0;
+  };
+
   /* -------------------- LOAD CATEGORIES -------------------- */
   useEffect(() => {
     const loadCategories = async () => {
@@ -69,6 +120,30 @@ function AdminAddProductPage() {
     loadCategories();
   }, []);
 
+  /* -------------------- LOAD SPECS FOR THE CATEGORY -------------------- */
+  useEffect(() => {
+    if (!formData.categoryId) {
+      setSpecDefinitions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadSpecs = async () => {
+      try {
+        const response = await specsAPI.getForCategory(formData.categoryId);
+        if (!cancelled) setSpecDefinitions(response.specs || []);
+      } catch (err) {
+        console.error('Error loading specs:', err);
+        if (!cancelled) setSpecDefinitions([]);
+      }
+    };
+
+    loadSpecs();
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.categoryId]);
+
   /* -------------------- LOAD PRODUCT (NO CHANGE) -------------------- */
   useEffect(() => {
     const loadProduct = async () => {
@@ -82,13 +157,15 @@ function AdminAddProductPage() {
             setFormData({
               name: product.title || "",
               price: product.price || "",
-              category: product.category || "",
+              categoryId: product.categoryId || "",
               description: product.description || "",
               discount: product.discount?.toString() || "0",
               hsCode: product.hsCode || "",
               stock: product.stock?.toString() || "0",
+              weight: product.weight?.toString() || "",
               onOffer: false,
               bigOffer: product.featured || false,
+              status: product.status || "ACTIVE",
               productType: "internal",
               externalUrl: "",
             });
@@ -96,6 +173,26 @@ function AdminAddProductPage() {
             if (Array.isArray(product.images)) {
               setImages(product.images);
             }
+
+            const specs: ProductSpec[] = product.specs || [];
+            setSpecValues(Object.fromEntries(specs.map(spec => [spec.key, String(spec.value)])));
+
+            const variants: any[] = product.variants || [];
+            if (variants.length > 0) {
+              const names = Array.from(new Set(variants.flatMap(v => Object.keys(v.options || {}))));
+              setOptionTypes(names.map(name => ({
+                name,
+                values: Array.from(new Set(variants.map(v => v.options?.[name]).filter(Boolean))).join(", "),
+              })));
+              setVariantRows(variants.map(v => ({
+                id: v.id,
+                options: v.options || {},
+                sku: v.sku || "",
+                price: v.price ?? "",
+                stock: v.stock?.toString() || "0",
+                image: v.images?.[0] || "",
+              })));
+            }
           } else {
             router.push("/admin/products");
           }
@@ -111,7 +208,7 @@ function AdminAddProductPage() {
   }, [isEdit, id, router]);
 
   /* -------------------- HANDLE FILE UPLOAD -------------------- */
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
       const file = files[0];
@@ -126,15 +223,15 @@ function AdminAddProductPage() {
         return;
       }
       
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const imageUrl = event.target?.result as string;
-        setImages([...images, imageUrl]);
-      };
-      reader.onerror = () => {
-        alert('Error reading file. Please try again.');
-      };
-      reader.readAsDataURL(file);
+      setUploading(true);
+      try {
+        const upload = await uploadsAPI.upload(file, 'products');
+        setImages(prev => [...prev, upload.url]);
+      } catch (error: any) {
+        alert(error.response?.data?.error || 'Failed to upload image. Please try again.');
+      } finally {
+        setUploading(false);
+      }
     }
     
     if (fileInputRef.current) {
@@ -142,6 +239,31 @@ function AdminAddProductPage() {
     }
   };
 
+  /* -------------------- VARIANT MATRIX -------------------- */
+  // Rebuild the rows from the option values, keeping what was entered for existing combinations
+  const handleGenerateVariants = () => {
+    const types = optionTypes.filter(type => type.name.trim() && parseOptionValues(type.values).length > 0);
+    if (types.length === 0) {
+      alert("Add at least one option with values, e.g. Color: Black, White");
+      return;
+    }
+
+    const rowsByKey = new Map(variantRows.map(row => [variantKey(row.options), row]));
+    setVariantRows(buildCombinations(types).map(options =>
+      rowsByKey.get(variantKey(options)) || {
+        options,
+        sku: suggestSku(formData.name, options),
+        price: "",
+        stock: "0",
+        image: "",
+      }
+    ));
+  };
+
+  const updateVariantRow = (index: number, changes: Partial<VariantRow>) => {
+    setVariantRows(variantRows.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
   /* -------------------- VALIDATE FORM -------------------- */
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
@@ -155,7 +277,7 @@ function AdminAddProductPage() {
       newErrors.price = "Valid price is required";
     }
     
-    if (!formData.category.trim()) {
+    if (!formData.categoryId) {
       newErrors.category = "Category is required";
     }
     
@@ -172,6 +294,26 @@ function AdminAddProductPage() {
       newErrors.stock = "Stock must be a non-negative number";
     }
 
+    const weightValue = parseFloat(formData.weight);
+    if (formData.weight && (isNaN(weightValue) || weightValue < 0)) {
+      newErrors.weight = "Weight must be a non-negative number";
+    }
+
+    if (variantRows.some(row => !row.sku.trim())) {
+      newErrors.variants = "Every variant needs a SKU";
+    } else if (variantRows.some(row => isNaN(parseInt(row.stock)) || parseInt(row.stock) < 0)) {
+      newErrors.variants = "Variant stock must be a non-negative number";
+    } else if (variantRows.some(row => row.price !== "" && !(parseFloat(row.price) > 0))) {
+      newErrors.variants = "Variant prices must be positive, or empty to use the product price";
+    }
+
+    const invalidNumber = specDefinitions.find(spec =>
+      spec.type === "NUMBER" && (specValues[spec.key] || "").trim() !== "" && isNaN(Number(specValues[spec.key]))
+    );
+    if (invalidNumber) {
+      newErrors.specs = `${invalidNumber.name} must be a number`;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -213,21 +355,38 @@ function AdminAddProductPage() {
         processedImages = images.map(img => img);
           }
 
-      // Find categoryId if category name is selected
-      const selectedCategory = categories.find(cat => cat.name === formData.category.trim());
-      
+      // Products with variants keep their stock on each variant
+      const variants = variantRows.map(row => ({
+        ...(row.id && { id: row.id }),
+        sku: row.sku.trim(),
+        options: row.options,
+        price: row.price !== "" ? parseFloat(row.price) : null,
+        stock: parseInt(row.stock) || 0,
+        images: row.image ? [row.image] : [],
+      }));
+
+      // Empty values clear the spec; specs of another category are dropped by the API
+      const specs = Object.fromEntries(specDefinitions.map(spec => {
+        const value = (specValues[spec.key] || "").trim();
+        if (!value) return [spec.key, null];
+        if (spec.type === "NUMBER") return [spec.key, Number(value)];
+        if (spec.type === "BOOLEAN") return [spec.key, value === "true"];
+        return [spec.key, value];
+      }));
+
       const productData: any = {
           title: formData.name.trim(),
           price: price,
           hsCode: formData.hsCode.trim(),
-          stock: stock,
+          ...(variants.length === 0 && { stock }),
+          ...((isEdit || variants.length > 0) && { variants }),
+          weight: formData.weight ? parseFloat(formData.weight) : null,
           ...(formData.description.trim() ? { description: formData.description.trim() } : {}),
-          // Preserve category string for backward compatibility
-          ...(formData.category.trim() ? { category: formData.category.trim() } : {}),
-          // Also send categoryId if category is selected from dropdown
-          ...(selectedCategory ? { categoryId: selectedCategory.id } : {}),
+          categoryId: formData.categoryId || null,
           ...(discount > 0 ? { discount: discount } : {}),
           featured: formData.bigOffer || formData.onOffer || false,
+          status: formData.status,
+          ...(specDefinitions.length > 0 && { specs }),
           ...(processedImages && processedImages.length > 0 ? { images: processedImages } : {}),
         };
 
@@ -324,9 +483,9 @@ function AdminAddProductPage() {
                 <label className={labelClass}>Category *</label>
                 <div className="relative">
                   <select
-                    value={formData.category}
+                    value={formData.categoryId}
                     onChange={(e) =>
-                      setFormData({ ...formData, category: e.target.value })
+                      setFormData({ ...formData, categoryId: e.target.value })
                     }
                     className={`${inputClass} pr-10 ${errors.category ? 'border-red-500' : ''}`}
                     disabled={loadingCategories}
@@ -339,10 +498,10 @@ function AdminAddProductPage() {
                     {categories.map((cat) => (
                       <option 
                         key={cat.id} 
-                        value={cat.name}
+                        value={cat.id}
                         style={{ backgroundColor: '#1e293b', color: '#ffffff' }}
                       >
-                        {cat.name}
+                        {`${"\u00a0\u00a0".repeat(categoryDepth(cat))}${cat.name}`}
                       </option>
                     ))}
                   </select>
@@ -354,6 +513,28 @@ function AdminAddProductPage() {
                 )}
               </div>
 
+              <div>
+                <label className={labelClass}>Status</label>
+                <div className="relative">
+                  <select
+                    value={formData.status}
+                    onChange={(e) =>
+                      setFormData({ ...formData, status: e.target.value as ProductStatus })
+                    }
+                    className={`${inputClass} pr-10`}
+                    style={{
+                      color: '#ffffff',
+                      backgroundColor: '#334155',
+                    }}
+                  >
+                    <option value="DRAFT" style={{ backgroundColor: '#1e293b', color: '#ffffff' }}>Draft (hidden from the store)</option>
+                    <option value="ACTIVE" style={{ backgroundColor: '#1e293b', color: '#ffffff' }}>Active</option>
+                    <option value="ARCHIVED" style={{ backgroundColor: '#1e293b', color: '#ffffff' }}>Archived</option>
+                  </select>
+                  <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
+                </div>
+              </div>
+
               <div>
                 <label className={labelClass}>Price ($) *</label>
                 <input
@@ -398,13 +579,35 @@ function AdminAddProductPage() {
                 <label className={labelClass}>Stock Quantity</label>
                 <input
                   type="number"
-                  value={formData.stock}
+                  value={variantRows.length > 0
+                    ? variantRows.reduce((sum, row) => sum + (parseInt(row.stock) || 0), 0)
+                    : formData.stock}
                   onChange={(e) =>
                     setFormData({ ...formData, stock: e.target.value })
                   }
+                  disabled={variantRows.length > 0}
                   placeholder="Enter stock quantity"
-                  className={inputClass}
+                  className={`${inputClass} disabled:opacity-60 disabled:cursor-not-allowed`}
                 />
+                {variantRows.length > 0 && (
+                  <p className="text-slate-500 text-xs mt-1">Total of the variants below</p>
+                )}
+              </div>
+
+              <div>
+                <label className={labelClass}>Shipping Weight (kg)</label>
+                <input
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  value={formData.weight}
+                  onChange={(e) =>
+                    setFormData({ ...formData, weight: e.target.value })
+                  }
+                  placeholder="e.g., 0.5"
+                  className={`${inputClass} ${errors.weight ? 'border-red-500' : ''}`}
+                />
+                {errors.weight && <p className="text-red-400 text-xs mt-1">{errors.weight}</p>}
               </div>
             </div>
 
@@ -437,6 +640,73 @@ function AdminAddProductPage() {
             </div>
           </div>
 
+          {/* SPECIFICATIONS */}
+          {formData.categoryId && (
+            <div className={sectionCard}>
+              <div className="flex items-center gap-2 mb-1">
+                <ListChecks className="text-cyan-400" />
+                <h2 className="text-white text-xl font-semibold">
+                  Specifications
+                </h2>
+              </div>
+              {specDefinitions.length === 0 ? (
+                <p className="text-slate-400 text-sm">
+                  This category has no specs yet. Add them from Categories to make products filterable and comparable.
+                </p>
+              ) : (
+                <>
+                  <p className="text-slate-400 text-sm mb-4">
+                    Shown on the product page and used by listing filters and the compare view. Leave empty if not applicable.
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+                    {specDefinitions.map((spec) => {
+                      const value = specValues[spec.key] || "";
+                      const setValue = (next: string) => setSpecValues({ ...specValues, [spec.key]: next });
+                      return (
+                        <div key={spec.id}>
+                          <label className={labelClass}>
+                            {spec.name}{spec.unit ? ` (${spec.unit})` : ""}
+                          </label>
+                          {spec.type === "BOOLEAN" || spec.type === "SELECT" ? (
+                            <div className="relative">
+                              <select
+                                value={value}
+                                onChange={(e) => setValue(e.target.value)}
+                                className={`${inputClass} pr-10`}
+                              >
+                                <option value="">Not set</option>
+                                {spec.type === "BOOLEAN" ? (
+                                  <>
+                                    <option value="true">Yes</option>
+                                    <option value="false">No</option>
+                                  </>
+                                ) : (
+                                  spec.options.map((option) => (
+                                    <option key={option} value={option}>{option}</option>
+                                  ))
+                                )}
+                              </select>
+                              <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
+                            </div>
+                          ) : (
+                            <input
+                              type={spec.type === "NUMBER" ? "number" : "text"}
+                              step="any"
+                              value={value}
+                              onChange={(e) => setValue(e.target.value)}
+                              className={inputClass}
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {errors.specs && <p className="text-red-400 text-xs mt-2">{errors.specs}</p>}
+                </>
+              )}
+            </div>
+          )}
+
           {/* PRODUCT IMAGES */}
           <div className={sectionCard}>
             <h2 className="text-white text-xl font-semibold mb-4">
@@ -451,14 +721,37 @@ function AdminAddProductPage() {
               className="hidden"
             />
 
-            <button
-              type="button"
-              onClick={() => fileInputRef.current?.click()}
-              className="w-full bg-cyan-500 hover:bg-cyan-600 text-white py-3 rounded-xl font-medium flex items-center justify-center gap-2"
-            >
-              <Upload className="w-5 h-5" />
-              Add Image
-            </button>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploading}
+                className="flex-1 bg-cyan-500 hover:bg-cyan-600 disabled:opacity-60 disabled:cursor-not-allowed text-white py-3 rounded-xl font-medium flex items-center justify-center gap-2"
+              >
+                {uploading ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Upload className="w-5 h-5" />
+                )}
+                {uploading ? "Uploading..." : "Add Image"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowMediaPicker(true)}
+                className="flex-1 bg-slate-700 hover:bg-slate-600 text-white py-3 rounded-xl font-medium flex items-center justify-center gap-2"
+              >
+                <Images className="w-5 h-5" />
+                Choose from Library
+              </button>
+            </div>
+
+            <MediaPickerDialog
+              open={showMediaPicker}
+              onClose={() => setShowMediaPicker(false)}
+              onSelect={(asset) => setImages(prev => prev.includes(asset.url) ? prev : [...prev, asset.url])}
+              folder="products"
+              title="Choose Product Image"
+            />
 
             {images.length > 0 && (
               <div className="mt-4 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
@@ -486,6 +779,161 @@ function AdminAddProductPage() {
             )}
           </div>
 
+          {/* VARIANTS */}
+          <div className={sectionCard}>
+            <div className="flex items-center gap-2 mb-1">
+              <Layers className="text-cyan-400" />
+              <h2 className="text-white text-xl font-semibold">
+                Variants
+              </h2>
+            </div>
+            <p className="text-slate-400 text-sm mb-4">
+              Optional. Add options such as Color or Size, then generate one variant per combination with its own SKU, price and stock.
+            </p>
+
+            <div className="space-y-3">
+              {optionTypes.map((type, index) => (
+                <div key={index} className="grid grid-cols-1 sm:grid-cols-[1fr_2fr_auto] gap-3">
+                  <input
+                    value={type.name}
+                    onChange={(e) =>
+                      setOptionTypes(optionTypes.map((t, i) => i === index ? { ...t, name: e.target.value } : t))
+                    }
+                    placeholder="Option, e.g. Color"
+                    className={inputClass}
+                  />
+                  <input
+                    value={type.values}
+                    onChange={(e) =>
+                      setOptionTypes(optionTypes.map((t, i) => i === index ? { ...t, values: e.target.value } : t))
+                    }
+                    placeholder="Values, e.g. Black, White, Blue"
+                    className={inputClass}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setOptionTypes(optionTypes.filter((_, i) => i !== index))}
+                    className="px-3 py-3 bg-slate-700 hover:bg-red-500/20 text-slate-300 hover:text-red-400 rounded-xl border border-slate-600"
+                    title="Remove option"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3 mt-4">
+              <button
+                type="button"
+                onClick={() => setOptionTypes([...optionTypes, { name: "", values: "" }])}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-xl border border-slate-600 flex items-center justify-center gap-2 text-sm"
+              >
+                <Plus className="w-4 h-4" />
+                Add Option
+              </button>
+              {optionTypes.length > 0 && (
+                <button
+                  type="button"
+                  onClick={handleGenerateVariants}
+                  className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 text-white rounded-xl flex items-center justify-center gap-2 text-sm"
+                >
+                  <Layers className="w-4 h-4" />
+                  Generate Variants
+                </button>
+              )}
+              {variantRows.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (confirm("Remove all variants? Their stock will be written off.")) {
+                      setVariantRows([]);
+                      setOptionTypes([]);
+                    }
+                  }}
+                  className="px-4 py-2 bg-slate-700 hover:bg-red-500/20 text-slate-300 hover:text-red-400 rounded-xl border border-slate-600 text-sm"
+                >
+                  Remove All Variants
+                </button>
+              )}
+            </div>
+
+            {variantRows.length > 0 && (
+              <div className="mt-5 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-slate-400 text-left border-b border-slate-700">
+                      <th className="py-2 pr-3 font-medium">Variant</th>
+                      <th className="py-2 pr-3 font-medium">SKU *</th>
+                      <th className="py-2 pr-3 font-medium">Price ($)</th>
+                      <th className="py-2 pr-3 font-medium">Stock</th>
+                      <th className="py-2 pr-3 font-medium">Image</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {variantRows.map((row, index) => (
+                      <tr key={variantKey(row.options)} className="border-b border-slate-700/50">
+                        <td className="py-2 pr-3 text-white whitespace-nowrap">
+                          {Object.values(row.options).join(" / ")}
+                        </td>
+                        <td className="py-2 pr-3">
+                          <input
+                            value={row.sku}
+                            onChange={(e) => updateVariantRow(index, { sku: e.target.value })}
+                            className="w-40 px-3 py-2 bg-slate-700/80 border border-slate-600 text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                          />
+                        </td>
+                        <td className="py-2 pr-3">
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={row.price}
+                            onChange={(e) => updateVariantRow(index, { price: e.target.value })}
+                            placeholder={formData.price || "Product price"}
+                            className="w-28 px-3 py-2 bg-slate-700/80 border border-slate-600 text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                          />
+                        </td>
+                        <td className="py-2 pr-3">
+                          <input
+                            type="number"
+                            min="0"
+                            value={row.stock}
+                            onChange={(e) => updateVariantRow(index, { stock: e.target.value })}
+                            className="w-24 px-3 py-2 bg-slate-700/80 border border-slate-600 text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                          />
+                        </td>
+                        <td className="py-2 pr-3">
+                          <select
+                            value={row.image}
+                            onChange={(e) => updateVariantRow(index, { image: e.target.value })}
+                            className="w-32 px-3 py-2 bg-slate-700/80 border border-slate-600 text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                          >
+                            <option value="">Product images</option>
+                            {images.map((img, i) => (
+                              <option key={i} value={img}>Image {i + 1}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => setVariantRows(variantRows.filter((_, i) => i !== index))}
+                            className="p-2 text-slate-400 hover:text-red-400"
+                            title="Remove variant"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {errors.variants && <p className="text-red-400 text-xs mt-2">{errors.variants}</p>}
+          </div>
+
           {/* OFFERS */}
           <div className="bg-gradient-to-br from-emerald-900/30 to-teal-900/30 border border-emerald-500/30 rounded-2xl p-5 sm:p-6 shadow-xl">
             <div className="flex items-center gap-2 mb-4">
@@ -527,7 +975,7 @@ function AdminAddProductPage() {
 
             <button
               type="submit"
-              disabled={saving}
+              disabled={saving || uploading}
               className="flex-1 bg-green-500 hover:bg-green-600 text-white py-3 rounded-xl font-semibold shadow-lg"
             >
               {saving ? (isEdit ? "Updating..." : "Adding Product...") : (isEdit ? "Update Product" : "Add Product")}
@@ -3,8 +3,9 @@
 import { motion, AnimatePresence } from "motion/react";
 import { useState, useEffect, useRef } from "react";
 import { AdminLayout } from "../../components/admin/AdminLayout";
-import { Edit, Trash2, Plus, X, Upload, Image as ImageIcon, Loader2, CheckCircle, AlertTriangle } from "lucide-react";
-import { blogAPI } from "@/lib/api";
+import { MediaPickerDialog } from "../../components/admin/MediaPickerDialog";
+import { Edit, Trash2, Plus, X, Upload, Image as ImageIcon, Images, Loader2, CheckCircle, AlertTriangle } from "lucide-react";
+import { blogAPI, uploadsAPI } from "@/lib/api";
 import { ImageWithFallback } from "../../components/figma/ImageWithFallback";
 
 interface BlogPost {
@@ -28,6 +29,8 @@ export function AdminBlogPage() {
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [showMediaPicker, setShowMediaPicker] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [successMessage, setSuccessMessage] = useState("");
   const [formData, setFormData] = useState({
@@ -85,7 +88,7 @@ export function AdminBlogPage() {
     setImagePreview(url);
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
       const file = files[0];
@@ -100,16 +103,16 @@ export function AdminBlogPage() {
         return;
       }
       
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const imageUrl = event.target?.result as string;
-        setFormData({ ...formData, featuredImage: imageUrl });
-        setImagePreview(imageUrl);
-      };
-      reader.onerror = () => {
-        alert('Error reading file. Please try again.');
-      };
-      reader.readAsDataURL(file);
+      setUploading(true);
+      try {
+        const upload = await uploadsAPI.upload(file, 'blog');
+        setFormData(prev => ({ ...prev, featuredImage: upload.url }));
+        setImagePreview(upload.url);
+      } catch (error: any) {
+        alert(error.response?.data?.error || 'Failed to upload image. Please try again.');
+      } finally {
+        setUploading(false);
+      }
     }
     
     if (fileInputRef.current) {
@@ -354,7 +357,7 @@ export function AdminBlogPage() {
                   </div>
 
                   {/* File Upload */}
-                  <div>
+                  <div className="flex flex-col sm:flex-row gap-2">
                     <input
                       ref={fileInputRef}
                       type="file"
@@ -365,18 +368,38 @@ export function AdminBlogPage() {
                     <button
                       type="button"
                       onClick={() => fileInputRef.current?.click()}
-                      className="w-full bg-cyan-500 hover:bg-cyan-600 text-white py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors"
+                      disabled={uploading}
+                      className="w-full bg-cyan-500 hover:bg-cyan-600 disabled:opacity-60 disabled:cursor-not-allowed text-white py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors"
+                    >
+                      {uploading ? (
+                        <Loader2 className="w-5 h-5 animate-spin" />
+                      ) : (
+                        <Upload className="w-5 h-5" />
+                      )}
+                      {uploading ? 'Uploading...' : 'Upload Image'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setShowMediaPicker(true)}
+                      className="w-full bg-slate-700 hover:bg-slate-600 text-white py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors"
                     >
-                      <Upload className="w-5 h-5" />
-                      Upload Image
+                      <Images className="w-5 h-5" />
+                      Choose from Library
                     </button>
                   </div>
+                  <MediaPickerDialog
+                    open={showMediaPicker}
+                    onClose={() => setShowMediaPicker(false)}
+                    onSelect={(asset) => handleImageUrlChange(asset.url)}
+                    folder="blog"
+                    title="Choose Featured Image"
+                  />
                 </div>
               </div>
               <div className="flex gap-4 mt-6">
                 <button
                   onClick={handleSave}
-                  disabled={saving}
+                  disabled={saving || uploading}
                   className="flex-1 bg-green-500 hover:bg-green-600 disabled:bg-slate-600 disabled:cursor-not-allowed text-white px-6 py-3 rounded-lg transition-all flex items-center justify-center gap-2"
                 >
                   {saving ? (
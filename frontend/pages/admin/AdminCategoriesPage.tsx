@@ -1,70 +1,127 @@
 "use client";
 
-import { motion, AnimatePresence } from "motion/react";
+import { motion } from "motion/react";
 import { useState, useEffect } from "react";
 import { AdminLayout } from "../../components/admin/AdminLayout";
-import { Trash2, Plus, X, Loader2, CheckCircle, AlertTriangle, Tag } from "lucide-react";
-import { categoriesAPI } from "@/lib/api";
+import { MediaPickerDialog } from "../../components/admin/MediaPickerDialog";
+import { CategorySpecsDialog } from "../../components/admin/CategorySpecsDialog";
+import { Trash2, Plus, X, Loader2, CheckCircle, AlertTriangle, Tag, Edit, ArrowUp, ArrowDown, Images, ListChecks } from "lucide-react";
+import { categoriesAPI, CategoryNode } from "@/lib/api";
 
-interface Category {
-  id: string;
+interface CategoryRow {
+  category: CategoryNode;
+  depth: number;
+  siblings: CategoryNode[];
+}
+
+interface CategoryForm {
   name: string;
-  createdAt: string;
+  slug: string;
+  description: string;
+  image: string;
+  parentId: string;
+}
+
+const emptyForm: CategoryForm = { name: "", slug: "", description: "", image: "", parentId: "" };
+
+// Depth-first rows, so children show under their parent
+function flattenTree(nodes: CategoryNode[], depth = 0): CategoryRow[] {
+  return nodes.flatMap((category) => [
+    { category, depth, siblings: nodes },
+    ...flattenTree(category.children, depth + 1),
+  ]);
+}
+
+function subtreeIds(category: CategoryNode): string[] {
+  return [category.id, ...category.children.flatMap(subtreeIds)];
 }
 
 export function AdminCategoriesPage() {
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [tree, setTree] = useState<CategoryNode[]>([]);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [reordering, setReordering] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [successMessage, setSuccessMessage] = useState("");
-  const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(null);
-  const [categoryName, setCategoryName] = useState("");
+  const [categoryToDelete, setCategoryToDelete] = useState<CategoryNode | null>(null);
+  const [editingCategory, setEditingCategory] = useState<CategoryNode | null>(null);
+  const [formData, setFormData] = useState<CategoryForm>(emptyForm);
+  const [showMediaPicker, setShowMediaPicker] = useState(false);
+  const [specsCategory, setSpecsCategory] = useState<CategoryNode | null>(null);
 
-  useEffect(() => {
-    const fetchCategories = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        const response = await categoriesAPI.getAll();
-        setCategories(response.categories || []);
-      } catch (err: any) {
-        console.error('Error fetching categories:', err);
-        setError(err.response?.data?.error || 'Failed to load categories');
-        setCategories([]);
-      } finally {
-        setLoading(false);
-      }
-    };
+  const fetchCategories = async () => {
+    try {
+      setError(null);
+      const response = await categoriesAPI.getTree();
+      setTree(response.tree || []);
+    } catch (err: any) {
+      console.error('Error fetching categories:', err);
+      setError(err.response?.data?.error || 'Failed to load categories');
+      setTree([]);
+    } finally {
+      setLoading(false);
+    }
+  };
 
+  useEffect(() => {
     fetchCategories();
   }, []);
 
-  const handleAddNew = () => {
-    setCategoryName("");
+  const rows = flattenTree(tree);
+
+  // A category can't move under itself or its own subcategories
+  const excludedParents = editingCategory ? subtreeIds(editingCategory) : [];
+  const parentOptions = rows.filter((row) => !excludedParents.includes(row.category.id));
+
+  const handleAddNew = (parentId = "") => {
+    setEditingCategory(null);
+    setFormData({ ...emptyForm, parentId });
+    setShowAddModal(true);
+  };
+
+  const handleEdit = (category: CategoryNode) => {
+    setEditingCategory(category);
+    setFormData({
+      name: category.name,
+      slug: category.slug,
+      description: category.description || "",
+      image: category.image || "",
+      parentId: category.parentId || "",
+    });
     setShowAddModal(true);
   };
 
   const handleSave = async () => {
-    if (!categoryName.trim()) {
+    if (!formData.name.trim()) {
       alert("Please enter a category name!");
       return;
     }
 
     try {
       setSaving(true);
-      const response = await categoriesAPI.create({
-        name: categoryName.trim(),
-      });
-      setCategories([response.category, ...categories]);
-      setSuccessMessage("Category created successfully!");
+      const data = {
+        name: formData.name.trim(),
+        description: formData.description.trim() || null,
+        image: formData.image || null,
+        parentId: formData.parentId || null,
+        ...(formData.slug.trim() && { slug: formData.slug.trim() }),
+      };
+      if (editingCategory) {
+        await categoriesAPI.update(editingCategory.id, data);
+        setSuccessMessage("Category updated successfully!");
+      } else {
+        await categoriesAPI.create(data);
+        setSuccessMessage("Category created successfully!");
+      }
+      await fetchCategories();
       setShowSuccessModal(true);
       setShowAddModal(false);
-      setCategoryName("");
+      setEditingCategory(null);
+      setFormData(emptyForm);
     } catch (err: any) {
       console.error('Error saving category:', err);
       const errorMsg = err.response?.data?.error || err.response?.data?.details?.[0]?.message || 'Failed to save category';
@@ -74,6 +131,31 @@ export function AdminCategoriesPage() {
     }
   };
 
+  // Swaps positions with the neighbouring sibling, renumbering the siblings so
+  // ties from older data don't make the move a no-op
+  const handleMove = async (row: CategoryRow, direction: -1 | 1) => {
+    const index = row.siblings.findIndex((c) => c.id === row.category.id);
+    const target = index + direction;
+    if (target < 0 || target >= row.siblings.length) return;
+
+    const reordered = [...row.siblings];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    try {
+      setReordering(true);
+      await Promise.all(reordered
+        .map((category, position) => ({ category, position }))
+        .filter(({ category, position }) => category.sortOrder !== position)
+        .map(({ category, position }) => categoriesAPI.update(category.id, { sortOrder: position })));
+      await fetchCategories();
+    } catch (err: any) {
+      console.error('Error reordering categories:', err);
+      alert(err.response?.data?.error || 'Failed to reorder categories');
+    } finally {
+      setReordering(false);
+    }
+  };
+
   const handleDeleteCancel = () => {
     setCategoryToDelete(null);
     setDeleteConfirm(null);
@@ -85,7 +167,7 @@ export function AdminCategoriesPage() {
     try {
       setDeleting(true);
       await categoriesAPI.delete(deleteConfirm);
-      setCategories(categories.filter(c => c.id !== deleteConfirm));
+      await fetchCategories();
       setDeleteConfirm(null);
       setCategoryToDelete(null);
       setSuccessMessage("Category deleted successfully!");
@@ -101,19 +183,22 @@ export function AdminCategoriesPage() {
 
   const handleCancel = () => {
     setShowAddModal(false);
-    setCategoryName("");
+    setEditingCategory(null);
+    setFormData(emptyForm);
   };
 
+  const inputClass = "bg-slate-700/80 border border-slate-600 text-white px-4 py-3 rounded-xl w-full focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
   return (
     <AdminLayout>
       <div>
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-4 mb-4 sm:mb-6 md:mb-8">
           <div className="flex items-center gap-2 sm:gap-3">
             <h1 className="text-white text-2xl sm:text-3xl">Manage Categories</h1>
-            <p className="text-slate-400 text-sm sm:text-base">{categories.length} total categories</p>
+            <p className="text-slate-400 text-sm sm:text-base">{rows.length} total categories</p>
           </div>
           <button
-            onClick={handleAddNew}
+            onClick={() => handleAddNew()}
             className="bg-green-500 hover:bg-green-600 text-white px-2 sm:px-3 py-1.5 sm:py-2 rounded-lg transition-all flex items-center justify-center gap-2 shadow-lg text-sm w-full sm:w-auto"
           >
             <Plus className="w-4 h-4" />
@@ -131,60 +216,109 @@ export function AdminCategoriesPage() {
           <div className="flex items-center justify-center py-12">
             <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
           </div>
-        ) : categories.length === 0 ? (
+        ) : rows.length === 0 ? (
           <div className="text-center py-12">
             <Tag className="w-16 h-16 text-slate-600 mx-auto mb-4" />
             <p className="text-slate-400 text-lg">No categories yet.</p>
             <p className="text-slate-500 text-sm mt-2">Create your first category to get started!</p>
           </div>
         ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-5 md:gap-6">
-            {categories.map((category, index) => (
-              <motion.div
-                key={category.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.3, delay: index * 0.05 }}
-                className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-5 sm:p-6 border border-slate-700 shadow-xl"
-              >
-                <div className="flex items-center gap-3 mb-4">
-                  <div className="w-10 h-10 sm:w-12 sm:h-12 bg-gradient-to-br from-cyan-500 to-blue-500 rounded-xl flex items-center justify-center flex-shrink-0">
-                    <Tag className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
-                  </div>
-                  <h3 className="text-white text-lg sm:text-xl font-semibold break-words flex-1">
-                    {category.name}
-                  </h3>
-                </div>
-                <p className="text-slate-400 text-xs mb-4">
-                  Created: {new Date(category.createdAt).toLocaleDateString()}
-                </p>
-                <button
-                  onClick={() => {
-                    setDeleteConfirm(category.id);
-                    setCategoryToDelete(category);
-                  }}
-                  disabled={deleting}
-                  className="w-full bg-red-500 hover:bg-red-600 disabled:bg-slate-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-all flex items-center justify-center gap-2"
+          <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl border border-slate-700 shadow-xl divide-y divide-slate-700/60">
+            {rows.map((row, index) => {
+              const { category, depth, siblings } = row;
+              const position = siblings.findIndex((c) => c.id === category.id);
+              return (
+                <motion.div
+                  key={category.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.2, delay: Math.min(index * 0.03, 0.3) }}
+                  className="flex flex-col sm:flex-row sm:items-center gap-3 p-4"
+                  style={{ paddingLeft: `${1 + depth * 1.75}rem` }}
                 >
-                  <Trash2 className="w-4 h-4" />
-                  Delete
-                </button>
-              </motion.div>
-            ))}
+                  <div className="flex items-center gap-3 flex-1 min-w-0">
+                    {category.image ? (
+                      <img src={category.image} alt={category.name} className="w-10 h-10 rounded-lg object-cover flex-shrink-0" />
+                    ) : (
+                      <div className={`w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0 ${depth === 0 ? "bg-gradient-to-br from-cyan-500 to-blue-500" : "bg-slate-700"}`}>
+                        <Tag className="w-5 h-5 text-white" />
+                      </div>
+                    )}
+                    <div className="min-w-0">
+                      <h3 className="text-white font-semibold truncate">{category.name}</h3>
+                      <p className="text-slate-400 text-xs truncate">
+                        /{category.slug} · {category.productCount} {category.productCount === 1 ? "product" : "products"}
+                        {category.children.length > 0 && ` · ${category.children.length} subcategories`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => handleMove(row, -1)}
+                      disabled={reordering || position === 0}
+                      title="Move up"
+                      className="p-2 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleMove(row, 1)}
+                      disabled={reordering || position === siblings.length - 1}
+                      title="Move down"
+                      className="p-2 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleAddNew(category.id)}
+                      title="Add subcategory"
+                      className="p-2 text-green-400 hover:text-green-300"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setSpecsCategory(category)}
+                      title="Specs"
+                      className="p-2 text-purple-400 hover:text-purple-300"
+                    >
+                      <ListChecks className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleEdit(category)}
+                      title="Edit"
+                      className="p-2 text-cyan-400 hover:text-cyan-300"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        setDeleteConfirm(category.id);
+                        setCategoryToDelete(category);
+                      }}
+                      disabled={deleting}
+                      title="Delete"
+                      className="p-2 text-red-400 hover:text-red-300 disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </motion.div>
+              );
+            })}
           </div>
         )}
 
-        {/* Add Category Modal */}
+        {/* Add / Edit Category Modal */}
         {showAddModal && (
           <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
             <motion.div
               initial={{ opacity: 0, scale: 0.9 }}
               animate={{ opacity: 1, scale: 1 }}
               exit={{ opacity: 0, scale: 0.9 }}
-              className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 sm:p-8 w-full max-w-md border border-slate-700 shadow-2xl"
+              className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 sm:p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto border border-slate-700 shadow-2xl"
             >
               <div className="flex items-center justify-between mb-6">
-                <h2 className="text-white text-2xl font-semibold">Add New Category</h2>
+                <h2 className="text-white text-2xl font-semibold">{editingCategory ? "Edit Category" : "Add New Category"}</h2>
                 <button
                   onClick={handleCancel}
                   className="text-slate-400 hover:text-white transition-colors p-1"
@@ -198,22 +332,88 @@ export function AdminCategoriesPage() {
                   <input
                     type="text"
                     placeholder="Enter category name"
-                    value={categoryName}
-                    onChange={(e) => setCategoryName(e.target.value)}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter' && !saving) {
-                        handleSave();
-                      }
-                    }}
-                    className="bg-slate-700/80 border border-slate-600 text-white px-4 py-3 rounded-xl w-full focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className={inputClass}
                     autoFocus
                   />
                 </div>
+                <div>
+                  <label className="text-slate-300 text-sm mb-2 block">Slug</label>
+                  <input
+                    type="text"
+                    placeholder="Generated from the name if left empty"
+                    value={formData.slug}
+                    onChange={(e) => setFormData({ ...formData, slug: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="text-slate-300 text-sm mb-2 block">Parent Category</label>
+                  <select
+                    value={formData.parentId}
+                    onChange={(e) => setFormData({ ...formData, parentId: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">None (top level)</option>
+                    {parentOptions.map(({ category, depth }) => (
+                      <option key={category.id} value={category.id}>
+                        {`${"\u00a0\u00a0".repeat(depth)}${category.name}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-slate-300 text-sm mb-2 block">Description</label>
+                  <textarea
+                    rows={3}
+                    placeholder="Shown at the top of the category listing"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="text-slate-300 text-sm mb-2 block">Image</label>
+                  <div className="flex items-center gap-3">
+                    {formData.image ? (
+                      <img src={formData.image} alt="Category" className="w-16 h-16 rounded-lg object-cover" />
+                    ) : (
+                      <div className="w-16 h-16 rounded-lg bg-slate-700 flex items-center justify-center">
+                        <Tag className="w-6 h-6 text-slate-500" />
+                      </div>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setShowMediaPicker(true)}
+                      className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg text-sm flex items-center gap-2"
+                    >
+                      <Images className="w-4 h-4" />
+                      Choose Image
+                    </button>
+                    {formData.image && (
+                      <button
+                        type="button"
+                        onClick={() => setFormData({ ...formData, image: "" })}
+                        className="text-red-400 hover:text-red-300 text-sm"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                  <MediaPickerDialog
+                    open={showMediaPicker}
+                    onClose={() => setShowMediaPicker(false)}
+                    onSelect={(asset) => setFormData(prev => ({ ...prev, image: asset.url }))}
+                    folder="products"
+                    title="Choose Category Image"
+                  />
+                </div>
               </div>
               <div className="flex gap-4 mt-6">
                 <button
                   onClick={handleSave}
-                  disabled={saving || !categoryName.trim()}
+                  disabled={saving || !formData.name.trim()}
                   className="flex-1 bg-green-500 hover:bg-green-600 disabled:bg-slate-600 disabled:cursor-not-allowed text-white px-6 py-3 rounded-lg transition-all flex items-center justify-center gap-2"
                 >
                   {saving ? (
@@ -237,6 +437,11 @@ export function AdminCategoriesPage() {
           </div>
         )}
 
+        <CategorySpecsDialog
+          category={specsCategory}
+          onClose={() => setSpecsCategory(null)}
+        />
+
         {/* Delete Confirmation Modal */}
         {deleteConfirm && categoryToDelete && (
           <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -258,7 +463,7 @@ export function AdminCategoriesPage() {
                 </div>
               </div>
               <p className="text-slate-300 text-sm mb-6">
-                This action cannot be undone. If this category is used by any products, the deletion will fail.
+                This action cannot be undone. If this category has subcategories or is used by any products, the deletion will fail.
               </p>
               <div className="flex gap-4">
                 <button
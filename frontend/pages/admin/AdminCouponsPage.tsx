@@ -0,0 +1,522 @@
+"use client";
+
+import { motion } from "motion/react";
+import { useState, useEffect } from "react";
+import { AdminLayout } from "../../components/admin/AdminLayout";
+import { Plus, X, Loader2, Trash2, Edit, Ticket, Search } from "lucide-react";
+import { couponsAPI, categoriesAPI, productsAPI } from "@/lib/api";
+
+type CouponType = "PERCENTAGE" | "FIXED_AMOUNT" | "FREE_SHIPPING";
+
+interface Coupon {
+  id: string;
+  code: string;
+  description: string | null;
+  type: CouponType;
+  value: string;
+  minOrderValue: string | null;
+  usageLimit: number | null;
+  perUserLimit: number | null;
+  usedCount: number;
+  categoryIds: string[];
+  productIds: string[];
+  startsAt: string | null;
+  expiresAt: string | null;
+  isActive: boolean;
+}
+
+interface CouponForm {
+  code: string;
+  description: string;
+  type: CouponType;
+  value: string;
+  minOrderValue: string;
+  usageLimit: string;
+  perUserLimit: string;
+  categoryIds: string[];
+  productIds: string[];
+  startsAt: string;
+  expiresAt: string;
+  isActive: boolean;
+}
+
+const emptyForm: CouponForm = {
+  code: "",
+  description: "",
+  type: "PERCENTAGE",
+  value: "",
+  minOrderValue: "",
+  usageLimit: "",
+  perUserLimit: "",
+  categoryIds: [],
+  productIds: [],
+  startsAt: "",
+  expiresAt: "",
+  isActive: true,
+};
+
+// datetime-local inputs work in local time without a timezone suffix
+const toDateTimeInput = (value: string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const describeCoupon = (coupon: Coupon) => {
+  if (coupon.type === "PERCENTAGE") return `${parseFloat(coupon.value)}% off`;
+  if (coupon.type === "FIXED_AMOUNT") return `$${parseFloat(coupon.value).toFixed(2)} off`;
+  return "Free shipping";
+};
+
+const getCouponStatus = (coupon: Coupon) => {
+  const now = new Date();
+  if (!coupon.isActive) return { label: "Inactive", className: "bg-slate-600/40 text-slate-300" };
+  if (coupon.expiresAt && new Date(coupon.expiresAt) <= now) return { label: "Expired", className: "bg-red-500/20 text-red-400" };
+  if (coupon.startsAt && new Date(coupon.startsAt) > now) return { label: "Scheduled", className: "bg-yellow-500/20 text-yellow-400" };
+  if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) return { label: "Used up", className: "bg-orange-500/20 text-orange-400" };
+  return { label: "Active", className: "bg-green-500/20 text-green-400" };
+};
+
+export function AdminCouponsPage() {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [form, setForm] = useState<CouponForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [products, setProducts] = useState<{ id: string; title: string }[]>([]);
+  const [productSearch, setProductSearch] = useState("");
+
+  const fetchCoupons = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await couponsAPI.getAll();
+      setCoupons(response.coupons || []);
+    } catch (err: any) {
+      console.error('Error fetching coupons:', err);
+      setError(err.response?.data?.error || 'Failed to load coupons');
+      setCoupons([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCoupons();
+
+    // Restriction pickers; the form still works without them
+    const loadOptions = async () => {
+      try {
+        const [categoriesResponse, productsResponse] = await Promise.all([
+          categoriesAPI.getAll(),
+          productsAPI.getAll({ limit: 100 }),
+        ]);
+        setCategories(categoriesResponse.categories || []);
+        setProducts(productsResponse.products || []);
+      } catch (err) {
+        console.error('Error loading coupon restriction options:', err);
+      }
+    };
+    loadOptions();
+  }, []);
+
+  const handleAddNew = () => {
+    setEditingCoupon(null);
+    setForm(emptyForm);
+    setProductSearch("");
+    setShowModal(true);
+  };
+
+  const handleEdit = (coupon: Coupon) => {
+    setEditingCoupon(coupon);
+    setForm({
+      code: coupon.code,
+      description: coupon.description || "",
+      type: coupon.type,
+      value: coupon.type === "FREE_SHIPPING" ? "" : coupon.value,
+      minOrderValue: coupon.minOrderValue || "",
+      usageLimit: coupon.usageLimit?.toString() || "",
+      perUserLimit: coupon.perUserLimit?.toString() || "",
+      categoryIds: coupon.categoryIds,
+      productIds: coupon.productIds,
+      startsAt: toDateTimeInput(coupon.startsAt),
+      expiresAt: toDateTimeInput(coupon.expiresAt),
+      isActive: coupon.isActive,
+    });
+    setProductSearch("");
+    setShowModal(true);
+  };
+
+  const toggleListValue = (key: "categoryIds" | "productIds", value: string) => {
+    const list = form[key];
+    setForm({
+      ...form,
+      [key]: list.includes(value) ? list.filter((v) => v !== value) : [...list, value],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.code.trim()) {
+      alert("Please enter a coupon code!");
+      return;
+    }
+    if (form.type !== "FREE_SHIPPING" && !form.value) {
+      alert("Please enter a discount value!");
+      return;
+    }
+
+    const payload = {
+      code: form.code.trim(),
+      description: form.description.trim() || null,
+      type: form.type,
+      value: form.type === "FREE_SHIPPING" ? 0 : parseFloat(form.value),
+      minOrderValue: form.minOrderValue ? parseFloat(form.minOrderValue) : null,
+      usageLimit: form.usageLimit ? parseInt(form.usageLimit) : null,
+      perUserLimit: form.perUserLimit ? parseInt(form.perUserLimit) : null,
+      categoryIds: form.categoryIds,
+      productIds: form.productIds,
+      startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+      expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+      isActive: form.isActive,
+    };
+
+    try {
+      setSaving(true);
+      if (editingCoupon) {
+        await couponsAPI.update(editingCoupon.id, payload);
+      } else {
+        await couponsAPI.create(payload);
+      }
+      setShowModal(false);
+      await fetchCoupons();
+    } catch (err: any) {
+      console.error('Error saving coupon:', err);
+      const errorMsg = err.response?.data?.error === 'Validation error'
+        ? err.response?.data?.details?.[0]?.message
+        : err.response?.data?.error;
+      alert(errorMsg || 'Failed to save coupon');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`Delete coupon "${coupon.code}"?`)) return;
+
+    try {
+      await couponsAPI.delete(coupon.id);
+      setCoupons(coupons.filter((c) => c.id !== coupon.id));
+    } catch (err: any) {
+      console.error('Error deleting coupon:', err);
+      alert(err.response?.data?.error || 'Failed to delete coupon');
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500";
+  const filteredProducts = products.filter((product) =>
+    product.title.toLowerCase().includes(productSearch.trim().toLowerCase())
+  );
+  const categoryName = (id: string) => categories.find((category) => category.id === id)?.name;
+
+  return (
+    <AdminLayout>
+      <div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4 sm:mb-6 md:mb-8">
+          <h1 className="text-white text-2xl sm:text-3xl">Coupons</h1>
+          <button
+            onClick={handleAddNew}
+            className="bg-green-500 hover:bg-green-600 text-white px-2 sm:px-3 py-1.5 sm:py-2 rounded-lg transition-all flex items-center justify-center gap-2 shadow-lg text-sm w-full sm:w-auto"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Coupon</span>
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4 mb-6">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
+          </div>
+        ) : coupons.length === 0 ? (
+          <div className="bg-slate-800 rounded-xl p-8 border border-slate-700 text-center">
+            <Ticket className="w-12 h-12 text-slate-500 mx-auto mb-3" />
+            <p className="text-slate-400">No coupons yet. Create one to run a campaign.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {coupons.map((coupon, index) => {
+              const status = getCouponStatus(coupon);
+              return (
+                <motion.div
+                  key={coupon.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.3, delay: index * 0.05 }}
+                  className="bg-slate-800 rounded-xl p-4 sm:p-5 border border-slate-700"
+                >
+                  <div className="flex items-start justify-between gap-3 mb-3">
+                    <div>
+                      <p className="text-white font-mono text-lg">{coupon.code}</p>
+                      <p className="text-cyan-400 text-sm">{describeCoupon(coupon)}</p>
+                    </div>
+                    <span className={`px-2 py-1 rounded text-xs ${status.className}`}>{status.label}</span>
+                  </div>
+                  {coupon.description && (
+                    <p className="text-slate-400 text-sm mb-3">{coupon.description}</p>
+                  )}
+                  <div className="text-slate-400 text-xs space-y-1 mb-4">
+                    <p>
+                      Used {coupon.usedCount}{coupon.usageLimit !== null ? ` / ${coupon.usageLimit}` : ""} times
+                      {coupon.perUserLimit !== null && ` · ${coupon.perUserLimit} per customer`}
+                    </p>
+                    {coupon.minOrderValue && <p>Minimum order ${parseFloat(coupon.minOrderValue).toFixed(2)}</p>}
+                    {(coupon.categoryIds.length > 0 || coupon.productIds.length > 0) && (
+                      <p>
+                        Limited to
+                        {coupon.categoryIds.length > 0 && ` ${coupon.categoryIds.map((id) => categoryName(id) || "Unknown category").join(", ")}`}
+                        {coupon.categoryIds.length > 0 && coupon.productIds.length > 0 && " and"}
+                        {coupon.productIds.length > 0 && ` ${coupon.productIds.length} product(s)`}
+                      </p>
+                    )}
+                    {coupon.expiresAt && <p>Expires {new Date(coupon.expiresAt).toLocaleString()}</p>}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleEdit(coupon)}
+                      className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-slate-700 hover:bg-cyan-500 text-slate-300 hover:text-white text-sm transition-all"
+                    >
+                      <Edit className="w-4 h-4" />
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(coupon)}
+                      className="px-3 py-2 rounded-lg bg-slate-700 hover:bg-red-500 text-slate-300 hover:text-white transition-all"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Coupon Modal */}
+        {showModal && (
+          <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="bg-slate-800 rounded-xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-slate-700"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-white text-2xl">{editingCoupon ? "Edit Coupon" : "New Coupon"}</h2>
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="text-slate-400 hover:text-white transition-colors"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Code *</label>
+                    <input
+                      value={form.code}
+                      onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                      placeholder="e.g., SUMMER20"
+                      className={`${inputClass} font-mono`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Type</label>
+                    <select
+                      value={form.type}
+                      onChange={(e) => setForm({ ...form, type: e.target.value as CouponType })}
+                      className={inputClass}
+                    >
+                      <option value="PERCENTAGE">Percentage off</option>
+                      <option value="FIXED_AMOUNT">Fixed amount off</option>
+                      <option value="FREE_SHIPPING">Free shipping</option>
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-slate-300 text-sm mb-1">Description</label>
+                  <input
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    placeholder="Internal note, e.g., Summer newsletter campaign"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {form.type !== "FREE_SHIPPING" && (
+                    <div>
+                      <label className="block text-slate-300 text-sm mb-1">
+                        {form.type === "PERCENTAGE" ? "Percent Off *" : "Amount Off ($) *"}
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={form.value}
+                        onChange={(e) => setForm({ ...form, value: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Minimum Order ($)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={form.minOrderValue}
+                      onChange={(e) => setForm({ ...form, minOrderValue: e.target.value })}
+                      placeholder="No minimum"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Total Usage Limit</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={form.usageLimit}
+                      onChange={(e) => setForm({ ...form, usageLimit: e.target.value })}
+                      placeholder="Unlimited"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Uses Per Customer</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={form.perUserLimit}
+                      onChange={(e) => setForm({ ...form, perUserLimit: e.target.value })}
+                      placeholder="Unlimited"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Starts At</label>
+                    <input
+                      type="datetime-local"
+                      value={form.startsAt}
+                      onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Expires At</label>
+                    <input
+                      type="datetime-local"
+                      value={form.expiresAt}
+                      onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                {/* Restrictions */}
+                <div>
+                  <p className="text-slate-300 text-sm mb-1">Restrict to Categories</p>
+                  <p className="text-slate-500 text-xs mb-2">
+                    Subcategories are included. Leave categories and products empty to apply to the whole cart.
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {categories.length === 0 && <span className="text-slate-500 text-sm">No categories found</span>}
+                    {categories.map((category) => (
+                      <button
+                        key={category.id}
+                        type="button"
+                        onClick={() => toggleListValue("categoryIds", category.id)}
+                        className={`px-3 py-1 rounded-full text-xs border transition-all ${
+                          form.categoryIds.includes(category.id)
+                            ? "bg-cyan-500 border-cyan-500 text-white"
+                            : "border-slate-600 text-slate-300 hover:border-cyan-500"
+                        }`}
+                      >
+                        {category.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <p className="text-slate-300 text-sm mb-2">
+                    Restrict to Products {form.productIds.length > 0 && <span className="text-cyan-400">({form.productIds.length} selected)</span>}
+                  </p>
+                  <div className="relative mb-2">
+                    <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                      value={productSearch}
+                      onChange={(e) => setProductSearch(e.target.value)}
+                      placeholder="Search products..."
+                      className={`${inputClass} pl-9`}
+                    />
+                  </div>
+                  <div className="max-h-40 overflow-y-auto space-y-1 bg-slate-900/40 rounded-lg p-2">
+                    {filteredProducts.map((product) => (
+                      <label key={product.id} className="flex items-center gap-2 text-slate-300 text-sm cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={form.productIds.includes(product.id)}
+                          onChange={() => toggleListValue("productIds", product.id)}
+                          className="accent-cyan-500"
+                        />
+                        {product.title}
+                      </label>
+                    ))}
+                    {filteredProducts.length === 0 && <p className="text-slate-500 text-sm">No products found</p>}
+                  </div>
+                </div>
+
+                <label className="flex items-center gap-2 text-slate-300 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={form.isActive}
+                    onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                    className="accent-cyan-500"
+                  />
+                  Active
+                </label>
+              </div>
+
+              <div className="flex gap-3 mt-6">
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="flex-1 bg-cyan-500 hover:bg-cyan-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-all flex items-center justify-center gap-2"
+                >
+                  {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {editingCoupon ? "Save Changes" : "Create Coupon"}
+                </button>
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="flex-1 bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default AdminCouponsPage;
@@ -0,0 +1,484 @@
+"use client";
+
+import { motion } from "motion/react";
+import { useState, useEffect } from "react";
+import { AdminLayout } from "../../components/admin/AdminLayout";
+import { Boxes, Loader2, History, X, AlertTriangle, Search } from "lucide-react";
+import { inventoryAPI } from "@/lib/api";
+
+interface InventoryVariant {
+  id: string;
+  sku: string;
+  stock: number;
+  label: string;
+  archivedAt: string | null; // Removed from the product; listed while it still holds returned stock
+}
+
+interface InventoryProduct {
+  id: string;
+  title: string;
+  slug: string | null;
+  stock: number;
+  reorderPoint: number;
+  lowStock: boolean;
+  updatedAt?: string;
+  variants: InventoryVariant[];
+}
+
+type StockMovementType = "SALE" | "CANCELLATION" | "RETURN" | "ADJUSTMENT" | "RECEIPT";
+
+interface StockMovement {
+  id: string;
+  type: StockMovementType;
+  quantity: number;
+  stockAfter: number;
+  reason: string | null;
+  createdAt: string;
+  order: { id: string; orderNumber: string } | null;
+  variant: { id: string; sku: string; label: string } | null;
+  createdBy: { id: string; firstName: string; lastName: string; email: string } | null;
+}
+
+const MOVEMENT_LABELS: Record<StockMovementType, { label: string; className: string }> = {
+  SALE: { label: "Sale", className: "bg-blue-500/20 text-blue-400" },
+  CANCELLATION: { label: "Cancellation", className: "bg-slate-500/20 text-slate-300" },
+  RETURN: { label: "Return", className: "bg-purple-500/20 text-purple-400" },
+  ADJUSTMENT: { label: "Adjustment", className: "bg-yellow-500/20 text-yellow-400" },
+  RECEIPT: { label: "Receipt", className: "bg-green-500/20 text-green-400" },
+};
+
+export function AdminInventoryPage() {
+  const [products, setProducts] = useState<InventoryProduct[]>([]);
+  const [lowStockOnly, setLowStockOnly] = useState(false);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [lowStockCount, setLowStockCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selectedProduct, setSelectedProduct] = useState<InventoryProduct | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [movementType, setMovementType] = useState<"RECEIPT" | "ADJUSTMENT">("RECEIPT");
+  const [movementVariantId, setMovementVariantId] = useState("");
+  const [movementQuantity, setMovementQuantity] = useState("");
+  const [movementReason, setMovementReason] = useState("");
+  const [reorderPoint, setReorderPoint] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchInventory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await inventoryAPI.getAll({
+          search: search || undefined,
+          lowStock: lowStockOnly || undefined,
+          page,
+          limit: 25,
+        });
+        setProducts(response.products || []);
+        setLowStockCount(response.lowStockCount || 0);
+        setTotalPages(response.pagination?.totalPages || 1);
+      } catch (err: any) {
+        console.error('Error fetching inventory:', err);
+        setError(err.response?.data?.error || 'Failed to load inventory');
+        setProducts([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInventory();
+  }, [search, lowStockOnly, page]);
+
+  const updateProduct = (id: string, changes: Partial<InventoryProduct>) => {
+    setProducts(products.map(p => p.id === id ? { ...p, ...changes } : p));
+    setSelectedProduct(current => current && current.id === id ? { ...current, ...changes } : current);
+  };
+
+  const openHistory = async (product: InventoryProduct) => {
+    setSelectedProduct(product);
+    setReorderPoint(String(product.reorderPoint));
+    setMovementType("RECEIPT");
+    setMovementVariantId(product.variants?.[0]?.id || "");
+    setMovementQuantity("");
+    setMovementReason("");
+    setMovements([]);
+
+    try {
+      setHistoryLoading(true);
+      const response = await inventoryAPI.getHistory(product.id);
+      setMovements(response.movements || []);
+    } catch (err: any) {
+      console.error('Error fetching stock history:', err);
+      alert(err.response?.data?.error || 'Failed to load stock history');
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const handleRecordMovement = async () => {
+    if (!selectedProduct) return;
+    const quantity = parseInt(movementQuantity);
+    if (!quantity) {
+      alert(movementType === "RECEIPT" ? "Enter the quantity received" : "Enter a non-zero adjustment, e.g. -2 or 5");
+      return;
+    }
+    if (!movementReason.trim()) {
+      alert("A reason is required");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await inventoryAPI.recordMovement(selectedProduct.id, {
+        ...(movementVariantId && { variantId: movementVariantId }),
+        type: movementType,
+        quantity,
+        reason: movementReason.trim(),
+      });
+      // For a variant the response stock is the variant's; the product total moves by the same quantity
+      const variant = selectedProduct.variants?.find(v => v.id === movementVariantId) || null;
+      const productStock = variant ? selectedProduct.stock + response.movement.quantity : response.stock;
+      updateProduct(selectedProduct.id, {
+        stock: productStock,
+        lowStock: productStock <= selectedProduct.reorderPoint,
+        ...(variant && {
+          variants: selectedProduct.variants.map(v => v.id === variant.id ? { ...v, stock: response.stock } : v),
+        }),
+      });
+      setMovements([{
+        ...response.movement,
+        order: null,
+        variant: variant && { id: variant.id, sku: variant.sku, label: variant.label },
+        createdBy: null,
+      }, ...movements]);
+      setMovementQuantity("");
+      setMovementReason("");
+    } catch (err: any) {
+      console.error('Error recording stock movement:', err);
+      alert(err.response?.data?.error || 'Failed to update stock');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveReorderPoint = async () => {
+    if (!selectedProduct) return;
+    const value = parseInt(reorderPoint);
+    if (isNaN(value) || value < 0) {
+      alert("Reorder point must be 0 or more");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await inventoryAPI.updateReorderPoint(selectedProduct.id, value);
+      updateProduct(selectedProduct.id, {
+        reorderPoint: response.product.reorderPoint,
+        lowStock: response.product.lowStock,
+      });
+    } catch (err: any) {
+      console.error('Error updating reorder point:', err);
+      alert(err.response?.data?.error || 'Failed to update reorder point');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+  return (
+    <AdminLayout>
+      <div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-4 mb-4 sm:mb-6 md:mb-8">
+          <h1 className="text-white text-2xl sm:text-3xl">Inventory</h1>
+          {lowStockCount > 0 && (
+            <span className="flex items-center gap-2 bg-red-500/20 text-red-400 text-sm px-3 py-1 rounded-full self-start sm:self-auto">
+              <AlertTriangle className="w-4 h-4" />
+              {lowStockCount} at or below reorder point
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3 mb-6">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setSearch(searchInput.trim());
+              setPage(1);
+            }}
+            className="relative flex-1"
+          >
+            <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search products..."
+              className={`${inputClass} pl-9`}
+            />
+          </form>
+          <div className="flex gap-2">
+            {[false, true].map((low) => (
+              <button
+                key={String(low)}
+                onClick={() => {
+                  setLowStockOnly(low);
+                  setPage(1);
+                }}
+                className={`px-4 py-2 rounded-lg transition-all text-sm ${lowStockOnly === low
+                  ? "bg-cyan-500 text-white"
+                  : "bg-slate-800 text-slate-400 hover:bg-slate-700"
+                  }`}
+              >
+                {low ? "Low stock" : "All products"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4 mb-6">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
+          </div>
+        ) : products.length === 0 ? (
+          <div className="text-center py-12">
+            <Boxes className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+            <p className="text-slate-400 text-lg">No products found.</p>
+          </div>
+        ) : (
+          <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-slate-400 text-left border-b border-slate-700">
+                  <th className="px-4 py-3 font-normal">Product</th>
+                  <th className="px-4 py-3 font-normal text-right">Stock</th>
+                  <th className="px-4 py-3 font-normal text-right">Reorder Point</th>
+                  <th className="px-4 py-3 font-normal">Status</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {products.map((product) => (
+                  <tr key={product.id} className="border-b border-slate-700 last:border-0">
+                    <td className="px-4 py-3 text-white break-words">
+                      {product.title}
+                      {product.variants?.length > 0 && (
+                        <span className="block text-slate-500 text-xs">
+                          {product.variants.length} variant{product.variants.length === 1 ? "" : "s"}
+                        </span>
+                      )}
+                    </td>
+                    <td className={`px-4 py-3 text-right tabular-nums ${product.lowStock ? "text-red-400" : "text-white"}`}>
+                      {product.stock}
+                    </td>
+                    <td className="px-4 py-3 text-right text-slate-400 tabular-nums">{product.reorderPoint}</td>
+                    <td className="px-4 py-3">
+                      {product.stock === 0 ? (
+                        <span className="bg-red-500/20 text-red-400 text-xs px-2 py-1 rounded-full">Out of stock</span>
+                      ) : product.lowStock ? (
+                        <span className="bg-yellow-500/20 text-yellow-400 text-xs px-2 py-1 rounded-full">Low stock</span>
+                      ) : (
+                        <span className="bg-green-500/20 text-green-400 text-xs px-2 py-1 rounded-full">In stock</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => openHistory(product)}
+                        className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-cyan-500 text-slate-300 hover:text-white transition-all"
+                      >
+                        <History className="w-4 h-4" />
+                        Manage
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-center gap-3 mt-6">
+            <button
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-slate-400 text-sm">Page {page} of {totalPages}</span>
+            <button
+              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+              className="px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+
+        {/* Stock History Modal */}
+        {selectedProduct && (
+          <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="bg-slate-800 rounded-xl p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-slate-700"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <div>
+                  <h2 className="text-white text-2xl">{selectedProduct.title}</h2>
+                  <p className={`text-sm ${selectedProduct.lowStock ? "text-red-400" : "text-slate-400"}`}>
+                    {selectedProduct.stock} in stock · reorder at {selectedProduct.reorderPoint}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setSelectedProduct(null)}
+                  className="text-slate-400 hover:text-white transition-colors"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                <div className="bg-slate-900/50 rounded-lg p-4 space-y-3">
+                  <p className="text-white text-sm">Update Stock</p>
+                  {selectedProduct.variants?.length > 0 && (
+                    <select
+                      value={movementVariantId}
+                      onChange={(e) => setMovementVariantId(e.target.value)}
+                      className={inputClass}
+                    >
+                      {selectedProduct.variants.map((variant) => (
+                        <option key={variant.id} value={variant.id}>
+                          {variant.label} ({variant.sku}) · {variant.stock} in stock{variant.archivedAt && " · removed"}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={movementType}
+                      onChange={(e) => setMovementType(e.target.value as "RECEIPT" | "ADJUSTMENT")}
+                      className={inputClass}
+                    >
+                      <option value="RECEIPT">Receive</option>
+                      <option value="ADJUSTMENT">Adjust (+/-)</option>
+                    </select>
+                    <input
+                      type="number"
+                      step="1"
+                      value={movementQuantity}
+                      onChange={(e) => setMovementQuantity(e.target.value)}
+                      placeholder={movementType === "RECEIPT" ? "Quantity" : "e.g. -2"}
+                      className={inputClass}
+                    />
+                  </div>
+                  <input
+                    value={movementReason}
+                    onChange={(e) => setMovementReason(e.target.value)}
+                    placeholder={movementType === "RECEIPT" ? "e.g. PO-1042 from supplier" : "e.g. Damaged in warehouse"}
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={handleRecordMovement}
+                    disabled={saving}
+                    className="w-full bg-cyan-500 hover:bg-cyan-600 text-white px-4 py-2 rounded-lg transition-all text-sm disabled:opacity-50"
+                  >
+                    {movementType === "RECEIPT" ? "Receive Stock" : "Record Adjustment"}
+                  </button>
+                </div>
+
+                <div className="bg-slate-900/50 rounded-lg p-4 space-y-3">
+                  <p className="text-white text-sm">Reorder Point</p>
+                  <p className="text-slate-400 text-xs">
+                    Admins get an inbox alert when stock drops to this level.
+                  </p>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={reorderPoint}
+                    onChange={(e) => setReorderPoint(e.target.value)}
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={handleSaveReorderPoint}
+                    disabled={saving}
+                    className="w-full bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg transition-all text-sm disabled:opacity-50"
+                  >
+                    Save Reorder Point
+                  </button>
+                </div>
+              </div>
+
+              <p className="text-white mb-3">Stock History</p>
+              {historyLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-cyan-500" />
+                </div>
+              ) : movements.length === 0 ? (
+                <p className="text-slate-400 text-sm">No stock movements recorded yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {movements.map((movement) => (
+                    <div key={movement.id} className="flex items-start justify-between gap-3 bg-slate-900/50 rounded-lg px-3 py-2">
+                      <div className="min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className={`text-xs px-2 py-0.5 rounded-full ${MOVEMENT_LABELS[movement.type].className}`}>
+                            {MOVEMENT_LABELS[movement.type].label}
+                          </span>
+                          {movement.variant && (
+                            <span className="text-slate-300 text-xs">{movement.variant.label}</span>
+                          )}
+                          {movement.order && (
+                            <span className="text-cyan-400 text-xs">{movement.order.orderNumber}</span>
+                          )}
+                        </div>
+                        {movement.reason && (
+                          <p className="text-slate-300 text-sm mt-1 break-words">{movement.reason}</p>
+                        )}
+                        <p className="text-slate-500 text-xs mt-1">
+                          {formatDate(movement.createdAt)}
+                          {movement.createdBy && ` · ${movement.createdBy.firstName} ${movement.createdBy.lastName}`}
+                        </p>
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        <p className={`tabular-nums ${movement.quantity > 0 ? "text-green-400" : "text-red-400"}`}>
+                          {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                        </p>
+                        <p className="text-slate-500 text-xs tabular-nums">→ {movement.stockAfter}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </motion.div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default AdminInventoryPage;
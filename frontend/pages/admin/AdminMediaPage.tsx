@@ -0,0 +1,450 @@
+"use client";
+
+import { motion } from "motion/react";
+import { useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import { AdminLayout } from "../../components/admin/AdminLayout";
+import { Image as ImageIcon, Loader2, X, Search, Upload, Trash2, Copy, AlertTriangle } from "lucide-react";
+import { mediaAPI, MediaAsset, MediaUsage } from "@/lib/api";
+
+const FOLDERS = ["products", "blog", "projects", "misc"] as const;
+
+const USAGE_LABELS: Record<MediaUsage["type"], string> = {
+  product: "Product",
+  variant: "Variant",
+  blog: "Blog post",
+  project: "Project",
+  category: "Category",
+  promotion: "Promotion",
+};
+
+const usageLink = (usage: MediaUsage) => {
+  switch (usage.type) {
+    case "product":
+      return `/admin/products/edit/${usage.id}`;
+    case "variant":
+      return `/admin/products/edit/${usage.productId}`;
+    case "blog":
+      return "/admin/blog";
+    case "project":
+      return "/admin/projects";
+    case "category":
+      return "/admin/categories";
+    case "promotion":
+      return "/admin/promotions";
+  }
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+export function AdminMediaPage() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [tag, setTag] = useState("");
+  const [folder, setFolder] = useState("");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const [selectedAsset, setSelectedAsset] = useState<MediaAsset | null>(null);
+  const [usages, setUsages] = useState<MediaUsage[]>([]);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [filename, setFilename] = useState("");
+  const [altText, setAltText] = useState("");
+  const [tagsInput, setTagsInput] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    const fetchMedia = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await mediaAPI.getAll({
+          search: search || undefined,
+          tag: tag || undefined,
+          folder: folder || undefined,
+          page,
+          limit: 24,
+        });
+        setAssets(response.assets || []);
+        setTags(response.tags || []);
+        setTotal(response.pagination?.total || 0);
+        setTotalPages(response.pagination?.totalPages || 1);
+      } catch (err: any) {
+        console.error('Error fetching media:', err);
+        setError(err.response?.data?.error || 'Failed to load media library');
+        setAssets([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMedia();
+  }, [search, tag, folder, page, refreshKey]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (files.length === 0) return;
+
+    try {
+      setUploading(true);
+      const failed: string[] = [];
+      for (const file of files) {
+        try {
+          await mediaAPI.upload(file, (folder || "misc") as typeof FOLDERS[number]);
+        } catch (err: any) {
+          failed.push(`${file.name}: ${err.response?.data?.error || 'upload failed'}`);
+        }
+      }
+      if (failed.length > 0) alert(`Some images were not uploaded:\n${failed.join('\n')}`);
+      setPage(1);
+      setRefreshKey(k => k + 1);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const openAsset = async (asset: MediaAsset) => {
+    setSelectedAsset(asset);
+    setFilename(asset.filename);
+    setAltText(asset.altText || "");
+    setTagsInput(asset.tags.join(", "));
+    setUsages([]);
+
+    try {
+      setDetailLoading(true);
+      const response = await mediaAPI.getById(asset.id);
+      setUsages(response.usages || []);
+    } catch (err: any) {
+      console.error('Error fetching media usage:', err);
+      alert(err.response?.data?.error || 'Failed to load where this image is used');
+    } finally {
+      setDetailLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selectedAsset) return;
+    if (!filename.trim()) {
+      alert("Name is required");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await mediaAPI.update(selectedAsset.id, {
+        filename: filename.trim(),
+        altText: altText.trim() || null,
+        tags: tagsInput.split(",").map(t => t.trim()).filter(Boolean),
+      });
+      const updated = { ...response.asset, usageCount: usages.length };
+      setAssets(assets.map(a => a.id === updated.id ? updated : a));
+      setSelectedAsset(updated);
+      setTagsInput(updated.tags.join(", "));
+      setTags(current => Array.from(new Set([...current, ...updated.tags])).sort());
+    } catch (err: any) {
+      console.error('Error updating media:', err);
+      alert(err.response?.data?.error || 'Failed to update image details');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedAsset) return;
+    if (!confirm(`Delete "${selectedAsset.filename}"? This cannot be undone.`)) return;
+
+    try {
+      setDeleting(true);
+      await mediaAPI.delete(selectedAsset.id);
+      setAssets(assets.filter(a => a.id !== selectedAsset.id));
+      setTotal(t => Math.max(0, t - 1));
+      setSelectedAsset(null);
+    } catch (err: any) {
+      console.error('Error deleting media:', err);
+      if (err.response?.status === 409) {
+        setUsages(err.response.data.usages || []);
+      }
+      alert(err.response?.data?.error || 'Failed to delete image');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const copyUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      prompt("Copy the image URL:", url);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+  return (
+    <AdminLayout>
+      <div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-4 mb-4 sm:mb-6 md:mb-8">
+          <div>
+            <h1 className="text-white text-2xl sm:text-3xl">Media Library</h1>
+            <p className="text-slate-400 text-sm">{total} image{total === 1 ? "" : "s"}</p>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={handleUpload}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            className="bg-cyan-500 hover:bg-cyan-600 disabled:opacity-60 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2 transition-all"
+          >
+            {uploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+            {uploading ? "Uploading..." : "Upload Images"}
+          </button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3 mb-4">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setSearch(searchInput.trim());
+              setPage(1);
+            }}
+            className="relative flex-1"
+          >
+            <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by name, alt text or tag..."
+              className={`${inputClass} pl-9`}
+            />
+          </form>
+          <select
+            value={folder}
+            onChange={(e) => {
+              setFolder(e.target.value);
+              setPage(1);
+            }}
+            className={`${inputClass} sm:w-48`}
+          >
+            <option value="">All folders</option>
+            {FOLDERS.map((value) => (
+              <option key={value} value={value}>{value.charAt(0).toUpperCase() + value.slice(1)}</option>
+            ))}
+          </select>
+        </div>
+
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {["", ...tags].map((value) => (
+              <button
+                key={value || "all"}
+                onClick={() => {
+                  setTag(value);
+                  setPage(1);
+                }}
+                className={`px-3 py-1 rounded-full text-xs transition-all ${tag === value
+                  ? "bg-cyan-500 text-white"
+                  : "bg-slate-800 text-slate-400 hover:bg-slate-700"
+                  }`}
+              >
+                {value || "All tags"}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4 mb-6">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
+          </div>
+        ) : assets.length === 0 ? (
+          <div className="text-center py-12">
+            <ImageIcon className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+            <p className="text-slate-400 text-lg">No images found.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+            {assets.map((asset) => (
+              <button
+                key={asset.id}
+                onClick={() => openAsset(asset)}
+                className="bg-slate-800 rounded-xl border border-slate-700 hover:border-cyan-500 overflow-hidden text-left transition-all"
+              >
+                <img
+                  src={asset.sizes?.thumbnail || asset.url}
+                  alt={asset.altText || asset.filename}
+                  className="w-full aspect-square object-cover bg-slate-900"
+                />
+                <div className="p-2">
+                  <p className="text-white text-xs truncate">{asset.filename}</p>
+                  <p className={`text-xs ${asset.usageCount ? "text-cyan-400" : "text-slate-500"}`}>
+                    {asset.usageCount ? `Used in ${asset.usageCount}` : "Unused"}
+                  </p>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-center gap-3 mt-6">
+            <button
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-slate-400 text-sm">Page {page} of {totalPages}</span>
+            <button
+              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+              className="px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+
+        {/* Asset Details Modal */}
+        {selectedAsset && (
+          <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="bg-slate-800 rounded-xl p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-slate-700"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-white text-2xl truncate">{selectedAsset.filename}</h2>
+                <button
+                  onClick={() => setSelectedAsset(null)}
+                  className="text-slate-400 hover:text-white transition-colors"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <img
+                    src={selectedAsset.sizes?.medium || selectedAsset.url}
+                    alt={selectedAsset.altText || selectedAsset.filename}
+                    className="w-full rounded-lg bg-slate-900 object-contain max-h-72"
+                  />
+                  <p className="text-slate-400 text-xs mt-2">
+                    {selectedAsset.width}×{selectedAsset.height} · {formatBytes(selectedAsset.size)} · {selectedAsset.folder}
+                  </p>
+                  <button
+                    onClick={() => copyUrl(selectedAsset.url)}
+                    className="mt-2 inline-flex items-center gap-2 text-cyan-400 hover:text-cyan-300 text-sm"
+                  >
+                    <Copy className="w-4 h-4" />
+                    Copy URL
+                  </button>
+                </div>
+
+                <div className="space-y-3">
+                  <div>
+                    <label className="text-slate-300 text-sm mb-1 block">Name</label>
+                    <input value={filename} onChange={(e) => setFilename(e.target.value)} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="text-slate-300 text-sm mb-1 block">Alt Text</label>
+                    <textarea
+                      value={altText}
+                      onChange={(e) => setAltText(e.target.value)}
+                      placeholder="Describe the image for screen readers"
+                      className={`${inputClass} h-20 resize-none`}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-slate-300 text-sm mb-1 block">Tags</label>
+                    <input
+                      value={tagsInput}
+                      onChange={(e) => setTagsInput(e.target.value)}
+                      placeholder="Comma separated, e.g. hero, summer"
+                      className={inputClass}
+                    />
+                  </div>
+                  <button
+                    onClick={handleSave}
+                    disabled={saving}
+                    className="w-full bg-cyan-500 hover:bg-cyan-600 text-white px-4 py-2 rounded-lg transition-all text-sm disabled:opacity-50"
+                  >
+                    {saving ? "Saving..." : "Save Details"}
+                  </button>
+                </div>
+              </div>
+
+              <p className="text-white mt-6 mb-3">Used In</p>
+              {detailLoading ? (
+                <div className="flex items-center justify-center py-6">
+                  <Loader2 className="w-6 h-6 animate-spin text-cyan-500" />
+                </div>
+              ) : usages.length === 0 ? (
+                <p className="text-slate-400 text-sm">This image is not used anywhere yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {usages.map((usage) => (
+                    <Link
+                      key={`${usage.type}-${usage.id}`}
+                      href={usageLink(usage)}
+                      className="flex items-center justify-between gap-3 bg-slate-900/50 hover:bg-slate-900 rounded-lg px-3 py-2 transition-all"
+                    >
+                      <span className="text-white text-sm truncate">{usage.title}</span>
+                      <span className="text-slate-400 text-xs flex-shrink-0">{USAGE_LABELS[usage.type]}</span>
+                    </Link>
+                  ))}
+                </div>
+              )}
+
+              <div className="mt-6 pt-4 border-t border-slate-700">
+                {usages.length > 0 && (
+                  <p className="flex items-center gap-2 text-yellow-400 text-sm mb-3">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    Remove this image from everything it is used in before deleting it.
+                  </p>
+                )}
+                <button
+                  onClick={handleDelete}
+                  disabled={deleting || detailLoading || usages.length > 0}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-all text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {deleting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                  Delete Image
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default AdminMediaPage;
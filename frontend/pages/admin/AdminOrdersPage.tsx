@@ -1,10 +1,11 @@
 "use client";
 
 import { motion } from "motion/react";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { AdminLayout } from "../../components/admin/AdminLayout";
-import { Eye, X, Loader2, RefreshCw } from "lucide-react";
-import { ordersAPI } from "@/lib/api";
+import { Eye, X, Loader2, RefreshCw, Wallet, Undo2 } from "lucide-react";
+import { ordersAPI, walletAPI } from "@/lib/api";
+import { formatCurrencyAmount } from "@/context/CurrencyContext";
 
 interface OrderItem {
   product: {
@@ -13,6 +14,7 @@ interface OrderItem {
   };
   quantity: number;
   unitPrice: string;
+  variantLabel?: string | null;
 }
 
 interface SubOrder {
@@ -22,6 +24,16 @@ interface SubOrder {
   trackingNumber?: string;
 }
 
+interface Refund {
+  id: string;
+  amount: string;
+  currency: string;
+  status: "PENDING" | "SUCCEEDED" | "FAILED" | "CANCELED";
+  reason: string | null;
+  failureReason: string | null;
+  createdAt: string;
+}
+
 interface Order {
   id: string;
   orderNumber: string;
@@ -32,9 +44,14 @@ interface Order {
     email: string;
   };
   totalAmount: string;
+  walletAmount?: string;
+  currency: string;
   status: string;
   createdAt: string;
   subOrders: SubOrder[];
+  refunds?: Refund[];
+  disputeStatus?: string | null;
+  disputeReason?: string | null;
 }
 
 
@@ -45,16 +62,27 @@ export function AdminOrdersPage() {
   const [error, setError] = useState<string | null>(null);
   const [updating, setUpdating] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [walletBalance, setWalletBalance] = useState<string | null>(null);
+  const [creditAmount, setCreditAmount] = useState("");
+  const [creditNote, setCreditNote] = useState("");
+  const [issuingCredit, setIssuingCredit] = useState(false);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+  const [refunding, setRefunding] = useState(false);
+  // Kept until a refund succeeds so retrying a failed or timed-out request can't refund twice
+  const refundRequestId = useRef<string | null>(null);
 
   const fetchOrders = async () => {
     try {
       setError(null);
       const response = await ordersAPI.getAll({ limit: 100 });
       setOrders(response.orders || []);
+      return (response.orders || []) as Order[];
     } catch (err: any) {
       console.error('Error fetching orders:', err);
       setError(err.response?.data?.error || 'Failed to load orders');
       setOrders([]);
+      return [];
     }
   };
 
@@ -67,6 +95,86 @@ export function AdminOrdersPage() {
     loadOrders();
   }, []);
 
+  // Load the customer's store credit when an order is opened
+  const selectedUserId = selectedOrder?.user.id;
+  useEffect(() => {
+    setWalletBalance(null);
+    setCreditAmount("");
+    setCreditNote("");
+    setRefundAmount("");
+    setRefundReason("");
+    refundRequestId.current = null;
+    if (!selectedUserId) return;
+
+    walletAPI.getForUser(selectedUserId)
+      .then((response) => setWalletBalance(response.user.walletBalance))
+      .catch((err) => console.error('Error fetching wallet:', err));
+  }, [selectedUserId]);
+
+  const handleIssueCredit = async () => {
+    if (!selectedOrder) return;
+    const amount = parseFloat(creditAmount);
+    if (!amount || amount <= 0 || !creditNote.trim()) {
+      alert("Please enter an amount and a reason!");
+      return;
+    }
+
+    try {
+      setIssuingCredit(true);
+      const response = await walletAPI.adjust(selectedOrder.user.id, {
+        type: "CREDIT",
+        amount,
+        note: creditNote.trim(),
+      });
+      setWalletBalance(response.walletBalance);
+      setCreditAmount("");
+      setCreditNote("");
+    } catch (err: any) {
+      console.error('Error issuing store credit:', err);
+      const errorMsg = err.response?.data?.error === 'Validation error'
+        ? err.response?.data?.details?.[0]?.message
+        : err.response?.data?.error;
+      alert(errorMsg || 'Failed to issue store credit');
+    } finally {
+      setIssuingCredit(false);
+    }
+  };
+
+  const handleRefund = async () => {
+    if (!selectedOrder) return;
+    const amount = refundAmount ? parseFloat(refundAmount) : undefined;
+    if (amount !== undefined && (!amount || amount <= 0)) {
+      alert("Please enter a valid refund amount!");
+      return;
+    }
+    const label = amount !== undefined
+      ? formatCurrencyAmount(amount, selectedOrder.currency)
+      : "the full remaining amount";
+    if (!confirm(`Refund ${label} to the customer's card?`)) return;
+
+    try {
+      setRefunding(true);
+      refundRequestId.current ??= crypto.randomUUID();
+      await ordersAPI.refund(selectedOrder.id, {
+        ...(amount !== undefined && { amount }),
+        ...(refundReason.trim() && { reason: refundReason.trim() }),
+      }, refundRequestId.current);
+      refundRequestId.current = null;
+      setRefundAmount("");
+      setRefundReason("");
+      const updatedOrders = await fetchOrders();
+      setSelectedOrder(updatedOrders.find((o) => o.id === selectedOrder.id) || null);
+    } catch (err: any) {
+      console.error('Error issuing refund:', err);
+      const errorMsg = err.response?.data?.error === 'Validation error'
+        ? err.response?.data?.details?.[0]?.message
+        : err.response?.data?.error;
+      alert(errorMsg || 'Failed to issue refund');
+    } finally {
+      setRefunding(false);
+    }
+  };
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await fetchOrders();
@@ -74,12 +182,22 @@ export function AdminOrdersPage() {
   };
 
   const handleStatusChange = async (orderId: string, newStatus: string) => {
+    const order = orders.find((o) => o.id === orderId);
+    const refundsPayment = newStatus === "CANCELLED" && order && order.status !== "PENDING" && order.status !== "CANCELLED";
+    if (refundsPayment && !confirm(`Cancel ${order.orderNumber}? The card payment will be refunded to the customer.`)) {
+      return;
+    }
+
     try {
       setUpdating(orderId);
       await ordersAPI.update(orderId, { status: newStatus as any });
-      setOrders(orders.map(order =>
-        order.id === orderId ? { ...order, status: newStatus } : order
-      ));
+      if (refundsPayment) {
+        await fetchOrders();
+      } else {
+        setOrders(orders.map(order =>
+          order.id === orderId ? { ...order, status: newStatus } : order
+        ));
+      }
     } catch (err: any) {
       console.error('Error updating order:', err);
       alert(err.response?.data?.error || 'Failed to update order status');
@@ -100,6 +218,35 @@ export function AdminOrdersPage() {
     }
   };
 
+  // Overall refund state shown next to the order status
+  const getRefundState = (order: Order) => {
+    const refunds = order.refunds || [];
+    if (refunds.length === 0) return null;
+    if (refunds.some((r) => r.status === "PENDING")) {
+      return { label: "Refund pending", className: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30" };
+    }
+
+    const refunded = refunds
+      .filter((r) => r.status === "SUCCEEDED")
+      .reduce((sum, r) => sum + parseFloat(r.amount), 0);
+    const paid = parseFloat(order.totalAmount) - parseFloat(order.walletAmount || "0");
+    if (refunded > 0 && refunded >= paid - 0.005) {
+      return { label: "Refunded", className: "bg-green-500/20 text-green-400 border-green-500/30" };
+    }
+    if (refunded > 0) {
+      return { label: "Partially refunded", className: "bg-blue-500/20 text-blue-400 border-blue-500/30" };
+    }
+    return { label: "Refund failed", className: "bg-red-500/20 text-red-400 border-red-500/30" };
+  };
+
+  const getRefundStatusColor = (status: Refund["status"]) => {
+    switch (status) {
+      case "SUCCEEDED": return "text-green-400";
+      case "PENDING": return "text-yellow-400";
+      default: return "text-red-400";
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -173,7 +320,7 @@ export function AdminOrdersPage() {
                   <p className="text-slate-300 text-xs sm:text-sm mb-1">Products:</p>
                   {order.subOrders.flatMap(subOrder => subOrder.items).map((item, idx) => (
                     <p key={idx} className="text-slate-400 text-xs sm:text-sm break-words">
-                      {item.product.title} x{item.quantity}
+                      {item.product.title}{item.variantLabel && ` (${item.variantLabel})`} x{item.quantity}
                     </p>
                   ))}
                 </div>
@@ -181,7 +328,20 @@ export function AdminOrdersPage() {
                 {/* Amount */}
                 <div>
                   <p className="text-slate-300 text-xs sm:text-sm mb-1">Total Amount:</p>
-                  <p className="text-cyan-400 text-base sm:text-lg font-semibold">${parseFloat(order.totalAmount).toFixed(2)}</p>
+                  <p className="text-cyan-400 text-base sm:text-lg font-semibold">{formatCurrencyAmount(order.totalAmount, order.currency)}</p>
+                  {getRefundState(order) && (
+                    <span className={`inline-block mt-1 px-2 py-0.5 border rounded text-xs ${getRefundState(order)!.className}`}>
+                      {getRefundState(order)!.label}
+                    </span>
+                  )}
+                  {order.disputeStatus && (
+                    <span
+                      title={order.disputeReason ? `Reason: ${order.disputeReason.replace(/_/g, " ")}` : undefined}
+                      className="inline-block mt-1 ml-1 px-2 py-0.5 border rounded text-xs bg-red-500/20 text-red-400 border-red-500/30"
+                    >
+                      Disputed
+                    </span>
+                  )}
                 </div>
 
                 {/* Status & Actions */}
@@ -257,8 +417,8 @@ export function AdminOrdersPage() {
                   <div className="bg-slate-700/50 rounded-lg p-4 space-y-2 border border-slate-600">
                     {selectedOrder.subOrders.flatMap(subOrder => subOrder.items).map((item, idx) => (
                       <div key={idx} className="flex justify-between text-sm">
-                        <span className="text-white">{item.product.title} x{item.quantity}</span>
-                        <span className="text-slate-300">${(parseFloat(item.unitPrice) * item.quantity).toFixed(2)}</span>
+                        <span className="text-white">{item.product.title}{item.variantLabel && ` (${item.variantLabel})`} x{item.quantity}</span>
+                        <span className="text-slate-300">{formatCurrencyAmount(parseFloat(item.unitPrice) * item.quantity, selectedOrder.currency)}</span>
                       </div>
                     ))}
                   </div>
@@ -266,7 +426,12 @@ export function AdminOrdersPage() {
 
                 <div>
                   <p className="text-slate-400 mb-1 text-sm">Total Amount:</p>
-                  <p className="text-cyan-400 text-2xl">${parseFloat(selectedOrder.totalAmount).toFixed(2)}</p>
+                  <p className="text-cyan-400 text-2xl">{formatCurrencyAmount(selectedOrder.totalAmount, selectedOrder.currency)}</p>
+                  {parseFloat(selectedOrder.walletAmount || "0") > 0 && (
+                    <p className="text-slate-400 text-sm mt-1">
+                      {formatCurrencyAmount(selectedOrder.walletAmount!, selectedOrder.currency)} paid with store credit
+                    </p>
+                  )}
                 </div>
 
                 <div>
@@ -275,6 +440,92 @@ export function AdminOrdersPage() {
                     {selectedOrder.status}
                   </span>
                 </div>
+
+                {selectedOrder.status !== "PENDING" && (
+                  <div>
+                    <p className="text-slate-400 mb-2 text-sm flex items-center gap-2">
+                      <Undo2 className="w-4 h-4" />
+                      Refunds:
+                    </p>
+                    {(selectedOrder.refunds || []).length > 0 && (
+                      <div className="bg-slate-700/50 rounded-lg p-4 space-y-2 border border-slate-600 mb-2">
+                        {selectedOrder.refunds!.map((refund) => (
+                          <div key={refund.id} className="flex justify-between gap-3 text-sm">
+                            <span className="text-slate-300">
+                              {formatDate(refund.createdAt)}
+                              {refund.reason && <span className="text-slate-500"> · {refund.reason}</span>}
+                              {refund.failureReason && <span className="block text-red-400 text-xs">{refund.failureReason}</span>}
+                            </span>
+                            <span className="text-right whitespace-nowrap">
+                              <span className="text-white">{formatCurrencyAmount(refund.amount, refund.currency)}</span>
+                              <span className={`block text-xs ${getRefundStatusColor(refund.status)}`}>{refund.status}</span>
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={refundAmount}
+                        onChange={(e) => setRefundAmount(e.target.value)}
+                        placeholder={`Amount (${selectedOrder.currency})`}
+                        className="sm:w-36 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                      />
+                      <input
+                        value={refundReason}
+                        onChange={(e) => setRefundReason(e.target.value)}
+                        placeholder="Reason (leave amount empty to refund in full)"
+                        className="flex-1 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                      />
+                      <button
+                        onClick={handleRefund}
+                        disabled={refunding}
+                        className="bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white px-3 py-2 rounded-lg transition-all flex items-center justify-center gap-2 text-sm"
+                      >
+                        {refunding && <Loader2 className="w-4 h-4 animate-spin" />}
+                        Refund
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <p className="text-slate-400 mb-2 text-sm flex items-center gap-2">
+                    <Wallet className="w-4 h-4" />
+                    Store Credit:
+                    <span className="text-white">
+                      {walletBalance === null ? "…" : formatCurrencyAmount(walletBalance)}
+                    </span>
+                  </p>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={creditAmount}
+                      onChange={(e) => setCreditAmount(e.target.value)}
+                      placeholder="Amount (USD)"
+                      className="sm:w-36 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                    />
+                    <input
+                      value={creditNote}
+                      onChange={(e) => setCreditNote(e.target.value)}
+                      placeholder="Reason, e.g., Goodwill for late delivery"
+                      className="flex-1 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                    />
+                    <button
+                      onClick={handleIssueCredit}
+                      disabled={issuingCredit}
+                      className="bg-green-500 hover:bg-green-600 disabled:opacity-50 text-white px-3 py-2 rounded-lg transition-all flex items-center justify-center gap-2 text-sm"
+                    >
+                      {issuingCredit && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Issue Credit
+                    </button>
+                  </div>
+                </div>
               </div>
 
               <button
@@ -4,8 +4,9 @@ import { motion, AnimatePresence } from "motion/react";
 import { useState, useEffect, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { AdminLayout } from "../../components/admin/AdminLayout";
-import { Edit, Trash2, Plus, ChevronDown, X, AlertTriangle, Loader2 } from "lucide-react";
-import { productsAPI } from "@/lib/api";
+import { Edit, Trash2, Plus, ChevronDown, X, AlertTriangle, Loader2, Upload, Download, Archive, ArchiveRestore } from "lucide-react";
+import { productsAPI, productSheetsAPI, ProductStatus } from "@/lib/api";
+import { ProductImportDialog } from "../../components/admin/ProductImportDialog";
 
 // Product type definition
 interface Product {
@@ -19,11 +20,20 @@ interface Product {
   images?: string[] | null;
   featured?: boolean;
   slug?: string;
+  status?: ProductStatus;
 }
 
+const STATUS_FILTERS: { value: ProductStatus | "ALL"; label: string }[] = [
+  { value: "ALL", label: "All" },
+  { value: "ACTIVE", label: "Active" },
+  { value: "DRAFT", label: "Drafts" },
+  { value: "ARCHIVED", label: "Archived" },
+];
+
 export function AdminProductsPage() {
   const router = useRouter();
   const [selectedCategory, setSelectedCategory] = useState("All");
+  const [statusFilter, setStatusFilter] = useState<ProductStatus | "ALL">("ALL");
   const [sortBy, setSortBy] = useState("featured");
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<string[]>(["All"]);
@@ -32,6 +42,10 @@ export function AdminProductsPage() {
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const [productToDelete, setProductToDelete] = useState<Product | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [updatingStatus, setUpdatingStatus] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [exporting, setExporting] = useState<"csv" | "xlsx" | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
 
   // Fetch products
   useEffect(() => {
@@ -39,7 +53,7 @@ export function AdminProductsPage() {
       try {
         setLoading(true);
         setError(null);
-        const params: any = { limit: 100 };
+        const params: any = { limit: 100, status: statusFilter.toLowerCase() };
         if (selectedCategory !== "All") {
           params.category = selectedCategory;
         }
@@ -62,7 +76,30 @@ export function AdminProductsPage() {
     };
 
     fetchProducts();
-  }, [selectedCategory]);
+  }, [selectedCategory, statusFilter, refreshKey]);
+
+  const handleExport = async (format: "csv" | "xlsx") => {
+    try {
+      setExporting(format);
+      const blob = await productSheetsAPI.export({
+        format,
+        category: selectedCategory !== "All" ? selectedCategory : undefined,
+        status: statusFilter.toLowerCase(),
+        sort: sortBy === "price-low" ? "price_asc" : sortBy === "price-high" ? "price_desc" : undefined,
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `products-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('Error exporting products:', err);
+      alert('Failed to export products');
+    } finally {
+      setExporting(null);
+    }
+  };
 
   const handleDeleteClick = (product: Product) => {
     setProductToDelete(product);
@@ -74,8 +111,16 @@ export function AdminProductsPage() {
 
     try {
       setDeleting(true);
-      await productsAPI.delete(productToDelete.id);
-      setProducts(products.filter(p => p.id !== productToDelete.id));
+      const response = await productsAPI.delete(productToDelete.id);
+      if (response.archived) {
+        // Products with orders are archived rather than deleted
+        setProducts(statusFilter === "ALL" || statusFilter === "ARCHIVED"
+          ? products.map(p => p.id === productToDelete.id ? { ...p, status: "ARCHIVED" } : p)
+          : products.filter(p => p.id !== productToDelete.id));
+        alert(response.message);
+      } else {
+        setProducts(products.filter(p => p.id !== productToDelete.id));
+      }
       setDeleteConfirm(null);
       setProductToDelete(null);
     } catch (err: any) {
@@ -88,6 +133,27 @@ export function AdminProductsPage() {
     }
   };
 
+  const handleStatusChange = async (product: Product) => {
+    const restoring = product.status === "ARCHIVED";
+    try {
+      setUpdatingStatus(product.id);
+      if (restoring) {
+        await productsAPI.restore(product.id);
+      } else {
+        await productsAPI.archive(product.id);
+      }
+      const status: ProductStatus = restoring ? "ACTIVE" : "ARCHIVED";
+      setProducts(statusFilter === "ALL" || statusFilter === status
+        ? products.map(p => p.id === product.id ? { ...p, status } : p)
+        : products.filter(p => p.id !== product.id));
+    } catch (err: any) {
+      console.error('Error updating product status:', err);
+      alert(err.response?.data?.error || `Failed to ${restoring ? "restore" : "archive"} product`);
+    } finally {
+      setUpdatingStatus(null);
+    }
+  };
+
   const handleDeleteCancel = () => {
     setDeleteConfirm(null);
     setProductToDelete(null);
@@ -134,13 +200,33 @@ export function AdminProductsPage() {
             <h1 className="text-white text-2xl sm:text-3xl mb-1 sm:mb-2">Manage Products</h1>
             <p className="text-slate-400 text-sm sm:text-base">{products.length} total products</p>
           </div>
-          <button
-            onClick={() => router.push("/admin/products/add")}
-            className="bg-green-500 hover:bg-green-600 text-white px-4 sm:px-6 py-2 sm:py-3 rounded-lg transition-all flex items-center justify-center gap-2 shadow-lg text-sm sm:text-base w-full sm:w-auto"
-          >
-            <Plus className="w-4 h-4 sm:w-5 sm:h-5" />
-            <span>Add New Product</span>
-          </button>
+          <div className="flex flex-col sm:flex-row gap-2 sm:gap-3 w-full sm:w-auto">
+            <button
+              onClick={() => setImportOpen(true)}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 sm:py-3 rounded-lg transition-all flex items-center justify-center gap-2 text-sm sm:text-base"
+            >
+              <Upload className="w-4 h-4 sm:w-5 sm:h-5" />
+              <span>Import</span>
+            </button>
+            {(["csv", "xlsx"] as const).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={exporting !== null}
+                className="bg-slate-700 hover:bg-slate-600 disabled:opacity-60 text-white px-4 py-2 sm:py-3 rounded-lg transition-all flex items-center justify-center gap-2 text-sm sm:text-base"
+              >
+                {exporting === format ? <Loader2 className="w-4 h-4 sm:w-5 sm:h-5 animate-spin" /> : <Download className="w-4 h-4 sm:w-5 sm:h-5" />}
+                <span>Export {format.toUpperCase()}</span>
+              </button>
+            ))}
+            <button
+              onClick={() => router.push("/admin/products/add")}
+              className="bg-green-500 hover:bg-green-600 text-white px-4 sm:px-6 py-2 sm:py-3 rounded-lg transition-all flex items-center justify-center gap-2 shadow-lg text-sm sm:text-base w-full sm:w-auto"
+            >
+              <Plus className="w-4 h-4 sm:w-5 sm:h-5" />
+              <span>Add New Product</span>
+            </button>
+          </div>
         </div>
 
         {error && (
@@ -149,6 +235,22 @@ export function AdminProductsPage() {
           </div>
         )}
 
+        {/* Status Tabs */}
+        <div className="flex gap-2 flex-wrap mb-4 border-b border-slate-700 pb-4">
+          {STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter.value}
+              onClick={() => setStatusFilter(filter.value)}
+              className={`px-4 py-2 rounded-lg text-sm transition-all ${statusFilter === filter.value
+                ? "bg-slate-200 text-slate-900"
+                : "bg-slate-800 text-slate-300 hover:bg-slate-700"
+                }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
         {/* Filter and Sort Bar */}
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8">
           {/* Category Pills */}
@@ -223,6 +325,17 @@ export function AdminProductsPage() {
                     Featured
                   </span>
                 )}
+
+                {/* STATUS */}
+                {product.status && product.status !== "ACTIVE" && (
+                  <span className={`absolute bottom-3 left-3 text-xs font-semibold px-3 py-1 rounded-full ${product.status === "DRAFT"
+                    ? "bg-amber-500 text-white"
+                    : "bg-slate-600 text-slate-200"
+                    }`}
+                  >
+                    {product.status === "DRAFT" ? "Draft" : "Archived"}
+                  </span>
+                )}
               </div>
 
               {/* CONTENT */}
@@ -258,6 +371,21 @@ export function AdminProductsPage() {
                     Edit
                   </button>
 
+                  <button
+                    onClick={() => handleStatusChange(product)}
+                    disabled={updatingStatus === product.id}
+                    title={product.status === "ARCHIVED" ? "Restore" : "Archive"}
+                    className="bg-slate-600 hover:bg-slate-500 disabled:opacity-60 text-white px-4 py-3 rounded-xl font-medium flex items-center justify-center"
+                  >
+                    {updatingStatus === product.id ? (
+                      <Loader2 size={18} className="animate-spin" />
+                    ) : product.status === "ARCHIVED" ? (
+                      <ArchiveRestore size={18} />
+                    ) : (
+                      <Archive size={18} />
+                    )}
+                  </button>
+
                   <button
                     onClick={() => handleDeleteClick(product)}
                     disabled={deleting}
@@ -304,7 +432,7 @@ export function AdminProductsPage() {
                   "{productToDelete.title}"
                 </p>
                 <p className="text-slate-400 text-xs sm:text-sm mb-4 sm:mb-6">
-                  This action cannot be undone.
+                  This action cannot be undone. Products that have been ordered are archived instead, so past orders and invoices keep them.
                 </p>
 
                 <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
@@ -336,6 +464,12 @@ export function AdminProductsPage() {
             </div>
           )}
         </AnimatePresence>
+
+        <ProductImportDialog
+          open={importOpen}
+          onClose={() => setImportOpen(false)}
+          onImported={() => setRefreshKey((key) => key + 1)}
+        />
       </div>
     </AdminLayout>
   );
@@ -3,8 +3,9 @@
 import { motion, AnimatePresence } from "motion/react";
 import { useState, useEffect } from "react";
 import { AdminLayout } from "../../components/admin/AdminLayout";
-import { Edit, Trash2, Plus, X, Upload, Loader2, CheckCircle, AlertTriangle } from "lucide-react";
-import { projectsAPI } from "@/lib/api";
+import { MediaPickerDialog } from "../../components/admin/MediaPickerDialog";
+import { Edit, Trash2, Plus, X, Upload, Images, Loader2, CheckCircle, AlertTriangle } from "lucide-react";
+import { projectsAPI, uploadsAPI } from "@/lib/api";
 import { ImageWithFallback } from "../../components/figma/ImageWithFallback";
 
 interface Project {
@@ -28,6 +29,8 @@ export function AdminProjectsPage() {
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [showMediaPicker, setShowMediaPicker] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [successMessage, setSuccessMessage] = useState("");
   const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
@@ -87,17 +90,31 @@ export function AdminProjectsPage() {
     setShowEditModal(true);
   };
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
     if (file) {
-      // For local file preview
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-      // Store file path or URL (in real app, you'd upload to server)
-      setFormData({ ...formData, image: URL.createObjectURL(file) });
+      if (!file.type.startsWith('image/')) {
+        alert('Please select an image file');
+        return;
+      }
+
+      if (file.size > 5 * 1024 * 1024) {
+        alert('Image size should be less than 5MB');
+        return;
+      }
+
+      setUploading(true);
+      try {
+        const upload = await uploadsAPI.upload(file, 'projects');
+        setFormData(prev => ({ ...prev, image: upload.url }));
+        setImagePreview(upload.url);
+      } catch (err: any) {
+        alert(err.response?.data?.error || 'Failed to upload image. Please try again.');
+      } finally {
+        setUploading(false);
+        input.value = '';
+      }
     }
   };
 
@@ -338,19 +355,34 @@ export function AdminProjectsPage() {
                 {/* Image Upload Options */}
                 <div className="flex flex-col lg:flex-row gap-3 lg:gap-4">
                   {/* File Upload */}
-                  <label className="flex-1 cursor-pointer">
+                  <label className={`flex-1 ${uploading ? "cursor-not-allowed opacity-60" : "cursor-pointer"}`}>
                     <input
                       type="file"
                       accept="image/*"
                       onChange={handleImageChange}
+                      disabled={uploading}
                       className="hidden"
                     />
                     <div className="bg-slate-700 hover:bg-slate-600 text-white px-3 lg:px-4 py-2 lg:py-3 rounded-lg transition-all flex items-center justify-center gap-2 border border-slate-600 text-sm lg:text-base">
-                      <Upload className="w-4 h-4 lg:w-5 lg:h-5" />
-                      <span>Upload Image</span>
+                      {uploading ? (
+                        <Loader2 className="w-4 h-4 lg:w-5 lg:h-5 animate-spin" />
+                      ) : (
+                        <Upload className="w-4 h-4 lg:w-5 lg:h-5" />
+                      )}
+                      <span>{uploading ? "Uploading..." : "Upload Image"}</span>
                     </div>
                   </label>
 
+                  {/* Media Library */}
+                  <button
+                    type="button"
+                    onClick={() => setShowMediaPicker(true)}
+                    className="flex-1 bg-slate-700 hover:bg-slate-600 text-white px-3 lg:px-4 py-2 lg:py-3 rounded-lg transition-all flex items-center justify-center gap-2 border border-slate-600 text-sm lg:text-base"
+                  >
+                    <Images className="w-4 h-4 lg:w-5 lg:h-5" />
+                    <span>Library</span>
+                  </button>
+
                   {/* URL Input */}
                   <div className="flex-1">
                     <input
@@ -362,7 +394,14 @@ export function AdminProjectsPage() {
                     />
                   </div>
                 </div>
-                <p className="text-slate-400 text-xs">Upload an image file or paste an image URL</p>
+                <p className="text-slate-400 text-xs">Upload an image file, pick one from the library or paste an image URL</p>
+                <MediaPickerDialog
+                  open={showMediaPicker}
+                  onClose={() => setShowMediaPicker(false)}
+                  onSelect={(asset) => handleImageUrlChange(asset.url)}
+                  folder="projects"
+                  title="Choose Project Image"
+                />
               </div>
               <textarea
                 placeholder="Features (comma separated, e.g., Web Development, Mobile Apps)"
@@ -382,7 +421,7 @@ export function AdminProjectsPage() {
             <div className="flex flex-col lg:flex-row gap-3 lg:gap-4 mt-4 lg:mt-6">
               <button
                 onClick={handleSave}
-                disabled={saving}
+                disabled={saving || uploading}
                 className="flex-1 bg-green-500 hover:bg-green-600 disabled:bg-slate-600 disabled:cursor-not-allowed text-white px-4 lg:px-6 py-2 lg:py-3 rounded-lg transition-all text-sm lg:text-base flex items-center justify-center gap-2"
               >
                 {saving ? (
@@ -0,0 +1,507 @@
+"use client";
+
+import { motion } from "motion/react";
+import { useState, useEffect } from "react";
+import { AdminLayout } from "../../components/admin/AdminLayout";
+import { MediaPickerDialog } from "../../components/admin/MediaPickerDialog";
+import { Plus, X, Loader2, Trash2, Edit, BadgePercent, Search, Images } from "lucide-react";
+import { promotionsAPI, categoriesAPI, productsAPI, Promotion, PromotionType, Category } from "@/lib/api";
+
+interface PromotionForm {
+  name: string;
+  description: string;
+  type: PromotionType;
+  value: string;
+  productIds: string[];
+  categoryIds: string[];
+  bannerImage: string;
+  startsAt: string;
+  endsAt: string;
+  isActive: boolean;
+}
+
+const emptyForm: PromotionForm = {
+  name: "",
+  description: "",
+  type: "PERCENTAGE",
+  value: "",
+  productIds: [],
+  categoryIds: [],
+  bannerImage: "",
+  startsAt: "",
+  endsAt: "",
+  isActive: true,
+};
+
+// datetime-local inputs work in local time without a timezone suffix
+const toDateTimeInput = (value: string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const describePromotion = (promotion: Promotion) => {
+  if (promotion.type === "PERCENTAGE") return `${parseFloat(promotion.value)}% off`;
+  return `$${parseFloat(promotion.value).toFixed(2)} off`;
+};
+
+const getPromotionStatus = (promotion: Promotion) => {
+  const now = new Date();
+  if (!promotion.isActive) return { label: "Inactive", className: "bg-slate-600/40 text-slate-300" };
+  if (new Date(promotion.endsAt) <= now) return { label: "Ended", className: "bg-red-500/20 text-red-400" };
+  if (new Date(promotion.startsAt) > now) return { label: "Scheduled", className: "bg-yellow-500/20 text-yellow-400" };
+  return { label: "Running", className: "bg-green-500/20 text-green-400" };
+};
+
+export function AdminPromotionsPage() {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [form, setForm] = useState<PromotionForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [products, setProducts] = useState<{ id: string; title: string }[]>([]);
+  const [productSearch, setProductSearch] = useState("");
+  const [showMediaPicker, setShowMediaPicker] = useState(false);
+
+  const fetchPromotions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await promotionsAPI.getAll();
+      setPromotions(response.promotions || []);
+    } catch (err: any) {
+      console.error('Error fetching promotions:', err);
+      setError(err.response?.data?.error || 'Failed to load promotions');
+      setPromotions([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPromotions();
+
+    // Target pickers; the form still works without them
+    const loadOptions = async () => {
+      try {
+        const [categoriesResponse, productsResponse] = await Promise.all([
+          categoriesAPI.getAll(),
+          productsAPI.getAll({ limit: 100 }),
+        ]);
+        setCategories(categoriesResponse.categories || []);
+        setProducts(productsResponse.products || []);
+      } catch (err) {
+        console.error('Error loading promotion target options:', err);
+      }
+    };
+    loadOptions();
+  }, []);
+
+  const handleAddNew = () => {
+    setEditingPromotion(null);
+    setForm(emptyForm);
+    setProductSearch("");
+    setShowModal(true);
+  };
+
+  const handleEdit = (promotion: Promotion) => {
+    setEditingPromotion(promotion);
+    setForm({
+      name: promotion.name,
+      description: promotion.description || "",
+      type: promotion.type,
+      value: promotion.value,
+      productIds: promotion.productIds,
+      categoryIds: promotion.categoryIds,
+      bannerImage: promotion.bannerImage || "",
+      startsAt: toDateTimeInput(promotion.startsAt),
+      endsAt: toDateTimeInput(promotion.endsAt),
+      isActive: promotion.isActive,
+    });
+    setProductSearch("");
+    setShowModal(true);
+  };
+
+  const toggleListValue = (key: "categoryIds" | "productIds", value: string) => {
+    const list = form[key];
+    setForm({
+      ...form,
+      [key]: list.includes(value) ? list.filter((v) => v !== value) : [...list, value],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      alert("Please enter a promotion name!");
+      return;
+    }
+    if (!form.value) {
+      alert("Please enter a discount value!");
+      return;
+    }
+    if (!form.startsAt || !form.endsAt) {
+      alert("Please choose when the promotion starts and ends!");
+      return;
+    }
+
+    const payload = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      type: form.type,
+      value: parseFloat(form.value),
+      productIds: form.productIds,
+      categoryIds: form.categoryIds,
+      bannerImage: form.bannerImage || null,
+      startsAt: new Date(form.startsAt).toISOString(),
+      endsAt: new Date(form.endsAt).toISOString(),
+      isActive: form.isActive,
+    };
+
+    try {
+      setSaving(true);
+      if (editingPromotion) {
+        await promotionsAPI.update(editingPromotion.id, payload);
+      } else {
+        await promotionsAPI.create(payload);
+      }
+      setShowModal(false);
+      await fetchPromotions();
+    } catch (err: any) {
+      console.error('Error saving promotion:', err);
+      const errorMsg = err.response?.data?.error === 'Validation error'
+        ? err.response?.data?.details?.[0]?.message
+        : err.response?.data?.error;
+      alert(errorMsg || 'Failed to save promotion');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (!confirm(`Delete promotion "${promotion.name}"?`)) return;
+
+    try {
+      await promotionsAPI.delete(promotion.id);
+      setPromotions(promotions.filter((p) => p.id !== promotion.id));
+    } catch (err: any) {
+      console.error('Error deleting promotion:', err);
+      alert(err.response?.data?.error || 'Failed to delete promotion');
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500";
+  const filteredProducts = products.filter((product) =>
+    product.title.toLowerCase().includes(productSearch.trim().toLowerCase())
+  );
+  const categoryName = (id: string) => categories.find((category) => category.id === id)?.name;
+
+  return (
+    <AdminLayout>
+      <div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4 sm:mb-6 md:mb-8">
+          <h1 className="text-white text-2xl sm:text-3xl">Promotions</h1>
+          <button
+            onClick={handleAddNew}
+            className="bg-green-500 hover:bg-green-600 text-white px-2 sm:px-3 py-1.5 sm:py-2 rounded-lg transition-all flex items-center justify-center gap-2 shadow-lg text-sm w-full sm:w-auto"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Promotion</span>
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4 mb-6">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
+          </div>
+        ) : promotions.length === 0 ? (
+          <div className="bg-slate-800 rounded-xl p-8 border border-slate-700 text-center">
+            <BadgePercent className="w-12 h-12 text-slate-500 mx-auto mb-3" />
+            <p className="text-slate-400">No promotions yet. Schedule one to put products on sale.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {promotions.map((promotion, index) => {
+              const status = getPromotionStatus(promotion);
+              return (
+                <motion.div
+                  key={promotion.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.3, delay: index * 0.05 }}
+                  className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden"
+                >
+                  {promotion.bannerImage && (
+                    <img src={promotion.bannerImage} alt={promotion.name} className="w-full h-28 object-cover" />
+                  )}
+                  <div className="p-4 sm:p-5">
+                    <div className="flex items-start justify-between gap-3 mb-3">
+                      <div>
+                        <p className="text-white text-lg">{promotion.name}</p>
+                        <p className="text-cyan-400 text-sm">{describePromotion(promotion)}</p>
+                      </div>
+                      <span className={`px-2 py-1 rounded text-xs ${status.className}`}>{status.label}</span>
+                    </div>
+                    {promotion.description && (
+                      <p className="text-slate-400 text-sm mb-3">{promotion.description}</p>
+                    )}
+                    <div className="text-slate-400 text-xs space-y-1 mb-4">
+                      <p>
+                        {new Date(promotion.startsAt).toLocaleString()} – {new Date(promotion.endsAt).toLocaleString()}
+                      </p>
+                      {promotion.categoryIds.length === 0 && promotion.productIds.length === 0 ? (
+                        <p>Whole catalogue</p>
+                      ) : (
+                        <p>
+                          Applies to
+                          {promotion.categoryIds.length > 0 && ` ${promotion.categoryIds.map((id) => categoryName(id) || "Unknown category").join(", ")}`}
+                          {promotion.categoryIds.length > 0 && promotion.productIds.length > 0 && " and"}
+                          {promotion.productIds.length > 0 && ` ${promotion.productIds.length} product(s)`}
+                        </p>
+                      )}
+                      {!!promotion.orderItemCount && <p>Sold {promotion.orderItemCount} order line(s)</p>}
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleEdit(promotion)}
+                        className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-slate-700 hover:bg-cyan-500 text-slate-300 hover:text-white text-sm transition-all"
+                      >
+                        <Edit className="w-4 h-4" />
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(promotion)}
+                        className="px-3 py-2 rounded-lg bg-slate-700 hover:bg-red-500 text-slate-300 hover:text-white transition-all"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Promotion Modal */}
+        {showModal && (
+          <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="bg-slate-800 rounded-xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-slate-700"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-white text-2xl">{editingPromotion ? "Edit Promotion" : "New Promotion"}</h2>
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="text-slate-400 hover:text-white transition-colors"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Name *</label>
+                    <input
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      placeholder="e.g., Black Friday"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Type</label>
+                    <select
+                      value={form.type}
+                      onChange={(e) => setForm({ ...form, type: e.target.value as PromotionType })}
+                      className={inputClass}
+                    >
+                      <option value="PERCENTAGE">Percentage off</option>
+                      <option value="FIXED_AMOUNT">Fixed amount off</option>
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-slate-300 text-sm mb-1">Description</label>
+                  <input
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    placeholder="Shown on the offers page"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">
+                      {form.type === "PERCENTAGE" ? "Percent Off *" : "Amount Off ($) *"}
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={form.value}
+                      onChange={(e) => setForm({ ...form, value: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Starts At *</label>
+                    <input
+                      type="datetime-local"
+                      value={form.startsAt}
+                      onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Ends At *</label>
+                    <input
+                      type="datetime-local"
+                      value={form.endsAt}
+                      onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <p className="text-slate-500 text-xs">
+                  Promotions don&apos;t stack: each product sells at the lowest of its own discount and any running promotion.
+                </p>
+
+                <div>
+                  <label className="text-slate-300 text-sm mb-2 block">Banner</label>
+                  <div className="flex items-center gap-3">
+                    {form.bannerImage ? (
+                      <img src={form.bannerImage} alt="Banner" className="w-32 h-16 rounded-lg object-cover" />
+                    ) : (
+                      <div className="w-32 h-16 rounded-lg bg-slate-700 flex items-center justify-center">
+                        <BadgePercent className="w-6 h-6 text-slate-500" />
+                      </div>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setShowMediaPicker(true)}
+                      className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg text-sm flex items-center gap-2"
+                    >
+                      <Images className="w-4 h-4" />
+                      Choose Image
+                    </button>
+                    {form.bannerImage && (
+                      <button
+                        type="button"
+                        onClick={() => setForm({ ...form, bannerImage: "" })}
+                        className="text-red-400 hover:text-red-300 text-sm"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                  <MediaPickerDialog
+                    open={showMediaPicker}
+                    onClose={() => setShowMediaPicker(false)}
+                    onSelect={(asset) => setForm(prev => ({ ...prev, bannerImage: asset.url }))}
+                    folder="misc"
+                    title="Choose Promotion Banner"
+                  />
+                </div>
+
+                {/* Targets */}
+                <div>
+                  <p className="text-slate-300 text-sm mb-1">Categories</p>
+                  <p className="text-slate-500 text-xs mb-2">
+                    Subcategories are included. Leave categories and products empty to put the whole catalogue on sale.
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {categories.length === 0 && <span className="text-slate-500 text-sm">No categories found</span>}
+                    {categories.map((category) => (
+                      <button
+                        key={category.id}
+                        type="button"
+                        onClick={() => toggleListValue("categoryIds", category.id)}
+                        className={`px-3 py-1 rounded-full text-xs border transition-all ${
+                          form.categoryIds.includes(category.id)
+                            ? "bg-cyan-500 border-cyan-500 text-white"
+                            : "border-slate-600 text-slate-300 hover:border-cyan-500"
+                        }`}
+                      >
+                        {category.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <p className="text-slate-300 text-sm mb-2">
+                    Products {form.productIds.length > 0 && <span className="text-cyan-400">({form.productIds.length} selected)</span>}
+                  </p>
+                  <div className="relative mb-2">
+                    <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                      value={productSearch}
+                      onChange={(e) => setProductSearch(e.target.value)}
+                      placeholder="Search products..."
+                      className={`${inputClass} pl-9`}
+                    />
+                  </div>
+                  <div className="max-h-40 overflow-y-auto space-y-1 bg-slate-900/40 rounded-lg p-2">
+                    {filteredProducts.map((product) => (
+                      <label key={product.id} className="flex items-center gap-2 text-slate-300 text-sm cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={form.productIds.includes(product.id)}
+                          onChange={() => toggleListValue("productIds", product.id)}
+                          className="accent-cyan-500"
+                        />
+                        {product.title}
+                      </label>
+                    ))}
+                    {filteredProducts.length === 0 && <p className="text-slate-500 text-sm">No products found</p>}
+                  </div>
+                </div>
+
+                <label className="flex items-center gap-2 text-slate-300 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={form.isActive}
+                    onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                    className="accent-cyan-500"
+                  />
+                  Active
+                </label>
+              </div>
+
+              <div className="flex gap-3 mt-6">
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="flex-1 bg-cyan-500 hover:bg-cyan-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-all flex items-center justify-center gap-2"
+                >
+                  {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {editingPromotion ? "Save Changes" : "Create Promotion"}
+                </button>
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="flex-1 bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default AdminPromotionsPage;
@@ -0,0 +1,242 @@
+"use client";
+
+import { motion } from "motion/react";
+import { useState, useEffect } from "react";
+import { AdminLayout } from "../../components/admin/AdminLayout";
+import { Star, Loader2, Eye, EyeOff, Trash2, BadgeCheck } from "lucide-react";
+import { reviewsAPI } from "@/lib/api";
+
+interface AdminReview {
+  id: string;
+  productId: string;
+  rating: number;
+  comment: string | null;
+  hidden: boolean;
+  hiddenReason: string | null;
+  moderatedAt: string | null;
+  authorName: string;
+  userEmail: string | null;
+  createdAt: string;
+  product: {
+    id: string;
+    title: string;
+    slug: string;
+  };
+}
+
+type StatusFilter = "all" | "visible" | "hidden";
+
+export function AdminReviewsPage() {
+  const [reviews, setReviews] = useState<AdminReview[]>([]);
+  const [status, setStatus] = useState<StatusFilter>("all");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updating, setUpdating] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchReviews = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await reviewsAPI.getModerationQueue({ status, page, limit: 20 });
+        setReviews(response.reviews || []);
+        setTotalPages(response.pagination?.totalPages || 1);
+        setTotal(response.pagination?.total || 0);
+      } catch (err: any) {
+        console.error('Error fetching reviews:', err);
+        setError(err.response?.data?.error || 'Failed to load reviews');
+        setReviews([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReviews();
+  }, [status, page]);
+
+  const handleToggleHidden = async (review: AdminReview) => {
+    let hiddenReason: string | undefined;
+    if (!review.hidden) {
+      const reason = prompt("Reason for hiding this review (optional):");
+      if (reason === null) return;
+      hiddenReason = reason.trim() || undefined;
+    }
+
+    try {
+      setUpdating(review.id);
+      const response = await reviewsAPI.moderate(review.id, { hidden: !review.hidden, hiddenReason });
+      setReviews(reviews.map(r => r.id === review.id
+        ? { ...r, hidden: response.review.hidden, hiddenReason: response.review.hiddenReason, moderatedAt: response.review.moderatedAt }
+        : r
+      ));
+    } catch (err: any) {
+      console.error('Error moderating review:', err);
+      alert(err.response?.data?.error || 'Failed to update review');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const handleDelete = async (review: AdminReview) => {
+    if (!confirm("Permanently delete this review?")) return;
+
+    try {
+      setUpdating(review.id);
+      await reviewsAPI.delete(review.productId, review.id);
+      setReviews(reviews.filter(r => r.id !== review.id));
+      setTotal(total - 1);
+    } catch (err: any) {
+      console.error('Error deleting review:', err);
+      alert(err.response?.data?.error || 'Failed to delete review');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  return (
+    <AdminLayout>
+      <div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-4 mb-4 sm:mb-6 md:mb-8">
+          <div className="flex items-center gap-2 sm:gap-3">
+            <h1 className="text-white text-2xl sm:text-3xl">Review Moderation</h1>
+            <p className="text-slate-400 text-sm sm:text-base">{total} reviews</p>
+          </div>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex gap-4 mb-6">
+          {(["all", "visible", "hidden"] as StatusFilter[]).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => {
+                setStatus(tab);
+                setPage(1);
+              }}
+              className={`px-6 py-3 rounded-lg transition-all capitalize ${status === tab
+                ? "bg-cyan-500 text-white"
+                : "bg-slate-800 text-slate-400 hover:bg-slate-700"
+                }`}
+            >
+              {tab}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4 mb-6">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="text-center py-12">
+            <Star className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+            <p className="text-slate-400 text-lg">No reviews found.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map((review, index) => (
+              <motion.div
+                key={review.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.3, delay: index * 0.05 }}
+                className={`bg-slate-800 rounded-xl p-4 sm:p-5 md:p-6 border ${review.hidden ? "border-red-500/40" : "border-slate-700"}`}
+              >
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3 sm:gap-4 items-start">
+                  <div className="md:col-span-3">
+                    <div className="flex flex-wrap items-center gap-3 mb-2">
+                      <div className="flex items-center gap-0.5">
+                        {[1, 2, 3, 4, 5].map((star) => (
+                          <Star
+                            key={star}
+                            className={`w-4 h-4 ${star <= review.rating ? "fill-yellow-400 text-yellow-400" : "text-slate-600"}`}
+                          />
+                        ))}
+                      </div>
+                      <span className="text-white text-sm">{review.authorName}</span>
+                      <span className="flex items-center gap-1 text-xs text-green-400">
+                        <BadgeCheck className="w-4 h-4" /> Verified
+                      </span>
+                      {review.hidden && (
+                        <span className="bg-red-500/20 text-red-400 text-xs px-2 py-1 rounded-full">Hidden</span>
+                      )}
+                    </div>
+                    <p className="text-cyan-400 text-sm mb-1 break-words">{review.product.title}</p>
+                    <p className="text-slate-500 text-xs mb-2 break-all">
+                      {review.userEmail} · {formatDate(review.createdAt)}
+                    </p>
+                    {review.comment ? (
+                      <p className="text-slate-300 text-sm whitespace-pre-wrap break-words">{review.comment}</p>
+                    ) : (
+                      <p className="text-slate-500 text-sm italic">No comment</p>
+                    )}
+                    {review.hidden && review.hiddenReason && (
+                      <p className="text-red-400 text-xs mt-2">Reason: {review.hiddenReason}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2 sm:space-y-3">
+                    <button
+                      onClick={() => handleToggleHidden(review)}
+                      disabled={updating === review.id}
+                      className={`w-full ${review.hidden ? "bg-green-500 hover:bg-green-600" : "bg-yellow-500 hover:bg-yellow-600"} text-white px-4 py-2 rounded-lg transition-all flex items-center justify-center gap-2 text-sm disabled:opacity-50`}
+                    >
+                      {review.hidden ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                      {review.hidden ? "Restore" : "Hide"}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(review)}
+                      disabled={updating === review.id}
+                      className="w-full bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all flex items-center justify-center gap-2 text-sm disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-center gap-3 mt-6">
+            <button
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-slate-400 text-sm">Page {page} of {totalPages}</span>
+            <button
+              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+              className="px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default AdminReviewsPage;
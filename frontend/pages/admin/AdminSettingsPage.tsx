@@ -0,0 +1,592 @@
+"use client";
+
+import { motion } from "motion/react";
+import { useState, useEffect, useRef } from "react";
+import { AdminLayout } from "../../components/admin/AdminLayout";
+import { Plus, X, Loader2, Trash2, Edit, Percent, Coins, Upload } from "lucide-react";
+import { taxAPI, currencyAPI } from "@/lib/api";
+
+interface TaxRule {
+  id: string;
+  name: string;
+  country: string;
+  region: string | null;
+  category: string | null;
+  hsCodePrefix: string | null;
+  rate: string;
+  appliesToShipping: boolean;
+  isActive: boolean;
+}
+
+interface TaxRuleForm {
+  name: string;
+  country: string;
+  region: string;
+  overrideType: "none" | "category" | "hsCode";
+  overrideValue: string;
+  rate: string;
+  appliesToShipping: boolean;
+  isActive: boolean;
+}
+
+interface CurrencyRate {
+  id: string;
+  base: string;
+  target: string;
+  rate: number;
+  lastFetched: string;
+}
+
+const emptyForm: TaxRuleForm = {
+  name: "",
+  country: "",
+  region: "",
+  overrideType: "none",
+  overrideValue: "",
+  rate: "",
+  appliesToShipping: false,
+  isActive: true,
+};
+
+export function AdminSettingsPage() {
+  const [rules, setRules] = useState<TaxRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingRule, setEditingRule] = useState<TaxRule | null>(null);
+  const [form, setForm] = useState<TaxRuleForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [currencyRates, setCurrencyRates] = useState<CurrencyRate[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState("USD");
+  const [ratesLoading, setRatesLoading] = useState(true);
+  const [rateForm, setRateForm] = useState({ target: "", rate: "" });
+  const [editingRate, setEditingRate] = useState<CurrencyRate | null>(null);
+  const [savingRate, setSavingRate] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchRules = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await taxAPI.getRules();
+      setRules(response.rules || []);
+    } catch (err: any) {
+      console.error('Error fetching tax rules:', err);
+      setError(err.response?.data?.error || 'Failed to load tax rules');
+      setRules([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCurrencyRates = async () => {
+    try {
+      setRatesLoading(true);
+      const response = await currencyAPI.getRates();
+      setBaseCurrency(response.base || "USD");
+      setCurrencyRates(response.rates || []);
+    } catch (err: any) {
+      console.error('Error fetching currency rates:', err);
+      setCurrencyRates([]);
+    } finally {
+      setRatesLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+    fetchCurrencyRates();
+  }, []);
+
+  const handleAddNew = () => {
+    setEditingRule(null);
+    setForm(emptyForm);
+    setShowModal(true);
+  };
+
+  const handleEdit = (rule: TaxRule) => {
+    setEditingRule(rule);
+    setForm({
+      name: rule.name,
+      country: rule.country,
+      region: rule.region || "",
+      overrideType: rule.hsCodePrefix ? "hsCode" : rule.category ? "category" : "none",
+      overrideValue: rule.hsCodePrefix || rule.category || "",
+      rate: rule.rate,
+      appliesToShipping: rule.appliesToShipping,
+      isActive: rule.isActive,
+    });
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.country.trim() || form.rate === "") {
+      alert("Please enter a name, country and rate!");
+      return;
+    }
+
+    const payload = {
+      name: form.name.trim(),
+      country: form.country.trim(),
+      region: form.region.trim() || null,
+      category: form.overrideType === "category" ? form.overrideValue.trim() || null : null,
+      hsCodePrefix: form.overrideType === "hsCode" ? form.overrideValue.trim() || null : null,
+      rate: parseFloat(form.rate),
+      appliesToShipping: form.appliesToShipping,
+      isActive: form.isActive,
+    };
+
+    try {
+      setSaving(true);
+      if (editingRule) {
+        await taxAPI.updateRule(editingRule.id, payload);
+      } else {
+        await taxAPI.createRule(payload);
+      }
+      setShowModal(false);
+      await fetchRules();
+    } catch (err: any) {
+      console.error('Error saving tax rule:', err);
+      const errorMsg = err.response?.data?.error === 'Validation error'
+        ? err.response?.data?.details?.[0]?.message
+        : err.response?.data?.error;
+      alert(errorMsg || 'Failed to save tax rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: TaxRule) => {
+    if (!confirm(`Delete tax rule "${rule.name}"?`)) return;
+
+    try {
+      await taxAPI.deleteRule(rule.id);
+      setRules(rules.filter((r) => r.id !== rule.id));
+    } catch (err: any) {
+      console.error('Error deleting tax rule:', err);
+      alert(err.response?.data?.error || 'Failed to delete tax rule');
+    }
+  };
+
+  const handleEditRate = (rate: CurrencyRate) => {
+    setEditingRate(rate);
+    setRateForm({ target: rate.target, rate: String(rate.rate) });
+  };
+
+  const handleCancelRate = () => {
+    setEditingRate(null);
+    setRateForm({ target: "", rate: "" });
+  };
+
+  const handleSaveRate = async () => {
+    if (!rateForm.target.trim() || rateForm.rate === "") {
+      alert("Please enter a currency code and rate!");
+      return;
+    }
+
+    try {
+      setSavingRate(true);
+      if (editingRate) {
+        await currencyAPI.updateRate(editingRate.id, { rate: parseFloat(rateForm.rate) });
+      } else {
+        await currencyAPI.saveRate({ target: rateForm.target.trim(), rate: parseFloat(rateForm.rate) });
+      }
+      handleCancelRate();
+      await fetchCurrencyRates();
+    } catch (err: any) {
+      console.error('Error saving currency rate:', err);
+      const errorMsg = err.response?.data?.error === 'Validation error'
+        ? err.response?.data?.details?.[0]?.message
+        : err.response?.data?.error;
+      alert(errorMsg || 'Failed to save currency rate');
+    } finally {
+      setSavingRate(false);
+    }
+  };
+
+  const handleDeleteRate = async (rate: CurrencyRate) => {
+    if (!confirm(`Remove ${rate.target}? Customers will no longer be able to pay in it.`)) return;
+
+    try {
+      await currencyAPI.deleteRate(rate.id);
+      setCurrencyRates(currencyRates.filter((r) => r.id !== rate.id));
+    } catch (err: any) {
+      console.error('Error deleting currency rate:', err);
+      alert(err.response?.data?.error || 'Failed to delete currency rate');
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const format = file.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+
+    try {
+      setImporting(true);
+      const content = await file.text();
+      const response = await currencyAPI.importRates({ format, content });
+      alert(response.message || `Imported ${response.imported} rates`);
+      await fetchCurrencyRates();
+    } catch (err: any) {
+      console.error('Error importing currency rates:', err);
+      const errors: string[] = err.response?.data?.errors || [];
+      alert(errors.length > 0
+        ? `Import failed:\n${errors.join("\n")}`
+        : err.response?.data?.error || 'Failed to import currency rates');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+  return (
+    <AdminLayout>
+      <div>
+        <div className="mb-4 sm:mb-6 md:mb-8">
+          <h1 className="text-white text-2xl sm:text-3xl">Settings</h1>
+        </div>
+
+        {/* Tax Rates */}
+        <div className="bg-slate-800 rounded-xl p-4 sm:p-5 md:p-6 border border-slate-700">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+            <div>
+              <h2 className="text-white text-xl flex items-center gap-2">
+                <Percent className="w-5 h-5 text-cyan-400" />
+                Tax / VAT Rates
+              </h2>
+              <p className="text-slate-400 text-sm mt-1">
+                Prices are tax-exclusive. Category and HS code rules override the country rate for matching products.
+              </p>
+            </div>
+            <button
+              onClick={handleAddNew}
+              className="bg-green-500 hover:bg-green-600 text-white px-2 sm:px-3 py-1.5 sm:py-2 rounded-lg transition-all flex items-center justify-center gap-2 shadow-lg text-sm w-full sm:w-auto"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Tax Rule</span>
+            </button>
+          </div>
+
+          {error && (
+            <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4 mb-4">
+              <p className="text-red-400">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="text-slate-400 text-center py-8">No tax rules yet. Orders are not taxed until a rule exists for their destination.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-slate-400 text-left border-b border-slate-700">
+                    <th className="py-2 pr-4 font-normal">Name</th>
+                    <th className="py-2 pr-4 font-normal">Destination</th>
+                    <th className="py-2 pr-4 font-normal">Applies To</th>
+                    <th className="py-2 pr-4 font-normal">Rate</th>
+                    <th className="py-2 pr-4 font-normal">Shipping</th>
+                    <th className="py-2 font-normal"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rules.map((rule, index) => (
+                    <motion.tr
+                      key={rule.id}
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      transition={{ duration: 0.2, delay: index * 0.03 }}
+                      className={`border-b border-slate-700/50 ${rule.isActive ? "text-slate-200" : "text-slate-500"}`}
+                    >
+                      <td className="py-3 pr-4">
+                        {rule.name}
+                        {!rule.isActive && <span className="ml-2 text-xs">(inactive)</span>}
+                      </td>
+                      <td className="py-3 pr-4">{rule.country}{rule.region ? ` / ${rule.region}` : ""}</td>
+                      <td className="py-3 pr-4">
+                        {rule.hsCodePrefix
+                          ? `HS ${rule.hsCodePrefix}*`
+                          : rule.category
+                            ? `Category: ${rule.category}`
+                            : "All products"}
+                      </td>
+                      <td className="py-3 pr-4 text-cyan-400">{parseFloat(rule.rate).toFixed(2)}%</td>
+                      <td className="py-3 pr-4">{rule.appliesToShipping ? "Taxed" : "—"}</td>
+                      <td className="py-3">
+                        <div className="flex gap-2 justify-end">
+                          <button
+                            onClick={() => handleEdit(rule)}
+                            className="p-2 rounded-lg bg-slate-700 hover:bg-cyan-500 text-slate-300 hover:text-white transition-all"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(rule)}
+                            className="p-2 rounded-lg bg-slate-700 hover:bg-red-500 text-slate-300 hover:text-white transition-all"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </motion.tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Currencies */}
+        <div className="bg-slate-800 rounded-xl p-4 sm:p-5 md:p-6 border border-slate-700 mt-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+            <div>
+              <h2 className="text-white text-xl flex items-center gap-2">
+                <Coins className="w-5 h-5 text-cyan-400" />
+                Currencies
+              </h2>
+              <p className="text-slate-400 text-sm mt-1">
+                Catalog prices are in {baseCurrency}. Orders lock the rate in effect when they are placed.
+              </p>
+            </div>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importing}
+              className="bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white px-2 sm:px-3 py-1.5 sm:py-2 rounded-lg transition-all flex items-center justify-center gap-2 text-sm w-full sm:w-auto"
+            >
+              {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              <span>Import CSV / JSON</span>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleImportFile}
+              className="hidden"
+            />
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3 mb-4">
+            <input
+              value={rateForm.target}
+              onChange={(e) => setRateForm({ ...rateForm, target: e.target.value.toUpperCase() })}
+              placeholder="Currency, e.g., EUR"
+              maxLength={3}
+              disabled={!!editingRate}
+              className={`${inputClass} sm:w-40 disabled:opacity-60`}
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.000001"
+              value={rateForm.rate}
+              onChange={(e) => setRateForm({ ...rateForm, rate: e.target.value })}
+              placeholder={`Units per 1 ${baseCurrency}`}
+              className={`${inputClass} sm:w-48`}
+            />
+            <button
+              onClick={handleSaveRate}
+              disabled={savingRate}
+              className="bg-green-500 hover:bg-green-600 disabled:opacity-50 text-white px-3 py-2 rounded-lg transition-all flex items-center justify-center gap-2 text-sm"
+            >
+              {savingRate ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              {editingRate ? "Update Rate" : "Add Rate"}
+            </button>
+            {editingRate && (
+              <button
+                onClick={handleCancelRate}
+                className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded-lg transition-all text-sm"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+
+          {ratesLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
+            </div>
+          ) : currencyRates.length === 0 ? (
+            <p className="text-slate-400 text-center py-8">No exchange rates yet. Customers can only shop in {baseCurrency}.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-slate-400 text-left border-b border-slate-700">
+                    <th className="py-2 pr-4 font-normal">Currency</th>
+                    <th className="py-2 pr-4 font-normal">Rate</th>
+                    <th className="py-2 pr-4 font-normal">Updated</th>
+                    <th className="py-2 font-normal"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {currencyRates.map((rate) => (
+                    <tr key={rate.id} className="border-b border-slate-700/50 text-slate-200">
+                      <td className="py-3 pr-4">{rate.target}</td>
+                      <td className="py-3 pr-4 text-cyan-400">1 {rate.base} = {rate.rate} {rate.target}</td>
+                      <td className="py-3 pr-4 text-slate-400">{new Date(rate.lastFetched).toLocaleString()}</td>
+                      <td className="py-3">
+                        <div className="flex gap-2 justify-end">
+                          <button
+                            onClick={() => handleEditRate(rate)}
+                            className="p-2 rounded-lg bg-slate-700 hover:bg-cyan-500 text-slate-300 hover:text-white transition-all"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteRate(rate)}
+                            className="p-2 rounded-lg bg-slate-700 hover:bg-red-500 text-slate-300 hover:text-white transition-all"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Tax Rule Modal */}
+        {showModal && (
+          <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="bg-slate-800 rounded-xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto border border-slate-700"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-white text-2xl">{editingRule ? "Edit Tax Rule" : "New Tax Rule"}</h2>
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="text-slate-400 hover:text-white transition-colors"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-slate-300 text-sm mb-1">Name *</label>
+                  <input
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g., UK VAT"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Country *</label>
+                    <input
+                      value={form.country}
+                      onChange={(e) => setForm({ ...form, country: e.target.value })}
+                      placeholder="e.g., United Kingdom"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Region</label>
+                    <input
+                      value={form.region}
+                      onChange={(e) => setForm({ ...form, region: e.target.value })}
+                      placeholder="Optional, e.g., California"
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Applies To</label>
+                    <select
+                      value={form.overrideType}
+                      onChange={(e) => setForm({ ...form, overrideType: e.target.value as TaxRuleForm["overrideType"] })}
+                      className={inputClass}
+                    >
+                      <option value="none">All products</option>
+                      <option value="category">Category</option>
+                      <option value="hsCode">HS code prefix</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Rate (%) *</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={form.rate}
+                      onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                      placeholder="e.g., 20"
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                {form.overrideType !== "none" && (
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">
+                      {form.overrideType === "category" ? "Category Name" : "HS Code Prefix"}
+                    </label>
+                    <input
+                      value={form.overrideValue}
+                      onChange={(e) => setForm({ ...form, overrideValue: e.target.value })}
+                      placeholder={form.overrideType === "category" ? "e.g., Books" : "e.g., 4901"}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                <div className="flex gap-6">
+                  <label className="flex items-center gap-2 text-slate-300 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={form.appliesToShipping}
+                      onChange={(e) => setForm({ ...form, appliesToShipping: e.target.checked })}
+                      className="accent-cyan-500"
+                    />
+                    Also tax shipping
+                  </label>
+                  <label className="flex items-center gap-2 text-slate-300 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={form.isActive}
+                      onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                      className="accent-cyan-500"
+                    />
+                    Active
+                  </label>
+                </div>
+              </div>
+
+              <div className="flex gap-3 mt-6">
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="flex-1 bg-cyan-500 hover:bg-cyan-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-all flex items-center justify-center gap-2"
+                >
+                  {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {editingRule ? "Save Changes" : "Create Rule"}
+                </button>
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="flex-1 bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default AdminSettingsPage;
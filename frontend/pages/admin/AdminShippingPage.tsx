@@ -0,0 +1,461 @@
+"use client";
+
+import { motion } from "motion/react";
+import { useState, useEffect } from "react";
+import { AdminLayout } from "../../components/admin/AdminLayout";
+import { Plus, X, Loader2, Trash2, Edit, Truck, Globe } from "lucide-react";
+import { shippingAPI } from "@/lib/api";
+
+interface ShippingRate {
+  id?: string;
+  method: string;
+  name: string;
+  basis: "WEIGHT" | "ORDER_VALUE";
+  minValue: string;
+  maxValue: string | null;
+  price: string;
+  estimatedDays: string | null;
+}
+
+interface ShippingZone {
+  id: string;
+  name: string;
+  countries: string[];
+  isDefault: boolean;
+  freeShippingThreshold: string | null;
+  isActive: boolean;
+  rates: ShippingRate[];
+}
+
+interface ZoneForm {
+  name: string;
+  countries: string;
+  isDefault: boolean;
+  freeShippingThreshold: string;
+  isActive: boolean;
+  rates: ShippingRate[];
+}
+
+const emptyRate: ShippingRate = {
+  method: "standard",
+  name: "Standard Shipping",
+  basis: "ORDER_VALUE",
+  minValue: "0",
+  maxValue: "",
+  price: "10",
+  estimatedDays: "",
+};
+
+const emptyForm: ZoneForm = {
+  name: "",
+  countries: "",
+  isDefault: false,
+  freeShippingThreshold: "",
+  isActive: true,
+  rates: [{ ...emptyRate }],
+};
+
+export function AdminShippingPage() {
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingZone, setEditingZone] = useState<ShippingZone | null>(null);
+  const [form, setForm] = useState<ZoneForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const fetchZones = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await shippingAPI.getAdminZones();
+      setZones(response.zones || []);
+    } catch (err: any) {
+      console.error('Error fetching shipping zones:', err);
+      setError(err.response?.data?.error || 'Failed to load shipping zones');
+      setZones([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchZones();
+  }, []);
+
+  const handleAddNew = () => {
+    setEditingZone(null);
+    setForm({ ...emptyForm, rates: [{ ...emptyRate }] });
+    setShowModal(true);
+  };
+
+  const handleEdit = (zone: ShippingZone) => {
+    setEditingZone(zone);
+    setForm({
+      name: zone.name,
+      countries: zone.countries.join(", "),
+      isDefault: zone.isDefault,
+      freeShippingThreshold: zone.freeShippingThreshold || "",
+      isActive: zone.isActive,
+      rates: zone.rates.map((rate) => ({
+        ...rate,
+        maxValue: rate.maxValue || "",
+        estimatedDays: rate.estimatedDays || "",
+      })),
+    });
+    setShowModal(true);
+  };
+
+  const updateRate = (index: number, changes: Partial<ShippingRate>) => {
+    setForm({
+      ...form,
+      rates: form.rates.map((rate, i) => (i === index ? { ...rate, ...changes } : rate)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      alert("Please enter a zone name!");
+      return;
+    }
+
+    const payload = {
+      name: form.name.trim(),
+      countries: form.countries.split(",").map((c) => c.trim()).filter(Boolean),
+      isDefault: form.isDefault,
+      freeShippingThreshold: form.freeShippingThreshold ? parseFloat(form.freeShippingThreshold) : null,
+      isActive: form.isActive,
+      rates: form.rates.map((rate) => ({
+        method: rate.method.trim().toLowerCase(),
+        name: rate.name.trim(),
+        basis: rate.basis,
+        minValue: parseFloat(rate.minValue) || 0,
+        maxValue: rate.maxValue ? parseFloat(rate.maxValue) : null,
+        price: parseFloat(rate.price) || 0,
+        estimatedDays: rate.estimatedDays?.trim() || null,
+      })),
+    };
+
+    try {
+      setSaving(true);
+      if (editingZone) {
+        await shippingAPI.updateZone(editingZone.id, payload);
+      } else {
+        await shippingAPI.createZone(payload);
+      }
+      setShowModal(false);
+      await fetchZones();
+    } catch (err: any) {
+      console.error('Error saving shipping zone:', err);
+      const errorMsg = err.response?.data?.error === 'Validation error'
+        ? err.response?.data?.details?.[0]?.message
+        : err.response?.data?.error;
+      alert(errorMsg || 'Failed to save shipping zone');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (zone: ShippingZone) => {
+    if (!confirm(`Delete shipping zone "${zone.name}"?`)) return;
+
+    try {
+      await shippingAPI.deleteZone(zone.id);
+      setZones(zones.filter((z) => z.id !== zone.id));
+    } catch (err: any) {
+      console.error('Error deleting shipping zone:', err);
+      alert(err.response?.data?.error || 'Failed to delete shipping zone');
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+  return (
+    <AdminLayout>
+      <div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-4 mb-4 sm:mb-6 md:mb-8">
+          <div className="flex items-center gap-2 sm:gap-3">
+            <h1 className="text-white text-2xl sm:text-3xl">Shipping Zones</h1>
+            <p className="text-slate-400 text-sm sm:text-base">{zones.length} zones</p>
+          </div>
+          <button
+            onClick={handleAddNew}
+            className="bg-green-500 hover:bg-green-600 text-white px-2 sm:px-3 py-1.5 sm:py-2 rounded-lg transition-all flex items-center justify-center gap-2 shadow-lg text-sm w-full sm:w-auto"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Zone</span>
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4 mb-6">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
+          </div>
+        ) : zones.length === 0 ? (
+          <div className="text-center py-12">
+            <Truck className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+            <p className="text-slate-400 text-lg">No shipping zones yet.</p>
+            <p className="text-slate-500 text-sm mt-2">Until a zone is created every order is charged a flat $10.00.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+            {zones.map((zone, index) => (
+              <motion.div
+                key={zone.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.3, delay: index * 0.05 }}
+                className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-5 sm:p-6 border border-slate-700 shadow-xl"
+              >
+                <div className="flex items-start justify-between gap-3 mb-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <Globe className="w-5 h-5 text-cyan-400" />
+                      <h3 className="text-white text-lg">{zone.name}</h3>
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                      {zone.isDefault && (
+                        <span className="bg-cyan-500/20 text-cyan-400 text-xs px-2 py-1 rounded-full">Default</span>
+                      )}
+                      {!zone.isActive && (
+                        <span className="bg-slate-600 text-slate-300 text-xs px-2 py-1 rounded-full">Inactive</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleEdit(zone)}
+                      className="p-2 rounded-lg bg-slate-700 hover:bg-cyan-500 text-slate-300 hover:text-white transition-all"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(zone)}
+                      className="p-2 rounded-lg bg-slate-700 hover:bg-red-500 text-slate-300 hover:text-white transition-all"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <p className="text-slate-400 text-sm mb-2 break-words">
+                  {zone.countries.length > 0 ? zone.countries.join(", ") : "All other destinations"}
+                </p>
+                {zone.freeShippingThreshold && (
+                  <p className="text-green-400 text-sm mb-3">
+                    Free shipping over ${parseFloat(zone.freeShippingThreshold).toFixed(2)}
+                  </p>
+                )}
+
+                <div className="bg-slate-700/50 rounded-lg p-3 border border-slate-600 space-y-1">
+                  {zone.rates.length === 0 ? (
+                    <p className="text-slate-500 text-sm">No rates configured</p>
+                  ) : (
+                    zone.rates.map((rate) => (
+                      <div key={rate.id} className="flex justify-between text-sm">
+                        <span className="text-slate-300">
+                          {rate.name}{" "}
+                          <span className="text-slate-500">
+                            ({rate.basis === "WEIGHT" ? "kg" : "$"} {parseFloat(rate.minValue)}
+                            {rate.maxValue ? ` – ${parseFloat(rate.maxValue)}` : "+"})
+                          </span>
+                        </span>
+                        <span className="text-cyan-400">${parseFloat(rate.price).toFixed(2)}</span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        )}
+
+        {/* Zone Editor Modal */}
+        {showModal && (
+          <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="bg-slate-800 rounded-xl p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-slate-700"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-white text-2xl">{editingZone ? "Edit Shipping Zone" : "New Shipping Zone"}</h2>
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="text-slate-400 hover:text-white transition-colors"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Zone Name *</label>
+                    <input
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      placeholder="e.g., Europe"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-slate-300 text-sm mb-1">Free Shipping Threshold ($)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={form.freeShippingThreshold}
+                      onChange={(e) => setForm({ ...form, freeShippingThreshold: e.target.value })}
+                      placeholder="Leave empty to disable"
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-slate-300 text-sm mb-1">Countries</label>
+                  <input
+                    value={form.countries}
+                    onChange={(e) => setForm({ ...form, countries: e.target.value })}
+                    placeholder="Comma separated, e.g., United States, US, USA"
+                    className={inputClass}
+                  />
+                  <p className="text-slate-500 text-xs mt-1">
+                    Matched against the country customers type at checkout, ignoring case.
+                  </p>
+                </div>
+
+                <div className="flex gap-6">
+                  <label className="flex items-center gap-2 text-slate-300 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={form.isDefault}
+                      onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+                      className="accent-cyan-500"
+                    />
+                    Default zone (all other destinations)
+                  </label>
+                  <label className="flex items-center gap-2 text-slate-300 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={form.isActive}
+                      onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                      className="accent-cyan-500"
+                    />
+                    Active
+                  </label>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="text-slate-300 text-sm">Rates</label>
+                    <button
+                      onClick={() => setForm({ ...form, rates: [...form.rates, { ...emptyRate }] })}
+                      className="text-cyan-400 hover:text-cyan-300 text-sm flex items-center gap-1"
+                    >
+                      <Plus className="w-4 h-4" /> Add Rate
+                    </button>
+                  </div>
+                  <p className="text-slate-500 text-xs mb-3">
+                    Rows with the same method form a rate table; the row whose range contains the order weight or value is used.
+                  </p>
+                  <div className="space-y-3">
+                    {form.rates.map((rate, index) => (
+                      <div key={index} className="bg-slate-700/50 rounded-lg p-3 border border-slate-600 grid grid-cols-2 sm:grid-cols-4 gap-2">
+                        <input
+                          value={rate.method}
+                          onChange={(e) => updateRate(index, { method: e.target.value })}
+                          placeholder="Method (e.g. express)"
+                          className={inputClass}
+                        />
+                        <input
+                          value={rate.name}
+                          onChange={(e) => updateRate(index, { name: e.target.value })}
+                          placeholder="Display name"
+                          className={inputClass}
+                        />
+                        <select
+                          value={rate.basis}
+                          onChange={(e) => updateRate(index, { basis: e.target.value as ShippingRate["basis"] })}
+                          className={inputClass}
+                        >
+                          <option value="ORDER_VALUE">By order value ($)</option>
+                          <option value="WEIGHT">By weight (kg)</option>
+                        </select>
+                        <input
+                          value={rate.estimatedDays || ""}
+                          onChange={(e) => updateRate(index, { estimatedDays: e.target.value })}
+                          placeholder="e.g. 3-5 days"
+                          className={inputClass}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.001"
+                          value={rate.minValue}
+                          onChange={(e) => updateRate(index, { minValue: e.target.value })}
+                          placeholder="From"
+                          className={inputClass}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.001"
+                          value={rate.maxValue || ""}
+                          onChange={(e) => updateRate(index, { maxValue: e.target.value })}
+                          placeholder="Up to (empty = no limit)"
+                          className={inputClass}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={rate.price}
+                          onChange={(e) => updateRate(index, { price: e.target.value })}
+                          placeholder="Price ($)"
+                          className={inputClass}
+                        />
+                        <button
+                          onClick={() => setForm({ ...form, rates: form.rates.filter((_, i) => i !== index) })}
+                          className="bg-red-500/20 hover:bg-red-500 text-red-400 hover:text-white rounded-lg text-sm flex items-center justify-center gap-1 transition-all"
+                        >
+                          <Trash2 className="w-4 h-4" /> Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex gap-3 mt-6">
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="flex-1 bg-cyan-500 hover:bg-cyan-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-all flex items-center justify-center gap-2"
+                >
+                  {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {editingZone ? "Save Changes" : "Create Zone"}
+                </button>
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="flex-1 bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default AdminShippingPage;
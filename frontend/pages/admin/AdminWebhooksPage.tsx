@@ -0,0 +1,322 @@
+"use client";
+
+import { motion } from "motion/react";
+import { useState, useEffect } from "react";
+import { AdminLayout } from "../../components/admin/AdminLayout";
+import { Webhook, Loader2, RotateCcw, Eye, X } from "lucide-react";
+import { webhookEventsAPI } from "@/lib/api";
+
+type WebhookEventStatus = "RECEIVED" | "PROCESSING" | "PROCESSED" | "FAILED" | "IGNORED";
+
+interface WebhookEvent {
+  id: string;
+  stripeEventId: string;
+  type: string;
+  status: WebhookEventStatus;
+  error: string | null;
+  attempts: number;
+  processedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  payload?: unknown;
+}
+
+type StatusFilter = "all" | WebhookEventStatus;
+
+const STATUS_FILTERS: StatusFilter[] = ["all", "FAILED", "PROCESSED", "IGNORED", "PROCESSING", "RECEIVED"];
+
+const getStatusColor = (status: WebhookEventStatus) => {
+  switch (status) {
+    case "PROCESSED":
+      return "bg-green-500/20 text-green-400";
+    case "FAILED":
+      return "bg-red-500/20 text-red-400";
+    case "PROCESSING":
+      return "bg-blue-500/20 text-blue-400";
+    case "IGNORED":
+      return "bg-slate-500/20 text-slate-400";
+    default:
+      return "bg-yellow-500/20 text-yellow-400";
+  }
+};
+
+export function AdminWebhooksPage() {
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [status, setStatus] = useState<StatusFilter>("all");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [failed, setFailed] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const [selectedEvent, setSelectedEvent] = useState<WebhookEvent | null>(null);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await webhookEventsAPI.getAll({
+          status: status === "all" ? undefined : status,
+          page,
+          limit: 20,
+        });
+        setEvents(response.events || []);
+        setFailed(response.failed || 0);
+        setTotalPages(response.pagination?.totalPages || 1);
+        setTotal(response.pagination?.total || 0);
+      } catch (err: any) {
+        console.error('Error fetching webhook events:', err);
+        setError(err.response?.data?.error || 'Failed to load webhook events');
+        setEvents([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [status, page]);
+
+  const handleView = async (event: WebhookEvent) => {
+    try {
+      const response = await webhookEventsAPI.getById(event.id);
+      setSelectedEvent(response.event);
+    } catch (err: any) {
+      console.error('Error fetching webhook event:', err);
+      alert(err.response?.data?.error || 'Failed to load webhook event');
+    }
+  };
+
+  const handleReplay = async (event: WebhookEvent) => {
+    if (!confirm(`Re-run ${event.type} (${event.stripeEventId})?`)) return;
+
+    try {
+      setReplaying(event.id);
+      const response = await webhookEventsAPI.replay(event.id);
+      const updated: WebhookEvent = response.event;
+      setEvents(events.map(e => e.id === updated.id ? { ...updated, payload: undefined } : e));
+      if (selectedEvent?.id === updated.id) setSelectedEvent(updated);
+      if (updated.status !== "FAILED") setFailed(f => Math.max(0, f - 1));
+      alert(updated.status === "FAILED" ? `Replay failed: ${updated.error}` : response.message);
+    } catch (err: any) {
+      console.error('Error replaying webhook event:', err);
+      alert(err.response?.data?.error || 'Failed to replay webhook event');
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const canReplay = (event: WebhookEvent) => event.status === "FAILED" || event.status === "RECEIVED";
+
+  return (
+    <AdminLayout>
+      <div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-4 mb-4 sm:mb-6 md:mb-8">
+          <div className="flex items-center gap-2 sm:gap-3">
+            <h1 className="text-white text-2xl sm:text-3xl">Stripe Webhooks</h1>
+            <p className="text-slate-400 text-sm sm:text-base">{total} events</p>
+          </div>
+          {failed > 0 && (
+            <span className="bg-red-500/20 text-red-400 text-sm px-3 py-1 rounded-full self-start sm:self-auto">
+              {failed} failed
+            </span>
+          )}
+        </div>
+
+        {/* Tabs */}
+        <div className="flex flex-wrap gap-2 sm:gap-4 mb-6">
+          {STATUS_FILTERS.map((tab) => (
+            <button
+              key={tab}
+              onClick={() => {
+                setStatus(tab);
+                setPage(1);
+              }}
+              className={`px-4 sm:px-6 py-2 sm:py-3 rounded-lg transition-all capitalize ${status === tab
+                ? "bg-cyan-500 text-white"
+                : "bg-slate-800 text-slate-400 hover:bg-slate-700"
+                }`}
+            >
+              {tab.toLowerCase()}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4 mb-6">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-12">
+            <Webhook className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+            <p className="text-slate-400 text-lg">No webhook events found.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {events.map((event, index) => (
+              <motion.div
+                key={event.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.3, delay: index * 0.05 }}
+                className={`bg-slate-800 rounded-xl p-4 sm:p-5 border ${event.status === "FAILED" ? "border-red-500/40" : "border-slate-700"}`}
+              >
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3 sm:gap-4 items-start">
+                  <div className="md:col-span-3">
+                    <div className="flex flex-wrap items-center gap-3 mb-2">
+                      <span className="text-white text-sm font-mono">{event.type}</span>
+                      <span className={`text-xs px-2 py-1 rounded-full ${getStatusColor(event.status)}`}>
+                        {event.status}
+                      </span>
+                    </div>
+                    <p className="text-slate-500 text-xs mb-1 break-all">
+                      {event.stripeEventId} · {formatDate(event.createdAt)} · {event.attempts} attempt{event.attempts === 1 ? "" : "s"}
+                    </p>
+                    {event.error && (
+                      <p className="text-red-400 text-xs mt-2 break-words">{event.error}</p>
+                    )}
+                  </div>
+
+                  <div className="flex md:flex-col gap-2">
+                    <button
+                      onClick={() => handleView(event)}
+                      className="w-full bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg transition-all flex items-center justify-center gap-2 text-sm"
+                    >
+                      <Eye className="w-4 h-4" />
+                      View
+                    </button>
+                    {canReplay(event) && (
+                      <button
+                        onClick={() => handleReplay(event)}
+                        disabled={replaying === event.id}
+                        className="w-full bg-cyan-500 hover:bg-cyan-600 text-white px-4 py-2 rounded-lg transition-all flex items-center justify-center gap-2 text-sm disabled:opacity-50"
+                      >
+                        {replaying === event.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                        Replay
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-center gap-3 mt-6">
+            <button
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-slate-400 text-sm">Page {page} of {totalPages}</span>
+            <button
+              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+              className="px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+
+        {/* Event Details Modal */}
+        {selectedEvent && (
+          <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="bg-slate-800 rounded-xl p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-slate-700"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-white text-2xl">Event Details</h2>
+                <button
+                  onClick={() => setSelectedEvent(null)}
+                  className="text-slate-400 hover:text-white transition-colors"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-slate-400 mb-1 text-sm">Type:</p>
+                    <p className="text-white font-mono text-sm">{selectedEvent.type}</p>
+                  </div>
+                  <div>
+                    <p className="text-slate-400 mb-1 text-sm">Status:</p>
+                    <span className={`text-xs px-2 py-1 rounded-full ${getStatusColor(selectedEvent.status)}`}>
+                      {selectedEvent.status}
+                    </span>
+                  </div>
+                  <div>
+                    <p className="text-slate-400 mb-1 text-sm">Stripe Event ID:</p>
+                    <p className="text-white font-mono text-sm break-all">{selectedEvent.stripeEventId}</p>
+                  </div>
+                  <div>
+                    <p className="text-slate-400 mb-1 text-sm">Attempts:</p>
+                    <p className="text-white text-sm">{selectedEvent.attempts}</p>
+                  </div>
+                  <div>
+                    <p className="text-slate-400 mb-1 text-sm">Received:</p>
+                    <p className="text-white text-sm">{formatDate(selectedEvent.createdAt)}</p>
+                  </div>
+                  <div>
+                    <p className="text-slate-400 mb-1 text-sm">Processed:</p>
+                    <p className="text-white text-sm">{selectedEvent.processedAt ? formatDate(selectedEvent.processedAt) : "—"}</p>
+                  </div>
+                </div>
+
+                {selectedEvent.error && (
+                  <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4">
+                    <p className="text-red-400 text-sm break-words">{selectedEvent.error}</p>
+                  </div>
+                )}
+
+                <div>
+                  <p className="text-slate-400 mb-2 text-sm">Payload:</p>
+                  <pre className="bg-slate-900 text-slate-300 text-xs rounded-lg p-4 overflow-x-auto max-h-96">
+                    {JSON.stringify(selectedEvent.payload, null, 2)}
+                  </pre>
+                </div>
+
+                {canReplay(selectedEvent) && (
+                  <button
+                    onClick={() => handleReplay(selectedEvent)}
+                    disabled={replaying === selectedEvent.id}
+                    className="w-full bg-cyan-500 hover:bg-cyan-600 text-white px-4 py-2 rounded-lg transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                  >
+                    {replaying === selectedEvent.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                    Replay Event
+                  </button>
+                )}
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default AdminWebhooksPage;